@@ -7,6 +7,8 @@ const config: Config.InitialOptions = {
     {
       rootDir: 'packages/studio-be/src',
       testMatch: ['<rootDir>/**/*.test.ts'],
+      // Mirrors the "baseUrl" of the backend tsconfig so absolute imports (e.g. 'common/action') resolve
+      modulePaths: ['<rootDir>'],
       displayName: { name: 'backend', color: 'red' },
       testEnvironment: 'node',
       transform: {
@@ -17,6 +19,10 @@ const config: Config.InitialOptions = {
     {
       rootDir: 'packages/studio-ui/src/web',
       testMatch: ['<rootDir>/**/*.test.ts'],
+      // Mirrors the "paths" of the frontend tsconfig, the common modules are shared with the backend
+      moduleNameMapper: { '^common/(.*)$': '<rootDir>/../../../studio-be/src/common/$1' },
+      // The common modules use globals of the backend, which the frontend typings don't declare
+      globals: { 'ts-jest': { isolatedModules: true } },
       displayName: { name: 'ui', color: 'blue' },
       testEnvironment: 'jsdom',
       transform: {
@@ -0,0 +1,104 @@
+import { applyFlowChanges, computeFlowChanges } from './flow-changes'
+import { FlowView, NodeView } from './typings'
+
+const makeFlow = (nodes: any[], extra: Partial<FlowView> = {}): FlowView =>
+  <FlowView>{
+    name: 'main.flow.json',
+    location: 'main.flow.json',
+    version: '0.0.1',
+    startNode: 'entry',
+    links: [],
+    nodes: nodes.map((node) => ({ x: 0, y: 0, onEnter: [], onReceive: null, next: [], ...node })),
+    ...extra
+  }
+
+const getNode = (flow: FlowView, id: string) => (flow.nodes as NodeView[]).find((x) => x.id === id)
+
+describe('computeFlowChanges', () => {
+  test('lists node-level changes', () => {
+    const base = makeFlow([
+      { id: '1', name: 'entry' },
+      { id: '2', name: 'deleted' }
+    ])
+    const next = makeFlow(
+      [
+        { id: '1', name: 'entry', x: 100, onEnter: ['say #!builtin_text-abc'] },
+        { id: '3', name: 'created' }
+      ],
+      { startNode: 'created', links: [{ source: '1', target: '3', points: [] }] }
+    )
+
+    expect(computeFlowChanges(base, next).map((x) => x.type)).toEqual([
+      'update_node',
+      'move_node',
+      'update_links',
+      'create_node',
+      'delete_node',
+      'update_flow'
+    ])
+  })
+
+  test('ignores display-only properties', () => {
+    const base = makeFlow([{ id: '1', name: 'entry' }])
+    const next = makeFlow([{ id: '1', name: 'entry', lastModified: new Date() }])
+    expect(computeFlowChanges(base, next)).toEqual([])
+  })
+})
+
+describe('applyFlowChanges', () => {
+  const base = makeFlow([
+    { id: '1', name: 'entry' },
+    { id: '2', name: 'other' }
+  ])
+
+  test('merges changes made on different nodes', () => {
+    const mine = makeFlow([
+      { id: '1', name: 'entry', onEnter: ['mine {}'] },
+      { id: '2', name: 'other' }
+    ])
+    const theirs = makeFlow([
+      { id: '1', name: 'entry' },
+      { id: '2', name: 'other', onEnter: ['theirs {}'], x: 50 }
+    ])
+
+    const { flow, conflicts } = applyFlowChanges(theirs, computeFlowChanges(base, mine))
+
+    expect(conflicts).toEqual([])
+    expect(getNode(flow, '1')!.onEnter).toEqual(['mine {}'])
+    expect(getNode(flow, '2')!.onEnter).toEqual(['theirs {}'])
+    expect(getNode(flow, '2')!.x).toEqual(50)
+  })
+
+  test('reports conflicts on the same node', () => {
+    const mine = makeFlow([
+      { id: '1', name: 'entry', onEnter: ['mine {}'] },
+      { id: '2', name: 'other' }
+    ])
+    const theirs = makeFlow([{ id: '1', name: 'entry', onEnter: ['theirs {}'] }])
+
+    const { flow, conflicts } = applyFlowChanges(theirs, computeFlowChanges(base, mine))
+
+    expect(conflicts.map((x) => [x.node, x.change.type])).toEqual([['entry', 'update_node']])
+    expect(getNode(flow, '1')!.onEnter).toEqual(['theirs {}'])
+  })
+
+  test('identical changes are not conflicts', () => {
+    const mine = makeFlow([{ id: '1', name: 'entry', onEnter: ['same {}'] }])
+
+    const { conflicts } = applyFlowChanges(mine, computeFlowChanges(base, mine))
+    expect(conflicts).toEqual([])
+  })
+
+  test('deleting a node modified by someone else is a conflict', () => {
+    const mine = makeFlow([{ id: '1', name: 'entry' }])
+    const theirs = makeFlow([
+      { id: '1', name: 'entry' },
+      { id: '2', name: 'other', onEnter: ['theirs {}'] }
+    ])
+
+    const { flow, conflicts } = applyFlowChanges(theirs, computeFlowChanges(base, mine))
+
+    expect(conflicts.map((x) => x.change.type)).toEqual(['delete_node'])
+    expect(getNode(flow, '2')).toBeDefined()
+  })
+})
@@ -0,0 +1,143 @@
+import _ from 'lodash'
+
+import { FlowChange, FlowChangeConflict, FlowProperties, FlowView, NodeLinkView, NodeView } from './typings'
+
+const FLOW_PROPERTIES: (keyof FlowProperties)[] = [
+  'startNode',
+  'timeoutNode',
+  'catchAll',
+  'skillData',
+  'label',
+  'description'
+]
+// Those are only used to display the node, they are not part of its content
+const VIEW_PROPERTIES = ['x', 'y', 'lastModified']
+
+const normalize = (obj: object | undefined) => _.omitBy(_.omit(obj, VIEW_PROPERTIES), _.isNil)
+
+const isSameNode = (a: NodeView | undefined, b: NodeView | undefined) => _.isEqual(normalize(a), normalize(b))
+
+const isSameProperty = (a: any, b: any) => _.isEqual(a ?? undefined, b ?? undefined)
+
+const sortLinks = (links: NodeLinkView[]) => _.sortBy(links, (link) => `${link.source}-${link.target}`)
+
+const getNodeLinks = (flow: Partial<FlowView> | undefined, nodeId: string) =>
+  sortLinks((flow?.links || []).filter((link) => link.source === nodeId))
+
+/**
+ * Lists the modifications required to go from the base version of a flow to the next one
+ */
+export const computeFlowChanges = (base: Partial<FlowView> | undefined, next: FlowView): FlowChange[] => {
+  const baseNodes = _.keyBy(base?.nodes || [], 'id')
+  const nextNodes = _.keyBy(next.nodes, 'id')
+  const changes: FlowChange[] = []
+
+  for (const node of next.nodes) {
+    const id = node.id!
+    const baseNode = baseNodes[id]
+    const cleanNode = <NodeView>_.omit(node, 'lastModified')
+
+    if (!baseNode) {
+      changes.push({ type: 'create_node', node: cleanNode })
+    } else {
+      if (!isSameNode(baseNode, node)) {
+        changes.push({ type: 'update_node', node: cleanNode, base: <NodeView>_.omit(baseNode, 'lastModified') })
+      }
+      if (baseNode.x !== node.x || baseNode.y !== node.y) {
+        changes.push({ type: 'move_node', nodeId: id, x: node.x, y: node.y })
+      }
+    }
+
+    const links = getNodeLinks(next, id)
+    if (!_.isEqual(getNodeLinks(base, id), links)) {
+      changes.push({ type: 'update_links', nodeId: id, links })
+    }
+  }
+
+  for (const baseNode of base?.nodes || []) {
+    if (!nextNodes[baseNode.id!]) {
+      changes.push({ type: 'delete_node', base: <NodeView>_.omit(baseNode, 'lastModified') })
+    }
+  }
+
+  const properties = FLOW_PROPERTIES.filter((prop) => !isSameProperty(base?.[prop], next[prop]))
+  if (properties.length) {
+    changes.push({ type: 'update_flow', properties: _.pick(next, properties), base: _.pick(base, properties) })
+  }
+
+  return changes
+}
+
+/**
+ * Merges modifications into the current version of a flow. A modification is rejected as a conflict when the
+ * element it modifies was also changed since the version it was made from, unless both changes are identical.
+ * Positions and links only affect the display of the flow, the last modification is always kept.
+ */
+export const applyFlowChanges = (
+  flow: FlowView,
+  changes: FlowChange[]
+): { flow: FlowView; conflicts: FlowChangeConflict[] } => {
+  let nodes = [...flow.nodes]
+  let links = [...(flow.links || [])]
+  const properties: FlowProperties = _.pick(flow, FLOW_PROPERTIES)
+  const conflicts: FlowChangeConflict[] = []
+
+  const findNode = (id: string | undefined) => nodes.find((x) => x.id === id)
+  const isNameTaken = (node: NodeView) => nodes.some((x) => x.name === node.name && x.id !== node.id)
+  const replaceNode = (node: NodeView) => (nodes = nodes.map((x) => (x.id === node.id ? node : x)))
+
+  for (const change of changes) {
+    if (change.type === 'create_node' || change.type === 'update_node') {
+      const current = findNode(change.node.id)
+      const base = change.type === 'update_node' ? change.base : undefined
+
+      if (isSameNode(current, change.node)) {
+        continue
+      }
+
+      if ((change.type === 'update_node' && !current) || !isSameNode(current, base) || isNameTaken(change.node)) {
+        conflicts.push({ change, node: change.node.name, current })
+        continue
+      }
+
+      current ? replaceNode({ ...change.node, x: current.x, y: current.y }) : nodes.push(change.node)
+    } else if (change.type === 'delete_node') {
+      const current = findNode(change.base.id)
+      if (!current) {
+        continue
+      }
+
+      if (!isSameNode(current, change.base)) {
+        conflicts.push({ change, node: current.name, current })
+        continue
+      }
+
+      nodes = nodes.filter((x) => x.id !== current.id)
+    } else if (change.type === 'move_node') {
+      const current = findNode(change.nodeId)
+      current && replaceNode({ ...current, x: change.x, y: change.y })
+    } else if (change.type === 'update_links') {
+      links = [...links.filter((link) => link.source !== change.nodeId), ...change.links]
+    } else if (change.type === 'update_flow') {
+      const keys = Object.keys(change.properties)
+      const isConflicting = keys.some(
+        (key) =>
+          !isSameProperty(properties[key], change.base[key]) && !isSameProperty(properties[key], change.properties[key])
+      )
+
+      if (isConflicting) {
+        conflicts.push({ change, current: _.pick(properties, keys) })
+        continue
+      }
+
+      for (const key of keys) {
+        properties[key] = change.properties[key]
+      }
+    }
+  }
+
+  const nodeIds = nodes.map((x) => x.id)
+  links = links.filter((link) => nodeIds.includes(link.source) && nodeIds.includes(link.target))
+
+  return { flow: { ...flow, ...properties, nodes, links }, conflicts }
+}
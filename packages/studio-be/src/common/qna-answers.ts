@@ -0,0 +1,108 @@
+import _ from 'lodash'
+
+import { QnaAnswer, QnaAnswerSelection, QnaAnswerVariation, QnaCard, QnaEntry } from './typings'
+
+export const CONTENT_ANSWER_PREFIX = '#!'
+export const ANSWER_SELECTIONS: QnaAnswerSelection[] = ['random', 'roundRobin', 'first']
+/** Variations were always picked randomly before the selection was configurable */
+export const DEFAULT_ANSWER_SELECTION: QnaAnswerSelection = 'random'
+
+/** Before variations, the answers of a language were a list of texts and `#!` content element references */
+export type LegacyQnaAnswer = string[]
+export interface AnyQnaAnswers {
+  [lang: string]: QnaAnswer | LegacyQnaAnswer
+}
+
+type EditableVariation = Extract<QnaAnswerVariation, { type: 'text' | 'content' }>
+
+export const createAnswer = (
+  variations: QnaAnswerVariation[] = [],
+  selection: QnaAnswerSelection = DEFAULT_ANSWER_SELECTION
+): QnaAnswer => ({ selection, variations })
+
+/**
+ * Reads an answer in the legacy format, `#!` values being references to content elements
+ */
+export const toVariation = (answer: string): EditableVariation =>
+  answer.startsWith(CONTENT_ANSWER_PREFIX)
+    ? { type: 'content', contentId: answer.substr(CONTENT_ANSWER_PREFIX.length) }
+    : { type: 'text', text: answer }
+
+export const isEditableVariation = (variation: QnaAnswerVariation): variation is EditableVariation =>
+  variation.type === 'text' || variation.type === 'content'
+
+export const editableVariationToString = (variation: EditableVariation) =>
+  variation.type === 'text' ? variation.text : `${CONTENT_ANSWER_PREFIX}${variation.contentId}`
+
+/**
+ * Converts answers of the legacy format, answers already using variations are kept as is
+ */
+export const toQnaAnswers = (answers: AnyQnaAnswers = {}): QnaEntry['answers'] =>
+  _.mapValues(answers, (answer) =>
+    Array.isArray(answer) ? createAnswer(answer.filter((x) => x.trim()).map(toVariation)) : answer
+  )
+
+export const hasLegacyAnswers = (answers: AnyQnaAnswers = {}) => Object.values(answers).some(Array.isArray)
+
+/**
+ * Converts answers back to the legacy format. Only texts and content element references can be converted
+ */
+export const toLegacyAnswers = (answers: QnaEntry['answers'] = {}): { [lang: string]: LegacyQnaAnswer } =>
+  _.mapValues(answers, (answer) => answer.variations.filter(isEditableVariation).map(editableVariationToString))
+
+const getCardTexts = (card: QnaCard) => [card.title, card.subtitle, ...(card.actions || []).map((x) => x.title)]
+
+const getVariationTexts = (variation: QnaAnswerVariation): (string | undefined)[] => {
+  switch (variation.type) {
+    case 'text':
+      return [variation.text]
+    case 'content':
+      return [`${CONTENT_ANSWER_PREFIX}${variation.contentId}`]
+    case 'card':
+      return getCardTexts(variation)
+    case 'carousel':
+      return _.flatMap(variation.items, getCardTexts)
+    case 'choice':
+      return [variation.text, ...variation.choices.map((x) => x.title)]
+  }
+}
+
+/**
+ * Texts displayed by the variations of an answer, content elements being their reference
+ */
+export const getAnswerTexts = (answer?: QnaAnswer): string[] =>
+  _.compact(_.flatMap(answer?.variations || [], getVariationTexts))
+
+/** Ids of the content elements referenced by the answers of all languages, once per reference */
+export const getAnswerContentIds = (answers: QnaEntry['answers'] = {}): string[] =>
+  _.flatMap(Object.values(answers), ({ variations }) =>
+    _.compact(variations.map((x) => x.type === 'content' && x.contentId))
+  )
+
+const isEmptyVariation = (variation: QnaAnswerVariation) => variation.type === 'text' && !variation.text.trim()
+
+export const hasVariations = (answer?: QnaAnswer) => !!answer?.variations.some((x) => !isEmptyVariation(x))
+
+export const removeEmptyVariations = (answer: QnaAnswer): QnaAnswer => ({
+  ...answer,
+  variations: answer.variations.filter((x) => !isEmptyVariation(x))
+})
+
+/** Texts and content element references of an answer, which are edited as a list of strings */
+export const getEditableVariations = (answer?: QnaAnswer): string[] =>
+  (answer?.variations || []).filter(isEditableVariation).map(editableVariationToString)
+
+/**
+ * Replaces the texts and content element references of an answer, in order. Other variations keep their position
+ */
+export const setEditableVariations = (answer: QnaAnswer | undefined, items: string[]): QnaAnswer => {
+  const remaining = [...items]
+  const variations = (answer?.variations || []).reduce<QnaAnswerVariation[]>((result, variation) => {
+    if (!isEditableVariation(variation)) {
+      return [...result, variation]
+    }
+    return remaining.length ? [...result, toVariation(remaining.shift()!)] : result
+  }, [])
+
+  return createAnswer([...variations, ...remaining.map(toVariation)], answer?.selection)
+}
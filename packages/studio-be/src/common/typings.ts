@@ -1,7 +1,9 @@
 import {
+  ContentElement,
   Flow,
   FlowNode,
   IO,
+  NLU,
   ParsedContentType,
   RolloutStrategy,
   StageRequestApprovers,
@@ -88,16 +90,17 @@ export interface Stage {
   reviewSequence: 'serial' | 'parallel'
 }
 
-export interface FlowMutex {
-  lastModifiedBy: string
-  lastModifiedAt: Date
-  remainingSeconds?: number // backend calculate this because all clients time might be wrong
+export interface FlowPresence {
+  userEmail: string
+  flow: string
+  /** The node currently selected by the user, if any */
+  nodeId?: string
+  lastSeenAt: string
 }
 
 export type FlowView = Flow & {
   nodes: NodeView[]
   links: NodeLinkView[]
-  currentMutex?: FlowMutex
 }
 
 export interface NodeLinkView {
@@ -157,6 +160,36 @@ export type LocalActionDefinition = ActionDefinition & {
   hidden: boolean
 }
 
+export interface ActionCode {
+  name: string
+  scope: ActionScope
+  legacy: boolean
+  code: string
+}
+
+export type ActionRunState = Pick<EventCommonArgs, 'user' | 'temp' | 'session'>
+
+export interface ActionRunInput extends ActionRunState {
+  event: Partial<IO.IncomingEvent>
+  args: { [name: string]: any }
+}
+
+export interface ActionRunLog {
+  level: 'debug' | 'info' | 'warn' | 'error'
+  message: string
+}
+
+export interface ActionRunResult {
+  /** Variables of the user, flow and session once the action has run */
+  state: ActionRunState
+  returnValue?: any
+  logs: ActionRunLog[]
+  /** The stack trace refers to the lines of the action file */
+  error?: { message: string; stack?: string }
+  /** Time taken by the action, in ms */
+  duration: number
+}
+
 export interface ActionParameterDefinition {
   name: string
   description: string
@@ -169,12 +202,313 @@ export type ActionServerWithActions = ActionServer & {
   actions: ActionDefinition[] | undefined
 }
 
+export interface ActionServerStatus extends ActionServer {
+  /** Undefined until the server has been checked once */
+  available?: boolean
+  /** Duration of the last request, in ms */
+  latency?: number
+  lastError?: string
+  lastCheck?: Date
+}
+
 export interface NodeProblem {
   nodeName: string
   missingPorts: any
 }
 
-type QnaAction = 'text' | 'redirect' | 'text_redirect'
+export type FlowLintSeverity = 'error' | 'warning'
+
+export type FlowLintCode =
+  | 'unreachable_node'
+  | 'missing_node'
+  | 'missing_subflow'
+  | 'missing_content_element'
+  | 'missing_action'
+  | 'missing_action_server'
+  | 'invalid_action_args'
+  | 'missing_action_param'
+  | 'unknown_action_param'
+  | 'invalid_action_param_type'
+  | 'missing_intent'
+
+export interface FlowLintProblem {
+  flow: string
+  /** Absent when the problem is located in the flow-wide transitions (catchAll) */
+  node?: string
+  severity: FlowLintSeverity
+  code: FlowLintCode
+  message: string
+}
+
+export type FlowSnapshot = Omit<FlowView, 'name' | 'location'>
+
+export interface FlowRevisionSummary {
+  id: string
+  flow: string
+  author: string
+  createdOn: string
+  /** Names of the nodes added, removed or modified compared to the previous revision */
+  changedNodes: string[]
+}
+
+export type FlowRevision = FlowRevisionSummary & {
+  snapshot: FlowSnapshot
+}
+
+export type FlowNodeChangeType = 'added' | 'removed' | 'changed'
+
+export interface FlowNodeDiff {
+  id: string
+  name: string
+  type: FlowNodeChangeType
+  /** Properties of the node which were modified (eg: onEnter, onReceive, next) */
+  properties: string[]
+}
+
+export interface FlowDiff {
+  nodes: FlowNodeDiff[]
+  /** Flow-wide properties which were modified (eg: startNode, catchAll) */
+  properties: string[]
+}
+
+export type FlowProperties = Partial<
+  Pick<Flow, 'startNode' | 'timeoutNode' | 'catchAll' | 'skillData' | 'label' | 'description'>
+>
+
+/**
+ * A single modification made to a flow. Modifications made from an outdated version of the flow carry the
+ * version of the element they were made from (the base) so the conflicts can be detected when they are merged
+ */
+export type FlowChange =
+  | { type: 'create_node'; node: NodeView }
+  | { type: 'update_node'; node: NodeView; base: NodeView }
+  | { type: 'move_node'; nodeId: string; x: number; y: number }
+  | { type: 'delete_node'; base: NodeView }
+  | { type: 'update_links'; nodeId: string; links: NodeLinkView[] }
+  | { type: 'update_flow'; properties: FlowProperties; base: FlowProperties }
+
+export interface FlowChangeConflict {
+  change: FlowChange
+  /** Name of the node in conflict. Absent when the conflict is on the flow-wide properties */
+  node?: string
+  /** The version of the element which is currently saved, undefined if it was deleted */
+  current?: NodeView | FlowProperties
+}
+
+export interface FlowChangesResult {
+  flow: FlowView
+  conflicts: FlowChangeConflict[]
+}
+
+export type FlowBundleItemType = 'flow' | 'content' | 'action' | 'intent' | 'entity'
+
+export interface FlowBundleFlow {
+  name: string
+  /** Content of the .flow.json file */
+  flow: Omit<Flow, 'name' | 'location'>
+  /** Content of the .ui.json file */
+  ui: { nodes: { id: string; position: FlowPoint }[]; links: NodeLinkView[] }
+}
+
+export interface FlowBundleAction {
+  name: string
+  legacy: boolean
+  code: string
+}
+
+/**
+ * A flow with everything it needs to run in another bot: its subflows, the content elements it displays,
+ * the bot actions it runs, the intents its transitions depend on and the custom entities used by those intents
+ */
+export interface FlowBundle {
+  version: number
+  exportedOn: string
+  /** Name of the exported flow, other flows of the bundle are its subflows */
+  flow: string
+  flows: FlowBundleFlow[]
+  contentElements: Pick<ContentElement, 'id' | 'contentType' | 'formData'>[]
+  actions: FlowBundleAction[]
+  intents: NLU.IntentDefinition[]
+  entities: NLU.EntityDefinition[]
+}
+
+export interface FlowImportConflict {
+  type: FlowBundleItemType
+  /** Name of the element in the bundle (the id for content elements) */
+  name: string
+  /** An available name used when the element is renamed without providing one. Content elements get a new id */
+  suggestedName?: string
+}
+
+/**
+ * Skipping an element keeps the one already in the bot, renaming it imports it alongside the existing one.
+ * References to renamed elements are updated in the imported flows, intents and actions
+ */
+export interface FlowImportResolution {
+  action: 'skip' | 'rename'
+  name?: string
+}
+
+export type FlowImportResolutions = { [type in FlowBundleItemType]?: { [name: string]: FlowImportResolution } }
+
+export interface FlowImportResult {
+  /** False when nothing was written, either because it was a preview or because some conflicts are unresolved */
+  imported: boolean
+  conflicts: FlowImportConflict[]
+  /** Conflicts for which no resolution was provided */
+  unresolved: FlowImportConflict[]
+  /** Name of the exported flow once imported, it changes when the flow is renamed */
+  flow: string
+}
+
+/** A place where a content element is displayed or referenced */
+export interface ContentUsage {
+  type: 'Flow' | 'Q&A' | 'Content'
+  /** Id of the QnA or of the content element referencing it */
+  id?: string
+  name: string
+  node?: string
+  count: number
+}
+
+export type ContentImportStrategy = 'merge' | 'replace'
+
+export interface ContentImportInvalidElement {
+  id: string
+  contentType: string
+  errors: string[]
+}
+
+/**
+ * Compares the elements of an import file with those of the bot. Invalid elements are skipped during the import
+ */
+export interface ContentImportAnalysis {
+  cmsCount: number
+  fileCmsCount: number
+  newCount: number
+  updatedCount: number
+  unchangedCount: number
+  invalidElements: ContentImportInvalidElement[]
+  missingContentTypes: string[]
+}
+
+/**
+ * Content elements which aren't displayed by any flow or QnA (directly or through other elements)
+ * and media files which nothing references. Sizes are in bytes
+ */
+export interface ContentCleanupReport {
+  contentElements: { id: string; contentType: string; size: number }[]
+  media: { fileName: string; size: number }[]
+  totalSize: number
+}
+
+/** Everything unused is selected when a list is omitted */
+export interface ContentCleanupSelection {
+  contentElementIds?: string[]
+  mediaFiles?: string[]
+}
+
+export interface ContentCleanupResult {
+  dryRun: boolean
+  contentElementIds: string[]
+  mediaFiles: string[]
+  freedSize: number
+}
+
+/** Number of translatable strings, and how many of them are translated */
+export interface TranslationCoverage {
+  total: number
+  translated: number
+}
+
+export interface ContentTranslationStatus {
+  defaultLanguage: string
+  /** Coverage of the other languages of the bot */
+  languages: { [lang: string]: TranslationCoverage }
+  contentTypes: { [contentType: string]: { [lang: string]: TranslationCoverage } }
+  /** Elements with missing translations, with the path of the missing fields (e.g. `variations[1]`) per language */
+  elements: { id: string; contentType: string; missing: { [lang: string]: string[] } }[]
+}
+
+export interface ContentTranslationImportResult {
+  language: string
+  updatedElements: number
+  translatedStrings: number
+  /** Lines of the file which couldn't be imported */
+  errors: string[]
+}
+
+export type ContentBulkOperation =
+  | { type: 'replace'; language: string; find: string; replace: string; matchCase?: boolean }
+  /** Sets a field of the element in a language, the default language of the bot when it isn't specified */
+  | { type: 'setField'; field: string; language?: string; value: any }
+  /** Copies the fields of a language to another, existing values are only replaced when `overwrite` is set */
+  | { type: 'copyLanguage'; from: string; to: string; overwrite?: boolean }
+
+/**
+ * Elements are selected by id and/or by content type, every element is updated when neither is set
+ */
+export interface ContentBulkUpdateRequest {
+  ids?: string[]
+  contentType?: string
+  operation: ContentBulkOperation
+  preview?: boolean
+}
+
+export interface ContentBulkUpdateChange {
+  id: string
+  contentType: string
+  before: object
+  after: object
+}
+
+export interface ContentBulkUpdateResult {
+  preview: boolean
+  /** Elements which are (or would be) modified, unchanged elements aren't listed */
+  changes: ContentBulkUpdateChange[]
+  /** Elements which would be invalid after the update, they are never saved */
+  invalidElements: ContentImportInvalidElement[]
+}
+
+/** Part of a text of an element matching a search. Highlights are [start, end[ offsets in the text */
+export interface ContentSearchSnippet {
+  language: string
+  text: string
+  highlights: [number, number][]
+}
+
+export type QnaAction = 'text' | 'redirect' | 'text_redirect'
+
+/** How the bot picks the variation it sends when there are many. Round-robin goes through them in order */
+export type QnaAnswerSelection = 'random' | 'roundRobin' | 'first'
+
+export interface QnaCardAction {
+  title: string
+  action: 'Say something' | 'Open URL' | 'Postback'
+  text?: string
+  url?: string
+  payload?: string
+}
+
+export interface QnaCard {
+  title: string
+  subtitle?: string
+  image?: string
+  actions: QnaCardAction[]
+}
+
+/** Variations are either texts, references to content elements or payloads of rich content types */
+export type QnaAnswerVariation =
+  | { type: 'text'; text: string }
+  | { type: 'content'; contentId: string }
+  | ({ type: 'card' } & QnaCard)
+  | { type: 'carousel'; items: QnaCard[] }
+  | { type: 'choice'; text: string; choices: { title: string; value: string }[] }
+
+export interface QnaAnswer {
+  selection: QnaAnswerSelection
+  variations: QnaAnswerVariation[]
+}
 
 export interface QnaEntry {
   action: QnaAction
@@ -184,7 +518,7 @@ export interface QnaEntry {
     [lang: string]: string[]
   }
   answers: {
-    [lang: string]: string[]
+    [lang: string]: QnaAnswer
   }
   redirectFlow: string
   redirectNode: string
@@ -197,3 +531,261 @@ export interface QnaItem {
   saveError?: string
   data: QnaEntry
 }
+
+/** Filters of listed QnAs, items must match all of them */
+export interface QnaFilters {
+  /** Text searched in the questions and the id of items */
+  question?: string
+  /** Text searched in the answers of items */
+  answer?: string
+  contexts?: string[]
+  enabled?: boolean
+  actions?: QnaAction[]
+  redirectFlow?: string
+  /** Items are complete in a language when they have questions and an answer or a redirection in it */
+  language?: string
+  coverage?: 'complete' | 'missing'
+  /** Only items with these ids are listed */
+  ids?: string[]
+}
+
+export type QnaSortColumn = 'id' | 'modifiedOn'
+
+export interface QnaSortOrder {
+  column: QnaSortColumn
+  desc?: boolean
+}
+
+export type QnaExportFormat = 'json' | 'csv' | 'xlsx'
+
+/** Problems of a row of an imported spreadsheet. Rows are numbered from 1, which is the header */
+export interface QnaImportRowError {
+  row: number
+  errors: string[]
+}
+
+export type QnaImportAction = 'insert' | 'clear_insert'
+
+/** Interrupted jobs stopped updating while running, for example because the server restarted */
+export type QnaImportState = 'running' | 'completed' | 'error' | 'cancelled' | 'interrupted'
+
+/** Content elements are saved first, then questions. Previous questions are deleted last with clear_insert */
+export type QnaImportPhase = 'reading' | 'content' | 'questions' | 'clearing' | 'done'
+
+export interface QnaImportItemError {
+  /** Id of the QnA or content element */
+  id: string
+  errors: string[]
+}
+
+export interface QnaImportJob {
+  id: string
+  fileName: string
+  action: QnaImportAction
+  state: QnaImportState
+  phase: QnaImportPhase
+  /** Items of the current phase which were processed */
+  processed: number
+  total: number
+  /** Details of the last error when the job failed */
+  message?: string
+  /** Rows of spreadsheets which were skipped because they are invalid */
+  rowErrors: QnaImportRowError[]
+  /** Items which could not be saved, the others are still imported */
+  itemErrors: QnaImportItemError[]
+  startedBy?: string
+  startedOn: Date
+  updatedOn: Date
+  finishedOn?: Date
+}
+
+/**
+ * Exact duplicates are identical, normalized ones only differ by case, accents or punctuation
+ * and fuzzy ones have most of their words in common or are a few typos apart
+ */
+export type QnaDuplicateKind = 'exact' | 'normalized' | 'fuzzy'
+
+export interface QnaDuplicateQuestion {
+  /** Id of the QnA or name of the intent which contains the question */
+  id: string
+  source: 'qna' | 'intent'
+  text: string
+}
+
+export interface QnaDuplicateMatch {
+  /** Indexes of the matching questions in the cluster */
+  questions: [number, number]
+  kind: QnaDuplicateKind
+  /** Between 0 and 1, exact and normalized duplicates score 1 */
+  score: number
+}
+
+/** Questions of a language which are connected by matches. There are always at least two entries in a cluster */
+export interface QnaDuplicateCluster {
+  language: string
+  questions: QnaDuplicateQuestion[]
+  matches: QnaDuplicateMatch[]
+  /** Best score of the matches */
+  score: number
+}
+
+export type QnaHealthIssue =
+  | 'missingFlow'
+  | 'missingNode'
+  | 'missingTranslation'
+  | 'missingDefaultAnswer'
+  | 'disabled'
+  | 'matchesIntent'
+
+export interface QnaHealthProblem {
+  id: string
+  /** First question of the QnA in the default language, to display it */
+  question: string
+  /** Missing flow or node, languages missing a translation or intents with the same utterance */
+  details?: string[]
+}
+
+export type QnaHealthReport = { [issue in QnaHealthIssue]: QnaHealthProblem[] }
+
+export type UtteranceFileFormat = 'csv' | 'txt'
+
+export interface ImportedUtterance {
+  /** Line of the file, the header of CSV files is line 1 */
+  line: number
+  language: string
+  utterance: string
+}
+
+export interface UtteranceImportError {
+  line: number
+  message: string
+}
+
+export interface UtteranceConflict {
+  language: string
+  utterance: string
+  /** Other intents which already have the utterance */
+  intents: string[]
+}
+
+/** Duplicates and conflicts are skipped, as well as lines with errors */
+export interface UtteranceImportReport {
+  added: { [lang: string]: string[] }
+  /** Utterances already in the intent or repeated in the file */
+  duplicates: ImportedUtterance[]
+  conflicts: UtteranceConflict[]
+  errors: UtteranceImportError[]
+  /** Utterances aren't saved when previewing the import */
+  imported: boolean
+}
+
+export type NluWarning =
+  | { type: 'tooFewUtterances'; intent: string; language: string; count: number; minimum: number }
+  | { type: 'duplicateUtterance'; language: string; utterance: string; intents: string[] }
+  /** The score is the share of the vocabulary of both intents which they have in common, between 0 and 1 */
+  | { type: 'intentOverlap'; language: string; intents: [string, string]; score: number }
+  | { type: 'unusedSlot'; intent: string; slot: string }
+  | { type: 'undeclaredSlot'; intent: string; slot: string; language: string; utterance: string }
+  /** The synonym, or name, is used by several occurrences of the list entity */
+  | { type: 'duplicateSynonym'; entity: string; synonym: string; occurrences: string[] }
+
+export type NluWarningType = NluWarning['type']
+
+export interface NluAnalysis {
+  warnings: NluWarning[]
+}
+
+export interface NluTestCase {
+  id: string
+  utterance: string
+  language: string
+  /** Contexts of the prediction, the global context when empty */
+  contexts: string[]
+  /** Use "none" when the utterance shouldn't match any intent */
+  expectedIntent: string
+  /** Expected values of slots, by name. Other extracted slots are ignored */
+  expectedSlots: { [slot: string]: string }
+}
+
+export interface NluTestFailure {
+  /** The intent failed when the slot isn't set */
+  slot?: string
+  expected: string
+  received?: string
+}
+
+export interface NluTestResult {
+  testId: string
+  success: boolean
+  intent: string
+  confidence: number
+  failures: NluTestFailure[]
+  /** The prediction itself failed, e.g. when the model isn't trained */
+  error?: string
+}
+
+export interface NluConfusionMatrix {
+  /** Intents expected or predicted by the tests */
+  labels: string[]
+  /** Rows are expected intents and columns predicted ones, in the order of labels */
+  counts: number[][]
+}
+
+export interface NluTestReport {
+  runOn: Date
+  passed: number
+  failed: number
+  results: NluTestResult[]
+  confusionMatrix: NluConfusionMatrix
+}
+
+export type PatternIssueType = 'invalidPattern' | 'slowPattern' | 'unmatchedExample' | 'matchedNegativeExample'
+
+export interface PatternIssue {
+  type: PatternIssueType
+  /** Entities with errors can't be saved, warnings are only reported */
+  severity: 'error' | 'warning'
+  example?: string
+  message?: string
+}
+
+export interface PatternMatch {
+  start: number
+  end: number
+}
+
+export interface PatternValidation {
+  issues: PatternIssue[]
+  /** Matches of the pattern in each sample text, when the pattern is valid */
+  samples: { text: string; matches: PatternMatch[] }[]
+}
+
+export type AdvisorySeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical'
+
+export interface LibraryAdvisory {
+  id?: number | string
+  title: string
+  severity: AdvisorySeverity
+  /** Semver range of the affected versions */
+  vulnerableVersions: string
+  url?: string
+}
+
+export interface LibraryAuditEntry {
+  name: string
+  version: string
+  /** Whether the library was installed by the user, or is a dependency of one */
+  direct: boolean
+  license?: string
+  /** Undefined when the license is unknown */
+  licenseAllowed?: boolean
+  advisories: LibraryAdvisory[]
+}
+
+export interface LibraryAudit {
+  dependencies: LibraryAuditEntry[]
+  /** Reasons why the libraries don't respect the policy, installs are blocked when there are any */
+  violations: string[]
+  /** Whether the installed versions were checked against an advisory database */
+  advisoriesChecked: boolean
+}
@@ -79,6 +79,9 @@ export const EntityDefCreateSchema = Joi.object().keys({
   examples: Joi.array()
     .items(Joi.string())
     .default([]),
+  negativeExamples: Joi.array()
+    .items(Joi.string())
+    .default([]),
   occurrences: Joi.array()
     .items(EntityDefOccurrenceSchema)
     .default([]),
@@ -108,3 +111,82 @@ export const IntentDefCreateSchema = Joi.object().keys({
     .items(Joi.string())
     .default(['global'])
 })
+
+export const NluTestCaseSchema = Joi.object().keys({
+  utterance: Joi.string()
+    .trim()
+    .required(),
+  language: Joi.string().required(),
+  contexts: Joi.array()
+    .items(Joi.string())
+    .default([]),
+  expectedIntent: Joi.string().required(),
+  expectedSlots: Joi.object()
+    .pattern(/.*/, Joi.string())
+    .default({})
+})
+
+export const PatternTestSchema = Joi.object().keys({
+  pattern: Joi.string()
+    .allow('')
+    .required(),
+  matchCase: Joi.boolean().default(false),
+  examples: Joi.array()
+    .items(Joi.string())
+    .default([]),
+  negativeExamples: Joi.array()
+    .items(Joi.string())
+    .default([]),
+  samples: Joi.array()
+    .items(Joi.string())
+    .default([])
+})
+
+/** Actions can be in sub folders, e.g. "crm/create-lead" */
+export const ACTION_NAME_REGEX = /^[\w-]+(\/[\w-]+)*$/
+
+const ActionParamSchema = Joi.object().keys({
+  name: Joi.string()
+    .regex(/^[a-zA-Z_$][\w$]*$/)
+    .required(),
+  type: Joi.string()
+    .regex(/^[\w.<>|*]*$/)
+    .allow('')
+    .default('any'),
+  required: Joi.boolean().default(true),
+  default: Joi.string()
+    .allow('')
+    .default(''),
+  description: Joi.string()
+    .allow('')
+    .default('')
+})
+
+export const ActionCreateSchema = Joi.object().keys({
+  name: Joi.string()
+    .regex(ACTION_NAME_REGEX)
+    .required(),
+  legacy: Joi.boolean().default(true),
+  code: Joi.string().allow(''),
+  /** Used to generate the code of the action when none is given */
+  metadata: Joi.object().keys({
+    title: Joi.string().allow(''),
+    category: Joi.string().allow(''),
+    description: Joi.string().allow(''),
+    author: Joi.string().allow(''),
+    params: Joi.array()
+      .items(ActionParamSchema)
+      .default([])
+  })
+})
+
+export const ActionRunSchema = Joi.object().keys({
+  scope: Joi.string()
+    .valid(['bot', 'global'])
+    .default('bot'),
+  event: Joi.object().default({}),
+  user: Joi.object().default({}),
+  temp: Joi.object().default({}),
+  session: Joi.object().default({}),
+  args: Joi.object().default({})
+})
@@ -104,7 +104,7 @@ export class BotService {
     return this._botIds
   }
 
-  async updateBot(botId: string, updatedBot: Partial<BotConfig>): Promise<void> {
+  async updateBot(botId: string, updatedBot: Partial<BotConfig>, userEmail?: string): Promise<void> {
     const { error } = Joi.validate(updatedBot, BotEditSchema)
     if (error) {
       throw new InvalidOperationError(`An error occurred while updating the bot: ${error.message}`)
@@ -164,7 +164,7 @@ export class BotService {
     }
 
     if (actualBot.defaultLanguage !== updatedBot.defaultLanguage) {
-      await this.cms.translateContentProps(botId, actualBot.defaultLanguage, updatedBot.defaultLanguage!)
+      await this.cms.translateContentProps(botId, actualBot.defaultLanguage, updatedBot.defaultLanguage!, userEmail)
     }
 
     // This will regenerate previews for all the bot's languages
@@ -0,0 +1,39 @@
+import { ContentType } from 'botpress/sdk'
+
+import { applyBulkOperation } from './bulk-operations'
+
+const contentType = <ContentType>(<unknown>{
+  id: 'builtin_image',
+  jsonSchema: {
+    type: 'object',
+    properties: { title: { type: 'string' }, image: { type: 'string', $subtype: 'image' } }
+  }
+})
+
+const formData = { title$en: 'Our Shop and shop hours', image$en: '/media/shop.png', title$fr: 'Magasin' }
+
+describe('applyBulkOperation', () => {
+  test('replaces text literally, media are left untouched', () => {
+    const operation = { type: 'replace' as const, language: 'en', find: 'shop', replace: '$& store' }
+
+    expect(applyBulkOperation(formData, contentType, operation, 'en')).toEqual({
+      ...formData,
+      title$en: 'Our $& store and $& store hours'
+    })
+    expect(applyBulkOperation(formData, contentType, { ...operation, matchCase: true }, 'en')).toMatchObject({
+      title$en: 'Our Shop and $& store hours'
+    })
+  })
+
+  test('copies a language without overwriting existing values', () => {
+    const operation = { type: 'copyLanguage' as const, from: 'en', to: 'fr' }
+
+    expect(applyBulkOperation(formData, contentType, operation, 'en')).toEqual({
+      ...formData,
+      image$fr: '/media/shop.png'
+    })
+    expect(applyBulkOperation(formData, contentType, { ...operation, overwrite: true }, 'en')).toMatchObject({
+      title$fr: 'Our Shop and shop hours'
+    })
+  })
+})
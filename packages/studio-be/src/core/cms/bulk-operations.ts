@@ -0,0 +1,42 @@
+import { ContentType } from 'botpress/sdk'
+import { ContentBulkOperation } from 'common/typings'
+import _ from 'lodash'
+
+import { mapElementTexts } from './translations'
+
+/** The language in which the updated element is validated */
+export const getUpdatedLanguage = (operation: ContentBulkOperation, defaultLanguage: string) =>
+  operation.type === 'copyLanguage' ? operation.to : operation.language || defaultLanguage
+
+export const applyBulkOperation = (
+  formData: object,
+  contentType: ContentType,
+  operation: ContentBulkOperation,
+  defaultLanguage: string
+): object => {
+  switch (operation.type) {
+    case 'replace': {
+      const regex = new RegExp(_.escapeRegExp(operation.find), operation.matchCase ? 'g' : 'gi')
+      return mapElementTexts(formData, contentType, operation.language, (text) =>
+        text.replace(regex, () => operation.replace)
+      )
+    }
+
+    case 'setField':
+      return { ...formData, [`${operation.field}$${operation.language || defaultLanguage}`]: operation.value }
+
+    case 'copyLanguage':
+      return _.reduce(
+        formData,
+        (result, value, key) => {
+          const [prop, lang] = key.split('$')
+          const target = `${prop}$${operation.to}`
+          if (lang === operation.from && (operation.overwrite || _.isEmpty(formData[target]))) {
+            result[target] = _.cloneDeep(value)
+          }
+          return result
+        },
+        { ...formData }
+      )
+  }
+}
@@ -0,0 +1,35 @@
+import { ContentElement } from 'botpress/sdk'
+
+import { findUnusedElements, getMediaReferences } from './cleanup'
+
+const makeElement = (id: string, formData: object) => <ContentElement>(<unknown>{ id, contentType: 'type', formData })
+
+describe('getMediaReferences', () => {
+  test('finds media URLs in nested and markdown values', () => {
+    const data = {
+      image$en: '/api/v1/bots/bot/media/abc-picture.png',
+      items$en: [{ image: 'http://localhost:3000/api/v1/bots/bot/media/def%20file.jpg' }],
+      text$en: 'Look ![](/api/v1/bots/bot/media/ghi.gif) and ![](/api/v1/bots/bot/media/abc-picture.png)'
+    }
+
+    expect(getMediaReferences(data)).toEqual(['abc-picture.png', 'def file.jpg', 'ghi.gif'])
+  })
+})
+
+describe('findUnusedElements', () => {
+  test('elements referenced by used elements are used', () => {
+    const elements = [
+      makeElement('carousel', { items$en: ['##ref(card-a)'] }),
+      makeElement('card-a', {}),
+      makeElement('orphan-carousel', { items$en: ['##ref(card-b)'] }),
+      makeElement('card-b', {})
+    ]
+    const usage = {
+      carousel: [{ type: 'Flow' as const, name: 'main.flow.json', node: 'entry', count: 1 }],
+      'card-a': [{ type: 'Content' as const, id: 'carousel', name: 'carousel', count: 1 }],
+      'card-b': [{ type: 'Content' as const, id: 'orphan-carousel', name: 'orphan-carousel', count: 1 }]
+    }
+
+    expect(findUnusedElements(elements, usage).map((x) => x.id)).toEqual(['orphan-carousel', 'card-b'])
+  })
+})
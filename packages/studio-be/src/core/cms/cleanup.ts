@@ -0,0 +1,49 @@
+import { ContentElement } from 'botpress/sdk'
+import _ from 'lodash'
+
+import { collectStrings, ContentUsageIndex, getContentRefs } from './usage'
+
+const MEDIA_PATH = '/media/'
+const MEDIA_URL_REGEX = /\/media\/[^\s"'()?#]+/g
+
+const decodeFileName = (fileName: string) => {
+  try {
+    return decodeURIComponent(fileName)
+  } catch (err) {
+    return fileName
+  }
+}
+
+/**
+ * Lists the media files referenced by public URLs (e.g. `/api/v1/bots/bot/media/file.png`) anywhere in the data,
+ * including URLs inside markdown or html
+ */
+export const getMediaReferences = (data: any): string[] =>
+  _.uniq(
+    _.flatMap(collectStrings(data), (value) =>
+      (value.match(MEDIA_URL_REGEX) || []).map((match) => decodeFileName(match.substring(MEDIA_PATH.length)))
+    )
+  )
+
+/**
+ * Elements are used when a flow or QnA displays them, or when a used element references them
+ */
+export const findUnusedElements = (elements: ContentElement[], usage: ContentUsageIndex): ContentElement[] => {
+  const elementsById = _.keyBy(elements, 'id')
+  const used = new Set(
+    elements.filter(({ id }) => usage[id]?.some(({ type }) => type !== 'Content')).map(({ id }) => id)
+  )
+
+  const queue = [...used]
+  while (queue.length) {
+    const element = elementsById[queue.shift()!]
+    for (const ref of getContentRefs(element?.formData || {})) {
+      if (!used.has(ref)) {
+        used.add(ref)
+        queue.push(ref)
+      }
+    }
+  }
+
+  return elements.filter(({ id }) => !used.has(id))
+}
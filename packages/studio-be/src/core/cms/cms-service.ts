@@ -1,11 +1,22 @@
-import { ContentElement, ContentType, IO, KnexExtended, Logger, SearchParams } from 'botpress/sdk'
-import { IDisposeOnExit } from 'common/typings'
+import { ContentElement, ContentType, Flow, IO, KnexExtended, Logger, SearchParams } from 'botpress/sdk'
+import { ObjectCache } from 'common/object-cache'
+import {
+  ContentCleanupReport,
+  ContentCleanupResult,
+  ContentCleanupSelection,
+  ContentTranslationImportResult,
+  ContentTranslationStatus,
+  ContentUsage,
+  IDisposeOnExit,
+  QnaItem
+} from 'common/typings'
 import { coreActions } from 'core/app/core-client'
 import { GhostService } from 'core/bpfs'
 import { ConfigProvider } from 'core/config'
 import { JobService } from 'core/distributed/job-service'
 import { LoggerProvider } from 'core/logger'
 import { MediaServiceProvider } from 'core/media'
+import { BadRequestError } from 'core/routers/errors'
 import { TYPES } from 'core/types'
 import { inject, injectable, tagged } from 'inversify'
 import Joi from 'joi'
@@ -14,15 +25,29 @@ import { nanoid } from 'nanoid'
 import path from 'path'
 import { VError } from 'verror'
 
+import { findUnusedElements, getMediaReferences } from './cleanup'
 import { CodeFile, SafeCodeSandbox } from './code-sandbox'
+import { ContentSearchIndex } from './search-index'
+import { applyTranslations, getTranslatableStrings, getTranslationStatus, TranslatableString } from './translations'
+import { ContentUsageIndex, indexContentRefs, indexFlowUsage, indexQnaUsage } from './usage'
 
-const UNLIMITED_ELEMENTS = -1
+export const UNLIMITED_ELEMENTS = -1
+/** Files referencing content elements, matched against paths relative to the data folder */
+const USAGE_SOURCES_REGEX = /^bots\/([^/]+)(?:\/?$|\/(?:flows|qna|content-elements)(?:\/|$))/i
 export const DefaultSearchParams: SearchParams = {
   sortOrder: [{ column: 'createdOn' }],
   from: 0,
   count: 50
 }
 
+export interface ContentSearchParams extends SearchParams {
+  /** Only texts in this language are searched */
+  searchLanguage?: string
+  createdBy?: string
+  modifiedAfter?: Date
+  modifiedBefore?: Date
+}
+
 export const CmsImportSchema = Joi.array().items(
   Joi.object().keys({
     id: Joi.string().required(),
@@ -44,6 +69,9 @@ export class CMSService implements IDisposeOnExit {
 
   private contentTypes: ContentType[] = []
   private filesById = {}
+  private searchIndex = new ContentSearchIndex()
+  /** Usage of the elements of each bot, computed from all its flows, QnAs and elements when first requested */
+  private usageIndexes: { [botId: string]: Promise<ContentUsageIndex> } = {}
   private sandbox!: SafeCodeSandbox
 
   constructor(
@@ -55,8 +83,11 @@ export class CMSService implements IDisposeOnExit {
     @inject(TYPES.ConfigProvider) private configProvider: ConfigProvider,
     @inject(TYPES.InMemoryDatabase) private memDb: KnexExtended,
     @inject(TYPES.JobService) private jobService: JobService,
-    @inject(TYPES.MediaServiceProvider) private mediaServiceProvider: MediaServiceProvider
-  ) {}
+    @inject(TYPES.MediaServiceProvider) private mediaServiceProvider: MediaServiceProvider,
+    @inject(TYPES.ObjectCache) private cache: ObjectCache
+  ) {
+    this._listenForCacheInvalidation()
+  }
 
   disposeOnExit() {
     this.sandbox?.dispose()
@@ -123,6 +154,7 @@ export class CMSService implements IDisposeOnExit {
       })
 
       await this.recomputeElementsForBot(botId)
+      await this._indexElementsForBot(botId)
 
       return elements
     } catch (err) {
@@ -132,6 +164,24 @@ export class CMSService implements IDisposeOnExit {
 
   async clearElementsFromCache(botId: string) {
     await this.memDb(this.contentTable).where({ botId }).delete()
+    this.searchIndex.clear(botId)
+    delete this.usageIndexes[botId]
+  }
+
+  getSearchSnippet(botId: string, elementId: string, searchTerm: string, language?: string) {
+    return this.searchIndex.getSnippet(botId, elementId, searchTerm, language)
+  }
+
+  private async _indexElementsForBot(botId: string) {
+    const elements = await this.listContentElements(botId, undefined, {
+      ...DefaultSearchParams,
+      count: UNLIMITED_ELEMENTS
+    })
+    elements.forEach((element) => this._indexElement(botId, element))
+  }
+
+  private _indexElement(botId: string, element: ContentElement) {
+    this.searchIndex.upsert(botId, element, _.find(this.contentTypes, { id: element.contentType }))
   }
 
   private async _loadContentTypesFromFiles(): Promise<void> {
@@ -177,10 +227,10 @@ export class CMSService implements IDisposeOnExit {
   async listContentElements(
     botId: string,
     contentTypeId?: string,
-    params: SearchParams = DefaultSearchParams,
+    params: ContentSearchParams = DefaultSearchParams,
     language?: string
   ): Promise<ContentElement[]> {
-    const { searchTerm, ids, filters, sortOrder, from, count } = params
+    const { searchTerm, ids, filters, sortOrder, from, count, createdBy, modifiedAfter, modifiedBefore } = params
 
     let query = this.memDb(this.contentTable)
     query = query.where({ botId })
@@ -189,12 +239,6 @@ export class CMSService implements IDisposeOnExit {
       query = query.andWhere('contentType', contentTypeId)
     }
 
-    if (searchTerm) {
-      query = query.andWhere((builder) =>
-        builder.where('formData', 'like', `%${searchTerm}%`).orWhere('id', 'like', `%${searchTerm}%`)
-      )
-    }
-
     if (ids) {
       query = query.andWhere((builder) => builder.whereIn('id', ids))
     }
@@ -207,11 +251,31 @@ export class CMSService implements IDisposeOnExit {
       query = query.orderBy(sort.column, sort.desc ? 'desc' : 'asc')
     })
 
-    if (count !== UNLIMITED_ELEMENTS) {
-      query = query.limit(count)
+    let dbElements: any[]
+    if (searchTerm || createdBy || modifiedAfter || modifiedBefore) {
+      const hits = this.searchIndex.search(botId, {
+        searchTerm,
+        language: params.searchLanguage,
+        contentType: contentTypeId,
+        createdBy,
+        modifiedAfter,
+        modifiedBefore
+      })
+      const ranks = new Map(hits.map(({ id }, idx) => [id, idx]))
+
+      // Results are ranked by relevance unless another order is requested
+      dbElements = (await query).filter((x) => ranks.has(x.id))
+      if (searchTerm && !sortOrder?.length) {
+        dbElements = _.sortBy(dbElements, (x) => ranks.get(x.id))
+      }
+      dbElements = dbElements.slice(from, count === UNLIMITED_ELEMENTS ? undefined : from + count)
+    } else {
+      if (count !== UNLIMITED_ELEMENTS) {
+        query = query.limit(count)
+      }
+      dbElements = await query.offset(from)
     }
 
-    const dbElements = await query.offset(from)
     const elements: ContentElement[] = dbElements.map(this.transformDbItemToApi)
 
     return Promise.map(elements, (el) => (language ? this._translateElement(el, language) : el))
@@ -231,6 +295,220 @@ export class CMSService implements IDisposeOnExit {
     return Promise.map(apiElements, (el) => (language ? this._translateElement(el, language) : el))
   }
 
+  /**
+   * Finds where elements are used: in flows (including skills and their data), in QnA answers and in other elements
+   */
+  async getContentElementsUsage(botId: string): Promise<ContentUsageIndex> {
+    if (!this.usageIndexes[botId]) {
+      const loading = this._loadReferenceSources(botId).then(({ flows, qnas, elements }) =>
+        indexContentRefs(elements, indexQnaUsage(qnas, indexFlowUsage(flows)))
+      )
+      this.usageIndexes[botId] = loading
+
+      loading.catch(() => {
+        if (this.usageIndexes[botId] === loading) {
+          delete this.usageIndexes[botId]
+        }
+      })
+    }
+
+    return this.usageIndexes[botId]
+  }
+
+  /**
+   * Flows and QnAs are changed on any node of the cluster, so usage is computed again when their files are
+   * invalidated, or those of the elements. Folders invalidated at once (e.g. when a bot is imported) are included
+   */
+  private _listenForCacheInvalidation() {
+    this.cache.events.on('invalidation', (key: string) => {
+      const filePath = key.replace(/^[a-z]+::/i, '').replace(/^data\//, '')
+      const match = filePath.match(USAGE_SOURCES_REGEX)
+
+      if (match) {
+        delete this.usageIndexes[match[1]]
+      } else if ('bots/'.startsWith(filePath)) {
+        this.usageIndexes = {}
+      }
+    })
+  }
+
+  async getContentElementUsage(botId: string, id: string): Promise<ContentUsage[]> {
+    const index = await this.getContentElementsUsage(botId)
+    return index[id] || []
+  }
+
+  /**
+   * Lists the elements and media files nothing uses. Media referenced by unused elements isn't listed:
+   * it is deleted along with those elements
+   */
+  async getCleanupReport(botId: string): Promise<ContentCleanupReport> {
+    const { flows, qnas, elements } = await this._loadReferenceSources(botId)
+    const usage = indexContentRefs(elements, indexQnaUsage(qnas, indexFlowUsage(flows)))
+    const botConfig = await this.configProvider.getBotConfig(botId)
+
+    const referencedMedia = getMediaReferences([_.map(elements, 'formData'), flows, qnas, botConfig])
+    const mediaFiles = await this.mediaServiceProvider.forBot(botId).listFiles()
+
+    const contentElements = findUnusedElements(elements, usage).map(({ id, contentType, formData }) => ({
+      id,
+      contentType,
+      size: Buffer.byteLength(JSON.stringify(formData))
+    }))
+    const media = mediaFiles.filter(({ fileName }) => !referencedMedia.includes(fileName))
+
+    return {
+      contentElements,
+      media,
+      totalSize: _.sumBy(contentElements, 'size') + _.sumBy(media, 'size')
+    }
+  }
+
+  /**
+   * Deletes the selected elements and media files which are still unused, others are ignored
+   */
+  async applyCleanup(
+    botId: string,
+    selection: ContentCleanupSelection,
+    dryRun?: boolean
+  ): Promise<ContentCleanupResult> {
+    const report = await this.getCleanupReport(botId)
+    const isSelected = (list: string[] | undefined, value: string) => !list || list.includes(value)
+
+    const contentElements = report.contentElements.filter(({ id }) => isSelected(selection.contentElementIds, id))
+    const media = report.media.filter(({ fileName }) => isSelected(selection.mediaFiles, fileName))
+
+    if (!dryRun) {
+      if (contentElements.length) {
+        await this.deleteContentElements(botId, _.map(contentElements, 'id'))
+      }
+
+      const mediaService = this.mediaServiceProvider.forBot(botId)
+      await Promise.mapSeries(media, ({ fileName }) => mediaService.deleteFile(fileName))
+    }
+
+    return {
+      dryRun: !!dryRun,
+      contentElementIds: _.map(contentElements, 'id'),
+      mediaFiles: _.map(media, 'fileName'),
+      freedSize: _.sumBy(contentElements, 'size') + _.sumBy(media, 'size')
+    }
+  }
+
+  /**
+   * Compares the strings of the default language with their translation in the other languages of the bot
+   */
+  async getTranslationStatus(botId: string): Promise<ContentTranslationStatus> {
+    const { languages, defaultLanguage } = await this.configProvider.getBotConfig(botId)
+    const elements = await this.listContentElements(botId, undefined, {
+      ...DefaultSearchParams,
+      count: UNLIMITED_ELEMENTS
+    })
+
+    return getTranslationStatus(elements, this.contentTypes, languages, defaultLanguage)
+  }
+
+  async getUntranslatedStrings(botId: string, lang: string): Promise<TranslatableString[]> {
+    const defaultLanguage = await this._getDefaultLanguageForTranslation(botId, lang)
+    const elements = await this.listContentElements(botId, undefined, {
+      ...DefaultSearchParams,
+      count: UNLIMITED_ELEMENTS
+    })
+
+    return _.flatMap(elements, (element) => {
+      const contentType = _.find(this.contentTypes, { id: element.contentType })
+      return contentType ? getTranslatableStrings(element, contentType, defaultLanguage, lang) : []
+    }).filter((x) => !x.target)
+  }
+
+  /**
+   * Merges translated strings in the elements. Strings are identified by the id of their element
+   * and their path, e.g. `builtin_text-abc123#text`. Empty translations are ignored
+   */
+  async importTranslations(
+    botId: string,
+    lang: string,
+    translations: { id: string; target?: string }[],
+    userEmail?: string
+  ): Promise<ContentTranslationImportResult> {
+    const defaultLanguage = await this._getDefaultLanguageForTranslation(botId, lang)
+    const result: ContentTranslationImportResult = {
+      language: lang,
+      updatedElements: 0,
+      translatedStrings: 0,
+      errors: []
+    }
+
+    const translationsByElement = _.groupBy(
+      translations.filter((x) => x.target?.trim()),
+      (x) => x.id.split('#')[0]
+    )
+    const elements = await this.listContentElements(botId, undefined, {
+      ...DefaultSearchParams,
+      ids: Object.keys(translationsByElement),
+      count: UNLIMITED_ELEMENTS
+    })
+
+    for (const [elementId, units] of Object.entries(translationsByElement)) {
+      const element = _.find(elements, { id: elementId })
+      const contentType = element && _.find(this.contentTypes, { id: element.contentType })
+      if (!element || !contentType) {
+        result.errors.push(`Content element "${elementId}" doesn't exist`)
+        continue
+      }
+
+      const paths = getTranslatableStrings(element, contentType, defaultLanguage, lang).map((x) => x.path)
+      const values: _.Dictionary<string> = {}
+
+      for (const { id, target } of units) {
+        const path = id.substring(elementId.length + 1)
+        if (paths.includes(path)) {
+          values[path] = target!
+        } else {
+          result.errors.push(`"${id}" isn't a translatable string`)
+        }
+      }
+
+      if (!_.isEmpty(values)) {
+        const formData = applyTranslations(element.formData, contentType, defaultLanguage, lang, values)
+        await this.createOrUpdateContentElement(botId, element.contentType, formData, elementId, undefined, userEmail)
+
+        result.updatedElements++
+        result.translatedStrings += _.size(values)
+      }
+    }
+
+    return result
+  }
+
+  private async _getDefaultLanguageForTranslation(botId: string, lang: string): Promise<string> {
+    const { languages, defaultLanguage } = await this.configProvider.getBotConfig(botId)
+    if (!languages.includes(lang) || lang === defaultLanguage) {
+      throw new BadRequestError(`"${lang}" isn't a language to translate for this bot`)
+    }
+
+    return defaultLanguage
+  }
+
+  private async _loadReferenceSources(botId: string) {
+    const bpfs = this.ghost.forBot(botId)
+
+    const flowPaths = await bpfs.directoryListing('flows', '*.flow.json')
+    const flows = await Promise.map(flowPaths, async (name) => ({
+      ...(await bpfs.readFileAsObject<Flow>('flows', name)),
+      name
+    }))
+
+    const qnaPaths = await bpfs.directoryListing('qna', '*.json')
+    const qnas = await Promise.map(qnaPaths, (name) => bpfs.readFileAsObject<QnaItem>('qna', name))
+
+    const elements = await this.listContentElements(botId, undefined, {
+      ...DefaultSearchParams,
+      count: UNLIMITED_ELEMENTS
+    })
+
+    return { flows, qnas, elements }
+  }
+
   async countContentElements(botId?: string): Promise<number> {
     let query = this.memDb(this.contentTable)
 
@@ -261,31 +539,33 @@ export class CMSService implements IDisposeOnExit {
 
     await this.broadcastRemoveElements(botId, ids)
 
-    this.deleteMedia(botId, elements)
+    await this.deleteMedia(botId, elements)
 
     const contentTypes = _.uniq(_.map(elements, 'contentType'))
     await Promise.mapSeries(contentTypes, (contentTypeId) => this._writeElementsToFile(botId, contentTypeId))
   }
 
   getMediaFiles(formData): string[] {
-    const media = '/media/'
-    const iterator = (result: string[], value, key: string) => {
-      if (key.startsWith('image') && value && value.includes(media)) {
-        result.push(value.substr(value.indexOf(media) + media.length))
-      } else if (key.startsWith('items$') && value.length) {
-        value.forEach((e) => _.reduce(e, iterator, result))
-      }
-      return result
-    }
-    return _.reduce(formData, iterator, []).filter(Boolean)
+    return getMediaReferences(formData)
   }
 
-  deleteMedia(botId: string, elements: ContentElement[]) {
+  /**
+   * Deletes the media of removed elements, except files still used by the remaining elements (e.g. clones)
+   */
+  async deleteMedia(botId: string, elements: ContentElement[]) {
     const mediaService = this.mediaServiceProvider.forBot(botId)
-    _.map(elements, 'formData').forEach((formData) => {
-      const filesToDelete = this.getMediaFiles(formData)
-      filesToDelete.forEach((f) => mediaService.deleteFile(f))
+    const remaining = await this.listContentElements(botId, undefined, {
+      ...DefaultSearchParams,
+      count: UNLIMITED_ELEMENTS
     })
+    const usedFiles = getMediaReferences(_.map(remaining, 'formData'))
+
+    const filesToDelete = _.difference(getMediaReferences(_.map(elements, 'formData')), usedFiles)
+    await Promise.map(filesToDelete, (f) =>
+      mediaService
+        .deleteFile(f)
+        .catch((err) => this.logger.forBot(botId).attachError(err).warn(`Could not delete media "${f}"`))
+    )
   }
 
   async getAllContentTypes(botId?: string): Promise<{ enabled: ContentType[]; disabled: string[] }> {
@@ -333,7 +613,8 @@ export class CMSService implements IDisposeOnExit {
     contentTypeId: string,
     formData: object,
     contentElementId?: string,
-    language?: string
+    language?: string,
+    userEmail?: string
   ): Promise<string> {
     contentTypeId = contentTypeId.toLowerCase()
     const contentType = _.find(this.contentTypes, { id: contentTypeId })
@@ -368,7 +649,13 @@ export class CMSService implements IDisposeOnExit {
     }
 
     if (!(await this.elementIdExists(botId, contentElementId))) {
-      await this.broadcastAddElement(botId, body, contentElementId, contentType.id)
+      // Elements which weren't created by a user, e.g. from the SDK, are attributed to the admin
+      await this.broadcastAddElement(
+        botId,
+        { ...body, createdBy: userEmail || 'admin' },
+        contentElementId,
+        contentType.id
+      )
       const created = await this.getContentElement(botId, contentElementId)
 
       await coreActions.onModuleEvent('onElementChanged', { botId, action: 'create', element: created })
@@ -545,14 +832,14 @@ export class CMSService implements IDisposeOnExit {
     }, {})
   }
 
-  async translateContentProps(botId: string, fromLang: string | undefined, toLang: string) {
+  async translateContentProps(botId: string, fromLang: string | undefined, toLang: string, userEmail?: string) {
     const elements = await this.listContentElements(botId, undefined, { from: 0, count: UNLIMITED_ELEMENTS })
 
     for (const el of elements) {
       if (!fromLang) {
         // Translating a bot content from the original props
         const translatedProps = this.getTranslatedProps(el.formData, toLang)
-        await this.createOrUpdateContentElement(botId, el.contentType, translatedProps, el.id)
+        await this.createOrUpdateContentElement(botId, el.contentType, translatedProps, el.id, undefined, userEmail)
       } else {
         // When switching default language, we make sure that the default one has all content elements
         if (!this._hasTranslation(el.formData, toLang)) {
@@ -560,7 +847,14 @@ export class CMSService implements IDisposeOnExit {
           const originalProps = this.getOriginalProps(el.formData, contentType!, fromLang)
           const translatedProps = this.getTranslatedProps(originalProps, toLang)
 
-          await this.createOrUpdateContentElement(botId, el.contentType, { ...el.formData, ...translatedProps }, el.id)
+          await this.createOrUpdateContentElement(
+            botId,
+            el.contentType,
+            { ...el.formData, ...translatedProps },
+            el.id,
+            undefined,
+            userEmail
+          )
         }
       }
     }
@@ -610,6 +904,8 @@ export class CMSService implements IDisposeOnExit {
    */
   private async local__removeElementsFromCache(botId: string, elementIds: string[]): Promise<void> {
     await this.memDb(this.contentTable).where({ botId }).whereIn('id', elementIds).del()
+    this.searchIndex.remove(botId, elementIds)
+    delete this.usageIndexes[botId]
   }
 
   /**
@@ -624,7 +920,10 @@ export class CMSService implements IDisposeOnExit {
       .update({ ...body, modifiedOn: this.memDb.date.now() })
       .where({ id: contentElementId, botId })
 
-    return this.getContentElement(botId, contentElementId)
+    const element = await this.getContentElement(botId, contentElementId)
+    this._indexElement(botId, element)
+    delete this.usageIndexes[botId]
+    return element
   }
 
   /**
@@ -638,12 +937,14 @@ export class CMSService implements IDisposeOnExit {
   ): Promise<void> {
     await this.memDb(this.contentTable).insert({
       ...body,
-      createdBy: 'admin',
       createdOn: this.memDb.date.now(),
       modifiedOn: this.memDb.date.now(),
       id: elementId,
       contentType: contentTypeId
     })
+
+    this._indexElement(botId, await this.getContentElement(botId, elementId))
+    delete this.usageIndexes[botId]
   }
 
   /**
@@ -0,0 +1,59 @@
+import { ContentElement, ContentType } from 'botpress/sdk'
+
+import { ContentSearchIndex } from './search-index'
+
+const contentType = <ContentType>(<unknown>{
+  id: 'builtin_image',
+  jsonSchema: {
+    type: 'object',
+    properties: { title: { type: 'string' }, image: { type: 'string', $subtype: 'image' } }
+  }
+})
+
+const makeElement = (id: string, formData: object, extra: object = {}) =>
+  <ContentElement>(<unknown>{ id, contentType: 'builtin_image', formData, createdBy: 'admin', ...extra })
+
+describe('ContentSearchIndex', () => {
+  let index: ContentSearchIndex
+
+  beforeEach(() => {
+    index = new ContentSearchIndex()
+    index.upsert(
+      'bot',
+      makeElement('img-1', { title$en: 'Opening hours', title$fr: "Heures d'ouverture" }),
+      contentType
+    )
+    index.upsert(
+      'bot',
+      makeElement('img-2', { title$en: 'Our hours and hours', image$en: '/media/hours.png' }),
+      contentType
+    )
+    index.upsert('bot', makeElement('img-3', { title$en: 'Café menu' }, { createdBy: 'bob' }), contentType)
+  })
+
+  test('ranks elements matching every word of the query', () => {
+    expect(index.search('bot', { searchTerm: 'hours' }).map((x) => x.id)).toEqual(['img-2', 'img-1'])
+    expect(index.search('bot', { searchTerm: 'opening hours' }).map((x) => x.id)).toEqual(['img-1'])
+  })
+
+  test('ignores accents, matches prefixes and searches a single language', () => {
+    expect(index.search('bot', { searchTerm: 'cafe' }).map((x) => x.id)).toEqual(['img-3'])
+    expect(index.search('bot', { searchTerm: 'ouvert' }).map((x) => x.id)).toEqual(['img-1'])
+    expect(index.search('bot', { searchTerm: 'ouverture', language: 'en' })).toEqual([])
+  })
+
+  test('media fields are not indexed and removed elements are not found', () => {
+    index.remove('bot', ['img-1'])
+    expect(index.search('bot', { searchTerm: 'png' })).toEqual([])
+    expect(index.search('bot', { searchTerm: 'opening' })).toEqual([])
+  })
+
+  test('filters without a search term', () => {
+    expect(index.search('bot', { createdBy: 'bob' }).map((x) => x.id)).toEqual(['img-3'])
+  })
+
+  test('highlights matches in snippets', () => {
+    const snippet = index.getSnippet('bot', 'img-1', 'heure', 'fr')
+    expect(snippet).toEqual({ language: 'fr', text: "Heures d'ouverture", highlights: [[0, 6]] })
+  })
+})
@@ -0,0 +1,266 @@
+import { ContentElement, ContentType } from 'botpress/sdk'
+import { ContentSearchSnippet } from 'common/typings'
+import _ from 'lodash'
+
+import { getElementTexts } from './translations'
+
+export interface ContentSearchQuery {
+  searchTerm?: string
+  /** Only texts in this language are searched, otherwise the best matching language is used */
+  language?: string
+  contentType?: string
+  createdBy?: string
+  modifiedAfter?: Date
+  modifiedBefore?: Date
+}
+
+export interface ContentSearchHit {
+  id: string
+  score: number
+}
+
+interface IndexedElement {
+  id: string
+  contentType: string
+  createdBy?: string
+  modifiedOn?: Date
+  texts: _.Dictionary<string[]>
+  /** Occurrences of each term, by language */
+  terms: _.Dictionary<_.Dictionary<number>>
+}
+
+interface BotIndex {
+  elements: Map<string, IndexedElement>
+  /** Elements containing each term, by language */
+  postings: Map<string, Map<string, Set<string>>>
+}
+
+const WORD_REGEX = /[\p{L}\p{M}\p{N}]+/gu
+/** Terms starting with a word of the query count less than exact matches */
+const PREFIX_WEIGHT = 0.5
+const ID_WEIGHT = 2
+const SNIPPET_LENGTH = 160
+const SNIPPET_CONTEXT = 40
+
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+
+export const tokenize = (text: string): string[] => normalize(text).match(WORD_REGEX) || []
+
+const getHighlights = (text: string, queryTerms: string[]): [number, number][] => {
+  const highlights: [number, number][] = []
+  const regex = new RegExp(WORD_REGEX.source, 'gu')
+  let match: RegExpExecArray | null
+
+  while ((match = regex.exec(text))) {
+    const word = normalize(match[0])
+    if (queryTerms.some((term) => word.startsWith(term))) {
+      highlights.push([match.index, match.index + match[0].length])
+    }
+  }
+
+  return highlights
+}
+
+/**
+ * Keeps some context before the first match, longer texts are truncated with an ellipsis
+ */
+const makeSnippet = (language: string, text: string, highlights: [number, number][]): ContentSearchSnippet => {
+  const firstMatch = highlights[0][0]
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT)
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    start = space !== -1 && space < firstMatch ? space + 1 : start
+  }
+
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? '…' : ''
+  const offset = prefix.length - start
+
+  return {
+    language,
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: highlights
+      .filter(([matchStart]) => matchStart < end)
+      .map(([matchStart, matchEnd]): [number, number] => [matchStart + offset, Math.min(matchEnd, end) + offset])
+  }
+}
+
+/**
+ * In-memory inverted index of the texts of content elements, kept per bot and per language
+ */
+export class ContentSearchIndex {
+  private bots: _.Dictionary<BotIndex> = {}
+
+  upsert(botId: string, element: ContentElement, contentType?: ContentType) {
+    this.remove(botId, [element.id])
+
+    const index = (this.bots[botId] = this.bots[botId] || { elements: new Map(), postings: new Map() })
+    const texts = getElementTexts(element.formData, contentType)
+    const terms = _.mapValues(texts, (values) => _.countBy(_.flatMap(values, tokenize)))
+
+    index.elements.set(element.id, {
+      id: element.id,
+      contentType: element.contentType,
+      createdBy: element.createdBy,
+      modifiedOn: element.modifiedOn ? new Date(element.modifiedOn) : undefined,
+      texts,
+      terms
+    })
+
+    for (const [lang, counts] of Object.entries(terms)) {
+      const postings = index.postings.get(lang) || index.postings.set(lang, new Map()).get(lang)!
+      for (const term of Object.keys(counts)) {
+        const ids = postings.get(term) || postings.set(term, new Set()).get(term)!
+        ids.add(element.id)
+      }
+    }
+  }
+
+  remove(botId: string, ids: string[]) {
+    const index = this.bots[botId]
+    if (!index) {
+      return
+    }
+
+    for (const id of ids) {
+      const element = index.elements.get(id)
+      if (!element) {
+        continue
+      }
+
+      for (const [lang, counts] of Object.entries(element.terms)) {
+        const postings = index.postings.get(lang)!
+        for (const term of Object.keys(counts)) {
+          postings.get(term)?.delete(id)
+          !postings.get(term)?.size && postings.delete(term)
+        }
+      }
+      index.elements.delete(id)
+    }
+  }
+
+  clear(botId: string) {
+    delete this.bots[botId]
+  }
+
+  /**
+   * Returns the elements matching every word of the search term (or its id), ranked by relevance.
+   * Elements are sorted by modification date when there is no search term
+   */
+  search(botId: string, query: ContentSearchQuery): ContentSearchHit[] {
+    const index = this.bots[botId]
+    if (!index) {
+      return []
+    }
+
+    const queryTerms = _.uniq(tokenize(query.searchTerm || ''))
+    const scores = queryTerms.length ? this._getScores(index, queryTerms, query) : undefined
+    const hits: (ContentSearchHit & { modifiedOn?: Date })[] = []
+
+    for (const element of index.elements.values()) {
+      if (!this._matchesFilters(element, query)) {
+        continue
+      }
+
+      const score = scores ? scores.get(element.id) : 0
+      if (score !== undefined) {
+        hits.push({ id: element.id, score, modifiedOn: element.modifiedOn })
+      }
+    }
+
+    return _.orderBy(hits, ['score', (x) => x.modifiedOn?.getTime() || 0], ['desc', 'desc']).map(({ id, score }) => ({
+      id,
+      score
+    }))
+  }
+
+  /**
+   * Finds the text of an element with the most matches for the search term
+   */
+  getSnippet(botId: string, id: string, searchTerm: string, language?: string): ContentSearchSnippet | undefined {
+    const element = this.bots[botId]?.elements.get(id)
+    const queryTerms = _.uniq(tokenize(searchTerm))
+    if (!element || !queryTerms.length) {
+      return
+    }
+
+    const candidates = _.flatMap(language ? [language] : Object.keys(element.texts), (lang) =>
+      (element.texts[lang] || []).map((text) => ({ lang, text, highlights: getHighlights(text, queryTerms) }))
+    ).filter((x) => x.highlights.length)
+
+    const best = _.maxBy(candidates, (x) => x.highlights.length)
+    return best && makeSnippet(best.lang, best.text, best.highlights)
+  }
+
+  private _getScores(index: BotIndex, queryTerms: string[], query: ContentSearchQuery): Map<string, number> {
+    const languages = query.language ? [query.language] : [...index.postings.keys()]
+    const scores = new Map<string, number>()
+
+    for (const lang of languages) {
+      for (const [id, score] of this._getLanguageScores(index, lang, queryTerms)) {
+        scores.set(id, Math.max(scores.get(id) || 0, score))
+      }
+    }
+
+    const searchTerm = normalize(query.searchTerm!.trim())
+    for (const element of index.elements.values()) {
+      if (normalize(element.id).includes(searchTerm)) {
+        scores.set(element.id, (scores.get(element.id) || 0) + ID_WEIGHT)
+      }
+    }
+
+    return scores
+  }
+
+  /**
+   * Sums the score of each query term, which is the best among the terms it matches. Rare terms and
+   * those repeated in an element score more
+   */
+  private _getLanguageScores(index: BotIndex, lang: string, queryTerms: string[]): Map<string, number> {
+    const postings = index.postings.get(lang)
+    if (!postings) {
+      return new Map()
+    }
+
+    let scores: Map<string, number> | undefined
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, number>()
+
+      for (const [term, ids] of postings) {
+        if (!term.startsWith(queryTerm)) {
+          continue
+        }
+
+        const weight = (term === queryTerm ? 1 : PREFIX_WEIGHT) * Math.log(1 + index.elements.size / ids.size)
+        for (const id of ids) {
+          const count = index.elements.get(id)!.terms[lang][term]
+          termScores.set(id, Math.max(termScores.get(id) || 0, (weight * count) / (count + 1)))
+        }
+      }
+
+      scores = new Map(
+        [...termScores]
+          .filter(([id]) => !scores || scores.has(id))
+          .map(([id, score]): [string, number] => [id, score + (scores?.get(id) || 0)])
+      )
+    }
+
+    return scores!
+  }
+
+  private _matchesFilters(element: IndexedElement, query: ContentSearchQuery) {
+    const { contentType, createdBy, modifiedAfter, modifiedBefore } = query
+    const modifiedOn = element.modifiedOn?.getTime()
+
+    return (
+      (!contentType || element.contentType === contentType) &&
+      (!createdBy || element.createdBy === createdBy) &&
+      (!modifiedAfter || (modifiedOn !== undefined && modifiedOn >= modifiedAfter.getTime())) &&
+      (!modifiedBefore || (modifiedOn !== undefined && modifiedOn <= modifiedBefore.getTime()))
+    )
+  }
+}
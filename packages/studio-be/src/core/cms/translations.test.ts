@@ -0,0 +1,79 @@
+import { ContentElement, ContentType } from 'botpress/sdk'
+
+import { applyTranslations, getTranslatableStrings, getTranslationStatus } from './translations'
+
+const contentType = <ContentType>(<unknown>{
+  id: 'builtin_card',
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      image: { type: 'string', $subtype: 'image' },
+      actions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            action: { type: 'string', enum: ['Say something', 'Open URL'] },
+            title: { type: 'string' }
+          }
+        }
+      }
+    }
+  }
+})
+
+const element = <ContentElement>(<unknown>{
+  id: 'builtin_card-abc',
+  contentType: 'builtin_card',
+  formData: {
+    title$en: 'Hello',
+    title$fr: 'Bonjour',
+    image$en: '/media/picture.png',
+    actions$en: [{ action: 'Open URL', title: 'Website' }]
+  }
+})
+
+describe('getTranslatableStrings', () => {
+  test('lists texts only, with their translation', () => {
+    expect(getTranslatableStrings(element, contentType, 'en', 'fr')).toEqual([
+      { elementId: 'builtin_card-abc', contentType: 'builtin_card', path: 'title', source: 'Hello', target: 'Bonjour' },
+      {
+        elementId: 'builtin_card-abc',
+        contentType: 'builtin_card',
+        path: 'actions[0].title',
+        source: 'Website',
+        target: undefined
+      }
+    ])
+  })
+})
+
+describe('getTranslationStatus', () => {
+  test('counts translated strings and lists missing ones', () => {
+    const status = getTranslationStatus([element], [contentType], ['en', 'fr', 'es'], 'en')
+
+    expect(status.languages).toEqual({ fr: { total: 2, translated: 1 }, es: { total: 2, translated: 0 } })
+    expect(status.contentTypes.builtin_card.fr).toEqual({ total: 2, translated: 1 })
+    expect(status.elements).toEqual([
+      {
+        id: 'builtin_card-abc',
+        contentType: 'builtin_card',
+        missing: { fr: ['actions[0].title'], es: ['title', 'actions[0].title'] }
+      }
+    ])
+  })
+})
+
+describe('applyTranslations', () => {
+  test('initializes missing props from the default language', () => {
+    const formData = applyTranslations(element.formData, contentType, 'en', 'es', {
+      'actions[0].title': 'Sitio web'
+    })
+
+    expect(formData['title$es']).toBeUndefined()
+    expect(formData['image$es']).toEqual('/media/picture.png')
+    expect(formData['actions$es']).toEqual([{ action: 'Open URL', title: 'Sitio web' }])
+    expect(formData['actions$en']).toEqual([{ action: 'Open URL', title: 'Website' }])
+  })
+})
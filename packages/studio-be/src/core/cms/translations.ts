@@ -0,0 +1,212 @@
+import { ContentElement, ContentType } from 'botpress/sdk'
+import { ContentTranslationStatus, TranslationCoverage } from 'common/typings'
+import _ from 'lodash'
+
+export interface TranslatableString {
+  elementId: string
+  contentType: string
+  /** Path of the string in the element, e.g. `text` or `actions[0].title` */
+  path: string
+  source: string
+  target?: string
+}
+
+/** Media, dropdowns and other special fields aren't translated */
+const isTranslatable = (schema: any) =>
+  !schema || (schema.type === 'string' && !schema.enum && (!schema.$subtype || schema.$subtype === 'textarea'))
+
+const toPathString = (path: (string | number)[]) =>
+  path.reduce<string>((result, key) => (_.isNumber(key) ? `${result}[${key}]` : result ? `${result}.${key}` : key), '')
+
+const getTextPaths = (schema: any, value: any, path: (string | number)[]): { path: string; text: string }[] => {
+  if (_.isString(value)) {
+    return isTranslatable(schema) && value.trim() ? [{ path: toPathString(path), text: value }] : []
+  }
+
+  if (_.isArray(value)) {
+    return _.flatMap(value, (item, idx) => getTextPaths(schema?.items, item, [...path, idx]))
+  }
+
+  if (_.isPlainObject(value)) {
+    const keys = schema?.properties ? Object.keys(schema.properties) : Object.keys(value)
+    return _.flatMap(keys, (key) => getTextPaths(schema?.properties?.[key], value[key], [...path, key]))
+  }
+
+  return []
+}
+
+const getProperties = (contentType: ContentType): _.Dictionary<any> => (<any>contentType.jsonSchema)?.properties || {}
+
+/** Reads a value using a path starting with the name of the property, e.g. `actions[0].title` */
+const getTranslatedValue = (formData: object, path: string, lang: string) => {
+  const [prop, ...subPath] = _.toPath(path)
+  const value = formData[`${prop}$${lang}`]
+  return subPath.length ? _.get(value, subPath) : value
+}
+
+/**
+ * Lists the strings of the default language of an element along with their translation in the target language
+ */
+export const getTranslatableStrings = (
+  element: Pick<ContentElement, 'id' | 'contentType' | 'formData'>,
+  contentType: ContentType,
+  defaultLanguage: string,
+  lang: string
+): TranslatableString[] =>
+  _.flatMap(Object.entries(getProperties(contentType)), ([prop, schema]) =>
+    getTextPaths(schema, element.formData[`${prop}$${defaultLanguage}`], [prop])
+  ).map(({ path, text }) => {
+    const target = getTranslatedValue(element.formData, path, lang)
+
+    return {
+      elementId: element.id,
+      contentType: element.contentType,
+      path,
+      source: text,
+      target: _.isString(target) && target.trim() ? target : undefined
+    }
+  })
+
+export const getTranslationStatus = (
+  elements: ContentElement[],
+  contentTypes: ContentType[],
+  languages: string[],
+  defaultLanguage: string
+): ContentTranslationStatus => {
+  const contentTypesById = _.keyBy(contentTypes, 'id')
+  const otherLanguages = languages.filter((lang) => lang !== defaultLanguage)
+  const status: ContentTranslationStatus = { defaultLanguage, languages: {}, contentTypes: {}, elements: [] }
+
+  const addCount = (coverage: TranslationCoverage | undefined, strings: TranslatableString[]): TranslationCoverage => ({
+    total: (coverage?.total || 0) + strings.length,
+    translated: (coverage?.translated || 0) + strings.filter((x) => x.target).length
+  })
+
+  for (const lang of otherLanguages) {
+    status.languages[lang] = { total: 0, translated: 0 }
+  }
+
+  for (const element of elements) {
+    const contentType = contentTypesById[element.contentType]
+    if (!contentType) {
+      continue
+    }
+
+    const missing: { [lang: string]: string[] } = {}
+    for (const lang of otherLanguages) {
+      const strings = getTranslatableStrings(element, contentType, defaultLanguage, lang)
+
+      status.languages[lang] = addCount(status.languages[lang], strings)
+      _.set(
+        status.contentTypes,
+        [element.contentType, lang],
+        addCount(status.contentTypes[element.contentType]?.[lang], strings)
+      )
+
+      const missingPaths = strings.filter((x) => !x.target).map((x) => x.path)
+      if (missingPaths.length) {
+        missing[lang] = missingPaths
+      }
+    }
+
+    if (!_.isEmpty(missing)) {
+      status.elements.push({ id: element.id, contentType: element.contentType, missing })
+    }
+  }
+
+  return status
+}
+
+/**
+ * Merges translations, indexed by path, in the form data of an element. When a property isn't translated yet,
+ * it is initialized from the default language with its strings emptied, and untranslatable properties
+ * (e.g. images or the typing indicator) are copied as is
+ */
+export const applyTranslations = (
+  formData: object,
+  contentType: ContentType,
+  defaultLanguage: string,
+  lang: string,
+  translations: _.Dictionary<string>
+): object => {
+  const result = _.cloneDeep(formData)
+  const translationsByProp = _.groupBy(Object.keys(translations), (path) => _.toPath(path)[0])
+
+  for (const [prop, schema] of Object.entries(getProperties(contentType))) {
+    const defaultValue = formData[`${prop}$${defaultLanguage}`]
+    const key = `${prop}$${lang}`
+    if (defaultValue === undefined) {
+      continue
+    }
+
+    if (result[key] === undefined) {
+      const textPaths = getTextPaths(schema, defaultValue, [])
+      if (!textPaths.length) {
+        result[key] = _.cloneDeep(defaultValue)
+        continue
+      }
+      if (!translationsByProp[prop]) {
+        continue
+      }
+
+      result[key] = _.isString(defaultValue)
+        ? ''
+        : textPaths.reduce((value, { path }) => _.set(value, path, ''), _.cloneDeep(defaultValue))
+    }
+
+    for (const path of translationsByProp[prop] || []) {
+      const subPath = _.toPath(path).slice(1)
+      if (subPath.length) {
+        _.set(result[key], subPath, translations[path])
+      } else {
+        result[key] = translations[path]
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Lists the texts of an element by language, media and other special fields excluded
+ */
+export const getElementTexts = (formData: object, contentType?: ContentType): _.Dictionary<string[]> => {
+  const properties = contentType ? getProperties(contentType) : {}
+
+  return _.reduce(
+    formData,
+    (result, value, key) => {
+      const [prop, lang] = key.split('$')
+      if (lang) {
+        result[lang] = [...(result[lang] || []), ...getTextPaths(properties[prop], value, []).map((x) => x.text)]
+      }
+      return result
+    },
+    {}
+  )
+}
+
+/**
+ * Transforms the texts of an element in a language, media and other special fields are left untouched
+ */
+export const mapElementTexts = (
+  formData: object,
+  contentType: ContentType,
+  lang: string,
+  fn: (text: string) => string
+): object => {
+  const result = _.cloneDeep(formData)
+
+  for (const [prop, schema] of Object.entries(getProperties(contentType))) {
+    const key = `${prop}$${lang}`
+    for (const { path, text } of getTextPaths(schema, formData[key], [])) {
+      if (path) {
+        _.set(result[key], path, fn(text))
+      } else {
+        result[key] = fn(text)
+      }
+    }
+  }
+
+  return result
+}
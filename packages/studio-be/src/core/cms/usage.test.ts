@@ -0,0 +1,85 @@
+import { ContentElement, Flow } from 'botpress/sdk'
+import { QnaItem } from 'common/typings'
+
+import { indexContentRefs, indexFlowUsage, indexQnaUsage } from './usage'
+
+const makeFlow = (name: string, nodes: any[], extra: Partial<Flow> = {}) =>
+  <Flow>{
+    name,
+    version: '0.0.1',
+    startNode: 'entry',
+    nodes: nodes.map((node) => ({ onEnter: [], onReceive: null, next: [], ...node })),
+    ...extra
+  }
+
+describe('indexFlowUsage', () => {
+  test('counts elements displayed by nodes, catchAll and skills', () => {
+    const flows = [
+      makeFlow(
+        'main.flow.json',
+        [
+          {
+            name: 'entry',
+            onEnter: ['say #!builtin_text-a', 'say #!builtin_text-a {}'],
+            onReceive: ['say #!builtin_text-b']
+          },
+          { name: 'choice', type: 'skill-call', flow: 'skills/choice-1.flow.json' }
+        ],
+        { catchAll: { onReceive: [<any>{ type: 'render', name: '#!builtin_text-b' }] } }
+      ),
+      makeFlow('skills/choice-1.flow.json', [{ name: 'entry', onEnter: ['say #!builtin_text-c'] }], {
+        skillData: { contentId: 'builtin_single-choice-d' }
+      })
+    ]
+
+    const index = indexFlowUsage(flows)
+
+    expect(index['builtin_text-a']).toEqual([{ type: 'Flow', name: 'main.flow.json', node: 'entry', count: 2 }])
+    expect(index['builtin_text-b'].map((x) => x.node)).toEqual(['catchAll', 'entry'])
+    expect(index['builtin_text-c']).toEqual([{ type: 'Flow', name: 'main.flow.json', node: 'choice', count: 1 }])
+    expect(index['builtin_single-choice-d']).toHaveLength(1)
+  })
+})
+
+describe('indexQnaUsage', () => {
+  test('counts answers of each QnA', () => {
+    const qnas = <QnaItem[]>(<unknown>[
+      { id: 'abc_hello', data: { answers: { en: ['#!builtin_text-a', 'Hi'], fr: ['#!builtin_text-a'] } } },
+      { id: 'def_bye', data: { answers: { en: ['#!builtin_text-a'] } } },
+      {
+        id: 'ghi_thanks',
+        data: {
+          answers: {
+            en: {
+              selection: 'first',
+              variations: [
+                { type: 'content', contentId: 'builtin_text-a' },
+                { type: 'text', text: '#!builtin_text-b' }
+              ]
+            }
+          }
+        }
+      }
+    ])
+
+    const index = indexQnaUsage(qnas)
+    expect(index['builtin_text-a']).toEqual([
+      { type: 'Q&A', id: 'abc_hello', name: 'hello', count: 2 },
+      { type: 'Q&A', id: 'def_bye', name: 'bye', count: 1 },
+      { type: 'Q&A', id: 'ghi_thanks', name: 'thanks', count: 1 }
+    ])
+    expect(index['builtin_text-b']).toBeUndefined()
+  })
+})
+
+describe('indexContentRefs', () => {
+  test('finds references nested in form data', () => {
+    const elements = <ContentElement[]>(
+      (<unknown>[{ id: 'builtin_carousel-a', formData: { items$en: [{ card: '##ref(builtin_card-b)' }] } }])
+    )
+
+    expect(indexContentRefs(elements)).toEqual({
+      'builtin_card-b': [{ type: 'Content', id: 'builtin_carousel-a', name: 'builtin_carousel-a', count: 1 }]
+    })
+  })
+})
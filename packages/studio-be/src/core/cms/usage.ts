@@ -0,0 +1,83 @@
+import { ContentElement, Flow, FlowNode } from 'botpress/sdk'
+import { getAnswerContentIds, toQnaAnswers } from 'common/qna-answers'
+import { ContentUsage, QnaItem } from 'common/typings'
+import { CONTENT_ELEMENT_REGEX, getInstructions } from 'core/dialog/utils/linter'
+import _ from 'lodash'
+
+/** Usages of content elements, indexed by element id */
+export type ContentUsageIndex = _.Dictionary<ContentUsage[]>
+
+const REF_REGEX = /^##ref\((.*)\)$/
+
+export const collectStrings = (data: any): string[] => {
+  if (_.isString(data)) {
+    return [data]
+  }
+  return _.isObject(data) ? _.flatMap(Object.values(data), collectStrings) : []
+}
+
+const getDisplayedIds = (node: Pick<FlowNode, 'onEnter' | 'onReceive'> | undefined): string[] =>
+  [...getInstructions(node?.onEnter), ...getInstructions(node?.onReceive)]
+    .map((instruction) => instruction.match(CONTENT_ELEMENT_REGEX)?.[1])
+    .filter((x): x is string => !!x)
+
+const addUsages = (index: ContentUsageIndex, ids: string[], usage: Omit<ContentUsage, 'count'>) => {
+  _.forEach(_.countBy(ids), (count, id) => {
+    index[id] = [...(index[id] || []), { ...usage, count }]
+  })
+}
+
+/**
+ * Lists the elements displayed by each node. Nodes calling a skill also count the elements displayed by the skill
+ * flow and those referenced in its skill data (e.g. the choices of the choice skill)
+ */
+export const indexFlowUsage = (flows: Flow[], index: ContentUsageIndex = {}): ContentUsageIndex => {
+  const flowsByName = _.keyBy(flows, 'name')
+
+  for (const flow of flows.filter((x) => !x.skillData)) {
+    addUsages(index, getDisplayedIds(<FlowNode>flow.catchAll), { type: 'Flow', name: flow.name, node: 'catchAll' })
+
+    for (const node of flow.nodes) {
+      const ids = getDisplayedIds(node)
+      const skill = node.type === 'skill-call' && node.flow ? flowsByName[node.flow] : undefined
+
+      if (skill) {
+        ids.push(..._.flatMap(skill.nodes, getDisplayedIds))
+        ids.push(...collectStrings(skill.skillData).map((value) => value.replace(/^#!/, '')))
+      }
+
+      addUsages(index, ids, { type: 'Flow', name: flow.name, node: node.name })
+    }
+  }
+
+  return index
+}
+
+export const indexQnaUsage = (qnas: QnaItem[], index: ContentUsageIndex = {}): ContentUsageIndex => {
+  for (const qna of qnas) {
+    // Files which weren't migrated yet still have answers in the legacy format
+    addUsages(index, getAnswerContentIds(toQnaAnswers(qna.data.answers)), {
+      type: 'Q&A',
+      id: qna.id,
+      name: qna.id.substr(qna.id.indexOf('_') + 1)
+    })
+  }
+
+  return index
+}
+
+/**
+ * Elements can include others with `##ref(elementId)` values, see `CMSService.resolveRefs`
+ */
+export const getContentRefs = (formData: object): string[] =>
+  collectStrings(formData)
+    .map((value) => value.match(REF_REGEX)?.[1])
+    .filter((x): x is string => !!x)
+
+export const indexContentRefs = (elements: ContentElement[], index: ContentUsageIndex = {}): ContentUsageIndex => {
+  for (const element of elements) {
+    addUsages(index, getContentRefs(element.formData), { type: 'Content', id: element.id, name: element.id })
+  }
+
+  return index
+}
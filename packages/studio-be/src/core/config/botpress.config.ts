@@ -1,5 +1,5 @@
 import { ConverseConfig } from 'botpress/sdk'
-import { ActionServer, UniqueUser } from 'common/typings'
+import { ActionServer, AdvisorySeverity, UniqueUser } from 'common/typings'
 import { CookieOptions } from 'express'
 import { Algorithm } from 'jsonwebtoken'
 
@@ -243,10 +243,33 @@ export interface BotpressConfig {
    */
 
   actionServers: ActionServersConfig
+  /**
+   * Policy enforced on the libraries installed in bots. Installs which violate it are blocked
+   */
+  libraries?: LibrariesConfig
 }
 
 export type AuthStrategyType = 'basic' | 'saml' | 'ldap' | 'oauth2'
 
+export interface LibrariesConfig {
+  /**
+   * SPDX identifiers of the licenses allowed for libraries and their dependencies. An empty list allows every license
+   * @default ["MIT","ISC","Apache-2.0","BSD-2-Clause","BSD-3-Clause","0BSD","Unlicense","CC0-1.0"]
+   */
+  allowedLicenses: string[]
+  /**
+   * Path to a JSON file of security advisories, in the format of the npm bulk advisory endpoint
+   * (advisories listed by package name). Relative paths start from the data folder
+   * @example "advisories.json"
+   */
+  advisoryDatabase?: string
+  /**
+   * Libraries with advisories of this severity or a higher one can't be installed
+   * @default high
+   */
+  blockingSeverity: AdvisorySeverity
+}
+
 interface ActionServersConfig {
   local: {
     /**
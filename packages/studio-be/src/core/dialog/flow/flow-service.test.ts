@@ -0,0 +1,152 @@
+import 'bluebird-global'
+import 'reflect-metadata'
+import { FlowBundle } from 'common/typings'
+import _ from 'lodash'
+
+import { ScopedFlowService } from './flow-service'
+
+// Changes are sent to the core, which isn't running during tests
+jest.mock('core/app/core-client', () => ({
+  coreActions: { notifyFlowChanges: async () => {}, onModuleEvent: async () => {} }
+}))
+
+/** Files of the bot, indexed by their path */
+const createGhost = (files: _.Dictionary<string>): any => {
+  const toPath = (folder: string, file: string) => `${folder}/${file}`
+
+  return {
+    fileExists: async (folder: string, file: string) => files[toPath(folder, file)] !== undefined,
+    readFileAsString: async (folder: string, file: string) => files[toPath(folder, file)],
+    readFileAsObject: async (folder: string, file: string) => JSON.parse(files[toPath(folder, file)] || 'null'),
+    upsertFile: async (folder: string, file: string, content: string) => {
+      files[toPath(folder, file)] = content
+    },
+    directoryListing: async (folder: string, pattern: string) =>
+      Object.keys(files)
+        .filter((x) => x.startsWith(`${folder}/`) && x.endsWith(pattern.replace(/^(\*\*\/)?\*/, '')))
+        .map((x) => x.substr(folder.length + 1))
+  }
+}
+
+const makeBundle = (overrides: Partial<FlowBundle> = {}): FlowBundle => ({
+  version: 1,
+  exportedOn: new Date().toISOString(),
+  flow: 'imported.flow.json',
+  flows: [
+    {
+      name: 'imported.flow.json',
+      flow: {
+        version: '0.0.1',
+        startNode: 'entry',
+        nodes: [{ id: 'node-1', name: 'entry', onEnter: ['greet {}'], onReceive: null, next: [] }]
+      } as any,
+      ui: { nodes: [{ id: 'node-1', position: { x: 0, y: 0 } }], links: [] }
+    }
+  ],
+  contentElements: [],
+  actions: [{ name: 'greet', legacy: true, code: 'bp.logger.info("hello")' }],
+  intents: [],
+  entities: [],
+  ...overrides
+})
+
+describe('ScopedFlowService.importBundle', () => {
+  let files: _.Dictionary<string>
+  let service: ScopedFlowService
+
+  beforeEach(() => {
+    files = {}
+    const logger: any = { forBot: () => logger, attachError: () => logger, error: () => {} }
+    const actionService: any = { forBot: async () => ({ listLocalActions: async () => [] }) }
+    const cmsService: any = { getContentElements: async () => [] }
+    const nluService: any = {
+      intents: { getIntents: async () => [] },
+      entities: { listEntities: async () => [] }
+    }
+
+    service = new ScopedFlowService(
+      'bot',
+      createGhost(files),
+      logger,
+      <any>{},
+      cmsService,
+      actionService,
+      <any>{},
+      nluService,
+      <any>{},
+      () => {}
+    )
+  })
+
+  test('flows and actions of the bundle are written in the bot', async () => {
+    const result = await service.importBundle(makeBundle(), {}, 'user@botpress.com')
+
+    expect(result).toMatchObject({ imported: true, flow: 'imported.flow.json', conflicts: [] })
+    expect(files['actions/greet.js']).toEqual('bp.logger.info("hello")')
+    expect(JSON.parse(files['flows/imported.flow.json']).startNode).toEqual('entry')
+    expect(files['flows/imported.ui.json']).toBeDefined()
+  })
+
+  test('names which would be written outside of their folder are rejected', async () => {
+    const [flow] = makeBundle().flows
+
+    await expect(
+      service.importBundle(
+        makeBundle({ actions: [{ name: '../hooks/after_bot_mount/evil', legacy: true, code: '' }] }),
+        {},
+        'user@botpress.com'
+      )
+    ).rejects.toThrow('Invalid action name')
+
+    await expect(
+      service.importBundle(
+        makeBundle({ flow: '../../evil.flow.json', flows: [{ ...flow, name: '../../evil.flow.json' }] }),
+        {},
+        'user@botpress.com'
+      )
+    ).rejects.toThrow('Invalid flow name')
+
+    await expect(
+      service.importBundle(
+        makeBundle({ flow: '/evil.flow.json', flows: [{ ...flow, name: '/evil.flow.json' }] }),
+        {},
+        'user@botpress.com'
+      )
+    ).rejects.toThrow('Invalid flow name')
+
+    expect(files).toEqual({})
+  })
+})
+
+describe('ScopedFlowService presences', () => {
+  const createKvs = (): any => {
+    const values = {}
+    const storage = {
+      getStorageWithExpiry: async (key: string) => values[key],
+      setStorageWithExpiry: async (key: string, value: any) => {
+        values[key] = value
+      }
+    }
+    return { forBot: () => storage }
+  }
+
+  const createService = (kvs: any) =>
+    new ScopedFlowService('bot', createGhost({}), <any>{}, <any>{}, <any>{}, <any>{}, <any>{}, <any>{}, kvs, () => {})
+
+  test('users seen by other nodes of the cluster are listed', async () => {
+    const kvs = createKvs()
+    const [node1, node2] = [createService(kvs), createService(kvs)]
+
+    await Promise.all([
+      node1.updatePresence('a@botpress.com', 'main.flow.json', 'node-1'),
+      node1.updatePresence('b@botpress.com', 'main.flow.json')
+    ])
+    await node2.updatePresence('c@botpress.com', 'other.flow.json')
+
+    expect(_.map(await node1.listPresences(), 'userEmail').sort()).toEqual([
+      'a@botpress.com',
+      'b@botpress.com',
+      'c@botpress.com'
+    ])
+  })
+})
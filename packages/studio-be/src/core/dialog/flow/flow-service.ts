@@ -1,40 +1,77 @@
 import { Flow, Logger } from 'botpress/sdk'
 import { ArrayCache } from 'common/array-cache'
+import { getEntityId } from 'common/entity-id'
+import { applyFlowChanges } from 'common/flow-changes'
 import { ObjectCache } from 'common/object-cache'
-import { FlowMutex, FlowView, NodeView } from 'common/typings'
+import {
+  ActionDefinition,
+  FlowBundle,
+  FlowBundleItemType,
+  FlowChange,
+  FlowChangesResult,
+  FlowDiff,
+  FlowImportConflict,
+  FlowImportResolutions,
+  FlowImportResult,
+  FlowLintProblem,
+  FlowPresence,
+  FlowRevision,
+  FlowRevisionSummary,
+  FlowSnapshot,
+  FlowView,
+  NodeView
+} from 'common/typings'
+import { ACTION_NAME_REGEX } from 'common/validation'
 import { coreActions } from 'core/app/core-client'
 import { TYPES } from 'core/app/types'
 import { BotService } from 'core/bots'
 import { GhostService, ScopedGhostService } from 'core/bpfs'
+import { CMSService, DefaultSearchParams, UNLIMITED_ELEMENTS } from 'core/cms'
 import { JobService } from 'core/distributed/job-service'
-import { KeyValueStore, KvsService } from 'core/kvs'
+import { KeyValueStore } from 'core/kvs'
+import { BadRequestError, NotFoundError } from 'core/routers/errors'
+import { ActionServersService, ActionService } from 'core/user-code'
 import { inject, injectable, postConstruct, tagged } from 'inversify'
 import { AppLifecycle, AppLifecycleEvents } from 'lifecycle'
 import _ from 'lodash'
 import moment from 'moment'
+import { nanoid } from 'nanoid'
+import { NLUService } from 'studio/nlu'
 import { QNAService } from 'studio/qna'
 
+import {
+  BundleRenames,
+  collectFlowDependencies,
+  getAvailableName,
+  isValidFlowName,
+  renameFlowReferences,
+  toFlowView
+} from '../utils/bundle'
+import { diffFlows, toFlowSnapshot } from '../utils/history'
+import { getCalledActionServers, lintFlows } from '../utils/linter'
 import { validateFlowSchema } from '../utils/validator'
 
 const PLACING_STEP = 250
 const MIN_POS_X = 50
 const FLOW_DIR = 'flows'
+const HISTORY_DIR = 'flows-history'
 
-const MUTEX_LOCK_DELAY_SECONDS = 30
+const MAX_REVISIONS = 50
+const REVISION_GROUPING_DELAY_SECONDS = 30
+const PRESENCE_TIMEOUT_SECONDS = 30
+const PRESENCES_KEY = 'flows/presences'
+const ACTIONS_DIR = 'actions'
+const BUNDLE_VERSION = 1
 
 interface FlowModification {
   name: string
   botId: string
   userEmail: string
-  modification: 'rename' | 'delete' | 'create' | 'update'
+  modification: 'rename' | 'delete' | 'create' | 'update' | 'presence'
   newName?: string
   payload?: any
 }
 
-export class MutexError extends Error {
-  type = MutexError.name
-}
-
 @injectable()
 export class FlowService {
   private scopes: { [botId: string]: ScopedFlowService } = {}
@@ -47,10 +84,14 @@ export class FlowService {
     private logger: Logger,
     @inject(TYPES.GhostService) private ghost: GhostService,
     @inject(TYPES.ObjectCache) private cache: ObjectCache,
-    @inject(TYPES.KeyValueStore) private kvs: KeyValueStore,
     @inject(TYPES.BotService) private botService: BotService,
     @inject(TYPES.JobService) private jobService: JobService,
-    @inject(TYPES.QnaService) private qnaService: QNAService
+    @inject(TYPES.QnaService) private qnaService: QNAService,
+    @inject(TYPES.CMSService) private cmsService: CMSService,
+    @inject(TYPES.ActionService) private actionService: ActionService,
+    @inject(TYPES.ActionServersService) private actionServersService: ActionServersService,
+    @inject(TYPES.NLUService) private nluService: NLUService,
+    @inject(TYPES.KeyValueStore) private kvs: KeyValueStore
   ) {
     this._listenForCacheInvalidation()
     this.botService.listenForBotUnmount(this.handleUnmount.bind(this))
@@ -94,9 +135,13 @@ export class FlowService {
       scope = new ScopedFlowService(
         botId,
         this.ghost.forBot(botId),
-        this.kvs.forBot(botId),
         this.logger,
         this.qnaService,
+        this.cmsService,
+        this.actionService,
+        this.actionServersService,
+        this.nluService,
+        this.kvs,
         (key, flow, newKey) => this.invalidateFlow(botId, key, flow, newKey)
       )
       this.scopes[botId] = scope
@@ -107,13 +152,19 @@ export class FlowService {
 
 export class ScopedFlowService {
   private cache: ArrayCache<string, FlowView>
+  private pendingChanges: _.Dictionary<Promise<any>> = {}
+  private presenceUpdates: Promise<any> = Promise.resolve()
 
   constructor(
     private botId: string,
     private ghost: ScopedGhostService,
-    private kvs: KvsService,
     private logger: Logger,
     private qnaService: QNAService,
+    private cmsService: CMSService,
+    private actionService: ActionService,
+    private actionServersService: ActionServersService,
+    private nluService: NLUService,
+    private kvs: KeyValueStore,
     private invalidateFlow: (key: string, flow?: FlowView, newKey?: string) => void
   ) {
     this.cache = new ArrayCache<string, FlowView>(
@@ -175,6 +226,269 @@ export class ScopedFlowService {
     }
   }
 
+  /**
+   * Checks every flow of the bot for broken references (nodes, subflows, content elements, actions and intents),
+   * for arguments of actions that don't match their parameters and for nodes that can't be reached
+   */
+  async lintFlows(): Promise<FlowLintProblem[]> {
+    const flows = await this.loadAll()
+
+    const [contentElements, actions, intents, actionServers] = await Promise.all([
+      this.cmsService.listContentElements(this.botId, undefined, { ...DefaultSearchParams, count: UNLIMITED_ELEMENTS }),
+      this.actionService.forBot(this.botId).then((service) => service.listActions()),
+      this.nluService.intents.getIntents(this.botId),
+      this.fetchActionServers(getCalledActionServers(flows))
+    ])
+
+    return lintFlows({
+      flows,
+      contentElementIds: contentElements.map((x) => x.id),
+      actionNames: actions.map((x) => x.name),
+      intentNames: intents.map((x) => x.name),
+      actions,
+      actionServers
+    })
+  }
+
+  /** Actions advertised by the given action servers, those which are not configured are left out */
+  private async fetchActionServers(serverIds: string[]) {
+    const actionServers: { [serverId: string]: ActionDefinition[] | undefined } = {}
+
+    await Promise.all(
+      serverIds.map(async (serverId) => {
+        const server = await this.actionServersService.getServer(serverId)
+        if (server) {
+          actionServers[serverId] = await this.actionServersService.getActions(this.botId, server)
+        }
+      })
+    )
+
+    return actionServers
+  }
+
+  /**
+   * Bundles a flow with its subflows and the content elements, bot actions, intents and entities they use
+   */
+  async exportBundle(flowName: string): Promise<FlowBundle> {
+    const flows = await this.loadAll()
+    if (!flows.find((x) => x.name === flowName)) {
+      throw new NotFoundError(`Flow "${flowName}" not found`)
+    }
+
+    const dependencies = collectFlowDependencies(flowName, _.keyBy(flows, 'name'))
+    const intentNames = dependencies.intentNames.map((x) => x.toLowerCase())
+
+    const [contentElements, actions, intents, entities] = await Promise.all([
+      this.cmsService.getContentElements(this.botId, dependencies.contentElementIds),
+      this.actionService.forBot(this.botId).then((service) => service.listLocalActions()),
+      this.nluService.intents.getIntents(this.botId),
+      this.nluService.entities.getCustomEntities(this.botId)
+    ])
+
+    const bundledIntents = intents.filter((x) => intentNames.includes(x.name.toLowerCase()))
+    const entityNames = _.flatMap(bundledIntents, (intent) => _.flatMap(intent.slots, 'entities'))
+
+    return {
+      version: BUNDLE_VERSION,
+      exportedOn: new Date().toISOString(),
+      flow: flowName,
+      flows: await Promise.map(dependencies.flows, async (name) => ({
+        name,
+        flow: _.omit(await this.ghost.readFileAsObject<Flow>(FLOW_DIR, name), 'name', 'location'),
+        ui: await this.ghost.readFileAsObject<FlowBundle['flows'][0]['ui']>(FLOW_DIR, this.toUiPath(name))
+      })),
+      contentElements: contentElements.map((x) => _.pick(x, ['id', 'contentType', 'formData'])),
+      actions: await Promise.map(
+        actions.filter((x) => dependencies.actionNames.includes(x.name)),
+        async ({ name, legacy }) => ({
+          name,
+          legacy,
+          code: await this.ghost.readFileAsString(ACTIONS_DIR, this.toActionFile(name, legacy))
+        })
+      ),
+      intents: bundledIntents,
+      entities: entities.filter((x) => entityNames.includes(x.name))
+    }
+  }
+
+  /**
+   * Imports a flow bundle. Elements which already exist in the bot are reported as conflicts and must either be
+   * skipped or renamed, nothing is imported until every conflict is resolved.
+   */
+  async importBundle(
+    bundle: FlowBundle,
+    resolutions: FlowImportResolutions,
+    userEmail: string,
+    dryRun?: boolean
+  ): Promise<FlowImportResult> {
+    if (!bundle || !_.isArray(bundle.flows) || !_.find(bundle.flows, { name: bundle.flow })) {
+      throw new BadRequestError('Invalid flow bundle')
+    }
+
+    const { flows, contentElements = [], actions = [], intents = [], entities = [] } = bundle
+    const { conflicts, takenNames } = await this._getImportConflicts(bundle)
+
+    const getResolution = (type: FlowBundleItemType, name: string) =>
+      _.find(conflicts, { type, name }) && resolutions?.[type]?.[name]
+    const isSkipped = (type: FlowBundleItemType, name: string) => getResolution(type, name)?.action === 'skip'
+    const isRenamed = (type: FlowBundleItemType, name: string) => getResolution(type, name)?.action === 'rename'
+
+    const renames: BundleRenames = { flows: {}, contentElements: {}, actions: {}, intents: {}, entities: {} }
+    const renameKeys = { flow: 'flows', action: 'actions', intent: 'intents', entity: 'entities' }
+
+    for (const conflict of conflicts.filter((x) => x.type !== 'content' && isRenamed(x.type, x.name))) {
+      let newName = getResolution(conflict.type, conflict.name)!.name || conflict.suggestedName!
+      if (conflict.type === 'flow' && !newName.endsWith('.flow.json')) {
+        newName = `${newName}.flow.json`
+      }
+
+      const taken = [...takenNames[conflict.type], ..._.values(renames[renameKeys[conflict.type]])]
+      if (taken.map((x) => x.toLowerCase()).includes(newName.toLowerCase())) {
+        throw new BadRequestError(`Can not rename ${conflict.type} "${conflict.name}", "${newName}" already exists`)
+      }
+
+      renames[renameKeys[conflict.type]][conflict.name] = newName
+    }
+
+    // Names are used to build the paths of the files written by the import
+    for (const name of flows.map((x) => renames.flows[x.name] || x.name)) {
+      if (!isValidFlowName(name)) {
+        throw new BadRequestError(`Invalid flow name "${name}"`)
+      }
+    }
+    for (const name of actions.map((x) => renames.actions[x.name] || x.name)) {
+      if (!_.isString(name) || !ACTION_NAME_REGEX.test(name)) {
+        throw new BadRequestError(`Invalid action name "${name}"`)
+      }
+    }
+
+    const unresolved = conflicts.filter((x) => !getResolution(x.type, x.name))
+    const result = { conflicts, unresolved, flow: renames.flows[bundle.flow] || bundle.flow }
+
+    if (dryRun || unresolved.length) {
+      return { ...result, imported: false }
+    }
+
+    for (const entity of entities.filter((x) => !isSkipped('entity', x.name))) {
+      const name = renames.entities[entity.name] || entity.name
+      await this.nluService.entities.saveEntity(this.botId, { ...entity, name, id: getEntityId(name) })
+    }
+
+    for (const intent of intents.filter((x) => !isSkipped('intent', x.name))) {
+      await this.nluService.intents.saveIntent(this.botId, {
+        ...intent,
+        name: renames.intents[intent.name] || intent.name,
+        slots: intent.slots.map((slot) => ({
+          ...slot,
+          entities: slot.entities.map((entity) => renames.entities[entity] || entity)
+        }))
+      })
+    }
+
+    for (const element of contentElements.filter((x) => !isSkipped('content', x.id))) {
+      // Renamed elements are created with a new id
+      const id = isRenamed('content', element.id) ? undefined : element.id
+      const savedId = await this.cmsService.createOrUpdateContentElement(
+        this.botId,
+        element.contentType,
+        element.formData,
+        id,
+        undefined,
+        userEmail
+      )
+
+      if (savedId !== element.id) {
+        renames.contentElements[element.id] = savedId
+      }
+    }
+
+    for (const action of actions.filter((x) => !isSkipped('action', x.name))) {
+      const name = renames.actions[action.name] || action.name
+      await this.ghost.upsertFile(ACTIONS_DIR, this.toActionFile(name, action.legacy), action.code)
+    }
+
+    for (const flow of flows.filter((x) => !isSkipped('flow', x.name))) {
+      const name = renames.flows[flow.name] || flow.name
+      await this.insertFlow(toFlowView(name, { ...flow, flow: renameFlowReferences(flow.flow, renames) }), userEmail)
+    }
+
+    return { ...result, imported: true }
+  }
+
+  /**
+   * Lists the elements of a bundle which already exist in the bot. Elements identical to the existing ones
+   * aren't conflicts, they are simply overwritten
+   */
+  private async _getImportConflicts(bundle: FlowBundle) {
+    const [flowFiles, actions, intents, entities, contentElements] = await Promise.all([
+      this.ghost.directoryListing(FLOW_DIR, '**/*.flow.json'),
+      this.actionService.forBot(this.botId).then((service) => service.listLocalActions()),
+      this.nluService.intents.getIntents(this.botId),
+      this.nluService.entities.listEntities(this.botId),
+      this.cmsService.getContentElements(this.botId, _.map(bundle.contentElements, 'id'))
+    ])
+
+    const takenNames: { [type in FlowBundleItemType]: string[] } = {
+      flow: [...flowFiles, ..._.map(bundle.flows, 'name')],
+      content: [],
+      action: [..._.map(actions, 'name'), ..._.map(bundle.actions, 'name')],
+      intent: [..._.map(intents, 'name'), ..._.map(bundle.intents, 'name')],
+      entity: [..._.map(entities, 'name'), ..._.map(bundle.entities, 'name')]
+    }
+
+    const conflicts: FlowImportConflict[] = []
+    const report = (type: FlowBundleItemType, name: string) =>
+      conflicts.push({
+        type,
+        name,
+        suggestedName: type !== 'content' ? getAvailableName(name, takenNames[type]) : undefined
+      })
+
+    for (const { name } of bundle.flows) {
+      if (flowFiles.find((x) => x.toLowerCase() === name.toLowerCase())) {
+        report('flow', name)
+      }
+    }
+
+    for (const element of bundle.contentElements || []) {
+      const existing = _.find(contentElements, { id: element.id })
+      if (
+        existing &&
+        (existing.contentType !== element.contentType || !_.isEqual(existing.formData, element.formData))
+      ) {
+        report('content', element.id)
+      }
+    }
+
+    for (const action of bundle.actions || []) {
+      const existing = _.find(actions, { name: action.name })
+      if (
+        existing &&
+        (existing.legacy !== action.legacy ||
+          (await this.ghost.readFileAsString(ACTIONS_DIR, this.toActionFile(existing.name, existing.legacy))) !==
+            action.code)
+      ) {
+        report('action', action.name)
+      }
+    }
+
+    for (const intent of bundle.intents || []) {
+      const existing = _.find(intents, { name: intent.name })
+      if (existing && !_.isEqual(existing, intent)) {
+        report('intent', intent.name)
+      }
+    }
+
+    for (const entity of bundle.entities || []) {
+      const existing = _.find(entities, { name: entity.name })
+      if (existing && !_.isEqual(existing, entity)) {
+        report('entity', entity.name)
+      }
+    }
+
+    return { conflicts, takenNames }
+  }
+
   private async parseFlow(flowPath: string): Promise<FlowView> {
     const flow = await this.ghost.readFileAsObject<Flow>(FLOW_DIR, flowPath)
     const schemaError = validateFlowSchema(flow)
@@ -196,28 +510,15 @@ export class ScopedFlowService {
       }
     })
 
-    const key = this._buildFlowMutexKey(flowPath)
-    const currentMutex = (await this.kvs.get(key)) as FlowMutex
-    if (currentMutex) {
-      currentMutex.remainingSeconds = this._getRemainingSeconds(currentMutex.lastModifiedAt)
-    }
-
     return {
       name: flowPath,
       location: flowPath,
       nodes: nodeViews,
       links: uiEq.links,
-      currentMutex,
       ..._.pick(flow, ['version', 'catchAll', 'startNode', 'skillData', 'label', 'description'])
     }
   }
 
-  private _getRemainingSeconds(lastModifiedAt: Date): number {
-    const now = moment()
-    const freeTime = moment(lastModifiedAt).add(MUTEX_LOCK_DELAY_SECONDS, 'seconds')
-    return Math.ceil(Math.max(0, freeTime.diff(now, 'seconds')))
-  }
-
   async insertFlow(flow: FlowView, userEmail: string) {
     const isFlowNameValid = await this.isFlowNameValid(flow.name)
     if (!isFlowNameValid) {
@@ -225,33 +526,124 @@ export class ScopedFlowService {
     }
 
     await this._upsertFlow(flow)
-
-    const currentMutex = await this._testAndLockMutex(userEmail, flow.location || flow.name)
-    const mutexFlow: FlowView = { ...flow, currentMutex }
+    await this._recordRevision(flow, undefined, userEmail)
 
     await this.notifyChanges({
       botId: this.botId,
       name: flow.name,
       modification: 'create',
-      payload: mutexFlow,
+      payload: flow,
       userEmail
     })
   }
 
+  /**
+   * Replaces the whole flow. It waits for the changes being applied to the flow, so they aren't overwritten
+   */
   async updateFlow(flow: FlowView, userEmail: string) {
-    const currentMutex = await this._testAndLockMutex(userEmail, flow.location || flow.name)
+    return this._enqueueChanges(flow.name, async () => {
+      const previous = await this._getPreviousSnapshot(flow.location || flow.name)
+      await this._upsertFlow(flow)
+      await this._recordRevision(flow, previous, userEmail)
+
+      await this.notifyChanges({
+        name: flow.name,
+        botId: this.botId,
+        modification: 'update',
+        payload: flow,
+        userEmail
+      })
 
-    await this._upsertFlow(flow)
+      return flow
+    })
+  }
+
+  /**
+   * Merges modifications made by a user into the current version of the flow. Modifications on elements which
+   * were changed by someone else in the meantime are not applied and are returned as conflicts instead.
+   * Changes to the same flow are applied one after the other so none of them are lost.
+   */
+  async applyChanges(flowName: string, changes: FlowChange[], userEmail: string): Promise<FlowChangesResult> {
+    return this._enqueueChanges(flowName, async () => {
+      const current = (await this.loadAll()).find((x) => x.name === flowName)
+      if (!current) {
+        throw new NotFoundError(`Flow "${flowName}" does not exist`)
+      }
+
+      const { flow, conflicts } = applyFlowChanges(current, changes)
+      if (!_.isEqual(toFlowSnapshot(current), toFlowSnapshot(flow))) {
+        await this._upsertFlow(flow)
+        await this._recordRevision(flow, toFlowSnapshot(current), userEmail)
+
+        await this.notifyChanges({
+          name: flowName,
+          botId: this.botId,
+          modification: 'update',
+          payload: flow,
+          userEmail
+        })
+      }
+
+      return { flow, conflicts }
+    })
+  }
 
-    const mutexFlow: FlowView = { ...flow, currentMutex }
+  /** Changes to the same flow are made one after the other */
+  private async _enqueueChanges<T>(flowName: string, makeChanges: () => Promise<T>): Promise<T> {
+    const previousChanges = this.pendingChanges[flowName] || Promise.resolve()
+    const result = previousChanges.catch(_.noop).then(makeChanges)
+    this.pendingChanges[flowName] = result
+
+    try {
+      return await result
+    } finally {
+      if (this.pendingChanges[flowName] === result) {
+        delete this.pendingChanges[flowName]
+      }
+    }
+  }
+
+  async listPresences(): Promise<FlowPresence[]> {
+    return _.values(await this._getPresences())
+  }
+
+  /**
+   * Keeps track of the flow (and node) each user is currently looking at. Clients are expected to call this
+   * periodically, users who didn't for a while are considered gone.
+   * Presences are kept in the KVS so users connected to other nodes of the cluster are listed too
+   */
+  async updatePresence(userEmail: string, flow: string, nodeId?: string): Promise<FlowPresence[]> {
+    const update = async () => {
+      const presences = {
+        ...(await this._getPresences()),
+        [userEmail]: { userEmail, flow, nodeId, lastSeenAt: new Date().toISOString() }
+      }
+      await this.kvs.forBot(this.botId).setStorageWithExpiry(PRESENCES_KEY, presences, `${PRESENCE_TIMEOUT_SECONDS}s`)
+      return _.values(presences)
+    }
+
+    // Updates made by this node are serialized, so users don't remove each other from the list. An update made at the
+    // same time by another node can still drop a user, who is added back on their next heartbeat
+    const result = this.presenceUpdates.catch(_.noop).then(update)
+    this.presenceUpdates = result
+    const presences = await result
 
     await this.notifyChanges({
-      name: flow.name,
+      name: flow,
       botId: this.botId,
-      modification: 'update',
-      payload: mutexFlow,
+      modification: 'presence',
+      payload: presences,
       userEmail
     })
+
+    return presences
+  }
+
+  private async _getPresences(): Promise<_.Dictionary<FlowPresence>> {
+    const presences = await this.kvs.forBot(this.botId).getStorageWithExpiry(PRESENCES_KEY)
+    const expiredBefore = moment().subtract(PRESENCE_TIMEOUT_SECONDS, 'seconds')
+
+    return _.pickBy(presences || {}, (x: FlowPresence) => moment(x.lastSeenAt).isAfter(expiredBefore))
   }
 
   private async _upsertFlow(flow: FlowView) {
@@ -282,6 +674,10 @@ export class ScopedFlowService {
 
     await Promise.all([this.ghost.deleteFile(FLOW_DIR, fileToDelete!), this.ghost.deleteFile(FLOW_DIR, uiPath)])
 
+    if (await this.ghost.fileExists(HISTORY_DIR, this.toHistoryPath(fileToDelete))) {
+      await this.ghost.deleteFile(HISTORY_DIR, this.toHistoryPath(fileToDelete))
+    }
+
     await this.notifyChanges({
       name: flowName,
       botId: this.botId,
@@ -310,6 +706,10 @@ export class ScopedFlowService {
       this.ghost.renameFile(FLOW_DIR, previousUiName, newUiName)
     ])
 
+    if (await this.ghost.fileExists(HISTORY_DIR, this.toHistoryPath(fileToRename))) {
+      await this.ghost.renameFile(HISTORY_DIR, this.toHistoryPath(fileToRename), this.toHistoryPath(newName))
+    }
+
     await this.qnaService.onFlowRenamed({
       botId: this.botId,
       previousFlowName: previousName,
@@ -331,52 +731,112 @@ export class ScopedFlowService {
     })
   }
 
-  private isFlowNameValid = async (name: string): Promise<Boolean> => {
-    const flowFiles = await this.ghost.directoryListing(FLOW_DIR, '*.json')
-    return flowFiles.findIndex((f) => f.toLowerCase() === name.toLowerCase()) === -1
+  async listRevisions(flowName: string): Promise<FlowRevisionSummary[]> {
+    const revisions = await this._readRevisions(flowName)
+    return revisions.map((revision) => _.omit(revision, 'snapshot'))
   }
 
-  private notifyChanges = async (modification: FlowModification) => {
-    await coreActions.notifyFlowChanges(modification)
+  async getRevision(flowName: string, revisionId: string): Promise<FlowRevision> {
+    const revision = (await this._readRevisions(flowName)).find((x) => x.id === revisionId)
+    if (!revision) {
+      throw new NotFoundError(`Revision "${revisionId}" does not exist for flow "${flowName}"`)
+    }
+    return revision
   }
 
-  private _buildFlowMutexKey(flowLocation: string): string {
-    return `FLOWMUTEX: ${flowLocation}`
+  /**
+   * Compares a revision with another one or, when none is specified, with the current version of the flow
+   */
+  async diffRevision(flowName: string, revisionId: string, compareToId?: string): Promise<FlowDiff> {
+    const revision = await this.getRevision(flowName, revisionId)
+
+    let compareTo: FlowSnapshot | undefined
+    if (compareToId) {
+      compareTo = (await this.getRevision(flowName, compareToId)).snapshot
+    } else {
+      const flow = (await this.loadAll()).find((x) => x.name === flowName)
+      compareTo = flow && toFlowSnapshot(flow)
+    }
+
+    if (!compareTo) {
+      throw new NotFoundError(`Flow "${flowName}" does not exist`)
+    }
+
+    return diffFlows(revision.snapshot, compareTo)
   }
 
-  private async _testAndLockMutex(currentFlowEditor: string, flowLocation: string): Promise<FlowMutex> {
-    const key = this._buildFlowMutexKey(flowLocation)
+  /**
+   * Replaces the current version of the flow with the one saved in a revision. The restoration is saved
+   * like any other modification, so it creates a new revision and can itself be reverted
+   */
+  async restoreRevision(flowName: string, revisionId: string, userEmail: string): Promise<FlowView> {
+    const { snapshot } = await this.getRevision(flowName, revisionId)
+    return this.updateFlow({ ...snapshot, name: flowName, location: flowName }, userEmail)
+  }
 
-    const currentMutex = ((await this.kvs.get(key)) || {}) as FlowMutex
-    const { lastModifiedBy: flowOwner, lastModifiedAt } = currentMutex
+  private async _readRevisions(flowName: string): Promise<FlowRevision[]> {
+    const historyPath = this.toHistoryPath(flowName)
+    if (!(await this.ghost.fileExists(HISTORY_DIR, historyPath))) {
+      return []
+    }
+    return this.ghost.readFileAsObject<FlowRevision[]>(HISTORY_DIR, historyPath)
+  }
 
-    const now = new Date()
-    const remainingSeconds = this._getRemainingSeconds(now)
+  private async _getPreviousSnapshot(flowPath: string): Promise<FlowSnapshot | undefined> {
+    const [latest] = await this._readRevisions(flowPath)
+    if (latest) {
+      return latest.snapshot
+    }
 
-    if (currentFlowEditor === flowOwner) {
-      const mutex: FlowMutex = {
-        lastModifiedBy: flowOwner,
-        lastModifiedAt: now
-      }
-      await this.kvs.set(key, mutex)
+    // Flows saved before the history was kept don't have any revision yet
+    if (await this.ghost.fileExists(FLOW_DIR, flowPath)) {
+      return toFlowSnapshot(await this.parseFlow(flowPath))
+    }
+  }
 
-      mutex.remainingSeconds = remainingSeconds
-      return mutex
+  /**
+   * Saves a revision of the flow. Consecutive saves by the same user are grouped in a single revision,
+   * since the studio saves the flow after every change
+   */
+  private async _recordRevision(flow: FlowView, previous: FlowSnapshot | undefined, userEmail: string) {
+    const flowPath = flow.location || flow.name
+    const snapshot = toFlowSnapshot(flow)
+    if (previous && _.isEqual(previous, snapshot)) {
+      return
     }
 
-    const isMutexExpired = !this._getRemainingSeconds(lastModifiedAt)
-    if (!flowOwner || isMutexExpired) {
-      const mutex: FlowMutex = {
-        lastModifiedBy: currentFlowEditor,
-        lastModifiedAt: now
-      }
-      await this.kvs.set(key, mutex)
+    const revisions = await this._readRevisions(flowPath)
+    const [latest] = revisions
+    const changedNodes = diffFlows(previous, snapshot).nodes.map((x) => x.name)
+
+    const canGroup =
+      latest &&
+      latest.author === userEmail &&
+      moment().diff(latest.createdOn, 'seconds') < REVISION_GROUPING_DELAY_SECONDS
+    if (canGroup) {
+      revisions.shift()
+    }
 
-      mutex.remainingSeconds = remainingSeconds
-      return mutex
+    const revision: FlowRevision = {
+      id: canGroup ? latest.id : nanoid(8),
+      flow: flowPath,
+      author: userEmail,
+      createdOn: new Date().toISOString(),
+      changedNodes: canGroup ? _.union(latest.changedNodes, changedNodes) : changedNodes,
+      snapshot
     }
 
-    throw new MutexError('Flow is currently locked by someone else')
+    const history = [revision, ...revisions].slice(0, MAX_REVISIONS)
+    await this.ghost.upsertFile(HISTORY_DIR, this.toHistoryPath(flowPath), JSON.stringify(history, undefined, 2))
+  }
+
+  private isFlowNameValid = async (name: string): Promise<Boolean> => {
+    const flowFiles = await this.ghost.directoryListing(FLOW_DIR, '*.json')
+    return flowFiles.findIndex((f) => f.toLowerCase() === name.toLowerCase()) === -1
+  }
+
+  private notifyChanges = async (modification: FlowModification) => {
+    await coreActions.notifyFlowChanges(modification)
   }
 
   private async prepareSaveFlow(flow: FlowView, isNew: boolean) {
@@ -404,10 +864,18 @@ export class ScopedFlowService {
     return { flowPath, uiPath: this.toUiPath(flowPath!), flowContent, uiContent }
   }
 
+  private toActionFile(name: string, legacy: boolean) {
+    return legacy ? `${name}.js` : `${name}.http.js`
+  }
+
   private toUiPath(flowPath: string) {
     return flowPath.replace(/\.flow\.json$/i, '.ui.json')
   }
 
+  private toHistoryPath(flowPath: string) {
+    return flowPath.replace(/\.flow\.json$/i, '.history.json')
+  }
+
   private toFlowPath(uiPath: string) {
     return uiPath.replace(/\.ui\.json$/i, '.flow.json')
   }
@@ -0,0 +1,54 @@
+import { ActionParameterDefinition } from 'common/typings'
+
+import { checkActionArgs } from './action-params'
+
+const makeParam = (name: string, type: string, required = true, defaultValue = ''): ActionParameterDefinition => ({
+  name,
+  type,
+  required,
+  default: defaultValue,
+  description: ''
+})
+
+const params = [
+  makeParam('name', 'string'),
+  makeParam('count', 'number'),
+  makeParam('enabled', 'Boolean', false),
+  makeParam('retries', 'number', true, '3'),
+  makeParam('options', 'any', false)
+]
+
+const getCodes = (argsStr: string) => checkActionArgs(argsStr, params).map((x) => `${x.param}:${x.code}`)
+
+describe('checkActionArgs', () => {
+  test('valid arguments have no issues', () => {
+    expect(getCodes('{"name":"bob","count":"2","enabled":"true"}')).toEqual([])
+    expect(getCodes('{"name":"bob","count":2,"enabled":false,"options":{"a":1}}')).toEqual([])
+  })
+
+  test('templates are not type checked', () => {
+    expect(getCodes('{"name":"{{user.name}}","count":"{{temp.count}}","enabled":"{{session.enabled}}"}')).toEqual([])
+  })
+
+  test('reports missing, unknown and mistyped parameters', () => {
+    expect(getCodes('{"count":"two","enabled":"yes","color":"red","name":""}')).toEqual([
+      'name:missing_action_param',
+      'count:invalid_action_param_type',
+      'enabled:invalid_action_param_type',
+      'color:unknown_action_param'
+    ])
+  })
+
+  test('reports arguments which are not an object', () => {
+    expect(getCodes('{"name":')).toEqual(['undefined:invalid_action_args'])
+    expect(getCodes('["bob"]')).toEqual(['undefined:invalid_action_args'])
+  })
+
+  test('arguments of actions which declare no parameters are not reported', () => {
+    expect(checkActionArgs('{"name":"bob","color":"red"}', [])).toEqual([])
+  })
+
+  test('empty arguments only miss the required parameters without a default value', () => {
+    expect(getCodes('')).toEqual(['name:missing_action_param', 'count:missing_action_param'])
+  })
+})
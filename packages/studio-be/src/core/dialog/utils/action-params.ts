@@ -0,0 +1,85 @@
+import { ActionParameterDefinition, FlowLintCode } from 'common/typings'
+import _ from 'lodash'
+
+export interface ActionArgsIssue {
+  code: Extract<
+    FlowLintCode,
+    'invalid_action_args' | 'missing_action_param' | 'unknown_action_param' | 'invalid_action_param_type'
+  >
+  param?: string
+  message: string
+}
+
+/** Values rendered from variables when the action runs, e.g. "{{temp.count}}", can't be checked statically */
+const TEMPLATE_REGEX = /{{.*}}/
+
+const isEmpty = (value: any) => value === undefined || value === null || value === ''
+
+const matchesType = (value: any, type: string): boolean => {
+  if (_.isString(value) && TEMPLATE_REGEX.test(value)) {
+    return true
+  }
+
+  switch (type.toLowerCase()) {
+    case 'number':
+      return _.isNumber(value) || (_.isString(value) && value.trim() !== '' && !isNaN(Number(value)))
+    case 'boolean':
+      return _.isBoolean(value) || value === 'true' || value === 'false'
+    case 'string':
+      return _.isString(value)
+    default:
+      // Other types, like "any" or "object", are not checked
+      return true
+  }
+}
+
+/**
+ * Checks the arguments of an action instruction, a JSON object, against the parameters declared by the action
+ */
+export const checkActionArgs = (argsStr: string, params: ActionParameterDefinition[]): ActionArgsIssue[] => {
+  let args: { [name: string]: any }
+  try {
+    args = argsStr.trim() ? JSON.parse(argsStr) : {}
+  } catch (err) {
+    return [{ code: 'invalid_action_args', message: `Arguments are not valid JSON: ${err.message}` }]
+  }
+
+  if (!_.isPlainObject(args)) {
+    return [{ code: 'invalid_action_args', message: 'Arguments must be an object' }]
+  }
+
+  const issues: ActionArgsIssue[] = []
+  const paramNames = params.map((x) => x.name)
+
+  for (const param of params) {
+    const value = args[param.name]
+
+    if (isEmpty(value)) {
+      if (param.required && isEmpty(param.default)) {
+        issues.push({
+          code: 'missing_action_param',
+          param: param.name,
+          message: `Required parameter "${param.name}" is missing`
+        })
+      }
+    } else if (param.type && !matchesType(value, param.type)) {
+      issues.push({
+        code: 'invalid_action_param_type',
+        param: param.name,
+        message: `Parameter "${param.name}" should be a ${param.type.toLowerCase()}, got ${JSON.stringify(value)}`
+      })
+    }
+  }
+
+  // Actions without any @param in their comment don't document their parameters, their arguments can't be checked
+  const unknownArgs = params.length ? Object.keys(args).filter((x) => !paramNames.includes(x)) : []
+  for (const name of unknownArgs) {
+    issues.push({
+      code: 'unknown_action_param',
+      param: name,
+      message: `Parameter "${name}" is not declared by the action`
+    })
+  }
+
+  return issues
+}
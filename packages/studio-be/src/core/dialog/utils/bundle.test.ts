@@ -0,0 +1,102 @@
+import { FlowBundleFlow } from 'common/typings'
+
+import { BundleRenames, collectFlowDependencies, getAvailableName, renameFlowReferences } from './bundle'
+
+const makeFlow = (nodes: any[], extra: Partial<FlowBundleFlow['flow']> = {}): FlowBundleFlow['flow'] => ({
+  version: '0.0.1',
+  startNode: nodes[0]?.name,
+  nodes: nodes.map((node, idx) => ({ id: `node-${idx}`, onEnter: [], onReceive: null, next: [], ...node })),
+  ...extra
+})
+
+const noRenames: BundleRenames = { flows: {}, contentElements: {}, actions: {}, intents: {}, entities: {} }
+
+describe('collectFlowDependencies', () => {
+  const flows = {
+    'main.flow.json': makeFlow(
+      [
+        {
+          name: 'entry',
+          onEnter: ['say #!builtin_text-abc {}', 'setVariable {"type":"temp"}', 'remote:fetchUser {}'],
+          next: [
+            { condition: "event.nlu.intent.name === 'order'", node: 'sub.flow.json' },
+            { condition: 'true', node: 'skill' }
+          ]
+        },
+        { name: 'skill', type: 'skill-call', flow: 'skills/choice-123.flow.json' }
+      ],
+      { catchAll: { next: [{ condition: "event.nlu.intent.is('help')", node: 'entry' }] } }
+    ),
+    'sub.flow.json': makeFlow([{ name: 'entry', onEnter: ['say #!builtin_image-def'], next: [] }]),
+    'skills/choice-123.flow.json': makeFlow([{ name: 'entry', next: [{ condition: 'true', node: '#' }] }]),
+    'unrelated.flow.json': makeFlow([{ name: 'entry', onEnter: ['say #!builtin_text-xyz'] }])
+  }
+
+  test('walks subflows and lists what they reference', () => {
+    expect(collectFlowDependencies('main.flow.json', flows)).toEqual({
+      flows: ['main.flow.json', 'sub.flow.json', 'skills/choice-123.flow.json'],
+      contentElementIds: ['builtin_text-abc', 'builtin_image-def'],
+      actionNames: ['setVariable'],
+      intentNames: ['help', 'order']
+    })
+  })
+
+  test('subflows calling each other are only bundled once', () => {
+    const cyclic = {
+      'a.flow.json': makeFlow([{ name: 'entry', next: [{ condition: 'true', node: 'b.flow.json' }] }]),
+      'b.flow.json': makeFlow([{ name: 'entry', next: [{ condition: 'true', node: 'a.flow.json#entry' }] }])
+    }
+    expect(collectFlowDependencies('a.flow.json', cyclic).flows).toEqual(['a.flow.json', 'b.flow.json'])
+  })
+})
+
+describe('getAvailableName', () => {
+  test('appends a number and keeps the flow extension', () => {
+    expect(getAvailableName('main.flow.json', ['main.flow.json', 'main-1.flow.json'])).toEqual('main-2.flow.json')
+    expect(getAvailableName('greeting', ['greeting'])).toEqual('greeting-1')
+  })
+})
+
+describe('renameFlowReferences', () => {
+  test('updates references to renamed elements', () => {
+    const flow = makeFlow([
+      {
+        name: 'entry',
+        onEnter: [
+          'say #!builtin_text-abc {"typing":true}',
+          'myAction {}',
+          { type: 'render', name: '#!builtin_text-abc' }
+        ],
+        next: [
+          { condition: "event.nlu.intent.name === 'order'", node: 'sub.flow.json#entry' },
+          { condition: "event.nlu.intent.is('other')", node: 'END' }
+        ]
+      },
+      { name: 'skill', type: 'skill-call', flow: 'sub.flow.json' }
+    ])
+
+    const renamed = renameFlowReferences(flow, {
+      ...noRenames,
+      flows: { 'sub.flow.json': 'sub-1.flow.json' },
+      contentElements: { 'builtin_text-abc': 'builtin_text-new' },
+      actions: { myAction: 'myAction-1' },
+      intents: { order: 'order-1' }
+    })
+
+    expect(renamed.nodes[0].onEnter).toEqual([
+      'say #!builtin_text-new {"typing":true}',
+      'myAction-1 {}',
+      { type: 'render', name: '#!builtin_text-new' }
+    ])
+    expect(renamed.nodes[0].next).toEqual([
+      { condition: "event.nlu.intent.name === 'order-1'", node: 'sub-1.flow.json#entry' },
+      { condition: "event.nlu.intent.is('other')", node: 'END' }
+    ])
+    expect(renamed.nodes[1].flow).toEqual('sub-1.flow.json')
+  })
+
+  test('leaves the flow untouched when nothing is renamed', () => {
+    const flow = makeFlow([{ name: 'entry', onEnter: ['say #!builtin_text-abc'], next: [] }])
+    expect(renameFlowReferences(flow, noRenames).nodes[0]).toMatchObject(flow.nodes[0])
+  })
+})
@@ -0,0 +1,188 @@
+import { ActionBuilderProps, NodeTransition } from 'botpress/sdk'
+import { parseActionInstruction } from 'common/action'
+import { FlowBundleFlow, FlowView, NodeView } from 'common/typings'
+import _ from 'lodash'
+
+import {
+  CONTENT_ELEMENT_REGEX,
+  extractIntentsFromCondition,
+  getInstructions,
+  INTENT_CONDITION_REGEXES,
+  parseTransitionTarget
+} from './linter'
+
+type BundledFlow = FlowBundleFlow['flow']
+
+export interface FlowDependencies {
+  flows: string[]
+  contentElementIds: string[]
+  actionNames: string[]
+  intentNames: string[]
+}
+
+/** New names of the imported elements, indexed by their name in the bundle */
+export interface BundleRenames {
+  flows: _.Dictionary<string>
+  contentElements: _.Dictionary<string>
+  actions: _.Dictionary<string>
+  intents: _.Dictionary<string>
+  entities: _.Dictionary<string>
+}
+
+const FLOW_EXTENSION_REGEX = /\.flow\.json$/i
+const ABSOLUTE_PATH_REGEX = /^([\\/]|[a-z]:)/i
+
+const getTransitions = (flow: BundledFlow): NodeTransition[] => [
+  ...(flow.catchAll?.next || []),
+  ..._.flatMap(flow.nodes, (node) => node.next || [])
+]
+
+const getFlowInstructions = (flow: BundledFlow): string[] => [
+  ...getInstructions(flow.catchAll?.onReceive),
+  ..._.flatMap(flow.nodes, (node) => [...getInstructions(node.onEnter), ...getInstructions(node.onReceive)])
+]
+
+/**
+ * Walks a flow and every subflow it calls (through transitions or skills) to list the elements they reference
+ */
+export const collectFlowDependencies = (flowName: string, flowsByName: _.Dictionary<BundledFlow>): FlowDependencies => {
+  const flows: string[] = []
+  const queue: (string | undefined)[] = [flowName]
+
+  while (queue.length) {
+    const name = queue.shift()
+    const flow = name && flowsByName[name]
+    if (!name || !flow || flows.includes(name)) {
+      continue
+    }
+    flows.push(name)
+
+    queue.push(
+      ...getTransitions(flow).map((transition) => parseTransitionTarget(transition.node)?.flow),
+      ...flow.nodes.map((node) => node.flow)
+    )
+  }
+
+  const instructions = _.flatMap(flows, (name) => getFlowInstructions(flowsByName[name]))
+  const [says, actions] = _.partition(instructions, (instruction) => instruction.startsWith('say '))
+
+  return {
+    flows,
+    contentElementIds: _.uniq(says.map((say) => say.match(CONTENT_ELEMENT_REGEX)?.[1]).filter((x): x is string => !!x)),
+    actionNames: _.uniq(
+      actions
+        .map(parseActionInstruction)
+        .filter(({ actionServerId }) => !actionServerId)
+        .map(({ actionName }) => actionName)
+        .filter(Boolean)
+    ),
+    intentNames: _.uniq(
+      _.flatMap(flows, (name) =>
+        _.flatMap(getTransitions(flowsByName[name]), (transition) => extractIntentsFromCondition(transition.condition))
+      )
+    )
+  }
+}
+
+/**
+ * Finds a name which isn't taken by appending a number to it. The extension of flows is preserved
+ */
+export const getAvailableName = (name: string, takenNames: string[]): string => {
+  const taken = takenNames.map((x) => x.toLowerCase())
+  const extension = FLOW_EXTENSION_REGEX.test(name) ? '.flow.json' : ''
+  const base = name.replace(FLOW_EXTENSION_REGEX, '')
+
+  let index = 1
+  while (taken.includes(`${base}-${index}${extension}`.toLowerCase())) {
+    index++
+  }
+
+  return `${base}-${index}${extension}`
+}
+
+const renameInstruction = (
+  instruction: string | ActionBuilderProps,
+  renames: BundleRenames
+): string | ActionBuilderProps => {
+  if (!_.isString(instruction)) {
+    if (instruction.type === 'render' && instruction.name?.startsWith('#!')) {
+      const id = instruction.name.substring(2)
+      return renames.contentElements[id] ? { ...instruction, name: `#!${renames.contentElements[id]}` } : instruction
+    }
+    if (instruction.type === 'run' && renames.actions[instruction.name]) {
+      return { ...instruction, name: renames.actions[instruction.name] }
+    }
+    return instruction
+  }
+
+  if (instruction.startsWith('say ')) {
+    return instruction.replace(CONTENT_ELEMENT_REGEX, (say, id) =>
+      renames.contentElements[id] ? `say #!${renames.contentElements[id]}` : say
+    )
+  }
+
+  const { actionName, actionServerId } = parseActionInstruction(instruction)
+  if (!actionServerId && renames.actions[actionName]) {
+    return renames.actions[actionName] + instruction.substring(actionName.length)
+  }
+
+  return instruction
+}
+
+const renameTransition = (transition: NodeTransition, renames: BundleRenames): NodeTransition => {
+  const subflow = parseTransitionTarget(transition.node)?.flow
+  const node =
+    subflow && renames.flows[subflow] ? transition.node.replace(subflow, renames.flows[subflow]) : transition.node
+
+  const condition = INTENT_CONDITION_REGEXES.reduce(
+    (condition, regex) =>
+      condition.replace(regex, (match, intent) =>
+        renames.intents[intent] ? match.replace(intent, renames.intents[intent]) : match
+      ),
+    transition.condition || ''
+  )
+
+  return { ...transition, node, condition }
+}
+
+/**
+ * Updates the references of a flow to the elements which were renamed during the import
+ */
+export const renameFlowReferences = <T extends BundledFlow>(flow: T, renames: BundleRenames): T => {
+  const renameActions = (actions) => actions && actions.map((action) => renameInstruction(action, renames))
+  const renameTransitions = (transitions?: NodeTransition[]) =>
+    transitions && transitions.map((transition) => renameTransition(transition, renames))
+
+  return {
+    ...flow,
+    catchAll: flow.catchAll && {
+      ...flow.catchAll,
+      onReceive: renameActions(flow.catchAll.onReceive),
+      next: renameTransitions(flow.catchAll.next)
+    },
+    nodes: flow.nodes.map((node) => ({
+      ...node,
+      flow: node.flow && (renames.flows[node.flow] || node.flow),
+      onEnter: renameActions(node.onEnter),
+      onReceive: renameActions(node.onReceive),
+      next: renameTransitions(node.next)
+    }))
+  }
+}
+
+/** Flow names are paths relative to the flows folder, an imported flow can't be written outside of it */
+export const isValidFlowName = (name: string): boolean =>
+  _.isString(name) &&
+  FLOW_EXTENSION_REGEX.test(name) &&
+  !ABSOLUTE_PATH_REGEX.test(name) &&
+  !name.split(/[\\/]/).includes('..')
+
+export const toFlowView = (name: string, { flow, ui }: Pick<FlowBundleFlow, 'flow' | 'ui'>): FlowView => ({
+  ...flow,
+  name,
+  location: name,
+  links: ui?.links || [],
+  nodes: flow.nodes.map(
+    (node) => <NodeView>{ ...node, ...(_.find(ui?.nodes, { id: node.id })?.position || { x: 0, y: 0 }) }
+  )
+})
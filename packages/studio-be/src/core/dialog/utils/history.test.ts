@@ -0,0 +1,53 @@
+import { FlowSnapshot } from 'common/typings'
+
+import { diffFlows } from './history'
+
+const makeSnapshot = (nodes: any[], extra: Partial<FlowSnapshot> = {}): FlowSnapshot =>
+  <FlowSnapshot>{
+    version: '0.0.1',
+    startNode: nodes[0]?.name,
+    links: [],
+    nodes: nodes.map((node) => ({ x: 0, y: 0, onEnter: [], onReceive: null, next: [], ...node })),
+    ...extra
+  }
+
+describe('diffFlows', () => {
+  test('identical flows have no differences', () => {
+    const flow = makeSnapshot([{ id: '1', name: 'entry' }])
+    expect(diffFlows(flow, flow)).toEqual({ nodes: [], properties: [] })
+  })
+
+  test('moving nodes is not a change', () => {
+    const previous = makeSnapshot([{ id: '1', name: 'entry' }])
+    const next = makeSnapshot([{ id: '1', name: 'entry', x: 200, y: 300 }])
+    expect(diffFlows(previous, next).nodes).toEqual([])
+  })
+
+  test('reports added, removed and changed nodes', () => {
+    const previous = makeSnapshot([
+      { id: '1', name: 'entry', onEnter: ['say #!builtin_text-abc'] },
+      { id: '2', name: 'removed' }
+    ])
+    const next = makeSnapshot(
+      [
+        { id: '1', name: 'renamed', next: [{ condition: 'true', node: 'END' }] },
+        { id: '3', name: 'added' }
+      ],
+      { startNode: 'renamed' }
+    )
+
+    expect(diffFlows(previous, next)).toEqual({
+      nodes: [
+        { id: '1', name: 'renamed', type: 'changed', properties: ['name', 'next', 'onEnter'] },
+        { id: '3', name: 'added', type: 'added', properties: [] },
+        { id: '2', name: 'removed', type: 'removed', properties: [] }
+      ],
+      properties: ['startNode']
+    })
+  })
+
+  test('every node is added when there is no previous version', () => {
+    const next = makeSnapshot([{ id: '1', name: 'entry' }])
+    expect(diffFlows(undefined, next).nodes).toEqual([{ id: '1', name: 'entry', type: 'added', properties: [] }])
+  })
+})
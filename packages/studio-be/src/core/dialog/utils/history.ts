@@ -0,0 +1,54 @@
+import { FlowDiff, FlowNodeDiff, FlowSnapshot, FlowView, NodeView } from 'common/typings'
+import _ from 'lodash'
+
+const FLOW_PROPERTIES = ['startNode', 'timeoutNode', 'catchAll', 'skillData', 'label', 'description']
+// Positions are ignored, moving a node around is not considered as a change of its behavior
+const IGNORED_NODE_PROPERTIES = ['id', 'x', 'y', 'lastModified']
+
+export const toFlowSnapshot = (flow: FlowView): FlowSnapshot => ({
+  ...(<FlowSnapshot>_.pick(flow, ['version', 'links', ...FLOW_PROPERTIES])),
+  nodes: flow.nodes.map((node) => <NodeView>_.omit(node, 'lastModified'))
+})
+
+const getChangedProperties = (previous: object, next: object, ignored: string[] = []): string[] => {
+  const properties = _.union(Object.keys(previous), Object.keys(next)).sort()
+
+  return properties
+    .filter((prop) => !ignored.includes(prop))
+    .filter((prop) => !_.isEqual(_.get(previous, prop) ?? undefined, _.get(next, prop) ?? undefined))
+}
+
+/**
+ * Compares two versions of a flow node by node. Nodes are matched by id so a renamed node is reported
+ * as changed rather than as removed then added.
+ */
+export const diffFlows = (previous: Partial<FlowSnapshot> | undefined, next: Partial<FlowSnapshot>): FlowDiff => {
+  const previousNodes = _.keyBy(previous?.nodes || [], 'id')
+  const nextNodes = _.keyBy(next.nodes || [], 'id')
+
+  const nodes: FlowNodeDiff[] = []
+
+  for (const node of next.nodes || []) {
+    const previousNode = previousNodes[node.id!]
+    if (!previousNode) {
+      nodes.push({ id: node.id!, name: node.name, type: 'added', properties: [] })
+      continue
+    }
+
+    const properties = getChangedProperties(previousNode, node, IGNORED_NODE_PROPERTIES)
+    if (properties.length) {
+      nodes.push({ id: node.id!, name: node.name, type: 'changed', properties })
+    }
+  }
+
+  for (const node of previous?.nodes || []) {
+    if (!nextNodes[node.id!]) {
+      nodes.push({ id: node.id!, name: node.name, type: 'removed', properties: [] })
+    }
+  }
+
+  return {
+    nodes,
+    properties: getChangedProperties(_.pick(previous, FLOW_PROPERTIES), _.pick(next, FLOW_PROPERTIES))
+  }
+}
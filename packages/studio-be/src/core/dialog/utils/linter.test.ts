@@ -0,0 +1,134 @@
+import { FlowView } from 'common/typings'
+
+import { extractIntentsFromCondition, getCalledActionServers, lintFlows, parseTransitionTarget } from './linter'
+
+const makeFlow = (name: string, nodes: any[], extra: Partial<FlowView> = {}): FlowView =>
+  <FlowView>{
+    name,
+    location: name,
+    version: '0.0.1',
+    startNode: nodes[0].name,
+    links: [],
+    nodes: nodes.map((node) => ({
+      id: `id-${node.name}`,
+      x: 0,
+      y: 0,
+      onEnter: [],
+      onReceive: null,
+      next: [],
+      ...node
+    })),
+    ...extra
+  }
+
+describe('parseTransitionTarget', () => {
+  test('special targets are ignored', () => {
+    expect(parseTransitionTarget('')).toBeUndefined()
+    expect(parseTransitionTarget('END')).toBeUndefined()
+    expect(parseTransitionTarget('#')).toBeUndefined()
+    expect(parseTransitionTarget('##')).toBeUndefined()
+    expect(parseTransitionTarget('#some-node')).toBeUndefined()
+  })
+
+  test('nodes and subflows', () => {
+    expect(parseTransitionTarget('node-1')).toEqual({ node: 'node-1' })
+    expect(parseTransitionTarget('sub.flow.json')).toEqual({ flow: 'sub.flow.json', node: undefined })
+    expect(parseTransitionTarget('folder/sub.flow.json#entry')).toEqual({ flow: 'folder/sub.flow.json', node: 'entry' })
+  })
+})
+
+describe('extractIntentsFromCondition', () => {
+  test('finds intents in conditions', () => {
+    expect(extractIntentsFromCondition("event.nlu.intent.name === 'hello'")).toEqual(['hello'])
+    expect(extractIntentsFromCondition('event.nlu.intent.is("bye") || event.nlu.intent.is("bye")')).toEqual(['bye'])
+    expect(extractIntentsFromCondition('true')).toEqual([])
+    expect(extractIntentsFromCondition(undefined)).toEqual([])
+  })
+})
+
+describe('lintFlows', () => {
+  const context = {
+    contentElementIds: ['builtin_text-abc'],
+    actionNames: ['builtin/setVariable'],
+    intentNames: ['hello']
+  }
+
+  test('valid flows have no problems', () => {
+    const main = makeFlow('main.flow.json', [
+      {
+        name: 'entry',
+        onEnter: ['say #!builtin_text-abc', 'builtin/setVariable {}', 'remote:someAction {}'],
+        next: [
+          { condition: "event.nlu.intent.name === 'hello'", node: 'sub.flow.json#second' },
+          { condition: 'true', node: 'END' }
+        ]
+      }
+    ])
+    const sub = makeFlow('sub.flow.json', [
+      { name: 'first' },
+      { name: 'second', next: [{ condition: 'true', node: '#' }] }
+    ])
+
+    expect(lintFlows({ ...context, flows: [main, sub] })).toEqual([])
+  })
+
+  test('reports broken references', () => {
+    const main = makeFlow('main.flow.json', [
+      {
+        name: 'entry',
+        onEnter: ['say #!builtin_text-deleted', 'deletedAction {}'],
+        next: [
+          { condition: "event.nlu.intent.name === 'unknown'", node: 'missing' },
+          { condition: 'true', node: 'other.flow.json' }
+        ]
+      },
+      { name: 'orphan' }
+    ])
+
+    const codes = lintFlows({ ...context, flows: [main] }).map((x) => `${x.node}:${x.code}:${x.severity}`)
+    expect(codes.sort()).toEqual(
+      [
+        'entry:missing_content_element:error',
+        'entry:missing_action:error',
+        'entry:missing_node:error',
+        'entry:missing_intent:warning',
+        'entry:missing_subflow:error',
+        'orphan:unreachable_node:warning'
+      ].sort()
+    )
+  })
+
+  test('checks the arguments of local and remote actions', () => {
+    const param = { name: 'count', type: 'number', required: true, default: '', description: '' }
+    const main = makeFlow('main.flow.json', [
+      {
+        name: 'entry',
+        onEnter: [
+          'builtin/setVariable {"count":"two"}',
+          'remote:someAction {}',
+          'remote:deletedAction {}',
+          'offline:someAction {}',
+          'unknown:someAction {}'
+        ],
+        next: [{ condition: 'true', node: 'END' }]
+      }
+    ])
+
+    expect(getCalledActionServers([main]).sort()).toEqual(['offline', 'remote', 'unknown'])
+
+    const problems = lintFlows({
+      ...context,
+      flows: [main],
+      actions: [{ name: 'builtin/setVariable', params: [param] }],
+      actionServers: { remote: [{ name: 'someAction', params: [param] }], offline: undefined }
+    })
+    expect(problems.map((x) => `${x.code}:${x.severity}`).sort()).toEqual(
+      [
+        'invalid_action_param_type:warning',
+        'missing_action_param:error',
+        'missing_action:error',
+        'missing_action_server:error'
+      ].sort()
+    )
+  })
+})
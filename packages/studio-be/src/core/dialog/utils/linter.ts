@@ -0,0 +1,324 @@
+import { ActionBuilderProps, FlowNode, NodeTransition } from 'botpress/sdk'
+import { parseActionInstruction } from 'common/action'
+import { ActionDefinition, FlowLintProblem, FlowLintSeverity, FlowView } from 'common/typings'
+import _ from 'lodash'
+
+import { ActionArgsIssue, checkActionArgs } from './action-params'
+
+type ActionSignature = Pick<ActionDefinition, 'name' | 'params'>
+
+export interface FlowLintContext {
+  flows: FlowView[]
+  contentElementIds: string[]
+  actionNames: string[]
+  intentNames: string[]
+  /** Parameters of the local actions, checked against the arguments of the instructions */
+  actions?: ActionSignature[]
+  /**
+   * Actions advertised by the action servers called in the flows. Servers which are not configured are absent,
+   * those which couldn't be reached have no actions
+   */
+  actionServers?: { [serverId: string]: ActionSignature[] | undefined }
+}
+
+interface TransitionTarget {
+  flow?: string
+  node?: string
+}
+
+const SPECIAL_TARGETS = ['END', '#', '##']
+const SUBFLOW_REGEX = /^(.+\.flow\.json)(?:#(.+))?$/i
+export const CONTENT_ELEMENT_REGEX = /^say #!(\S+)/
+export const INTENT_CONDITION_REGEXES = [
+  /event\.nlu\.intent\.name\s*={2,3}\s*['"`]([^'"`]+)['"`]/g,
+  /event\.nlu\.intent\.is\(\s*['"`]([^'"`]+)['"`]\s*\)/g
+]
+const BUILTIN_INTENTS = ['none']
+
+const ARGS_ISSUE_SEVERITIES: { [code in ActionArgsIssue['code']]: FlowLintSeverity } = {
+  invalid_action_args: 'error',
+  missing_action_param: 'error',
+  unknown_action_param: 'warning',
+  invalid_action_param_type: 'warning'
+}
+
+/** Servers called by the action instructions of the flows, so only their actions are fetched */
+export const getCalledActionServers = (flows: FlowView[]): string[] => {
+  const instructions = _.flatMap(flows, (flow) => [
+    ...getInstructions(flow.catchAll?.onReceive),
+    ..._.flatMap(flow.nodes, (node) => [...getInstructions(node.onEnter), ...getInstructions(node.onReceive)])
+  ])
+
+  return _.uniq(
+    instructions
+      .filter((x) => !x.startsWith('say '))
+      .map((x) => parseActionInstruction(x).actionServerId)
+      .filter((x): x is string => !!x)
+  )
+}
+
+/**
+ * Resolves the destination of a transition. Returns undefined when the destination can't be checked
+ * statically (end of conversation, return to the parent flow or a transition that isn't connected yet)
+ */
+export const parseTransitionTarget = (target: string | undefined): TransitionTarget | undefined => {
+  if (!target || SPECIAL_TARGETS.includes(target) || target.startsWith('#')) {
+    return
+  }
+
+  const subflow = target.match(SUBFLOW_REGEX)
+  if (subflow) {
+    return { flow: subflow[1], node: subflow[2] || undefined }
+  }
+
+  return { node: target }
+}
+
+export const extractIntentsFromCondition = (condition: string | undefined): string[] => {
+  if (!condition) {
+    return []
+  }
+
+  const intents: string[] = []
+  for (const regex of INTENT_CONDITION_REGEXES) {
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(condition)) !== null) {
+      intents.push(match[1])
+    }
+  }
+
+  return _.uniq(intents)
+}
+
+export const getInstructions = (actions: (string | ActionBuilderProps)[] | undefined): string[] =>
+  (actions || [])
+    .map((action) => {
+      if (_.isString(action)) {
+        return action.trim()
+      }
+      if (action.type === 'run') {
+        return action.name
+      }
+      if (action.type === 'render' && action.name?.startsWith('#!')) {
+        return `say ${action.name}`
+      }
+      return undefined
+    })
+    .filter((x): x is string => !!x)
+
+const getReachableNodes = (flow: FlowView, externalEntries: string[]): Set<string> => {
+  const nodesByName = _.keyBy(flow.nodes, 'name')
+  const entries = [flow.startNode, flow.timeoutNode, ...externalEntries]
+  entries.push(..._.map(flow.catchAll?.next, 'node'))
+
+  const reachable = new Set<string>()
+  const queue = entries.filter((name): name is string => !!name && !!nodesByName[name])
+
+  while (queue.length) {
+    const name = queue.shift()!
+    if (reachable.has(name)) {
+      continue
+    }
+    reachable.add(name)
+
+    const node = nodesByName[name]
+    const targets = [..._.map(node.next, 'node'), node.timeoutNode]
+    for (const target of targets) {
+      const parsed = parseTransitionTarget(target)
+      if (parsed && !parsed.flow && nodesByName[parsed.node!] && !reachable.has(parsed.node!)) {
+        queue.push(parsed.node!)
+      }
+    }
+  }
+
+  return reachable
+}
+
+/**
+ * Collects the nodes that are entered from outside of their flow, either through a `subflow.flow.json#node`
+ * transition or through a `#node` transition that returns to the parent flow.
+ */
+const getExternalEntries = (flows: FlowView[]): { byFlow: _.Dictionary<string[]>; returns: string[] } => {
+  const byFlow: _.Dictionary<string[]> = {}
+  const returns: string[] = []
+
+  const transitions = _.flatMap(flows, (flow) => [
+    ...(flow.catchAll?.next || []),
+    ..._.flatMap(flow.nodes, (node) => node.next || [])
+  ])
+
+  for (const { node: target } of transitions) {
+    if (target && target.startsWith('#') && !SPECIAL_TARGETS.includes(target)) {
+      returns.push(target.substring(1))
+      continue
+    }
+
+    const parsed = parseTransitionTarget(target)
+    if (parsed?.flow && parsed.node) {
+      byFlow[parsed.flow] = [...(byFlow[parsed.flow] || []), parsed.node]
+    }
+  }
+
+  return { byFlow, returns }
+}
+
+export const lintFlows = (context: FlowLintContext): FlowLintProblem[] => {
+  const { flows, contentElementIds, actionNames } = context
+  const actionsByName = _.keyBy(context.actions, 'name')
+  const flowsByName = _.keyBy(flows, 'name')
+  const intentNames = [...BUILTIN_INTENTS, ...context.intentNames].map((x) => x.toLowerCase())
+  const externalEntries = getExternalEntries(flows)
+
+  const problems: FlowLintProblem[] = []
+
+  for (const flow of flows) {
+    const report = (problem: Omit<FlowLintProblem, 'flow'>) => problems.push({ flow: flow.name, ...problem })
+    const nodeNames = flow.nodes.map((x) => x.name)
+
+    const checkTransitions = (transitions: NodeTransition[] | undefined, node?: string) => {
+      for (const transition of transitions || []) {
+        const target = parseTransitionTarget(transition.node)
+
+        if (target?.flow) {
+          const subflow = flowsByName[target.flow]
+          if (!subflow) {
+            report({
+              node,
+              severity: 'error',
+              code: 'missing_subflow',
+              message: `Transition points to flow "${target.flow}" which does not exist`
+            })
+          } else if (target.node && !_.find(subflow.nodes, { name: target.node })) {
+            report({
+              node,
+              severity: 'error',
+              code: 'missing_node',
+              message: `Transition points to node "${target.node}" which does not exist in flow "${target.flow}"`
+            })
+          }
+        } else if (target?.node && !nodeNames.includes(target.node)) {
+          report({
+            node,
+            severity: 'error',
+            code: 'missing_node',
+            message: `Transition points to node "${target.node}" which does not exist`
+          })
+        }
+
+        for (const intent of extractIntentsFromCondition(transition.condition)) {
+          if (!intentNames.includes(intent.toLowerCase())) {
+            report({
+              node,
+              severity: 'warning',
+              code: 'missing_intent',
+              message: `Condition uses intent "${intent}" which is not defined`
+            })
+          }
+        }
+      }
+    }
+
+    const checkInstructions = (instructions: string[], node?: string) => {
+      for (const instruction of instructions) {
+        if (instruction.startsWith('say ')) {
+          const elementId = instruction.match(CONTENT_ELEMENT_REGEX)?.[1]
+          if (elementId && !contentElementIds.includes(elementId)) {
+            report({
+              node,
+              severity: 'error',
+              code: 'missing_content_element',
+              message: `Content element "${elementId}" does not exist`
+            })
+          }
+          continue
+        }
+
+        const { actionName, actionServerId, argsStr } = parseActionInstruction(instruction)
+        if (!actionName) {
+          continue
+        }
+
+        let action: ActionSignature | undefined
+        if (!actionServerId) {
+          if (!actionNames.includes(actionName)) {
+            report({
+              node,
+              severity: 'error',
+              code: 'missing_action',
+              message: `Action "${actionName}" does not exist`
+            })
+            continue
+          }
+          action = actionsByName[actionName]
+        } else if (context.actionServers) {
+          if (!_.has(context.actionServers, actionServerId)) {
+            report({
+              node,
+              severity: 'error',
+              code: 'missing_action_server',
+              message: `Action server "${actionServerId}" is not configured`
+            })
+            continue
+          }
+
+          // Actions of servers which couldn't be reached are not checked
+          const serverActions = context.actionServers[actionServerId]
+          action = serverActions?.find((x) => x.name === actionName)
+          if (serverActions && !action) {
+            report({
+              node,
+              severity: 'error',
+              code: 'missing_action',
+              message: `Action "${actionName}" is not available on action server "${actionServerId}"`
+            })
+            continue
+          }
+        }
+
+        for (const issue of action ? checkActionArgs(argsStr, action.params || []) : []) {
+          report({
+            node,
+            severity: ARGS_ISSUE_SEVERITIES[issue.code],
+            code: issue.code,
+            message: `Action "${actionName}": ${issue.message}`
+          })
+        }
+      }
+    }
+
+    const reachable = getReachableNodes(flow, [
+      ...(externalEntries.byFlow[flow.name] || []),
+      ...externalEntries.returns
+    ])
+
+    for (const node of flow.nodes as FlowNode[]) {
+      if (!reachable.has(node.name)) {
+        report({
+          node: node.name,
+          severity: 'warning',
+          code: 'unreachable_node',
+          message: 'Node can not be reached from the start node'
+        })
+      }
+
+      if (node.type === 'skill-call' && node.flow && !flowsByName[node.flow]) {
+        report({
+          node: node.name,
+          severity: 'error',
+          code: 'missing_subflow',
+          message: `Skill flow "${node.flow}" does not exist`
+        })
+      }
+
+      checkInstructions([...getInstructions(node.onEnter), ...getInstructions(node.onReceive)], node.name)
+      checkTransitions(node.next, node.name)
+    }
+
+    if (flow.catchAll) {
+      checkInstructions(getInstructions(flow.catchAll.onReceive))
+      checkTransitions(flow.catchAll.next)
+    }
+  }
+
+  return problems
+}
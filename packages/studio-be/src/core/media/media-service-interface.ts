@@ -4,5 +4,6 @@ export interface MediaService {
   saveFile: (fileName: string, content: Buffer) => Promise<{ url: string; fileName: string }> // TODO Buffer | ReadStream
   readFile: (fileName: string) => Promise<Buffer> // TODO Buffer | ReadStream
   deleteFile: (fileName: string) => Promise<void>
+  listFiles: () => Promise<{ fileName: string; size: number }[]>
   getPublicURL: (fileName: string) => string
 }
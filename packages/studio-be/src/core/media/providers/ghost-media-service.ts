@@ -38,6 +38,16 @@ export class GhostMediaService implements MediaService {
     await this.ghost.deleteFile(this.MEDIA_DIR, sanitize(fileName))
   }
 
+  async listFiles(): Promise<{ fileName: string; size: number }[]> {
+    const fileNames = await this.ghost.directoryListing(this.MEDIA_DIR, '*.*')
+
+    // The storage doesn't expose file sizes, files are read one at a time to keep memory usage low
+    return Promise.mapSeries(fileNames, async (fileName) => ({
+      fileName,
+      size: (await this.ghost.readFileAsBuffer(this.MEDIA_DIR, fileName)).length
+    }))
+  }
+
   private debug(message: string) {
     if (this.botId) {
       debug.forBot(this.botId, message)
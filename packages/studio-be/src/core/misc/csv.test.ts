@@ -0,0 +1,19 @@
+import { parseCsv, toCsv } from './csv'
+
+describe('csv', () => {
+  test('parses what it serializes', () => {
+    const rows = [
+      ['id', 'text'],
+      ['a', 'Hello, "world"'],
+      ['b', 'Multi\nline']
+    ]
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+
+  test('skips empty lines and the byte order mark', () => {
+    expect(parseCsv('\uFEFFid,text\n\na,b\n')).toEqual([
+      ['id', 'text'],
+      ['a', 'b']
+    ])
+  })
+})
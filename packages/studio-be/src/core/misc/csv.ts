@@ -0,0 +1,54 @@
+const escapeCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+/**
+ * Serializes rows as RFC 4180 CSV. The first row is usually the header
+ */
+export const toCsv = (rows: string[][]): string => rows.map((row) => row.map(escapeCell).join(',')).join('\r\n')
+
+/**
+ * Parses RFC 4180 CSV: quoted cells can contain commas, line breaks and escaped quotes. Empty lines are skipped
+ */
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const text = content.replace(/^\uFEFF/, '')
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter((x) => x.some((value) => value !== ''))
+}
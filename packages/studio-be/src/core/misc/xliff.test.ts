@@ -0,0 +1,31 @@
+import { parseXliff, toXliff } from './xliff'
+
+describe('xliff', () => {
+  test('units survive a round trip', () => {
+    const doc = {
+      sourceLanguage: 'en',
+      targetLanguage: 'fr',
+      units: [
+        { id: 'builtin_text-abc#text', source: 'Hello <b>"you"</b> & co', target: 'Bonjour' },
+        { id: 'builtin_card-def#actions[0].title', source: 'Website', target: undefined }
+      ]
+    }
+
+    expect(parseXliff(toXliff(doc))).toEqual({
+      ...doc,
+      units: [doc.units[0], { ...doc.units[1], target: '' }]
+    })
+  })
+
+  test('reads CDATA sections and character references', () => {
+    const xml = `<xliff version="1.2"><file source-language="en" target-language="es"><body>
+      <trans-unit id="a"><source><![CDATA[<hi>]]></source><target>caf&#233; &amp; t&#xE9;</target></trans-unit>
+    </body></file></xliff>`
+
+    expect(parseXliff(xml).units).toEqual([{ id: 'a', source: '<hi>', target: 'café & té' }])
+  })
+
+  test('rejects documents without file', () => {
+    expect(() => parseXliff('<xliff></xliff>')).toThrow()
+  })
+})
@@ -0,0 +1,75 @@
+import { escapeXml, unescapeXml } from './xml'
+
+export interface XliffUnit {
+  id: string
+  source: string
+  target?: string
+  note?: string
+}
+
+export interface XliffDocument {
+  sourceLanguage: string
+  targetLanguage: string
+  units: XliffUnit[]
+}
+
+const getAttribute = (tag: string, name: string) => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1]
+
+const getElement = (xml: string, name: string) =>
+  xml.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`))?.[1] ??
+  (new RegExp(`<${name}\\b[^>]*/>`).test(xml) ? '' : undefined)
+
+/**
+ * Serializes translation units as a XLIFF 1.2 document, the format most translation tools accept
+ */
+export const toXliff = ({ sourceLanguage, targetLanguage, units }: XliffDocument): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="content" datatype="plaintext" source-language="${escapeXml(
+      sourceLanguage
+    )}" target-language="${escapeXml(targetLanguage)}">`,
+    '    <body>',
+    ...units.map((unit) =>
+      [
+        `      <trans-unit id="${escapeXml(unit.id)}">`,
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target>${escapeXml(unit.target || '')}</target>`,
+        ...(unit.note ? [`        <note>${escapeXml(unit.note)}</note>`] : []),
+        '      </trans-unit>'
+      ].join('\n')
+    ),
+    '    </body>',
+    '  </file>',
+    '</xliff>'
+  ].join('\n')
+
+/**
+ * Reads the units of a XLIFF 1.2 document. Inline markup isn't supported, it is kept as text
+ */
+export const parseXliff = (xml: string): XliffDocument => {
+  const fileTag = xml.match(/<file\b[^>]*>/)?.[0]
+  if (!fileTag) {
+    throw new Error('Missing <file> element')
+  }
+
+  const units = Array.from(xml.match(/<trans-unit\b[\s\S]*?<\/trans-unit>/g) || []).map((unitXml) => {
+    const id = getAttribute(unitXml.match(/<trans-unit\b[^>]*>/)![0], 'id')
+    if (id === undefined) {
+      throw new Error('A <trans-unit> element has no id')
+    }
+
+    const target = getElement(unitXml, 'target')
+    return {
+      id: unescapeXml(id),
+      source: unescapeXml(getElement(unitXml, 'source') || ''),
+      target: target === undefined ? undefined : unescapeXml(target)
+    }
+  })
+
+  return {
+    sourceLanguage: getAttribute(fileTag, 'source-language') || '',
+    targetLanguage: getAttribute(fileTag, 'target-language') || '',
+    units
+  }
+}
@@ -0,0 +1,46 @@
+import { parseXlsx, toXlsx } from './xlsx'
+import { createZip } from './zip'
+
+const SHEET_HEADER =
+  '<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+
+describe('xlsx', () => {
+  test('parses what it serializes', () => {
+    const rows = [
+      ['id', 'text', 'notes'],
+      ['a', 'Hello <"world"> & co', ''],
+      ['b', 'Multi\nline', 'Café']
+    ]
+    expect(parseXlsx(toXlsx(rows, 'QnA'))).toEqual(rows)
+  })
+
+  test('reads shared strings, numbers, booleans and sparse cells', () => {
+    const sheet = `${SHEET_HEADER}<sheetData>
+<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>
+<row r="3"><c r="A3"><v>42</v></c><c r="B3" t="b"><v>0</v></c><c r="C3" t="str"><f>A3</f><v>42</v></c></row>
+</sheetData></worksheet>`
+    const sharedStrings = '<sst><si><t>id</t></si><si><r><t>Rich </t></r><r><rPr><b/></rPr><t>text</t></r></si></sst>'
+
+    const buffer = createZip([
+      {
+        name: 'xl/workbook.xml',
+        content: Buffer.from('<workbook><sheets><sheet name="A" r:id="rId3"/></sheets></workbook>')
+      },
+      {
+        name: 'xl/_rels/workbook.xml.rels',
+        content: Buffer.from('<Relationships><Relationship Id="rId3" Target="worksheets/data.xml"/></Relationships>')
+      },
+      { name: 'xl/worksheets/data.xml', content: Buffer.from(sheet) },
+      { name: 'xl/sharedStrings.xml', content: Buffer.from(sharedStrings) }
+    ])
+
+    expect(parseXlsx(buffer)).toEqual([
+      ['id', '', 'Rich text'],
+      ['42', 'FALSE', '42']
+    ])
+  })
+
+  test('rejects files that are not workbooks', () => {
+    expect(() => parseXlsx(Buffer.from('id,text'))).toThrow()
+  })
+})
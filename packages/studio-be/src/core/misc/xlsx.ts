@@ -0,0 +1,157 @@
+import path from 'path'
+
+import { escapeXml, unescapeXml } from './xml'
+import { createZip, openZip } from './zip'
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+/** Sheet names can't contain some characters and are limited to 31 characters */
+const MAX_SHEET_NAME_LENGTH = 31
+/** Uncompressed size of the files read from a workbook, larger ones are most likely zip bombs */
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+
+const CONTENT_TYPES = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`
+
+const ROOT_RELATIONSHIPS = `${XML_HEADER}
+<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">
+<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+
+const WORKBOOK_RELATIONSHIPS = `${XML_HEADER}
+<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">
+<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`
+
+/** Converts a zero-based index to the letters of a column (0 => A, 26 => AA) */
+const getColumnName = (index: number): string => {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+const getColumnIndex = (ref: string): number =>
+  ref
+    .replace(/\d+$/, '')
+    .toUpperCase()
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+const getAttribute = (attributes: string, name: string) => {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes)
+  return match ? unescapeXml(match[1]) : undefined
+}
+
+/** Concatenates the text runs of a string item, phonetic runs are ignored */
+const getText = (xml: string) =>
+  (xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) || [])
+    .map((t) => unescapeXml(t.replace(/^<t[^>]*>|<\/t>$/g, '')))
+    .join('')
+
+const renderCell = (value: string, rowIndex: number, colIndex: number) =>
+  `<c r="${getColumnName(colIndex)}${rowIndex + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    value
+  )}</t></is></c>`
+
+/**
+ * Creates a workbook with a single sheet where every cell is a string
+ */
+export const toXlsx = (rows: string[][], sheetName: string = 'Sheet1'): Buffer => {
+  const name = sheetName.replace(/[\\/?*[\]:]/g, ' ').substr(0, MAX_SHEET_NAME_LENGTH)
+
+  const workbook = `${XML_HEADER}
+<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">
+<sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+
+  const sheetRows = rows.map(
+    (row, rowIndex) =>
+      `<row r="${rowIndex + 1}">${row.map((value, colIndex) => renderCell(value, rowIndex, colIndex)).join('')}</row>`
+  )
+  const sheet = `${XML_HEADER}
+<worksheet xmlns="${MAIN_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+
+  return createZip([
+    { name: '[Content_Types].xml', content: Buffer.from(CONTENT_TYPES) },
+    { name: '_rels/.rels', content: Buffer.from(ROOT_RELATIONSHIPS) },
+    { name: 'xl/workbook.xml', content: Buffer.from(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', content: Buffer.from(WORKBOOK_RELATIONSHIPS) },
+    { name: 'xl/worksheets/sheet1.xml', content: Buffer.from(sheet) }
+  ])
+}
+
+/**
+ * Reads the cells of the first sheet of a workbook as strings. Missing cells are empty strings and empty rows
+ * are skipped. Formulas are read from their cached value
+ */
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  const readZipFile = openZip(buffer, MAX_FILE_SIZE)
+  const readFile = (name: string) => readZipFile(name)?.toString('utf8')
+
+  const workbook = readFile('xl/workbook.xml')
+  const firstSheet = workbook && /<sheet\s([^>]*)\/?>/.exec(workbook)
+  if (!firstSheet) {
+    throw new Error('The file does not contain any sheet')
+  }
+
+  const relationshipId = getAttribute(firstSheet[1], 'r:id')
+  const relationships = readFile('xl/_rels/workbook.xml.rels') || ''
+  const relationship = (relationships.match(/<Relationship\s[^>]*>/g) || []).find(
+    (x) => getAttribute(x, 'Id') === relationshipId
+  )
+  const target = relationship ? getAttribute(relationship, 'Target')! : 'worksheets/sheet1.xml'
+  const sheetPath = target.startsWith('/') ? target.substr(1) : path.posix.join('xl', target)
+
+  const sheet = readFile(sheetPath)
+  if (!sheet) {
+    throw new Error('The first sheet of the file could not be found')
+  }
+
+  const sharedStrings = (readFile('xl/sharedStrings.xml')?.match(/<si>[\s\S]*?<\/si>/g) || []).map(getText)
+
+  const rows: string[][] = []
+  const rowRegex = /<row\b[^>]*>([\s\S]*?)<\/row>/g
+  let rowMatch: RegExpExecArray | null
+
+  while ((rowMatch = rowRegex.exec(sheet))) {
+    const row: string[] = []
+    const cells = rowMatch[1].match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || []
+
+    for (const cell of cells) {
+      const attributes = /<c\b([^>]*?)\/?>/.exec(cell)![1]
+      const ref = getAttribute(attributes, 'r')
+      const type = getAttribute(attributes, 't')
+      const value = /<v>([\s\S]*?)<\/v>/.exec(cell)?.[1]
+
+      let text = ''
+      if (type === 'inlineStr') {
+        text = getText(/<is>([\s\S]*?)<\/is>/.exec(cell)?.[1] || '')
+      } else if (type === 's') {
+        text = sharedStrings[Number(value)] || ''
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE'
+      } else if (value !== undefined) {
+        text = unescapeXml(value)
+      }
+
+      const index = ref ? getColumnIndex(ref) : row.length
+      while (row.length < index) {
+        row.push('')
+      }
+      row[index] = text
+    }
+
+    rows.push(row)
+  }
+
+  return rows.filter((x) => x.some((value) => value !== ''))
+}
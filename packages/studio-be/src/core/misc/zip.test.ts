@@ -0,0 +1,41 @@
+import { createZip, openZip } from './zip'
+
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+
+/** Declares a smaller uncompressed size for every entry, like a crafted archive would */
+const forgeSizes = (buffer: Buffer) => {
+  for (let offset = 0; offset < buffer.length - 4; offset++) {
+    if (buffer.readUInt32LE(offset) === CENTRAL_HEADER_SIGNATURE) {
+      buffer.writeUInt32LE(1, offset + 24)
+    }
+  }
+  return buffer
+}
+
+describe('zip', () => {
+  const entries = [
+    { name: 'small.txt', content: Buffer.from('Hello') },
+    { name: 'large.bin', content: Buffer.alloc(10000) }
+  ]
+
+  test('reads what it creates', () => {
+    const readFile = openZip(createZip(entries), 20000)
+
+    expect(readFile('small.txt')!.toString()).toEqual('Hello')
+    expect(readFile('large.bin')).toEqual(entries[1].content)
+    expect(readFile('missing.txt')).toBeUndefined()
+  })
+
+  test('files larger than the maximum size are not inflated', () => {
+    const readFile = openZip(createZip(entries), 1000)
+
+    expect(readFile('small.txt')!.toString()).toEqual('Hello')
+    expect(() => readFile('large.bin')).toThrow('"large.bin" is larger than the maximum size')
+  })
+
+  test('the output is limited when the declared size is wrong', () => {
+    const readFile = openZip(forgeSizes(createZip(entries)), 1000)
+
+    expect(() => readFile('large.bin')).toThrow('"large.bin" is larger than the maximum size')
+  })
+})
@@ -0,0 +1,164 @@
+import zlib from 'zlib'
+
+export interface ZipEntry {
+  name: string
+  content: Buffer
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+/** Bit 11 of the general purpose flag: file names are encoded in UTF-8 */
+const UTF8_FLAG = 0x0800
+/** MS-DOS date of the entries (1980-01-01), their time is left to midnight */
+const DOS_DATE = (1 << 5) | 1
+
+const CRC_TABLE = Array.from({ length: 256 }, (_v, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+const crc32 = (buffer: Buffer) => {
+  let crc = 0xffffffff
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Creates a zip archive of deflated entries. Only what office documents need is supported (no zip64, no encryption)
+ */
+export const createZip = (entries: ZipEntry[]): Buffer => {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const { name, content } of entries) {
+    const fileName = Buffer.from(name, 'utf8')
+    const compressed = zlib.deflateRawSync(content)
+    const crc = crc32(content)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(UTF8_FLAG, 6)
+    local.writeUInt16LE(METHOD_DEFLATED, 8)
+    local.writeUInt16LE(DOS_DATE, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(fileName.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(UTF8_FLAG, 8)
+    central.writeUInt16LE(METHOD_DEFLATED, 10)
+    central.writeUInt16LE(DOS_DATE, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(fileName.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, fileName, compressed)
+    centralParts.push(central, fileName)
+    offset += local.length + fileName.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+interface CentralEntry {
+  method: number
+  compressedSize: number
+  size: number
+  localOffset: number
+}
+
+/**
+ * Lists the files of a zip archive using its central directory. Files are only inflated when they are read, and
+ * reading one larger than maxSize throws, so archives can't expand to more than what is expected of them
+ */
+export const openZip = (buffer: Buffer, maxSize: number): ((name: string) => Buffer | undefined) => {
+  let endOffset = buffer.length - 22
+  while (endOffset >= 0 && buffer.readUInt32LE(endOffset) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+    endOffset--
+  }
+  if (endOffset < 0) {
+    throw new Error('Invalid zip archive')
+  }
+
+  const entries = new Map<string, CentralEntry>()
+  const entryCount = buffer.readUInt16LE(endOffset + 10)
+  let offset = buffer.readUInt32LE(endOffset + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid zip archive')
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localOffset: buffer.readUInt32LE(offset + 42)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return (name: string) => {
+    const entry = entries.get(name)
+    if (!entry) {
+      return
+    }
+
+    const { method, compressedSize, size, localOffset } = entry
+    if (size > maxSize || compressedSize > maxSize) {
+      throw new Error(`"${name}" is larger than the maximum size`)
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid zip archive')
+    }
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const data = buffer.slice(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORED) {
+      return data
+    } else if (method === METHOD_DEFLATED) {
+      // The declared size can't be trusted, the output is limited as well
+      try {
+        return zlib.inflateRawSync(data, { maxOutputLength: maxSize })
+      } catch (err) {
+        if (err.code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`"${name}" is larger than the maximum size`)
+        }
+        throw err
+      }
+    } else {
+      throw new Error(`Unsupported compression method ${method} for "${name}"`)
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import 'bluebird-global'
+import { ActionRunInput } from 'common/typings'
+
+import { dryRunAction } from './action-sandbox'
+
+const makeInput = (input: Partial<ActionRunInput> = {}): ActionRunInput => ({
+  event: { type: 'text', payload: { text: 'hello' } },
+  user: {},
+  temp: {},
+  session: {} as any,
+  args: {},
+  ...input
+})
+
+const run = (code: string, input?: Partial<ActionRunInput>, timeout?: number) =>
+  dryRunAction({ botId: 'bot', filePath: 'actions/test.js', code, input: makeInput(input), timeout })
+
+describe('Action dry run', () => {
+  test('returns the state mutated by the action', async () => {
+    const code = `
+const greet = async (name) => {
+  temp.greeting = 'Hello ' + name
+  event.state.user.greeted = true
+  return event.payload.text
+}
+
+return greet(args.name)`
+
+    const result = await run(code, { args: { name: 'Bob' }, user: { language: 'en' } })
+
+    expect(result.error).toBeUndefined()
+    expect(result.state.temp).toEqual({ greeting: 'Hello Bob' })
+    expect(result.state.user).toEqual({ language: 'en', greeted: true })
+    expect(result.returnValue).toEqual('hello')
+  })
+
+  test('captures the console and the logger', async () => {
+    const result = await run(`console.log('count: %d', 2)\nconsole.warn('careful')\nbp.logger.error('failed')`)
+
+    expect(result.logs).toEqual([
+      { level: 'debug', message: 'count: 2' },
+      { level: 'warn', message: 'careful' },
+      { level: 'error', message: 'failed' }
+    ])
+  })
+
+  test('maps the stack trace of errors to the lines of the action', async () => {
+    const result = await run(`const x = 1\n\nthrow new Error('Something went wrong')`)
+
+    expect(result.error!.message).toEqual('Something went wrong')
+    expect(result.error!.stack).toContain('actions/test.js:3')
+    expect(result.error!.stack).not.toContain('dry-run-')
+  })
+
+  test('stops actions which take too long', async () => {
+    const result = await run(`await new Promise(resolve => setTimeout(resolve, 1000))`, undefined, 50)
+
+    expect(result.error!.message).toContain('did not complete within 50ms')
+  })
+
+  test('stops synchronous infinite loops', async () => {
+    const result = await run(`bp.logger.info('starting')\nwhile (true) {}`, undefined, 1000)
+
+    expect(result.error!.message).toContain('did not complete within 1000ms')
+    expect(result.logs).toEqual([{ level: 'info', message: 'starting' }])
+  })
+
+  test('the bot id of the event can not be overridden', async () => {
+    const result = await run('return event.botId', { event: { botId: 'other-bot' } })
+
+    expect(result.returnValue).toEqual('bot')
+  })
+
+  test('does not modify the input', async () => {
+    const input = makeInput({ temp: { count: 1 } })
+    await dryRunAction({ botId: 'bot', filePath: 'actions/test.js', code: 'temp.count++', input })
+
+    expect(input.temp).toEqual({ count: 1 })
+  })
+})
@@ -0,0 +1,206 @@
+import { ActionRunInput, ActionRunLog, ActionRunResult } from 'common/typings'
+import _ from 'lodash'
+import path from 'path'
+import { Worker } from 'worker_threads'
+
+/** Maximum time in ms an action can take to complete during a dry run */
+export const DRY_RUN_TIMEOUT = 5000
+const WORKER_MEMORY_MB = 128
+
+const BUILTIN_MODULES = ['path', 'assert', 'os', 'querystring', 'string_decoder', 'url', 'zlib', 'util']
+/** Modules of the studio which actions commonly require */
+const EXTERNAL_MODULES = ['lodash', 'axios', 'moment']
+
+const CONSOLE_LEVELS: { [method: string]: ActionRunLog['level'] } = {
+  log: 'debug',
+  info: 'info',
+  warn: 'warn',
+  error: 'error'
+}
+
+/** Actions are the body of an async function, their first line comes right after the one of the wrapper */
+const wrapCode = (code: string) => `return (async () => {\n${code}\n})()`
+const WRAPPER_LINES = 1
+
+export interface DryRunOptions {
+  botId: string
+  /** Path of the action file, e.g. "actions/my-action.js", which stack traces refer to */
+  filePath: string
+  code: string
+  input: ActionRunInput
+  timeout?: number
+}
+
+/**
+ * Replaces the path of the script run by the sandbox with the one of the action file and removes the
+ * frames of the sandbox itself
+ */
+const mapStack = (stack: string, scriptPath: string, filePath: string) =>
+  stack
+    .split('\n')
+    .filter((line) => !/^\s+at /.test(line) || line.includes(scriptPath))
+    .join('\n')
+    .replace(
+      new RegExp(`${_.escapeRegExp(scriptPath)}:(\\d+)`, 'g'),
+      (_match, line) => `${filePath}:${Number(line) - WRAPPER_LINES}`
+    )
+
+interface WorkerData {
+  vm2Path: string
+  scriptPath: string
+  code: string
+  sandbox: Pick<ActionRunInput, 'event' | 'user' | 'temp' | 'session' | 'args'>
+  builtinModules: string[]
+  externalModules: string[]
+  consoleLevels: typeof CONSOLE_LEVELS
+}
+
+type WorkerMessage =
+  | { type: 'log'; log: ActionRunLog }
+  | { type: 'done'; state: ActionRunResult['state']; returnValue: any; error?: { message: string; stack?: string } }
+
+/**
+ * Body of the worker which runs the action. It is serialized, so it can only use what it requires itself
+ */
+const runWorker = () => {
+  const { parentPort, workerData } = require('worker_threads')
+  const util = require('util')
+  const { NodeVM } = require(workerData.vm2Path)
+  const { scriptPath, code, sandbox, builtinModules, externalModules, consoleLevels } = <WorkerData>workerData
+
+  // Values created by the action are copied so they can be sent back, whatever they contain
+  const toPlainValue = (value: any) => {
+    if (value === undefined) {
+      return undefined
+    }
+
+    try {
+      return JSON.parse(JSON.stringify(value))
+    } catch (err) {
+      return util.inspect(value)
+    }
+  }
+
+  const log =
+    (level: ActionRunLog['level']) =>
+    (...args: any[]) =>
+      parentPort.postMessage({ type: 'log', log: { level, message: util.format(...args) } })
+  const logger = {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    attachError: () => logger,
+    forBot: () => logger
+  }
+
+  const { user, temp, session } = sandbox
+  const event = { ...sandbox.event, state: { user, temp, session } }
+
+  const vm = new NodeVM({
+    wrapper: 'none',
+    console: 'redirect',
+    sourceExtensions: ['js'],
+    nesting: false,
+    sandbox: { event, user, temp, session, args: sandbox.args, bp: { logger } },
+    require: {
+      builtin: builtinModules,
+      external: externalModules,
+      context: 'sandbox'
+    }
+  })
+  Object.keys(consoleLevels).forEach((method) => vm.on(`console.${method}`, log(consoleLevels[method])))
+
+  const done = (returnValue: any, error?: any) =>
+    parentPort.postMessage({
+      type: 'done',
+      state: {
+        user: toPlainValue(event.state.user),
+        temp: toPlainValue(event.state.temp),
+        session: toPlainValue(event.state.session)
+      },
+      returnValue: toPlainValue(returnValue),
+      error: error && {
+        message: error.message ?? String(error),
+        stack: typeof error.stack === 'string' ? error.stack : undefined
+      }
+    })
+
+  try {
+    vm.run(code, scriptPath).then(
+      (returnValue: any) => done(returnValue),
+      (err: any) => done(undefined, err)
+    )
+  } catch (err) {
+    done(undefined, err)
+  }
+}
+
+/**
+ * Runs the code of an action against a fake event, without the rest of the bot. Only the logger of the SDK is
+ * available. The action runs in a worker thread, which is terminated when it doesn't complete in time
+ */
+export const dryRunAction = async (options: DryRunOptions): Promise<ActionRunResult> => {
+  const { botId, filePath, code, input, timeout = DRY_RUN_TIMEOUT } = options
+  const logs: ActionRunLog[] = []
+
+  // The script is placed in the studio so the modules it requires are resolved from its dependencies
+  const scriptPath = path.join(__dirname, `dry-run-${Math.random().toString().substr(2, 6)}.js`)
+  const workerData: WorkerData = {
+    vm2Path: require.resolve('vm2'),
+    scriptPath,
+    code: wrapCode(code),
+    sandbox: {
+      event: { ...input.event, botId },
+      user: input.user,
+      temp: input.temp,
+      session: input.session,
+      args: input.args
+    },
+    builtinModules: BUILTIN_MODULES,
+    externalModules: EXTERNAL_MODULES,
+    consoleLevels: CONSOLE_LEVELS
+  }
+
+  const startTime = Date.now()
+  const worker = new Worker(`(${runWorker.toString()})()`, {
+    eval: true,
+    workerData,
+    resourceLimits: { maxOldGenerationSizeMb: WORKER_MEMORY_MB }
+  })
+
+  let result: Extract<WorkerMessage, { type: 'done' }> | undefined
+  let failure: string | undefined
+
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(() => {
+      failure = `The action did not complete within ${timeout}ms`
+      // Terminating the thread is the only way to stop synchronous code
+      void worker.terminate()
+    }, timeout)
+
+    worker.on('message', (message: WorkerMessage) => {
+      if (message.type === 'log') {
+        logs.push(message.log)
+      } else {
+        result = message
+        void worker.terminate()
+      }
+    })
+    worker.on('error', (err) => (failure = failure ?? err.message))
+    worker.on('exit', () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+
+  const error = result?.error ?? (result ? undefined : { message: failure || 'The action was interrupted' })
+
+  return {
+    state: result?.state ?? _.cloneDeep({ user: input.user, temp: input.temp, session: input.session }),
+    returnValue: result?.returnValue,
+    logs,
+    error: error && { message: error.message, stack: error.stack && mapStack(error.stack, scriptPath, filePath) },
+    duration: Date.now() - startTime
+  }
+}
@@ -0,0 +1,88 @@
+import 'bluebird-global'
+import 'reflect-metadata'
+import { ActionServer } from 'common/typings'
+import http from 'http'
+import { AddressInfo } from 'net'
+
+import { ActionServersService } from './action-servers-service'
+
+const ACTIONS = [
+  { name: 'sendEmail', description: 'Sends an email', category: 'Email', author: 'Botpress', params: [] }
+]
+const ETAG = '"v1"'
+
+const logger: any = { attachError: () => logger, error: () => {} }
+
+describe('ActionServersService', () => {
+  let server: http.Server
+  let actionServer: ActionServer
+  let service: ActionServersService
+  let unmountBot: (botId: string) => Promise<void>
+  const requests: { url?: string; etag?: string }[] = []
+
+  beforeEach(async () => {
+    requests.length = 0
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url, etag: req.headers['if-none-match'] })
+      if (req.headers['if-none-match'] === ETAG) {
+        res.writeHead(304).end()
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json', ETag: ETAG }).end(JSON.stringify(ACTIONS))
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+    actionServer = { id: 'remote', baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }
+    const configProvider: any = {
+      getBotpressConfig: async () => ({ actionServers: { local: { enabled: false }, remotes: [actionServer] } })
+    }
+    const botService: any = { listenForBotUnmount: (listener) => (unmountBot = listener) }
+    service = new ActionServersService(logger, configProvider, botService)
+  })
+
+  afterEach(() => server.close())
+
+  test('catalogues are cached and revalidated with their ETag', async () => {
+    expect(await service.fetchActions('bot', actionServer)).toEqual(ACTIONS)
+    expect(await service.fetchActions('bot', actionServer)).toEqual(ACTIONS)
+    expect(await service.getActions('bot', actionServer)).toEqual(ACTIONS)
+
+    expect(requests).toEqual([
+      { url: '/actions/bot', etag: undefined },
+      { url: '/actions/bot', etag: ETAG }
+    ])
+
+    const [status] = await service.getStatuses()
+    expect(status).toMatchObject({ id: 'remote', available: true })
+    expect(status.latency).toBeGreaterThanOrEqual(0)
+  })
+
+  test('the cached catalogue is used while the server is down', async () => {
+    await service.fetchActions('bot', actionServer)
+    await new Promise((resolve) => server.close(resolve))
+
+    expect(await service.fetchActions('bot', actionServer)).toEqual(ACTIONS)
+    expect(await service.getServersWithActionsForBot('bot')).toEqual([{ ...actionServer, actions: ACTIONS }])
+
+    const [status] = await service.getStatuses()
+    expect(status).toMatchObject({ id: 'remote', available: false })
+    expect(status.lastError).toBeTruthy()
+  })
+
+  test('unavailable servers are not requested until the poller finds them back', async () => {
+    await new Promise((resolve) => server.close(resolve))
+    await service.fetchActions('bot', actionServer)
+
+    const startTime = Date.now()
+    expect(await service.getActions('other-bot', actionServer)).toBeUndefined()
+    expect(Date.now() - startTime).toBeLessThan(100)
+  })
+
+  test('catalogues of unmounted bots are forgotten', async () => {
+    await service.getActions('bot', actionServer)
+    await unmountBot('bot')
+
+    expect(await service.getActions('bot', actionServer)).toEqual(ACTIONS)
+    expect(requests).toHaveLength(2)
+  })
+})
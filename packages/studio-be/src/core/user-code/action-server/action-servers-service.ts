@@ -1,11 +1,14 @@
 import axios from 'axios'
 import { Logger } from 'botpress/sdk'
-import { ActionDefinition, ActionServer, ActionServerWithActions } from 'common/typings'
+import { ActionDefinition, ActionServer, ActionServerStatus, ActionServerWithActions } from 'common/typings'
+import { BotService } from 'core/bots'
 import { ConfigProvider } from 'core/config'
 import { TYPES } from 'core/types'
-import { inject, injectable, tagged } from 'inversify'
+import { inject, injectable, postConstruct, tagged } from 'inversify'
 import joi, { validate } from 'joi'
+import { AppLifecycle, AppLifecycleEvents } from 'lifecycle'
 import _ from 'lodash'
+import ms from 'ms'
 
 import { actionServerIdRegex } from '../utils'
 
@@ -29,6 +32,14 @@ const HttpActionSchema = joi.array().items(
 )
 
 const ActionServerSchema = joi.object().keys({ id: joi.string().regex(actionServerIdRegex), baseUrl: joi.string() })
+const POLL_INTERVAL = ms('30s')
+const REQUEST_TIMEOUT = ms('5s')
+
+interface CachedCatalogue {
+  etag?: string
+  actions: ActionDefinition[] | undefined
+}
+
 export const ActionServersConfigSchema = joi.object().keys({
   local: joi.object().keys({ enabled: joi.bool(), port: joi.number().port() }),
   remotes: joi.array().items(ActionServerSchema)
@@ -36,22 +47,45 @@ export const ActionServersConfigSchema = joi.object().keys({
 
 @injectable()
 export class ActionServersService {
+  private _statuses: { [serverId: string]: ActionServerStatus } = {}
+  /** Action definitions of each bot, by server */
+  private _catalogues: { [serverId: string]: { [botId: string]: CachedCatalogue } } = {}
+  /** Bots whose actions were requested, so their catalogues are kept up to date */
+  private _botIds = new Set<string>()
+
   constructor(
     @inject(TYPES.Logger)
     @tagged('name', 'ActionServersService')
     private logger: Logger,
-    @inject(TYPES.ConfigProvider) private configProvider: ConfigProvider
-  ) {}
+    @inject(TYPES.ConfigProvider) private configProvider: ConfigProvider,
+    @inject(TYPES.BotService) private botService: BotService
+  ) {
+    this.botService.listenForBotUnmount(this.handleUnmount.bind(this))
+  }
+
+  @postConstruct()
+  async init() {
+    await AppLifecycle.waitFor(AppLifecycleEvents.CONFIGURATION_LOADED)
+
+    await this._poll()
+  }
+
+  private async handleUnmount(botId: string) {
+    this._botIds.delete(botId)
+    _.forEach(this._catalogues, (catalogues) => delete catalogues[botId])
+  }
+
+  /**
+   * Servers are listed with their cached catalogue, so a slow or dead server doesn't delay the others.
+   * The catalogue is fetched only the first time a bot asks for it, the poller refreshes it afterwards
+   */
   public async getServersWithActionsForBot(botId: string): Promise<ActionServerWithActions[]> {
     const actionServers = await this._getServers()
 
-    const actionServersWithActions: ActionServerWithActions[] = []
-    for (const actionServer of actionServers) {
-      const actions = await this.fetchActions(botId, actionServer)
-      actionServersWithActions.push({ ...actionServer, actions })
-    }
-
-    return actionServersWithActions
+    return Promise.map(actionServers, async (actionServer) => ({
+      ...actionServer,
+      actions: await this.getActions(botId, actionServer)
+    }))
   }
 
   public async getServer(serverId: string): Promise<ActionServer | undefined> {
@@ -59,6 +93,123 @@ export class ActionServersService {
     return servers.find((s) => s.id === serverId)
   }
 
+  /**
+   * Returns the cached catalogue of the bot, or fetches it when it isn't cached yet. Nothing is returned for
+   * unavailable servers, the poller fetches the catalogue once they are back
+   */
+  public async getActions(botId: string, actionServer: ActionServer): Promise<ActionDefinition[] | undefined> {
+    this._botIds.add(botId)
+
+    const cached = this._catalogues[actionServer.id]?.[botId]
+    if (cached) {
+      return cached.actions
+    }
+
+    return this._statuses[actionServer.id]?.available === false ? undefined : this.fetchActions(botId, actionServer)
+  }
+
+  public async getStatuses(): Promise<ActionServerStatus[]> {
+    const actionServers = await this._getServers()
+    return actionServers.map((server) => ({ ...this._statuses[server.id], ...server }))
+  }
+
+  /**
+   * Fetches the actions of a bot from the server, unless they didn't change since they were cached.
+   * The cached actions are returned when the server can't be reached, undefined when there are none
+   */
+  public async fetchActions(botId: string, actionServer: ActionServer): Promise<ActionDefinition[] | undefined> {
+    const cached = this._catalogues[actionServer.id]?.[botId]
+    const startTime = Date.now()
+
+    try {
+      const { status, data, headers } = await axios.get(`${actionServer.baseUrl}/actions/${botId}`, {
+        timeout: REQUEST_TIMEOUT,
+        headers: cached?.etag ? { 'If-None-Match': cached.etag } : {},
+        validateStatus: (status) => status === 304 || (status >= 200 && status < 300)
+      })
+
+      if (status === 304 && cached) {
+        this._updateStatus(actionServer, { available: true, latency: Date.now() - startTime })
+        return cached.actions
+      }
+
+      const { error } = validate(data, HttpActionSchema)
+      if (error && error.name === 'ValidationError') {
+        const message = `Action Server ${actionServer.id} returned invalid Action definitions: ${error.details.map(
+          (d) => d.message
+        )}`
+
+        this._updateStatus(actionServer, { available: true, latency: Date.now() - startTime, lastError: message })
+        this.logger.error(message)
+        return cached?.actions
+      }
+
+      this._catalogues[actionServer.id] = {
+        ...this._catalogues[actionServer.id],
+        [botId]: { etag: headers.etag, actions: data }
+      }
+      this._updateStatus(actionServer, { available: true, latency: Date.now() - startTime })
+      return data
+    } catch (e) {
+      // Errors are logged once, when the server becomes unavailable
+      if (this._statuses[actionServer.id]?.available !== false) {
+        this.logger.attachError(e).error(`Could not fetch actions for Action Server ${actionServer.id}`)
+      }
+
+      this._updateStatus(actionServer, { available: false, latency: Date.now() - startTime, lastError: e.message })
+      return cached?.actions
+    }
+  }
+
+  private _updateStatus(actionServer: ActionServer, status: Omit<ActionServerStatus, 'id' | 'baseUrl'>) {
+    this._statuses[actionServer.id] = { ...actionServer, ...status, lastCheck: new Date() }
+  }
+
+  /**
+   * Refreshes the catalogues of the bots which requested them. Servers without any are only checked for availability.
+   * The next poll is scheduled once this one completes, so they never overlap
+   */
+  private _poll = async () => {
+    try {
+      const actionServers = await this._getServers()
+      const serverIds = actionServers.map((x) => x.id)
+
+      // Servers removed from the configuration are forgotten
+      this._statuses = _.pick(this._statuses, serverIds)
+      this._catalogues = _.pick(this._catalogues, serverIds)
+
+      await Promise.map(actionServers, async (actionServer) => {
+        if (this._botIds.size) {
+          for (const botId of this._botIds) {
+            await this.fetchActions(botId, actionServer)
+
+            // The other bots would only wait for the timeout of an unavailable server
+            if (this._statuses[actionServer.id]?.available === false) {
+              break
+            }
+          }
+        } else {
+          await this._checkAvailability(actionServer)
+        }
+      })
+    } catch (err) {
+      this.logger.attachError(err).error('Could not poll the Action Servers')
+    } finally {
+      setTimeout(this._poll, POLL_INTERVAL)
+    }
+  }
+
+  private async _checkAvailability(actionServer: ActionServer) {
+    const startTime = Date.now()
+    try {
+      // Any response means the server is up, even if it doesn't serve this path
+      await axios.get(actionServer.baseUrl, { timeout: REQUEST_TIMEOUT, validateStatus: () => true })
+      this._updateStatus(actionServer, { available: true, latency: Date.now() - startTime })
+    } catch (e) {
+      this._updateStatus(actionServer, { available: false, latency: Date.now() - startTime, lastError: e.message })
+    }
+  }
+
   private async _getServers(): Promise<ActionServer[]> {
     const { remotes, local } = (await this.configProvider.getBotpressConfig()).actionServers
     const { enabled, port } = local
@@ -82,23 +233,4 @@ export class ActionServersService {
 
     return actionServers
   }
-
-  private async fetchActions(botId, actionServer: ActionServer): Promise<ActionDefinition[] | undefined> {
-    let actionDefinitions: ActionDefinition[] | undefined = undefined
-    try {
-      const { data } = await axios.get(`${actionServer.baseUrl}/actions/${botId}`)
-      const { error } = validate(data, HttpActionSchema)
-      if (error && error.name === 'ValidationError') {
-        this.logger.error(
-          `Action Server ${actionServer.id} returned invalid Action definitions: ${error.details.map((d) => d.message)}`
-        )
-      } else {
-        actionDefinitions = data
-      }
-    } catch (e) {
-      this.logger.attachError(e).error(`Could not fetch actions for Action Server ${actionServer.id}`)
-    }
-
-    return actionDefinitions
-  }
 }
@@ -1,9 +1,9 @@
 import { IO, Logger } from 'botpress/sdk'
 import { ObjectCache } from 'common/object-cache'
-import { ActionScope, LocalActionDefinition } from 'common/typings'
+import { ActionCode, ActionRunInput, ActionRunResult, ActionScope, LocalActionDefinition } from 'common/typings'
 import { BotService } from 'core/bots'
 import { GhostService } from 'core/bpfs'
-import { NotFoundError } from 'core/routers/errors'
+import { ConflictError, NotFoundError } from 'core/routers/errors'
 import { TYPES } from 'core/types'
 import { WorkspaceService } from 'core/users'
 import { inject, injectable, tagged } from 'inversify'
@@ -11,6 +11,7 @@ import _ from 'lodash'
 import ms from 'ms'
 import path from 'path'
 
+import { dryRunAction } from './action-sandbox'
 import { extractMetadata } from './metadata'
 import { enabled, getBaseLookupPaths } from './utils'
 
@@ -95,6 +96,74 @@ export class ScopedActionService {
     return actions
   }
 
+  /**
+   * Bot actions are either legacy ones, run by the server, or http ones, run by action servers
+   */
+  public async getActionCode(name: string, scope: ActionScope): Promise<ActionCode> {
+    const ghost = scope === 'global' ? this.ghost.global() : this.ghost.forBot(this.botId)
+
+    for (const legacy of scope === 'global' ? [true] : [true, false]) {
+      const filename = legacy ? `${name}.js` : `${name}.http.js`
+      if (await ghost.fileExists('actions', filename)) {
+        return { name, scope, legacy, code: await ghost.readFileAsString('actions', filename) }
+      }
+    }
+
+    throw new NotFoundError(`Action "${name}" not found`)
+  }
+
+  public async createAction({ name, scope, legacy, code }: ActionCode): Promise<ActionCode> {
+    if (await this._actionExists(name, scope)) {
+      throw new ConflictError(`Action "${name}" already exists`)
+    }
+
+    const action = { name, scope, code, legacy: scope === 'global' || legacy }
+    await this._writeAction(action)
+    return action
+  }
+
+  public async updateAction(name: string, scope: ActionScope, code: string): Promise<ActionCode> {
+    const action = { ...(await this.getActionCode(name, scope)), code }
+    await this._writeAction(action)
+    return action
+  }
+
+  public async deleteAction(name: string, scope: ActionScope): Promise<void> {
+    const { legacy } = await this.getActionCode(name, scope)
+    const ghost = scope === 'global' ? this.ghost.global() : this.ghost.forBot(this.botId)
+
+    await ghost.deleteFile('actions', legacy ? `${name}.js` : `${name}.http.js`)
+    this._clearCache()
+  }
+
+  /**
+   * Runs an action in a sandbox with a fake event. HTTP actions are also run by the studio,
+   * since their code gets the same arguments on action servers
+   */
+  public async runAction(name: string, scope: ActionScope, input: ActionRunInput): Promise<ActionRunResult> {
+    const { code, legacy } = await this.getActionCode(name, scope)
+    const filePath = `actions/${name}${legacy ? '.js' : '.http.js'}`
+
+    return dryRunAction({ botId: this.botId, filePath, code, input })
+  }
+
+  private async _actionExists(name: string, scope: ActionScope): Promise<boolean> {
+    try {
+      await this.getActionCode(name, scope)
+      return true
+    } catch (err) {
+      return false
+    }
+  }
+
+  private async _writeAction({ name, scope, legacy, code }: ActionCode) {
+    const ghost = scope === 'global' ? this.ghost.global() : this.ghost.forBot(this.botId)
+
+    await ghost.upsertFile('actions', legacy ? `${name}.js` : `${name}.http.js`, code)
+    // Changes are listed right away, without waiting for the invalidation of the cache
+    this._clearCache()
+  }
+
   private async _listGlobalActions() {
     if (this._globalActionsCache) {
       return this._globalActionsCache
@@ -0,0 +1,30 @@
+import { extractMetadata, generateActionCode } from './metadata'
+
+describe('Action metadata', () => {
+  test('generated actions have the metadata they were generated with', () => {
+    const metadata = {
+      title: 'Send an email',
+      category: 'Messaging',
+      description: 'Sends an email to the user',
+      author: 'Botpress',
+      hidden: false,
+      params: [
+        { name: 'subject', type: 'string', required: true, default: '', description: 'Subject of the email' },
+        { name: 'retries', type: 'number', required: false, default: '3', description: 'Attempts before failing' },
+        { name: 'cc', type: 'string', required: false, default: '', description: '' }
+      ]
+    }
+
+    const code = generateActionCode(metadata)
+    expect(extractMetadata(code)).toEqual(metadata)
+    expect(code).toContain('return myAction(args.subject, args.retries, args.cc)')
+  })
+
+  test('uses defaults for missing metadata', () => {
+    expect(extractMetadata(generateActionCode({}))).toMatchObject({
+      title: 'My action',
+      category: 'Custom',
+      params: []
+    })
+  })
+})
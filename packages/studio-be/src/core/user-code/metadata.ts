@@ -57,7 +57,8 @@ export const extractMetadata = (code: string): ActionMetadata => {
   }
 
   metadata.params = _.filter(extracted.tags, { title: 'param' }).map((tag) => {
-    const type: string = _.get(tag, 'type.name', '')
+    // Types of optional parameters are wrapped in an OptionalType
+    const type: string = _.get(tag, 'type.name') || _.get(tag, 'type.expression.name', '')
     const required = _.get(tag, 'type.type') !== doctrine.type.Syntax.OptionalType
     const def = _.get(tag, 'default', '')
     const name = _.get(tag, 'name', '')
@@ -73,3 +74,37 @@ export const extractMetadata = (code: string): ActionMetadata => {
 
   return metadata
 }
+
+/** Texts are kept on a single line and can't end the comment */
+const toCommentText = (text: string | undefined) => (text || '').replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim()
+
+const formatParam = ({ name, type, required, default: def, description }: ActionMetadata['params'][number]) => {
+  const paramName = required ? name : `[${name}${def ? `=${toCommentText(def)}` : ''}]`
+  return ` * @param {${type || 'any'}} ${paramName}${description ? ` - ${toCommentText(description)}` : ''}`
+}
+
+/**
+ * Generates the code of a new action, with a JSDoc header which extractMetadata reads back
+ */
+export const generateActionCode = (metadata: Partial<ActionMetadata>): string => {
+  const params = metadata.params || []
+  const header = [
+    '/**',
+    ...(metadata.description ? [` * ${toCommentText(metadata.description)}`] : []),
+    ` * @title ${toCommentText(metadata.title) || 'My action'}`,
+    ` * @category ${toCommentText(metadata.category) || 'Custom'}`,
+    ...(metadata.author ? [` * @author ${toCommentText(metadata.author)}`] : []),
+    ...(metadata.hidden ? [' * @hidden true'] : []),
+    ...params.map(formatParam),
+    ' */'
+  ]
+  const names = params.map((x) => x.name)
+
+  return `  ${header.join('\n  ')}
+  const myAction = async (${names.join(', ')}) => {
+    // Your code here, e.g. temp.result = 'Hello'
+  }
+
+  return myAction(${names.map((x) => `args.${x}`).join(', ')})
+`
+}
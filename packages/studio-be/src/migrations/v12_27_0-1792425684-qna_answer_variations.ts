@@ -0,0 +1,81 @@
+import * as sdk from 'botpress/sdk'
+import { hasLegacyAnswers, toLegacyAnswers, toQnaAnswers } from 'common/qna-answers'
+import { Migration, MigrationOpts } from 'core/migration'
+
+const QNA_DIR = './qna'
+
+const migration: Migration = {
+  info: {
+    description: 'Convert QnA answers to variations with a selection strategy',
+    target: 'bot',
+    type: 'content'
+  },
+  up: async ({ botService, ghostService, metadata }: MigrationOpts): Promise<sdk.MigrationResult> => {
+    let hasChanges = false
+
+    const updateBot = async (botId: string) => {
+      const bpfs = ghostService.forBot(botId)
+      const files = await bpfs.directoryListing(QNA_DIR, '*.json')
+
+      for (const file of files) {
+        const content = (await bpfs.readFileAsObject(QNA_DIR, file)) as any
+
+        if (hasLegacyAnswers(content.data?.answers)) {
+          content.data.answers = toQnaAnswers(content.data.answers)
+
+          await bpfs.upsertFile(QNA_DIR, file, JSON.stringify(content, undefined, 2), { ignoreLock: true })
+          hasChanges = true
+        }
+      }
+    }
+
+    if (metadata.botId) {
+      await updateBot(metadata.botId)
+    } else {
+      const bots = await botService.getBots()
+      for (const botId of Array.from(bots.keys())) {
+        await updateBot(botId)
+      }
+    }
+
+    return {
+      success: true,
+      message: hasChanges ? 'Answers converted successfully' : 'Answers are already converted, skipping...'
+    }
+  },
+  down: async ({ botService, ghostService, metadata, logger }: MigrationOpts): Promise<sdk.MigrationResult> => {
+    const updateBot = async (botId: string) => {
+      const bpfs = ghostService.forBot(botId)
+      const files = await bpfs.directoryListing(QNA_DIR, '*.json')
+
+      for (const file of files) {
+        const content = (await bpfs.readFileAsObject(QNA_DIR, file)) as any
+        if (!content.data?.answers || hasLegacyAnswers(content.data.answers)) {
+          continue
+        }
+
+        const answers = toLegacyAnswers(content.data.answers)
+        const variationCount = Object.values<any>(content.data.answers).reduce((sum, x) => sum + x.variations.length, 0)
+        if (Object.values(answers).reduce((sum, x) => sum + x.length, 0) < variationCount) {
+          logger.forBot(botId).warn(`Rich answers of QnA "${content.id}" can't be converted back and were removed`)
+        }
+
+        content.data.answers = answers
+        await bpfs.upsertFile(QNA_DIR, file, JSON.stringify(content, undefined, 2), { ignoreLock: true })
+      }
+    }
+
+    if (metadata.botId) {
+      await updateBot(metadata.botId)
+    } else {
+      const bots = await botService.getBots()
+      for (const botId of Array.from(bots.keys())) {
+        await updateBot(botId)
+      }
+    }
+
+    return { success: true, message: 'Answers converted back to lists of texts' }
+  }
+}
+
+export default migration
@@ -304,6 +304,8 @@ declare module 'botpress/sdk' {
       sensitive?: boolean
       matchCase?: boolean
       examples?: string[]
+      /** Texts a pattern entity must not match */
+      negativeExamples?: string[]
       fuzzy?: number
       occurrences?: EntityDefOccurrence[]
       pattern?: string
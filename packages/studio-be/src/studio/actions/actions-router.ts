@@ -1,4 +1,11 @@
 import { Serialize } from 'cerialize'
+import { decodeFolderPath } from 'common/http'
+import { ActionScope } from 'common/typings'
+import { ActionCreateSchema, ActionRunSchema, ACTION_NAME_REGEX } from 'common/validation'
+import { BadRequestError } from 'core/routers/errors'
+import { extractMetadata, generateActionCode } from 'core/user-code/metadata'
+import { RequestHandler } from 'express'
+import { validate } from 'joi'
 import _ from 'lodash'
 import { StudioServices } from 'studio/studio-router'
 import { CustomStudioRouter } from 'studio/utils/custom-studio-router'
@@ -8,6 +15,29 @@ export class ActionsRouter extends CustomStudioRouter {
     super('Actions', services)
   }
 
+  /** Global actions are shared by all bots, so editing them requires another permission */
+  private needScopePermissions(operation: string): RequestHandler {
+    return (req, res, next) =>
+      this.needPermissions(operation, `module.code-editor.${this.getScope(req)}.actions`)(req, res, next)
+  }
+
+  /** The scope is in the body of requests which run actions */
+  private getScope(req): string {
+    return req.params.scope || req.body?.scope || 'bot'
+  }
+
+  private getFileParams(req): { name: string; scope: ActionScope } {
+    const scope = this.getScope(req)
+    const name = req.params.name && decodeFolderPath(req.params.name)
+    if (scope !== 'bot' && scope !== 'global') {
+      throw new BadRequestError(`Invalid scope "${scope}"`)
+    }
+    if (name !== undefined && !ACTION_NAME_REGEX.test(name)) {
+      throw new BadRequestError(`Invalid action name "${name}"`)
+    }
+    return { name, scope }
+  }
+
   setupRoutes() {
     const router = this.router
     router.get(
@@ -35,5 +65,89 @@ export class ActionsRouter extends CustomStudioRouter {
         res.send(serversWithActions)
       })
     )
+
+    // Running an action executes code on the server, so it requires the same permission as editing it
+    router.post(
+      '/:name/run',
+      this.checkTokenHeader,
+      this.needScopePermissions('write'),
+      this.asyncMiddleware(async (req, res) => {
+        const { name } = this.getFileParams(req)
+        const { scope, ...input } = await validate(req.body, ActionRunSchema)
+
+        const service = await this.actionService.forBot(req.params.botId)
+        res.send(await service.runAction(name, scope, input))
+      })
+    )
+
+    router.get(
+      '/actionServers/status',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await this.actionServersService.getStatuses())
+      })
+    )
+
+    router.get(
+      '/files/:scope/:name',
+      this.checkTokenHeader,
+      this.needScopePermissions('read'),
+      this.asyncMiddleware(async (req, res) => {
+        const { name, scope } = this.getFileParams(req)
+
+        const service = await this.actionService.forBot(req.params.botId)
+        const action = await service.getActionCode(name, scope)
+        res.send({ ...action, metadata: extractMetadata(action.code) })
+      })
+    )
+
+    router.post(
+      '/files/:scope',
+      this.checkTokenHeader,
+      this.needScopePermissions('write'),
+      this.asyncMiddleware(async (req, res) => {
+        const { scope } = this.getFileParams(req)
+        const { name, legacy, code, metadata } = await validate(req.body, ActionCreateSchema)
+
+        const service = await this.actionService.forBot(req.params.botId)
+        const action = await service.createAction({
+          name,
+          scope,
+          legacy,
+          code: code ?? generateActionCode(metadata || {})
+        })
+        res.send({ ...action, metadata: extractMetadata(action.code) })
+      })
+    )
+
+    router.post(
+      '/files/:scope/:name',
+      this.checkTokenHeader,
+      this.needScopePermissions('write'),
+      this.asyncMiddleware(async (req, res) => {
+        const { name, scope } = this.getFileParams(req)
+        if (!_.isString(req.body.code)) {
+          throw new BadRequestError('The code of the action is required')
+        }
+
+        const service = await this.actionService.forBot(req.params.botId)
+        const action = await service.updateAction(name, scope, req.body.code)
+        res.send({ ...action, metadata: extractMetadata(action.code) })
+      })
+    )
+
+    router.post(
+      '/files/:scope/:name/delete',
+      this.checkTokenHeader,
+      this.needScopePermissions('write'),
+      this.asyncMiddleware(async (req, res) => {
+        const { name, scope } = this.getFileParams(req)
+
+        const service = await this.actionService.forBot(req.params.botId)
+        await service.deleteAction(name, scope)
+        res.sendStatus(204)
+      })
+    )
   }
 }
@@ -0,0 +1,126 @@
+import * as sdk from 'botpress/sdk'
+import {
+  ContentBulkUpdateChange,
+  ContentBulkUpdateRequest,
+  ContentBulkUpdateResult,
+  ContentImportInvalidElement
+} from 'common/typings'
+import { CMSService, DefaultSearchParams, UNLIMITED_ELEMENTS } from 'core/cms'
+import { applyBulkOperation, getUpdatedLanguage } from 'core/cms/bulk-operations'
+import { BadRequestError } from 'core/routers/errors'
+import Joi, { validate } from 'joi'
+import _ from 'lodash'
+
+import { validateFormData } from './validation'
+
+const OperationSchema = Joi.alternatives().try(
+  Joi.object().keys({
+    type: Joi.string().valid('replace').required(),
+    language: Joi.string().required(),
+    find: Joi.string().required(),
+    replace: Joi.string().allow('').required(),
+    matchCase: Joi.boolean().default(false)
+  }),
+  Joi.object().keys({
+    type: Joi.string().valid('setField').required(),
+    field: Joi.string().required(),
+    language: Joi.string().optional(),
+    value: Joi.any().required()
+  }),
+  Joi.object().keys({
+    type: Joi.string().valid('copyLanguage').required(),
+    from: Joi.string().required(),
+    to: Joi.string().required().invalid(Joi.ref('from')),
+    overwrite: Joi.boolean().default(false)
+  })
+)
+
+export const BulkUpdateSchema = Joi.object().keys({
+  ids: Joi.array().items(Joi.string()).optional(),
+  contentType: Joi.string().optional(),
+  operation: OperationSchema.required(),
+  preview: Joi.boolean().default(false)
+})
+
+export const prepareBulkUpdate = async (body: any, languages: string[]): Promise<ContentBulkUpdateRequest> => {
+  let request: ContentBulkUpdateRequest
+  try {
+    request = (await validate(body, BulkUpdateSchema)) as ContentBulkUpdateRequest
+  } catch (err) {
+    throw new BadRequestError(`Invalid bulk update: ${err.message}`)
+  }
+
+  const { operation } = request
+  const usedLanguages = operation.type === 'copyLanguage' ? [operation.from, operation.to] : [operation.language]
+  const unknownLanguage = _.compact(usedLanguages).find((lang) => !languages.includes(lang))
+  if (unknownLanguage) {
+    throw new BadRequestError(`"${unknownLanguage}" isn't a language of the bot`)
+  }
+
+  return request
+}
+
+/**
+ * Computes the changes of every selected element, then saves the valid ones unless it is a preview.
+ * Elements are saved one by one so previews are recomputed and modules are notified of each change
+ */
+export const bulkUpdateContentElements = async (
+  cmsService: CMSService,
+  botId: string,
+  request: ContentBulkUpdateRequest,
+  defaultLanguage: string,
+  userEmail?: string
+): Promise<ContentBulkUpdateResult> => {
+  const { operation } = request
+  const elements = await cmsService.listContentElements(botId, request.contentType, {
+    ...DefaultSearchParams,
+    ids: request.ids,
+    count: UNLIMITED_ELEMENTS
+  })
+
+  const changes: ContentBulkUpdateChange[] = []
+  const invalidElements: ContentImportInvalidElement[] = []
+
+  for (const { id, contentType: contentTypeId, formData } of elements) {
+    let contentType: sdk.ContentType
+    try {
+      contentType = await cmsService.getContentType(contentTypeId)
+    } catch (err) {
+      invalidElements.push({
+        id,
+        contentType: contentTypeId,
+        errors: [`Content type "${contentTypeId}" is not registered`]
+      })
+      continue
+    }
+
+    if (operation.type === 'setField' && !_.has(contentType.jsonSchema, ['properties', operation.field])) {
+      invalidElements.push({
+        id,
+        contentType: contentTypeId,
+        errors: [`"${operation.field}" isn't a field of this type`]
+      })
+      continue
+    }
+
+    const updated = applyBulkOperation(formData, contentType, operation, defaultLanguage)
+    if (_.isEqual(formData, updated)) {
+      continue
+    }
+
+    const errors = validateFormData(contentType, updated, getUpdatedLanguage(operation, defaultLanguage))
+    if (errors.length) {
+      invalidElements.push({ id, contentType: contentTypeId, errors })
+    } else {
+      changes.push({ id, contentType: contentTypeId, before: formData, after: updated })
+    }
+  }
+
+  if (!request.preview) {
+    await Promise.mapSeries(changes, ({ id, contentType, after }) =>
+      cmsService.createOrUpdateContentElement(botId, contentType, after, id, undefined, userEmail)
+    )
+  }
+
+  return { preview: !!request.preview, changes, invalidElements }
+}
@@ -1,11 +1,32 @@
 import { ContentElement } from 'botpress/sdk'
-import { Categories } from 'common/typings'
+import { Categories, ContentImportStrategy } from 'common/typings'
 import { DefaultSearchParams } from 'core/cms'
+import { BadRequestError, ConflictError } from 'core/routers/errors'
 import _ from 'lodash'
+import moment from 'moment'
+import multer from 'multer'
+import { nanoid } from 'nanoid'
 import { StudioServices } from 'studio/studio-router'
 import { CustomStudioRouter } from 'studio/utils/custom-studio-router'
 
+import { bulkUpdateContentElements, prepareBulkUpdate } from './bulk-update'
+import {
+  analyzeImport,
+  exportToCsv,
+  exportTranslations,
+  importContentElements,
+  parseTranslationFile,
+  prepareExport,
+  prepareImport,
+  TranslationFormat
+} from './transfer'
+
+const IMPORT_STRATEGIES: ContentImportStrategy[] = ['merge', 'replace']
+const TRANSLATION_FORMATS: TranslationFormat[] = ['xliff', 'csv']
+
 export class CMSRouter extends CustomStudioRouter {
+  private jsonUploadStatuses = {}
+
   constructor(services: StudioServices) {
     super('CMS', services)
     this.setupRoutes()
@@ -66,7 +87,7 @@ export class CMSRouter extends CustomStudioRouter {
       this.needPermissions('read', 'bot.content'),
       this.asyncMiddleware(async (req, res) => {
         const { botId, contentType } = req.params
-        const { count, from, searchTerm, filters, sortOrder, ids } = req.body
+        const { count, from, searchTerm, searchLanguage, createdBy, filters, sortOrder, ids } = req.body
 
         const elements = await this.cmsService.listContentElements(botId, contentType, {
           ...DefaultSearchParams,
@@ -74,11 +95,20 @@ export class CMSRouter extends CustomStudioRouter {
           from: Number(from) || DefaultSearchParams.from,
           sortOrder: sortOrder || DefaultSearchParams.sortOrder,
           searchTerm,
+          searchLanguage,
+          createdBy,
+          modifiedAfter: this._parseDate(req.body.modifiedAfter, 'modifiedAfter'),
+          modifiedBefore: this._parseDate(req.body.modifiedBefore, 'modifiedBefore'),
           filters,
           ids
         })
 
-        const augmentedElements = await Promise.map(elements, this._augmentElement)
+        const usage = await this.cmsService.getContentElementsUsage(botId)
+        const augmentedElements = await Promise.map(elements, async (element) => ({
+          ...(await this._augmentElement(element)),
+          usage: usage[element.id] || [],
+          snippet: searchTerm && this.cmsService.getSearchSnippet(botId, element.id, searchTerm, searchLanguage)
+        }))
         res.send(augmentedElements)
       })
     )
@@ -111,6 +141,16 @@ export class CMSRouter extends CustomStudioRouter {
       })
     )
 
+    this.router.get(
+      '/elements/:elementId/usage',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, elementId } = req.params
+        res.send(await this.cmsService.getContentElementUsage(botId, elementId))
+      })
+    )
+
     this.router.post(
       '/:contentType/element/:elementId?',
       this.checkTokenHeader,
@@ -121,7 +161,9 @@ export class CMSRouter extends CustomStudioRouter {
           botId,
           contentType,
           req.body.formData,
-          elementId
+          elementId,
+          undefined,
+          req.tokenUser?.email
         )
         res.send(element)
       })
@@ -132,10 +174,232 @@ export class CMSRouter extends CustomStudioRouter {
       this.checkTokenHeader,
       this.needPermissions('write', 'bot.content'),
       this.asyncMiddleware(async (req, res) => {
-        await this.cmsService.deleteContentElements(req.params.botId, req.body)
+        const { botId } = req.params
+        const ids: string[] = req.body
+
+        if (req.query.force !== 'true') {
+          const usage = await this.cmsService.getContentElementsUsage(botId)
+          // References from elements which are deleted along with them don't count
+          const usedIds = ids.filter((id) =>
+            usage[id]?.some(({ type, id: usedBy }) => type !== 'Content' || !ids.includes(usedBy!))
+          )
+
+          if (usedIds.length) {
+            throw new ConflictError(`These elements are still in use: ${usedIds.join(', ')}`)
+          }
+        }
+
+        await this.cmsService.deleteContentElements(botId, ids)
         res.sendStatus(200)
       })
     )
+
+    this.router.post(
+      '/elements/bulk_update',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const { languages, defaultLanguage } = await this.configProvider.getBotConfig(botId)
+        const request = await prepareBulkUpdate(req.body, languages)
+
+        res.send(
+          await bulkUpdateContentElements(this.cmsService, botId, request, defaultLanguage, req.tokenUser?.email)
+        )
+      })
+    )
+
+    this.router.get(
+      '/cleanup',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await this.cmsService.getCleanupReport(req.params.botId))
+      })
+    )
+
+    this.router.post(
+      '/cleanup',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.content'),
+      this.needPermissions('write', 'bot.media'),
+      this.asyncMiddleware(async (req, res) => {
+        const { contentElementIds, mediaFiles, dryRun } = req.body
+        const isList = (value) => value === undefined || (_.isArray(value) && value.every(_.isString))
+        if (!isList(contentElementIds) || !isList(mediaFiles)) {
+          throw new BadRequestError('"contentElementIds" and "mediaFiles" must be lists of strings')
+        }
+
+        const result = await this.cmsService.applyCleanup(req.params.botId, { contentElementIds, mediaFiles }, !!dryRun)
+        res.send(result)
+      })
+    )
+
+    this.router.get(
+      '/translations/status',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await this.cmsService.getTranslationStatus(req.params.botId))
+      })
+    )
+
+    this.router.get(
+      '/translations/export',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const language = <string>req.query.language
+        const format = <TranslationFormat>req.query.format || 'xliff'
+        if (!TRANSLATION_FORMATS.includes(format)) {
+          throw new BadRequestError(`Unsupported translation format "${format}"`)
+        }
+
+        const strings = await this.cmsService.getUntranslatedStrings(botId, language)
+        const { defaultLanguage } = await this.configProvider.getBotConfig(botId)
+        const extension = format === 'csv' ? 'csv' : 'xlf'
+
+        res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/xliff+xml')
+        res.setHeader('Content-disposition', `attachment; filename=content_${defaultLanguage}_${language}.${extension}`)
+        res.end(exportTranslations(strings, format, defaultLanguage, language))
+      })
+    )
+
+    this.router.get(
+      '/export',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const format = <string>req.query.format || 'json'
+        const contentType = <string | undefined>req.query.contentType
+        if (!['json', 'csv'].includes(format)) {
+          throw new BadRequestError(`Unsupported export format "${format}"`)
+        }
+
+        const elements = await prepareExport(this.cmsService, botId, contentType || undefined)
+        const filename = `content_${contentType ? `${contentType}_` : ''}${moment().format('DD-MM-YYYY')}.${format}`
+
+        res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json')
+        res.setHeader('Content-disposition', `attachment; filename=${filename}`)
+        res.end(format === 'csv' ? exportToCsv(elements) : JSON.stringify(elements, undefined, 2))
+      })
+    )
+
+    const upload = multer()
+    this.router.post(
+      '/analyzeImport',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.content'),
+      upload.single('file'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const elements = await prepareImport(this._parseUploadedFile(req))
+        const { defaultLanguage } = await this.configProvider.getBotConfig(botId)
+
+        res.send(await analyzeImport(this.cmsService, botId, elements, defaultLanguage))
+      })
+    )
+
+    this.router.post(
+      '/import',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.content'),
+      upload.single('file'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const strategy: ContentImportStrategy = req.body.action || 'merge'
+        if (!IMPORT_STRATEGIES.includes(strategy)) {
+          throw new BadRequestError(`Unsupported import strategy "${strategy}"`)
+        }
+
+        const elements = await prepareImport(this._parseUploadedFile(req))
+        const { defaultLanguage } = await this.configProvider.getBotConfig(botId)
+
+        const uploadStatusId = nanoid()
+        res.send(uploadStatusId)
+
+        try {
+          const { invalidElements } = await importContentElements(
+            this.cmsService,
+            botId,
+            elements,
+            strategy,
+            defaultLanguage,
+            updateUploadStatus,
+            uploadStatusId,
+            req.tokenUser?.email
+          )
+
+          if (invalidElements.length) {
+            this.logger
+              .forBot(botId)
+              .warn(`${invalidElements.length} invalid content element(s) were skipped during the import`)
+          }
+          updateUploadStatus(uploadStatusId, 'Completed')
+        } catch (e) {
+          this.logger.forBot(botId).attachError(e).error('Content Import Failure')
+          updateUploadStatus(uploadStatusId, `Error: ${e.message}`)
+        }
+      })
+    )
+
+    this.router.post(
+      '/translations/import',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.content'),
+      upload.single('file'),
+      this.asyncMiddleware(async (req, res) => {
+        const { language, translations } = parseTranslationFile(this._readUploadedFile(req))
+        res.send(
+          await this.cmsService.importTranslations(req.params.botId, language, translations, req.tokenUser?.email)
+        )
+      })
+    )
+
+    this.router.get(
+      '/json-upload-status/:uploadStatusId',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        res.end(this.jsonUploadStatuses[req.params.uploadStatusId])
+      })
+    )
+
+    const updateUploadStatus = (uploadStatusId: string, status: string) => {
+      this.jsonUploadStatuses[uploadStatusId] = status
+    }
+  }
+
+  private _parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) {
+      return undefined
+    }
+
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new BadRequestError(`"${name}" must be a valid date`)
+    }
+    return date
+  }
+
+  private _readUploadedFile(req): string {
+    if (!req.file) {
+      throw new BadRequestError('No file was uploaded')
+    }
+
+    return req.file.buffer.toString()
+  }
+
+  private _parseUploadedFile(req): any {
+    const content = this._readUploadedFile(req)
+
+    try {
+      return JSON.parse(content)
+    } catch (err) {
+      throw new BadRequestError(`The uploaded file isn't valid JSON: ${err.message}`)
+    }
   }
 
   private _augmentElement = async (element: ContentElement) => {
@@ -0,0 +1,192 @@
+import * as sdk from 'botpress/sdk'
+import { ContentImportAnalysis, ContentImportInvalidElement, ContentImportStrategy } from 'common/typings'
+import { CmsImportSchema, CMSService, DefaultSearchParams, UNLIMITED_ELEMENTS } from 'core/cms'
+import { TranslatableString } from 'core/cms/translations'
+import { parseCsv, toCsv } from 'core/misc/csv'
+import { parseXliff, toXliff } from 'core/misc/xliff'
+import { BadRequestError } from 'core/routers/errors'
+import { validate } from 'joi'
+import _ from 'lodash'
+
+import { validateFormData } from './validation'
+
+type ContentData = Pick<sdk.ContentElement, 'id' | 'contentType' | 'formData'>
+type StatusCallback = (uploadStatusId: string, status: string) => void
+
+export const prepareImport = async (parsedJson: any): Promise<ContentData[]> => {
+  try {
+    return (await validate(parsedJson, CmsImportSchema, { stripUnknown: true })) as ContentData[]
+  } catch (err) {
+    throw new BadRequestError(`Invalid import file: ${err.message}`)
+  }
+}
+
+export const prepareExport = async (cmsService: CMSService, botId: string, contentType?: string) => {
+  const elements = await cmsService.listContentElements(botId, contentType, {
+    ...DefaultSearchParams,
+    count: UNLIMITED_ELEMENTS
+  })
+
+  return elements.map((element): ContentData => _.pick(element, ['id', 'contentType', 'formData']))
+}
+
+/**
+ * One line per element. Form data keys (e.g. `text$en`) are columns, values which aren't strings are JSON encoded
+ */
+export const exportToCsv = (elements: ContentData[]): string => {
+  const keys = _.uniq(_.flatMap(elements, (element) => Object.keys(element.formData))).sort()
+  const serialize = (value: any) => (value === undefined ? '' : _.isString(value) ? value : JSON.stringify(value))
+
+  return toCsv([
+    ['id', 'contentType', ...keys],
+    ...elements.map((element) => [
+      element.id,
+      element.contentType,
+      ...keys.map((key) => serialize(element.formData[key]))
+    ])
+  ])
+}
+
+const getInvalidElements = async (
+  cmsService: CMSService,
+  elements: ContentData[],
+  language: string
+): Promise<ContentImportInvalidElement[]> => {
+  const invalidElements: ContentImportInvalidElement[] = []
+
+  for (const { id, contentType, formData } of elements) {
+    try {
+      const errors = validateFormData(await cmsService.getContentType(contentType), formData, language)
+      errors.length && invalidElements.push({ id, contentType, errors })
+    } catch (err) {
+      invalidElements.push({ id, contentType, errors: [`Content type "${contentType}" is not registered`] })
+    }
+  }
+
+  return invalidElements
+}
+
+/**
+ * Compares the elements of the file with those of the bot. Elements are validated in the default language of the bot
+ */
+export const analyzeImport = async (
+  cmsService: CMSService,
+  botId: string,
+  elements: ContentData[],
+  defaultLanguage: string
+): Promise<ContentImportAnalysis> => {
+  const existing = await prepareExport(cmsService, botId)
+  const existingById = _.keyBy(existing, 'id')
+  const { enabled } = await cmsService.getAllContentTypes(botId)
+
+  const invalidElements = await getInvalidElements(cmsService, elements, defaultLanguage)
+  const validElements = elements.filter(({ id }) => !_.find(invalidElements, { id }))
+  const [known, created] = _.partition(validElements, ({ id }) => existingById[id])
+  const unchanged = known.filter(({ id, formData }) => _.isEqual(existingById[id].formData, formData))
+
+  return {
+    cmsCount: existing.length,
+    fileCmsCount: elements.length,
+    newCount: created.length,
+    updatedCount: known.length - unchanged.length,
+    unchangedCount: unchanged.length,
+    invalidElements,
+    missingContentTypes: _.uniq(elements.map((x) => x.contentType)).filter((type) => !_.find(enabled, { id: type }))
+  }
+}
+
+/**
+ * Merging updates the elements of the file and keeps the others, replacing deletes every element missing from the file.
+ * Invalid elements are never imported
+ */
+export const importContentElements = async (
+  cmsService: CMSService,
+  botId: string,
+  elements: ContentData[],
+  strategy: ContentImportStrategy,
+  defaultLanguage: string,
+  statusCallback: StatusCallback,
+  uploadStatusId: string,
+  userEmail?: string
+) => {
+  statusCallback(uploadStatusId, 'Validating content elements')
+  const invalidElements = await getInvalidElements(cmsService, elements, defaultLanguage)
+  const validElements = elements.filter(({ id }) => !_.find(invalidElements, { id }))
+
+  if (strategy === 'replace') {
+    statusCallback(uploadStatusId, 'Deleting existing elements')
+    const existing = await prepareExport(cmsService, botId)
+    const removedIds = _.difference(
+      existing.map((x) => x.id),
+      validElements.map((x) => x.id)
+    )
+    await cmsService.deleteContentElements(botId, removedIds)
+  }
+
+  let savedCount = 0
+  await Promise.each(validElements, async ({ id, contentType, formData }) => {
+    await cmsService.createOrUpdateContentElement(botId, contentType, formData, id, undefined, userEmail)
+
+    savedCount += 1
+    statusCallback(
+      uploadStatusId,
+      `Saved ${savedCount}/${validElements.length} element${validElements.length === 1 ? '' : 's'}`
+    )
+  })
+
+  return { savedCount, invalidElements }
+}
+
+export type TranslationFormat = 'xliff' | 'csv'
+
+export interface TranslationFile {
+  language: string
+  translations: { id: string; target?: string }[]
+}
+
+/**
+ * Strings are identified by their element id and path (e.g. `builtin_text-abc123#text`), the content type
+ * is added as a note for translators
+ */
+export const exportTranslations = (
+  strings: TranslatableString[],
+  format: TranslationFormat,
+  defaultLanguage: string,
+  lang: string
+): string => {
+  const units = strings.map((x) => ({ id: `${x.elementId}#${x.path}`, source: x.source, note: x.contentType }))
+
+  if (format === 'csv') {
+    return toCsv([
+      ['id', 'contentType', defaultLanguage, lang],
+      ...units.map((unit) => [unit.id, unit.note, unit.source, ''])
+    ])
+  }
+
+  return toXliff({ sourceLanguage: defaultLanguage, targetLanguage: lang, units })
+}
+
+/**
+ * Reads a file exported with `exportTranslations`. The language of a CSV file is the header of its last column
+ */
+export const parseTranslationFile = (content: string): TranslationFile => {
+  try {
+    if (content.trim().startsWith('<')) {
+      const { targetLanguage, units } = parseXliff(content)
+      return { language: targetLanguage, translations: units.map(({ id, target }) => ({ id, target })) }
+    }
+
+    const [header, ...rows] = parseCsv(content)
+    if (!header || header.length < 2 || header[0] !== 'id') {
+      throw new Error('The first column must be "id" and the last one the translated language')
+    }
+
+    const targetIdx = header.length - 1
+    return {
+      language: header[targetIdx],
+      translations: rows.map((row) => ({ id: row[0], target: row[targetIdx] }))
+    }
+  } catch (err) {
+    throw new BadRequestError(`Invalid translation file: ${err.message}`)
+  }
+}
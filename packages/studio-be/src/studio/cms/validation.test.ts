@@ -0,0 +1,49 @@
+import { ContentType } from 'botpress/sdk'
+
+import { validateFormData, validateSchema } from './validation'
+
+const cardType = <ContentType>{
+  id: 'builtin_card',
+  jsonSchema: {
+    type: 'object',
+    required: ['title'],
+    properties: {
+      title: { type: 'string' },
+      typing: { type: 'boolean' },
+      actions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['action'],
+          properties: { action: { type: 'string', enum: ['Say something', 'Open URL'] }, title: { type: 'string' } }
+        }
+      }
+    }
+  }
+}
+
+describe('validateSchema', () => {
+  test('reports nested errors with their path', () => {
+    expect(
+      validateSchema(cardType.jsonSchema, { title: 12, actions: [{ title: 'ok' }, { action: 'Jump', title: 'ko' }] })
+    ).toEqual([
+      '"title" must be of type string',
+      '"actions[0].action" is required',
+      '"actions[1].action" must be one of Say something, Open URL'
+    ])
+  })
+})
+
+describe('validateFormData', () => {
+  test('validates the props of the given language', () => {
+    const formData = { title$en: 'Hello', typing$en: true, title$fr: 42 }
+
+    expect(validateFormData(cardType, formData, 'en')).toEqual([])
+    expect(validateFormData(cardType, formData, 'fr')).toEqual(['"title" must be of type string'])
+    expect(validateFormData(cardType, { typing$en: true }, 'en')).toEqual(['"title" is required'])
+  })
+
+  test('supports props translated in a dictionary', () => {
+    expect(validateFormData(cardType, { title: { en: 'Hello' } }, 'en')).toEqual([])
+  })
+})
@@ -0,0 +1,71 @@
+import { ContentType } from 'botpress/sdk'
+import _ from 'lodash'
+
+const TYPE_CHECKS: _.Dictionary<(value: any) => boolean> = {
+  string: _.isString,
+  number: _.isNumber,
+  integer: Number.isInteger,
+  boolean: _.isBoolean,
+  array: _.isArray,
+  object: _.isPlainObject,
+  null: _.isNull
+}
+
+const isMissing = (value: any) => value === undefined || value === null
+
+/**
+ * Checks a value against the subset of JSON schema used by content types (type, enum, required, properties and items)
+ */
+export const validateSchema = (schema: any, value: any, path: string = ''): string[] => {
+  if (!schema || isMissing(value)) {
+    return []
+  }
+
+  const label = path || 'value'
+  const types: string[] = _.castArray(schema.type || [])
+  if (types.length && !types.some((type) => TYPE_CHECKS[type]?.(value))) {
+    return [`"${label}" must be of type ${types.join(' or ')}`]
+  }
+
+  if (schema.enum && !schema.enum.some((x) => _.isEqual(x, value))) {
+    return [`"${label}" must be one of ${schema.enum.join(', ')}`]
+  }
+
+  if (_.isArray(value)) {
+    return _.isPlainObject(schema.items)
+      ? _.flatMap(value, (item, idx) => validateSchema(schema.items, item, `${path}[${idx}]`))
+      : []
+  }
+
+  if (_.isPlainObject(value)) {
+    const getPath = (key: string) => (path ? `${path}.${key}` : key)
+    const missing = (<string[]>(schema.required || []))
+      .filter((key) => isMissing(value[key]))
+      .map((key) => `"${getPath(key)}" is required`)
+
+    return [
+      ...missing,
+      ..._.flatMap(schema.properties || {}, (prop, key) => validateSchema(prop, value[key], getPath(key)))
+    ]
+  }
+
+  return []
+}
+
+/**
+ * Validates the form data of a content element in the given language.
+ * Translated props are stored as `prop$lang` keys, or less often as a dictionary indexed by language.
+ */
+export const validateFormData = (contentType: ContentType, formData: object, language: string): string[] => {
+  const schema: any = contentType.jsonSchema
+  const props = _.mapValues(schema?.properties || {}, (_prop, key) => {
+    if (_.has(formData, `${key}$${language}`)) {
+      return formData[`${key}$${language}`]
+    }
+
+    const value = formData[key]
+    return _.isPlainObject(value) && _.has(value, language) ? value[language] : value
+  })
+
+  return validateSchema(schema, props)
+}
@@ -34,7 +34,7 @@ export class ConfigRouter extends CustomStudioRouter {
         const bot = <BotConfig>req.body
 
         try {
-          await this.botService.updateBot(botId, bot)
+          await this.botService.updateBot(botId, bot, req.tokenUser?.email)
           return sendSuccess(res, 'Updated bot', { botId })
         } catch (err) {
           throw new UnexpectedError('Cannot update bot configuration', err)
@@ -1,6 +1,7 @@
 import { decodeFolderPath, UnexpectedError } from 'common/http'
-import { FlowView } from 'common/typings'
-import { MutexError } from 'core/dialog'
+import { FlowBundle, FlowChange, FlowImportResolutions, FlowView } from 'common/typings'
+import { BadRequestError } from 'core/routers'
+import { RequestHandler } from 'express'
 import _ from 'lodash'
 import { StudioServices } from 'studio/studio-router'
 import { CustomStudioRouter } from 'studio/utils/custom-studio-router'
@@ -18,6 +19,14 @@ export class FlowsRouter extends CustomStudioRouter {
     super('Flows', services)
   }
 
+  /** Bundled actions are code run by the server, importing them requires the rights of the code editor */
+  private needActionsPermissions(): RequestHandler {
+    return (req, res, next) =>
+      _.isEmpty(req.body.bundle?.actions)
+        ? next()
+        : this.needPermissions('write', 'module.code-editor.bot.actions')(req, res, next)
+  }
+
   setupRoutes() {
     const router = this.router
 
@@ -32,6 +41,47 @@ export class FlowsRouter extends CustomStudioRouter {
       })
     )
 
+    router.get(
+      '/lint',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      this.asyncMiddleware(async (req, res) => {
+        const botId = req.params.botId
+        const { flow, node } = req.query
+        const problems = await this.flowService.forBot(botId).lintFlows()
+
+        // Problems can be narrowed down to a flow, or to a node of a flow
+        res.send(problems.filter((x) => (!flow || x.flow === flow) && (!node || x.node === node)))
+      })
+    )
+
+    router.get(
+      '/presence',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        res.send(await this.flowService.forBot(botId).listPresences())
+      })
+    )
+
+    router.post(
+      '/presence',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const { flow, nodeId } = req.body
+        const userEmail = req.tokenUser!.email
+
+        if (!flow) {
+          throw new BadRequestError('Missing the name of the flow')
+        }
+
+        res.send(await this.flowService.forBot(botId).updatePresence(userEmail, flow, nodeId))
+      })
+    )
+
     router.post(
       '/',
       this.checkTokenHeader,
@@ -47,6 +97,26 @@ export class FlowsRouter extends CustomStudioRouter {
       })
     )
 
+    router.post(
+      '/import',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.flows'),
+      this.needPermissions('write', 'bot.content'),
+      this.needActionsPermissions(),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const bundle = <FlowBundle>req.body.bundle
+        const resolutions = <FlowImportResolutions>req.body.resolutions || {}
+        const userEmail = req.tokenUser!.email
+
+        const result = await this.flowService
+          .forBot(botId)
+          .importBundle(bundle, resolutions, userEmail, !!req.body.dryRun)
+
+        res.send(result)
+      })
+    )
+
     this.router.post(
       '/:flowName',
       this.checkTokenHeader,
@@ -66,15 +136,95 @@ export class FlowsRouter extends CustomStudioRouter {
           await this.flowService.forBot(botId).updateFlow(flow, userEmail)
           res.sendStatus(200)
         } catch (err) {
-          if (err.type && err.type === MutexError.name) {
-            return res.sendStatus(423) // Mutex locked
-          }
-
           throw new UnexpectedError('Error saving flow', err)
         }
       })
     )
 
+    this.router.post(
+      '/:flowName/changes',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.flows'),
+      parseFlowNameMiddleware,
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, flowName } = req.params
+        const changes = <FlowChange[]>req.body.changes
+        const userEmail = req.tokenUser!.email
+
+        if (!_.isArray(changes)) {
+          throw new BadRequestError('Changes must be an array')
+        }
+
+        res.send(await this.flowService.forBot(botId).applyChanges(flowName, changes, userEmail))
+      })
+    )
+
+    this.router.get(
+      '/:flowName/export',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      this.needPermissions('read', 'bot.content'),
+      parseFlowNameMiddleware,
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, flowName } = req.params
+        const bundle = await this.flowService.forBot(botId).exportBundle(flowName)
+        const fileName = flowName.replace(/\.flow\.json$/i, '').replace(/\//g, '_')
+
+        res.setHeader('Content-Type', 'application/json')
+        res.setHeader('Content-disposition', `attachment; filename=${fileName}.bundle.json`)
+        res.end(JSON.stringify(bundle, undefined, 2))
+      })
+    )
+
+    this.router.get(
+      '/:flowName/history',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      parseFlowNameMiddleware,
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, flowName } = req.params
+        res.send(await this.flowService.forBot(botId).listRevisions(flowName))
+      })
+    )
+
+    this.router.get(
+      '/:flowName/history/:revisionId',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      parseFlowNameMiddleware,
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, flowName, revisionId } = req.params
+        res.send(await this.flowService.forBot(botId).getRevision(flowName, revisionId))
+      })
+    )
+
+    this.router.get(
+      '/:flowName/history/:revisionId/diff',
+      this.checkTokenHeader,
+      this.needPermissions('read', 'bot.flows'),
+      parseFlowNameMiddleware,
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, flowName, revisionId } = req.params
+        const compareTo = req.query.compareTo as string | undefined
+
+        res.send(await this.flowService.forBot(botId).diffRevision(flowName, revisionId, compareTo))
+      })
+    )
+
+    this.router.post(
+      '/:flowName/history/:revisionId/restore',
+      this.checkTokenHeader,
+      this.needPermissions('write', 'bot.flows'),
+      parseFlowNameMiddleware,
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, flowName, revisionId } = req.params
+        const userEmail = req.tokenUser!.email
+
+        const flow = await this.flowService.forBot(botId).restoreRevision(flowName, revisionId, userEmail)
+        res.send(flow)
+      })
+    )
+
     this.router.post(
       '/:flowName/delete',
       this.checkTokenHeader,
@@ -0,0 +1,79 @@
+import { auditDependencies, DEFAULT_ALLOWED_LICENSES, isLicenseAllowed, listLockedDependencies } from './audit'
+
+describe('Library audit', () => {
+  test('Dependencies of a v2 lockfile', () => {
+    const lock = {
+      lockfileVersion: 2,
+      packages: {
+        '': { name: 'libraries', version: '1.0.0' },
+        'node_modules/axios': { version: '0.21.1', license: 'MIT' },
+        'node_modules/axios/node_modules/follow-redirects': { version: '1.14.0', license: 'MIT' },
+        '../linked': { version: '1.0.0' }
+      }
+    }
+
+    expect(listLockedDependencies(lock)).toEqual([
+      { name: 'axios', version: '0.21.1', path: 'node_modules/axios', license: 'MIT' },
+      {
+        name: 'follow-redirects',
+        version: '1.14.0',
+        path: 'node_modules/axios/node_modules/follow-redirects',
+        license: 'MIT'
+      }
+    ])
+  })
+
+  test('Dependencies of a v1 lockfile', () => {
+    const lock = {
+      lockfileVersion: 1,
+      dependencies: {
+        axios: { version: '0.21.1', dependencies: { 'follow-redirects': { version: '1.14.0' } } },
+        '@scope/pkg': { version: '2.0.0' }
+      }
+    }
+
+    expect(listLockedDependencies(lock)).toEqual([
+      { name: 'axios', version: '0.21.1', path: 'node_modules/axios' },
+      { name: 'follow-redirects', version: '1.14.0', path: 'node_modules/axios/node_modules/follow-redirects' },
+      { name: '@scope/pkg', version: '2.0.0', path: 'node_modules/@scope/pkg' }
+    ])
+  })
+
+  test('License expressions', () => {
+    expect(isLicenseAllowed('MIT', DEFAULT_ALLOWED_LICENSES)).toBe(true)
+    expect(isLicenseAllowed('(MIT OR GPL-3.0)', DEFAULT_ALLOWED_LICENSES)).toBe(true)
+    expect(isLicenseAllowed('MIT AND GPL-3.0', DEFAULT_ALLOWED_LICENSES)).toBe(false)
+    expect(isLicenseAllowed('GPL-3.0', DEFAULT_ALLOWED_LICENSES)).toBe(false)
+    expect(isLicenseAllowed('UNLICENSED', DEFAULT_ALLOWED_LICENSES)).toBe(false)
+    expect(isLicenseAllowed(undefined, DEFAULT_ALLOWED_LICENSES)).toBeUndefined()
+  })
+
+  test('Violations of the policy', () => {
+    const dependencies = [
+      { name: 'lodash', version: '4.17.15', path: 'node_modules/lodash', license: 'MIT', direct: true },
+      { name: 'copyleft', version: '1.0.0', path: 'node_modules/copyleft', license: 'GPL-3.0', direct: false },
+      { name: 'mystery', version: '1.0.0', path: 'node_modules/mystery', direct: false }
+    ]
+    const advisories = {
+      lodash: [
+        { id: 1, title: 'Prototype Pollution', severity: 'high' as const, vulnerable_versions: '<4.17.19' },
+        { id: 2, title: 'Minor issue', severity: 'low' as const, vulnerable_versions: '<5.0.0' },
+        { id: 3, title: 'Fixed issue', severity: 'critical' as const, vulnerable_versions: '<4.0.0' }
+      ]
+    }
+
+    const audit = auditDependencies(dependencies, {
+      allowedLicenses: DEFAULT_ALLOWED_LICENSES,
+      blockingSeverity: 'high',
+      advisories
+    })
+
+    expect(audit.advisoriesChecked).toBe(true)
+    expect(audit.dependencies.find((x) => x.name === 'lodash')!.advisories.map((x) => x.id)).toEqual([1, 2])
+    expect(audit.dependencies.find((x) => x.name === 'mystery')!.licenseAllowed).toBeUndefined()
+    expect(audit.violations).toEqual([
+      'copyleft@1.0.0 has a disallowed license (GPL-3.0)',
+      'lodash@4.17.15 has a high severity advisory: Prototype Pollution'
+    ])
+  })
+})
@@ -0,0 +1,157 @@
+import { AdvisorySeverity, LibraryAdvisory, LibraryAudit, LibraryAuditEntry } from 'common/typings'
+import _ from 'lodash'
+import semver from 'semver'
+
+export const DEFAULT_ALLOWED_LICENSES = [
+  'MIT',
+  'ISC',
+  'Apache-2.0',
+  'BSD-2-Clause',
+  'BSD-3-Clause',
+  '0BSD',
+  'Unlicense',
+  'CC0-1.0'
+]
+export const DEFAULT_BLOCKING_SEVERITY: AdvisorySeverity = 'high'
+
+const SEVERITIES: AdvisorySeverity[] = ['info', 'low', 'moderate', 'high', 'critical']
+
+export interface LockedDependency {
+  name: string
+  version: string
+  /** Location of the package, relative to the libraries folder, e.g. "node_modules/a/node_modules/b" */
+  path: string
+  /** Only lockfiles of version 2 and higher contain the license */
+  license?: string
+}
+
+/** Advisories by package name, like the response of the npm bulk advisory endpoint */
+export interface AdvisoryDatabase {
+  [name: string]: {
+    id?: number | string
+    title: string
+    severity: AdvisorySeverity
+    vulnerable_versions: string
+    url?: string
+  }[]
+}
+
+export interface LibraryPolicy {
+  allowedLicenses: string[]
+  blockingSeverity: AdvisorySeverity
+  advisories?: AdvisoryDatabase
+}
+
+const listV1Dependencies = (dependencies: _.Dictionary<any> | undefined, parentPath: string): LockedDependency[] =>
+  _.flatMap(dependencies || {}, (dep, name) => {
+    const depPath = `${parentPath}node_modules/${name}`
+    return [{ name, version: dep.version, path: depPath }, ...listV1Dependencies(dep.dependencies, `${depPath}/`)]
+  })
+
+/**
+ * Lists the packages of a package-lock.json. Lockfiles of version 2 and higher list them under "packages",
+ * the older ones nest them under "dependencies"
+ */
+export const listLockedDependencies = (lock: any): LockedDependency[] => {
+  if (lock?.packages) {
+    // The root package has an empty path, and linked ones have no version
+    return _.map(lock.packages, (pkg, pkgPath) => ({
+      name: pkg.name || pkgPath.split('node_modules/').pop()!,
+      version: pkg.version,
+      path: pkgPath,
+      license: pkg.license
+    })).filter((x) => x.path.includes('node_modules/') && x.version)
+  }
+
+  return listV1Dependencies(lock?.dependencies, '').filter((x) => x.version)
+}
+
+/**
+ * Checks a license, or an SPDX expression like "(MIT OR Apache-2.0)", against the allowed licenses.
+ * Returns undefined when the license is unknown. "UNLICENSED" packages are proprietary, so they are not allowed
+ */
+export const isLicenseAllowed = (license: string | undefined, allowedLicenses: string[]): boolean | undefined => {
+  if (!license || license.toUpperCase() === 'UNKNOWN') {
+    return undefined
+  }
+  if (!allowedLicenses.length) {
+    return true
+  }
+
+  const allowed = allowedLicenses.map((x) => x.toLowerCase())
+  // Exceptions ("WITH ...") and precedence of parentheses are not considered, they are rare in the npm registry
+  const alternatives = license.replace(/[()]/g, '').split(/\s+OR\s+/i)
+
+  return alternatives.some((alternative) =>
+    alternative.split(/\s+AND\s+/i).every((x) =>
+      allowed.includes(
+        x
+          .replace(/\s+WITH\s+.*$/i, '')
+          .trim()
+          .toLowerCase()
+      )
+    )
+  )
+}
+
+/** Reads the license of a package.json, including the deprecated "licenses" field */
+export const getPackageLicense = (pkg: any): string | undefined => {
+  const licenses = _.castArray(pkg?.license || pkg?.licenses || [])
+    .map((x) => (_.isString(x) ? x : x?.type))
+    .filter((x): x is string => !!x)
+
+  return licenses.length > 1 ? `(${licenses.join(' OR ')})` : licenses[0]
+}
+
+export const findAdvisories = (
+  name: string,
+  version: string,
+  advisories: AdvisoryDatabase | undefined
+): LibraryAdvisory[] =>
+  (advisories?.[name] || [])
+    .filter((x) => semver.valid(version) && semver.satisfies(version, x.vulnerable_versions))
+    .map((x) => ({
+      id: x.id,
+      title: x.title,
+      severity: x.severity,
+      vulnerableVersions: x.vulnerable_versions,
+      url: x.url
+    }))
+
+const isBlocking = (severity: AdvisorySeverity, blockingSeverity: AdvisorySeverity) =>
+  SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(blockingSeverity)
+
+/**
+ * Reports the license and the advisories of every dependency, and the violations of the policy.
+ * Unknown licenses are reported but don't violate the policy
+ */
+export const auditDependencies = (
+  dependencies: (LockedDependency & { direct: boolean })[],
+  policy: LibraryPolicy
+): LibraryAudit => {
+  const unique = _.sortBy(
+    _.uniqBy(dependencies, (x) => `${x.name}@${x.version}`),
+    (x) => x.name
+  )
+  const entries = unique.map(
+    (dep): LibraryAuditEntry => ({
+      name: dep.name,
+      version: dep.version,
+      direct: dep.direct,
+      license: dep.license,
+      licenseAllowed: isLicenseAllowed(dep.license, policy.allowedLicenses),
+      advisories: findAdvisories(dep.name, dep.version, policy.advisories)
+    })
+  )
+
+  const violations = _.flatMap(entries, (entry) => [
+    ...(entry.licenseAllowed === false
+      ? [`${entry.name}@${entry.version} has a disallowed license (${entry.license})`]
+      : []),
+    ...entry.advisories
+      .filter((x) => isBlocking(x.severity, policy.blockingSeverity))
+      .map((x) => `${entry.name}@${entry.version} has a ${x.severity} severity advisory: ${x.title}`)
+  ])
+
+  return { dependencies: entries, violations, advisoriesChecked: !!policy.advisories }
+}
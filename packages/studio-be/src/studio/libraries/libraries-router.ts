@@ -1,16 +1,17 @@
 import axios from 'axios'
+import { BadRequestError } from 'core/routers/errors'
 import path from 'path'
 import { StudioServices } from 'studio/studio-router'
 import { CustomStudioRouter } from 'studio/utils/custom-studio-router'
 import { LibrariesService } from './libraries-service'
-import { validateNameVersion } from './utils'
+import { ALLOWED_NPM_COMMANDS, getNpmCommand, validateNameVersion } from './utils'
 
 export class LibrariesRouter extends CustomStudioRouter {
   private libService: LibrariesService
 
   constructor(services: StudioServices) {
     super('Libraries', services)
-    this.libService = new LibrariesService(this.logger, this.bpfs)
+    this.libService = new LibrariesService(this.logger, this.bpfs, this.configProvider)
   }
 
   setupRoutes() {
@@ -29,15 +30,31 @@ export class LibrariesRouter extends CustomStudioRouter {
       })
     )
 
+    router.get(
+      '/audit',
+      this.needPermissions('read', 'module.code-editor'),
+      this.asyncMiddleware(async (req: any, res: any) => {
+        res.send(await this.libService.auditLibraries(req.params.botId))
+      })
+    )
+
     router.post(
       '/executeNpm',
       this.needPermissions('read', 'module.code-editor'),
       this.asyncMiddleware(async (req: any, res: any) => {
         const { botId } = req.params
         const { command } = req.body
+        const args = String(command || '')
+          .trim()
+          .split(/\s+/)
+
+        const npmCommand = getNpmCommand(args)
+        if (!npmCommand || !ALLOWED_NPM_COMMANDS.includes(npmCommand)) {
+          throw new BadRequestError(`Only these npm commands can be executed: ${ALLOWED_NPM_COMMANDS.join(', ')}`)
+        }
 
         this.logger.forBot(req.params.botId).info(`Executing NPM command ${command}...`)
-        await this.libService.executeNpm(botId, command.split(' '))
+        await this.libService.executeNpm(botId, args)
 
         res.sendStatus(200)
       })
@@ -72,9 +89,10 @@ export class LibrariesRouter extends CustomStudioRouter {
 
         this.logger.forBot(req.params.botId).info('Syncing libraries...')
 
-        await this.libService.executeNpm(botId)
+        // Installs are blocked when a dependency of the package.json violates the policy
+        const { audit } = await this.libService.executeNpm(botId)
 
-        res.sendStatus(200)
+        res.send(audit)
       })
     )
 
@@ -92,9 +110,9 @@ export class LibrariesRouter extends CustomStudioRouter {
         }
 
         this.logger.forBot(req.params.botId).info(`Installing library ${name}...`)
-        await this.libService.executeNpm(botId, ['install', !version ? name : `${name}@${version}`])
+        const { audit } = await this.libService.executeNpm(botId, ['install', !version ? name : `${name}@${version}`])
 
-        res.sendStatus(200)
+        res.send(audit)
       })
     )
 
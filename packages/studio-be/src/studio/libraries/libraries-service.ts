@@ -1,8 +1,10 @@
 import * as sdk from 'botpress/sdk'
 import { spawn } from 'child_process'
 import { ObjectCache } from 'common/object-cache'
+import { LibraryAudit } from 'common/typings'
 import { coreActions } from 'core/app/core-client'
 import { GhostService } from 'core/bpfs'
+import { ConfigProvider } from 'core/config'
 import { createArchive } from 'core/misc/archive'
 import fse from 'fs-extra'
 import glob from 'glob'
@@ -10,7 +12,17 @@ import mkdirp from 'mkdirp'
 import ncp from 'ncp'
 import path from 'path'
 
+import {
+  AdvisoryDatabase,
+  auditDependencies,
+  DEFAULT_ALLOWED_LICENSES,
+  DEFAULT_BLOCKING_SEVERITY,
+  getPackageLicense,
+  listLockedDependencies,
+  LibraryPolicy
+} from './audit'
 import example from './example'
+import { isInstallCommand } from './utils'
 
 const debug = DEBUG('libraries')
 const LIB_FOLDER = 'libraries/'
@@ -21,7 +33,7 @@ const getBotLibPath = (botId: string, fileName?: string) =>
 
 export class LibrariesService {
   private npmPath?: string
-  constructor(private logger: sdk.Logger, private bpfs: GhostService) {}
+  constructor(private logger: sdk.Logger, private bpfs: GhostService, private configProvider: ConfigProvider) {}
 
   isInitialized = (botId: string) => {
     return this.bpfs.forBot(botId).fileExists(LIB_FOLDER, 'package.json')
@@ -100,16 +112,132 @@ export class LibrariesService {
     }
   }
 
-  executeNpm = async (botId: string, args: string[] = ['install'], customLibsDir?: string): Promise<string> => {
+  /**
+   * Runs a npm command in the libraries folder of the bot. Installs are audited before anything is installed,
+   * the audit is returned with the output of npm
+   */
+  executeNpm = async (
+    botId: string,
+    args: string[] = ['install'],
+    customLibsDir?: string
+  ): Promise<{ output: string; audit?: LibraryAudit }> => {
     await this.syncLocalPackage(botId)
 
+    const cwd = customLibsDir ?? path.resolve(process.DATA_LOCATION, 'bots', botId, LIB_FOLDER)
+    mkdirp.sync(cwd)
+
+    const audit = isInstallCommand(args) ? await this.auditInstall(botId, cwd, args) : undefined
+    const output = await this.spawnNpm(cwd, args)
+
+    if (output.indexOf('ERR!') !== -1) {
+      throw new Error(output)
+    }
+
+    await this.publishPackageChanges(botId)
+    this.logger.info(`Command executed successfully: ${output}`)
+
+    return { output, audit }
+  }
+
+  /**
+   * Resolves the dependencies of an install in the lockfile only, without downloading packages or running their
+   * scripts, then audits them. The package files are restored when the policy is violated
+   */
+  private auditInstall = async (botId: string, cwd: string, args: string[]): Promise<LibraryAudit> => {
+    const snapshot = await this.readPackageFiles(cwd)
+
+    try {
+      const output = await this.spawnNpm(cwd, [...args, '--package-lock-only', '--ignore-scripts'])
+      if (output.indexOf('ERR!') !== -1) {
+        throw new Error(output)
+      }
+
+      const audit = await this.auditLibraries(botId, cwd)
+      if (audit.violations.length) {
+        throw new Error(`Installation blocked by the libraries policy: ${audit.violations.join(', ')}`)
+      }
+
+      return audit
+    } catch (err) {
+      await this.restorePackageFiles(cwd, snapshot)
+      throw err
+    }
+  }
+
+  /**
+   * Audits the licenses of the installed libraries and matches their versions against the advisory database.
+   * Only local files are read, nothing is sent to the registry
+   */
+  auditLibraries = async (botId: string, libsDir: string = getBotLibPath(botId)): Promise<LibraryAudit> => {
+    const policy = await this.getLibraryPolicy()
+    const { lock, pkg } = await this.readPackageFiles(libsDir)
+
+    if (!lock) {
+      return auditDependencies([], policy)
+    }
+
+    const directDependencies = Object.keys(pkg?.dependencies || {})
+    const dependencies = await Promise.map(listLockedDependencies(lock), async (dep) => ({
+      ...dep,
+      // Older lockfiles don't include the license, it is read from the installed package instead
+      license: dep.license ?? getPackageLicense(await this.readJson(path.join(libsDir, dep.path, 'package.json'))),
+      direct: directDependencies.includes(dep.name) && dep.path === `node_modules/${dep.name}`
+    }))
+
+    return auditDependencies(dependencies, policy)
+  }
+
+  private getLibraryPolicy = async (): Promise<LibraryPolicy> => {
+    const config = (await this.configProvider.getBotpressConfig()).libraries
+
+    let advisories: AdvisoryDatabase | undefined
+    if (config?.advisoryDatabase) {
+      const dbPath = path.resolve(process.DATA_LOCATION, config.advisoryDatabase)
+      advisories = await this.readJson(dbPath)
+
+      if (!advisories) {
+        this.logger.warn(`Could not read the advisory database at ${dbPath}, advisories will not be checked`)
+      }
+    }
+
+    return {
+      allowedLicenses: config?.allowedLicenses ?? DEFAULT_ALLOWED_LICENSES,
+      blockingSeverity: config?.blockingSeverity ?? DEFAULT_BLOCKING_SEVERITY,
+      advisories
+    }
+  }
+
+  private readJson = async (filePath: string): Promise<any> => {
+    try {
+      return await fse.readJSON(filePath)
+    } catch (err) {
+      return undefined
+    }
+  }
+
+  private readPackageFiles = async (libsDir: string): Promise<{ pkg?: any; lock?: any }> => ({
+    pkg: await this.readJson(path.join(libsDir, 'package.json')),
+    lock: await this.readJson(path.join(libsDir, 'package-lock.json'))
+  })
+
+  private restorePackageFiles = async (libsDir: string, { pkg, lock }: { pkg?: any; lock?: any }) => {
+    const lockPath = path.join(libsDir, 'package-lock.json')
+
+    if (pkg) {
+      await fse.writeJSON(path.join(libsDir, 'package.json'), pkg, { spaces: 2 })
+    }
+    if (lock) {
+      await fse.writeJSON(lockPath, lock, { spaces: 2 })
+    } else {
+      await fse.remove(lockPath)
+    }
+  }
+
+  private spawnNpm = async (cwd: string, args: string[]): Promise<string> => {
     const npmPath = await this.getNpmPath()
     const cliPath = path.resolve(npmPath!, 'bin/npm-cli.js')
 
-    const cleanArgs = this.prepareArgs(args)
-    const cwd = customLibsDir ?? path.resolve(process.DATA_LOCATION, 'bots', botId, LIB_FOLDER)
-
-    mkdirp.sync(cwd)
+    const cleanArgs = this.prepareArgs([...args])
     debug('executing npm', { execPath: process.execPath, cwd, args, cleanArgs })
 
     const spawned = spawn(process.execPath, [cliPath, ...cleanArgs], {
@@ -127,15 +255,6 @@ export class LibrariesService {
     spawned.stderr.on('data', (msg) => resultBuffer.push(msg.toString()))
 
     await Promise.fromCallback((cb) => spawned.stdout.on('close', cb))
-    const result = resultBuffer.join('')
-
-    if (result.indexOf('ERR!') === -1) {
-      await this.publishPackageChanges(botId)
-      this.logger.info(`Command executed successfully: ${result}`)
-    } else {
-      throw new Error(result)
-    }
-
     return resultBuffer.join('')
   }
 
@@ -1,4 +1,4 @@
-import { validateNameVersion } from './utils'
+import { getNpmCommand, isInstallCommand, validateNameVersion } from './utils'
 
 describe('Validate name and version', () => {
   test('Standard naming', () => {
@@ -22,3 +22,27 @@ describe('Validate name and version', () => {
     expect(validateNameVersion(pkg)).toEqual(pkg)
   })
 })
+
+describe('npm commands', () => {
+  test('Aliases are resolved', () => {
+    expect(getNpmCommand(['i', 'axios'])).toEqual('install')
+    expect(getNpmCommand(['isntall', 'axios'])).toEqual('install')
+    expect(getNpmCommand(['inst', 'axios'])).toEqual('install')
+    expect(getNpmCommand(['rm', 'axios'])).toEqual('uninstall')
+    expect(getNpmCommand(['outdated'])).toEqual('outdated')
+  })
+
+  test('Options before the command are refused', () => {
+    expect(getNpmCommand(['--save', 'install', 'axios'])).toBeUndefined()
+    expect(getNpmCommand(['--registry', 'ls', 'install', 'axios'])).toBeUndefined()
+    expect(getNpmCommand([''])).toBeUndefined()
+  })
+
+  test('Installs are detected', () => {
+    for (const command of ['install', 'add', 'in', 'ins', 'it', 'ci', 'update', 'up']) {
+      expect(isInstallCommand([command, 'axios'])).toBe(true)
+    }
+    expect(isInstallCommand(['uninstall', 'axios'])).toBe(false)
+    expect(isInstallCommand(['ls'])).toBe(false)
+  })
+})
@@ -25,6 +25,68 @@ export const validateNameVersion = ({ name, version }: { name: string; version?:
   return { name, version }
 }
 
+/** Aliases of npm commands, as listed by npm. Abbreviations of install are explicit aliases since npm 7 */
+const NPM_ALIASES: { [alias: string]: string } = {
+  i: 'install',
+  add: 'install',
+  in: 'install',
+  ins: 'install',
+  inst: 'install',
+  insta: 'install',
+  instal: 'install',
+  isnt: 'install',
+  isnta: 'install',
+  isntal: 'install',
+  isntall: 'install',
+  it: 'install-test',
+  cit: 'install-ci-test',
+  sit: 'install-ci-test',
+  'clean-install-test': 'install-ci-test',
+  ic: 'ci',
+  'clean-install': 'ci',
+  'install-clean': 'ci',
+  'isntall-clean': 'ci',
+  up: 'update',
+  upgrade: 'update',
+  udpate: 'update',
+  un: 'uninstall',
+  unlink: 'uninstall',
+  remove: 'uninstall',
+  rm: 'uninstall',
+  r: 'uninstall',
+  list: 'ls',
+  la: 'ls',
+  ll: 'ls',
+  v: 'view',
+  info: 'view',
+  show: 'view'
+}
+
+/** Commands which install packages, either new ones or those of the package.json */
+const INSTALL_COMMANDS = ['install', 'install-test', 'install-ci-test', 'ci', 'update']
+
+/**
+ * Commands which can be run from the studio. Only installs can be audited before they are made, so other commands
+ * which change the libraries (e.g. update, ci) are refused
+ */
+export const ALLOWED_NPM_COMMANDS = ['install', 'uninstall', 'ls', 'outdated', 'view']
+
+/**
+ * Returns the npm command of the arguments with its alias resolved. Options must come after the command, since
+ * those taking a value (e.g. --registry) would otherwise make the command ambiguous
+ */
+export const getNpmCommand = (args: string[]): string | undefined => {
+  const [command] = args
+  if (!command || command.startsWith('-')) {
+    return
+  }
+
+  return NPM_ALIASES[command] ?? command
+}
+
+/** Tells if the arguments of a npm command install packages */
+export const isInstallCommand = (args: string[]) => INSTALL_COMMANDS.includes(getNpmCommand(args)!)
+
 export const disableScripts = (pkg: Package) => {
   if (!pkg.scripts) {
     return
@@ -0,0 +1,67 @@
+import * as sdk from 'botpress/sdk'
+
+import { analyzeNluDataset } from './analysis'
+
+const makeIntent = (name: string, utterances: string[], slots: string[] = []): sdk.NLU.IntentDefinition => ({
+  name,
+  contexts: ['global'],
+  slots: slots.map((x) => ({ id: x, name: x, entities: ['any'], color: 1 })),
+  utterances: { en: utterances }
+})
+
+const intents = [
+  makeIntent(
+    'book_flight',
+    ['book a flight to [Paris](city)', 'I want a plane ticket', 'fly to [Rome](city)'],
+    ['city', 'date']
+  ),
+  makeIntent('buy_ticket', ['buy a plane ticket', 'i want a plane ticket!', 'ticket for a [concert](event)']),
+  makeIntent('ticket_price', ['plane ticket price', 'price of a plane ticket']),
+  makeIntent('fare', ['price of plane ticket', 'plane ticket fare'])
+]
+
+const entities: sdk.NLU.EntityDefinition[] = [
+  {
+    id: 'city',
+    name: 'city',
+    type: 'list',
+    occurrences: [
+      { name: 'Paris', synonyms: ['City of light', 'paris'] },
+      { name: 'Lights', synonyms: ['city of Light'] }
+    ]
+  },
+  { id: 'code', name: 'code', type: 'pattern', pattern: '[A-Z]+' }
+]
+
+describe('NLU dataset analysis', () => {
+  test('reports problems of intents and entities', () => {
+    const { warnings } = analyzeNluDataset(intents, entities, ['en', 'fr'])
+
+    expect(warnings.filter((x) => x.type === 'tooFewUtterances')).toEqual([
+      { type: 'tooFewUtterances', intent: 'book_flight', language: 'fr', count: 0, minimum: 3 },
+      { type: 'tooFewUtterances', intent: 'buy_ticket', language: 'fr', count: 0, minimum: 3 },
+      { type: 'tooFewUtterances', intent: 'ticket_price', language: 'en', count: 2, minimum: 3 },
+      { type: 'tooFewUtterances', intent: 'ticket_price', language: 'fr', count: 0, minimum: 3 },
+      { type: 'tooFewUtterances', intent: 'fare', language: 'en', count: 2, minimum: 3 },
+      { type: 'tooFewUtterances', intent: 'fare', language: 'fr', count: 0, minimum: 3 }
+    ])
+    expect(warnings.filter((x) => x.type !== 'tooFewUtterances')).toEqual([
+      {
+        type: 'duplicateUtterance',
+        language: 'en',
+        utterance: 'I want a plane ticket',
+        intents: ['book_flight', 'buy_ticket']
+      },
+      { type: 'intentOverlap', language: 'en', intents: ['ticket_price', 'fare'], score: 0.75 },
+      { type: 'unusedSlot', intent: 'book_flight', slot: 'date' },
+      {
+        type: 'undeclaredSlot',
+        intent: 'buy_ticket',
+        slot: 'event',
+        language: 'en',
+        utterance: 'ticket for a [concert](event)'
+      },
+      { type: 'duplicateSynonym', entity: 'city', synonym: 'City of light', occurrences: ['Paris', 'Lights'] }
+    ])
+  })
+})
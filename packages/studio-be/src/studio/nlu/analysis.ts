@@ -0,0 +1,142 @@
+import * as sdk from 'botpress/sdk'
+import { NluAnalysis, NluWarning } from 'common/typings'
+import { parseUtterance } from 'common/utterance-parser'
+import { tokenize } from 'core/cms/search-index'
+import _ from 'lodash'
+
+/** Below this, intents only use exact matches instead of machine learning */
+export const MIN_UTTERANCES = 3
+export const OVERLAP_THRESHOLD = 0.6
+/** Short words are mostly articles and prepositions, which every intent shares */
+const MIN_TOKEN_LENGTH = 3
+
+/** Utterances without their slot annotations, case, accents and punctuation */
+const normalizeUtterance = (utterance: string) => tokenize(parseUtterance(utterance).utterance).join(' ')
+
+const getVocabulary = (utterances: string[]) =>
+  new Set(
+    _.flatMap(utterances, (x) => tokenize(parseUtterance(x).utterance)).filter((x) => x.length >= MIN_TOKEN_LENGTH)
+  )
+
+const getOverlap = (a: Set<string>, b: Set<string>) => {
+  const common = [...a].filter((token) => b.has(token)).length
+  const total = a.size + b.size - common
+  return total ? common / total : 0
+}
+
+const checkUtteranceCounts = (intents: sdk.NLU.IntentDefinition[], languages: string[]): NluWarning[] =>
+  _.flatMap(intents, (intent) =>
+    languages
+      .map((language) => ({ language, count: (intent.utterances[language] || []).length }))
+      .filter(({ count }) => count < MIN_UTTERANCES)
+      .map(({ language, count }) => ({
+        type: 'tooFewUtterances' as const,
+        intent: intent.name,
+        language,
+        count,
+        minimum: MIN_UTTERANCES
+      }))
+  )
+
+const checkDuplicates = (intents: sdk.NLU.IntentDefinition[], language: string): NluWarning[] => {
+  const intentsByUtterance = new Map<string, { utterance: string; intents: string[] }>()
+
+  for (const intent of intents) {
+    for (const utterance of intent.utterances[language] || []) {
+      const normalized = normalizeUtterance(utterance)
+      const entry = intentsByUtterance.get(normalized) || { utterance, intents: [] }
+      intentsByUtterance.set(normalized, { ...entry, intents: _.union(entry.intents, [intent.name]) })
+    }
+  }
+
+  return [...intentsByUtterance.values()]
+    .filter((x) => x.intents.length > 1)
+    .map(({ utterance, intents }) => ({ type: 'duplicateUtterance' as const, language, utterance, intents }))
+}
+
+const checkOverlaps = (intents: sdk.NLU.IntentDefinition[], language: string): NluWarning[] => {
+  const vocabularies = intents.map((intent) => getVocabulary(intent.utterances[language] || []))
+  const warnings: Extract<NluWarning, { type: 'intentOverlap' }>[] = []
+
+  for (let i = 0; i < intents.length; i++) {
+    for (let j = i + 1; j < intents.length; j++) {
+      const score = getOverlap(vocabularies[i], vocabularies[j])
+      if (score >= OVERLAP_THRESHOLD) {
+        warnings.push({
+          type: 'intentOverlap',
+          language,
+          intents: [intents[i].name, intents[j].name],
+          score: Math.round(score * 100) / 100
+        })
+      }
+    }
+  }
+
+  return _.orderBy(warnings, (x) => x.score, 'desc')
+}
+
+const checkSlots = (intent: sdk.NLU.IntentDefinition): NluWarning[] => {
+  const declared = intent.slots.map((x) => x.name)
+  const annotated = new Set<string>()
+  const warnings: NluWarning[] = []
+
+  for (const [language, utterances] of Object.entries(intent.utterances)) {
+    for (const utterance of utterances) {
+      for (const slot of _.uniq(parseUtterance(utterance).parsedSlots.map((x) => x.name))) {
+        annotated.add(slot)
+        if (!declared.includes(slot)) {
+          warnings.push({ type: 'undeclaredSlot', intent: intent.name, slot, language, utterance })
+        }
+      }
+    }
+  }
+
+  return [
+    ...declared
+      .filter((slot) => !annotated.has(slot))
+      .map((slot) => ({ type: 'unusedSlot' as const, intent: intent.name, slot })),
+    ...warnings
+  ]
+}
+
+const checkSynonyms = (entity: sdk.NLU.EntityDefinition): NluWarning[] => {
+  const occurrencesBySynonym = _.groupBy(
+    _.flatMap(entity.occurrences || [], (occurrence) =>
+      _.uniqBy([occurrence.name, ...occurrence.synonyms], (x) => x.trim().toLowerCase()).map((synonym) => ({
+        synonym,
+        occurrence: occurrence.name
+      }))
+    ),
+    (x) => x.synonym.trim().toLowerCase()
+  )
+
+  return Object.values(occurrencesBySynonym)
+    .filter((x) => x.length > 1)
+    .map((matches) => ({
+      type: 'duplicateSynonym' as const,
+      entity: entity.name,
+      synonym: matches[0].synonym,
+      occurrences: matches.map((x) => x.occurrence)
+    }))
+}
+
+/**
+ * Looks for problems in the intents and entities of a bot which are likely to confuse the model.
+ * Utterances are compared without their slot annotations
+ */
+export const analyzeNluDataset = (
+  intents: sdk.NLU.IntentDefinition[],
+  entities: sdk.NLU.EntityDefinition[],
+  languages: string[]
+): NluAnalysis => ({
+  warnings: [
+    ...checkUtteranceCounts(intents, languages),
+    ..._.flatMap(languages, (language) => checkDuplicates(intents, language)),
+    ..._.flatMap(languages, (language) => checkOverlaps(intents, language)),
+    ..._.flatMap(intents, checkSlots),
+    ..._.flatMap(
+      entities.filter((x) => x.type === 'list'),
+      checkSynonyms
+    )
+  ]
+})
@@ -1,10 +1,12 @@
 import * as sdk from 'botpress/sdk'
 import { getEntityId } from 'common/entity-id'
+import { PatternIssue } from 'common/typings'
 import { GhostService } from 'core/bpfs'
 import { sanitizeFileName } from 'core/misc/utils'
 import * as CacheManager from './cache-manager'
 import { CUSTOM_PATTERN_ENTITIES } from './custom-pattern-entities'
 import { NLUService } from './nlu-service'
+import { validatePattern } from './pattern-validation'
 
 const ENTITIES_DIR = './entities'
 
@@ -64,11 +66,31 @@ export class EntityService {
     return this.ghostService.forBot(botId).deleteFile(ENTITIES_DIR, `${nameSanitized}.json`)
   }
 
-  public async saveEntity(botId: string, entity: sdk.NLU.EntityDefinition): Promise<void> {
+  /**
+   * Patterns which don't compile or run too long are rejected. Examples the pattern fails on are returned as warnings
+   */
+  private checkPattern(entity: sdk.NLU.EntityDefinition): PatternIssue[] {
+    if (entity.type !== 'pattern') {
+      return []
+    }
+
+    const { issues } = validatePattern({ ...entity, pattern: entity.pattern || '' })
+    const error = issues.find((x) => x.severity === 'error')
+    if (error) {
+      throw new Error(`Invalid pattern for entity "${entity.name}": ${error.message}`)
+    }
+    return issues
+  }
+
+  public async saveEntity(botId: string, entity: sdk.NLU.EntityDefinition): Promise<PatternIssue[]> {
+    const issues = this.checkPattern(entity)
+
     const nameSanitized = sanitizeFileName(entity.name)
-    return this.ghostService
+    await this.ghostService
       .forBot(botId)
       .upsertFile(ENTITIES_DIR, `${nameSanitized}.json`, JSON.stringify(entity, undefined, 2))
+
+    return issues
   }
 
   /**
@@ -84,7 +106,14 @@ export class EntityService {
     }
   }
 
-  public async updateEntity(botId: string, targetEntityName: string, entity: sdk.NLU.EntityDefinition): Promise<void> {
+  public async updateEntity(
+    botId: string,
+    targetEntityName: string,
+    entity: sdk.NLU.EntityDefinition
+  ): Promise<PatternIssue[]> {
+    // Checked before a renamed entity is deleted
+    this.checkPattern(entity)
+
     const nameSanitized = sanitizeFileName(entity.name)
     const targetSanitized = sanitizeFileName(targetEntityName)
 
@@ -99,6 +128,6 @@ export class EntityService {
       // entity changed
       CacheManager.getOrCreateCache(targetEntityName, botId).reset()
     }
-    await this.saveEntity(botId, entity)
+    return this.saveEntity(botId, entity)
   }
 }
@@ -1,10 +1,12 @@
 import * as sdk from 'botpress/sdk'
+import { ImportedUtterance, UtteranceImportReport } from 'common/typings'
 import { GhostService } from 'core/bpfs'
 import { sanitizeFileName } from 'core/misc/utils'
 import _ from 'lodash'
 
 import { NLUService } from './nlu-service'
 import { trimUtterances } from './utils'
+import { analyzeUtteranceImport } from './utterance-transfer'
 
 const INTENTS_DIR = './intents'
 
@@ -69,6 +71,31 @@ export class IntentService {
     return this.saveIntent(botId, merged)
   }
 
+  /**
+   * Adds utterances to an intent. Those which are duplicates, conflict with other intents or reference
+   * unknown slots are reported and skipped. Nothing is saved when previewing
+   */
+  public async importUtterances(
+    botId: string,
+    intentName: string,
+    utterances: ImportedUtterance[],
+    preview?: boolean
+  ): Promise<UtteranceImportReport> {
+    const intent = await this.getIntent(botId, intentName)
+    const otherIntents = (await this.getIntents(botId)).filter((x) => x.name !== intent.name)
+    const report = analyzeUtteranceImport(intent, otherIntents, utterances)
+
+    const imported = !preview && !_.isEmpty(report.added)
+    if (imported) {
+      for (const [lang, added] of Object.entries(report.added)) {
+        intent.utterances[lang] = [...(intent.utterances[lang] || []), ...added]
+      }
+      await this.saveIntent(botId, intent)
+    }
+
+    return { ...report, imported }
+  }
+
   public async deleteIntent(botId: string, intentName: string): Promise<void> {
     intentName = sanitizeFileName(intentName)
 
@@ -1,11 +1,20 @@
 import * as sdk from 'botpress/sdk'
-import { EntityDefCreateSchema, IntentDefCreateSchema } from 'common/validation'
+import { UtteranceFileFormat } from 'common/typings'
+import { EntityDefCreateSchema, IntentDefCreateSchema, NluTestCaseSchema, PatternTestSchema } from 'common/validation'
+import { BadRequestError } from 'core/routers/errors'
 import { validate } from 'joi'
 import _ from 'lodash'
+import multer from 'multer'
+import { NLU_PREFIX } from 'studio/qna/storage'
 import { StudioServices } from 'studio/studio-router'
 import { CustomStudioRouter } from 'studio/utils/custom-studio-router'
 import yn from 'yn'
 
+import { analyzeNluDataset } from './analysis'
+import { validatePattern } from './pattern-validation'
+import { makePredict } from './runtime-client'
+import { readUtteranceFile, UTTERANCE_FORMATS, utterancesToFile } from './utterance-transfer'
+
 const removeSlotsFromUtterances = (utterances: { [key: string]: any }, slotNames: string[]) =>
   _.fromPairs(
     Object.entries(utterances).map(([key, val]) => {
@@ -90,6 +99,146 @@ export class NLURouter extends CustomStudioRouter {
       })
     )
 
+    const upload = multer()
+    this.router.post(
+      '/intents/:intent/utterances/import',
+      this.needPermissions('write', 'bot.content'),
+      upload.single('file'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, intent } = req.params
+        const file = (req as any).file
+        if (!file) {
+          throw new BadRequestError('A CSV or text file of utterances is required')
+        }
+
+        const format: UtteranceFileFormat = file.originalname.toLowerCase().endsWith('.csv') ? 'csv' : 'txt'
+        const { languages } = await this.configProvider.getBotConfig(botId)
+        const { utterances, errors } = readUtteranceFile(
+          file.buffer.toString('utf8'),
+          format,
+          languages,
+          req.body.language || undefined
+        )
+
+        try {
+          const report = await this.nluService.intents.importUtterances(botId, intent, utterances, yn(req.body.preview))
+          res.send({ ...report, errors: _.sortBy([...errors, ...report.errors], (x) => x.line) })
+        } catch (err) {
+          this.logger.forBot(botId).attachError(err).warn('Could not import utterances')
+          res.status(400).send(err.message)
+        }
+      })
+    )
+
+    this.router.get(
+      '/intents/:intent/utterances/export',
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId, intent } = req.params
+        const format = <UtteranceFileFormat>req.query.format || 'csv'
+        const language = <string | undefined>req.query.language
+
+        if (!UTTERANCE_FORMATS.includes(format)) {
+          throw new BadRequestError(`Unsupported export format "${format}"`)
+        }
+        if (format === 'txt' && !language) {
+          throw new BadRequestError('A language is required to export utterances as text')
+        }
+
+        const { languages } = await this.configProvider.getBotConfig(botId)
+        if (language && !languages.includes(language)) {
+          throw new BadRequestError(`"${language}" isn't a language of the chatbot`)
+        }
+
+        try {
+          const intentDef = await this.nluService.intents.getIntent(botId, intent)
+          const fileName = `${intentDef.name}${language ? `_${language}` : ''}.${format}`
+
+          res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'text/plain')
+          res.setHeader('Content-disposition', `attachment; filename=${fileName}`)
+          res.end(utterancesToFile(intentDef, format, language ? [language] : languages))
+        } catch (err) {
+          this.logger.forBot(botId).attachError(err).warn('Could not export utterances')
+          res.status(400).send(err.message)
+        }
+      })
+    )
+
+    this.router.get(
+      '/analysis',
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const { languages } = await this.configProvider.getBotConfig(botId)
+        // Intents of QnAs are checked by the duplicates and health reports of QnAs
+        const intents = (await this.nluService.intents.getIntents(botId)).filter((x) => !x.name.startsWith(NLU_PREFIX))
+        const entities = await this.nluService.entities.getCustomEntities(botId)
+
+        res.send(analyzeNluDataset(intents, entities, languages))
+      })
+    )
+
+    this.router.get(
+      '/tests',
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await this.nluService.tests.listTests(req.params.botId))
+      })
+    )
+
+    this.router.post(
+      '/tests',
+      this.needPermissions('write', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const test = await validate(req.body, NluTestCaseSchema, { stripUnknown: true })
+        const { languages } = await this.configProvider.getBotConfig(botId)
+        if (!languages.includes(test.language)) {
+          throw new BadRequestError(`Language "${test.language}" isn't supported by the bot`)
+        }
+
+        res.send(await this.nluService.tests.createTest(botId, test))
+      })
+    )
+
+    this.router.post(
+      '/tests/run',
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const ids: string[] | undefined = req.body.ids
+        if (ids !== undefined && !(Array.isArray(ids) && ids.every(_.isString))) {
+          throw new BadRequestError('Ids of tests must be a list of strings')
+        }
+
+        res.send(await this.nluService.tests.runTests(botId, makePredict(botId, req.headers), ids))
+      })
+    )
+
+    this.router.post(
+      '/tests/:id',
+      this.needPermissions('write', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const test = await validate(req.body, NluTestCaseSchema, { stripUnknown: true })
+        const { languages } = await this.configProvider.getBotConfig(botId)
+        if (!languages.includes(test.language)) {
+          throw new BadRequestError(`Language "${test.language}" isn't supported by the bot`)
+        }
+
+        res.send(await this.nluService.tests.updateTest(botId, req.params.id, test))
+      })
+    )
+
+    this.router.post(
+      '/tests/:id/delete',
+      this.needPermissions('write', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        await this.nluService.tests.deleteTest(req.params.botId, req.params.id)
+        res.sendStatus(204)
+      })
+    )
+
     this.router.get(
       '/contexts',
       this.needPermissions('read', 'bot.content'),
@@ -105,6 +254,15 @@ export class NLURouter extends CustomStudioRouter {
       })
     )
 
+    this.router.post(
+      '/patterns/validate',
+      this.needPermissions('read', 'bot.content'),
+      this.asyncMiddleware(async (req, res) => {
+        const test = await validate(req.body, PatternTestSchema)
+        res.send(validatePattern(test))
+      })
+    )
+
     this.router.get(
       '/entities',
       this.needPermissions('read', 'bot.content'),
@@ -144,9 +302,9 @@ export class NLURouter extends CustomStudioRouter {
             stripUnknown: true
           })) as sdk.NLU.EntityDefinition
 
-          await this.nluService.entities.saveEntity(botId, entityDef)
+          const warnings = await this.nluService.entities.saveEntity(botId, entityDef)
 
-          res.sendStatus(200)
+          res.send({ warnings })
         } catch (err) {
           this.logger.forBot(botId).attachError(err).warn('Cannot create entity')
           res.status(400).send(err.message)
@@ -164,8 +322,8 @@ export class NLURouter extends CustomStudioRouter {
             stripUnknown: true
           })) as sdk.NLU.EntityDefinition
 
-          await this.nluService.entities.updateEntity(botId, id, entityDef)
-          res.sendStatus(200)
+          const warnings = await this.nluService.entities.updateEntity(botId, id, entityDef)
+          res.send({ warnings })
         } catch (err) {
           this.logger.forBot(botId).attachError(err).error('Could not update entity')
           res.status(400).send(err.message)
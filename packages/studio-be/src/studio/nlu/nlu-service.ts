@@ -5,11 +5,13 @@ import _ from 'lodash'
 
 import { EntityService } from './entities-service'
 import { IntentService } from './intent-service'
+import { NluTestService } from './test-service'
 
 @injectable()
 export class NLUService {
   public entities: EntityService
   public intents: IntentService
+  public tests: NluTestService
 
   constructor(
     @inject(TYPES.GhostService)
@@ -17,5 +19,6 @@ export class NLUService {
   ) {
     this.entities = new EntityService(this.ghostService, this)
     this.intents = new IntentService(this.ghostService, this)
+    this.tests = new NluTestService(this.ghostService)
   }
 }
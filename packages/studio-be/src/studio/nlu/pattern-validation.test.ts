@@ -0,0 +1,49 @@
+import { CUSTOM_PATTERN_ENTITIES } from './custom-pattern-entities'
+import { validatePattern } from './pattern-validation'
+
+describe('Pattern validation', () => {
+  test('built-in pattern entities match their examples', () => {
+    for (const entity of CUSTOM_PATTERN_ENTITIES) {
+      expect(validatePattern({ ...entity, pattern: entity.pattern! }).issues).toEqual([])
+    }
+  })
+
+  test('rejects patterns which do not compile', () => {
+    const { issues } = validatePattern({ pattern: '[a-z', examples: ['abc'] })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ type: 'invalidPattern', severity: 'error' })
+  })
+
+  test('rejects patterns which backtrack catastrophically', () => {
+    const { issues } = validatePattern({ pattern: '(a+)+b', examples: ['aab'] }, 50)
+    expect(issues).toEqual([expect.objectContaining({ type: 'slowPattern', severity: 'error' })])
+  })
+
+  test('warns about examples the pattern fails on', () => {
+    const { issues } = validatePattern({
+      pattern: '[A-Z]{3}-\\d+',
+      matchCase: true,
+      examples: ['ABC-123', 'abc-123', ''],
+      negativeExamples: ['ABC-', 'XYZ-9']
+    })
+
+    expect(issues).toEqual([
+      { type: 'unmatchedExample', severity: 'warning', example: 'abc-123' },
+      { type: 'matchedNegativeExample', severity: 'warning', example: 'XYZ-9' }
+    ])
+  })
+
+  test('finds matches in samples', () => {
+    const { samples } = validatePattern({ pattern: 'ord-\\d+', samples: ['Orders ORD-12 and ord-3', 'none'] })
+    expect(samples).toEqual([
+      {
+        text: 'Orders ORD-12 and ord-3',
+        matches: [
+          { start: 7, end: 13 },
+          { start: 18, end: 23 }
+        ]
+      },
+      { text: 'none', matches: [] }
+    ])
+  })
+})
@@ -0,0 +1,122 @@
+import { PatternIssue, PatternMatch, PatternValidation } from 'common/typings'
+import _ from 'lodash'
+import vm from 'vm'
+
+/** Maximum time in ms spent running a pattern on all its examples and test texts */
+export const PATTERN_TIME_BUDGET = 250
+
+/** Length of the repeated texts a pattern is run on to catch catastrophic backtracking */
+const STRESS_LENGTH = 30
+const MAX_STRESS_CHARS = 20
+const MAX_SAMPLE_MATCHES = 50
+
+export interface PatternTest {
+  pattern: string
+  matchCase?: boolean
+  examples?: string[]
+  negativeExamples?: string[]
+  /** Sentences in which matches of the pattern are searched, for the tester of the editor */
+  samples?: string[]
+}
+
+/** Examples must be matched entirely, like in the entity editor */
+const makeRegex = (pattern: string, matchCase: boolean | undefined, anchored: boolean) =>
+  new RegExp(anchored ? `^(?:${pattern})$` : pattern, matchCase ? 'g' : 'gi')
+
+const testRegex = (regex: RegExp, text: string) => {
+  regex.lastIndex = 0
+  return regex.test(text)
+}
+
+const findMatches = (regex: RegExp, text: string): PatternMatch[] => {
+  const matches: PatternMatch[] = []
+  regex.lastIndex = 0
+
+  let match: RegExpExecArray | null
+  while (matches.length < MAX_SAMPLE_MATCHES && (match = regex.exec(text))) {
+    if (!match[0].length) {
+      // Empty matches are skipped, they can't be highlighted
+      regex.lastIndex++
+      continue
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length })
+  }
+
+  return matches
+}
+
+/**
+ * Texts made of a character repeated, then followed by a character the pattern is unlikely to accept.
+ * Patterns with nested quantifiers take an exponential time to reject them
+ */
+const getStressTexts = (examples: string[]) => {
+  const chars = _.uniq(_.flatMap(examples, (x) => [...x])).slice(0, MAX_STRESS_CHARS)
+  return [
+    ...chars.map((char) => `${char.repeat(STRESS_LENGTH)}\u0000`),
+    ...examples.map((example) => `${example.repeat(4)}\u0000`)
+  ]
+}
+
+/**
+ * Runs a function in a separate context so it can be interrupted when it exceeds the time budget
+ */
+const runWithTimeout = <T>(run: () => T, timeout: number): T =>
+  vm.runInNewContext('run()', { run }, { timeout, displayErrors: false })
+
+/**
+ * Checks that a pattern compiles, matches its examples, doesn't match its negative examples and doesn't
+ * take too long to run. Invalid or slow patterns are errors, examples failing are warnings
+ */
+export const validatePattern = (test: PatternTest, timeBudget = PATTERN_TIME_BUDGET): PatternValidation => {
+  const { pattern, matchCase } = test
+  const examples = (test.examples || []).filter((x) => x.trim())
+  const negativeExamples = (test.negativeExamples || []).filter((x) => x.trim())
+  const samples = test.samples || []
+
+  let anchored: RegExp
+  let unanchored: RegExp
+  try {
+    anchored = makeRegex(pattern, matchCase, true)
+    unanchored = makeRegex(pattern, matchCase, false)
+  } catch (err) {
+    return { issues: [{ type: 'invalidPattern', severity: 'error', message: err.message }], samples: [] }
+  }
+
+  try {
+    const results = runWithTimeout(
+      () => ({
+        examples: examples.map((x) => testRegex(anchored, x)),
+        negativeExamples: negativeExamples.map((x) => testRegex(anchored, x)),
+        stress: getStressTexts([...examples, ...negativeExamples]).map((x) => testRegex(anchored, x)),
+        samples: samples.map((text) => ({ text, matches: findMatches(unanchored, text) }))
+      }),
+      timeBudget
+    )
+
+    const issues: PatternIssue[] = [
+      ...examples
+        .filter((_x, i) => !results.examples[i])
+        .map((example): PatternIssue => ({ type: 'unmatchedExample', severity: 'warning', example })),
+      ...negativeExamples
+        .filter((_x, i) => results.negativeExamples[i])
+        .map((example): PatternIssue => ({ type: 'matchedNegativeExample', severity: 'warning', example }))
+    ]
+
+    return { issues, samples: results.samples }
+  } catch (err) {
+    if (err.code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw err
+    }
+
+    return {
+      issues: [
+        {
+          type: 'slowPattern',
+          severity: 'error',
+          message: `The pattern takes more than ${timeBudget}ms to run, it may backtrack catastrophically`
+        }
+      ],
+      samples: []
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import axios from 'axios'
+import * as sdk from 'botpress/sdk'
+import { CSRF_TOKEN_HEADER_LC } from 'common/auth'
+import { BadRequestError } from 'core/routers/errors'
+import { WORKSPACE_HEADER } from 'core/security'
+import { IncomingHttpHeaders } from 'http'
+import _ from 'lodash'
+
+/** Headers which authenticate the user, so requests are made on their behalf */
+const FORWARDED_HEADERS = ['authorization', 'cookie', CSRF_TOKEN_HEADER_LC, WORKSPACE_HEADER]
+
+export interface PredictRequest {
+  text: string
+  language: string
+  contexts: string[]
+}
+
+export type Predict = (request: PredictRequest) => Promise<Partial<sdk.IO.EventUnderstanding>>
+
+/**
+ * Calls the NLU module of the bot on the server which runs it, the same one the studio proxies requests to
+ */
+export const makePredict = (botId: string, headers: IncomingHttpHeaders): Predict => {
+  const serverUrl =
+    process.env.BP_SERVER_URL || (process.core_env.CORE_PORT && `http://localhost:${process.core_env.CORE_PORT}`)
+  if (!serverUrl) {
+    throw new BadRequestError('There is no Botpress server to run the predictions on')
+  }
+
+  const client = axios.create({
+    baseURL: `${serverUrl}${process.ROOT_PATH}/api/v1/bots/${botId}/mod/nlu`,
+    headers: _.pickBy(_.pick(headers, FORWARDED_HEADERS), _.isString) as _.Dictionary<string>,
+    proxy: false
+  })
+
+  return async ({ text, language, contexts }) => {
+    const { data } = await client.post('/predict', { text, language, contexts })
+    return data.nlu || data
+  }
+}
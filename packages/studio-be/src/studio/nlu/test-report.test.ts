@@ -0,0 +1,66 @@
+import { NluTestCase } from 'common/typings'
+
+import { buildTestReport, evaluateTestCase, NONE_INTENT } from './test-report'
+
+const makeTest = (id: string, expectedIntent: string, expectedSlots = {}): NluTestCase => ({
+  id,
+  utterance: `Utterance of ${id}`,
+  language: 'en',
+  contexts: ['global'],
+  expectedIntent,
+  expectedSlots
+})
+
+const makeSlot = (name: string, value: any, source: string) =>
+  ({ name, value, source, confidence: 1, entity: null, start: 0, end: source.length } as any)
+
+describe('NLU test report', () => {
+  test('checks the intent and slots of a prediction', () => {
+    const test = makeTest('book', 'book_flight', { city: 'paris', date: 'tomorrow' })
+    const nlu: any = {
+      intent: { name: 'book_flight', confidence: 0.9 },
+      slots: { city: makeSlot('city', 'Paris', 'paris'), date: makeSlot('date', '2026-10-20', 'Tomorrow') }
+    }
+
+    expect(evaluateTestCase(test, nlu)).toEqual({
+      testId: 'book',
+      success: true,
+      intent: 'book_flight',
+      confidence: 0.9,
+      failures: []
+    })
+
+    const result = evaluateTestCase(test, { intent: { name: 'greet', confidence: 0.5, context: 'global' }, slots: {} })
+    expect(result.success).toBe(false)
+    expect(result.failures).toEqual([
+      { expected: 'book_flight', received: 'greet' },
+      { slot: 'city', expected: 'paris', received: undefined },
+      { slot: 'date', expected: 'tomorrow', received: undefined }
+    ])
+  })
+
+  test('predictions without intent match none', () => {
+    expect(evaluateTestCase(makeTest('noise', NONE_INTENT), {}).success).toBe(true)
+  })
+
+  test('builds a confusion matrix of evaluated tests', () => {
+    const tests = [makeTest('a', 'greet'), makeTest('b', 'greet'), makeTest('c', 'bye'), makeTest('d', 'bye')]
+    const results = [
+      { testId: 'a', success: true, intent: 'greet', confidence: 1, failures: [] },
+      { testId: 'b', success: false, intent: 'bye', confidence: 1, failures: [] },
+      { testId: 'c', success: true, intent: 'bye', confidence: 1, failures: [] },
+      { testId: 'd', success: false, intent: '', confidence: 0, failures: [], error: 'Server error' }
+    ]
+
+    const report = buildTestReport(tests, results)
+    expect(report.passed).toBe(2)
+    expect(report.failed).toBe(2)
+    expect(report.confusionMatrix).toEqual({
+      labels: ['bye', 'greet'],
+      counts: [
+        [1, 0],
+        [1, 1]
+      ]
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import * as sdk from 'botpress/sdk'
+import { NluConfusionMatrix, NluTestCase, NluTestFailure, NluTestReport, NluTestResult } from 'common/typings'
+import _ from 'lodash'
+
+export const NONE_INTENT = 'none'
+
+const isSameValue = (expected: string, value: any) =>
+  value !== undefined && value !== null && String(value).trim().toLowerCase() === expected.trim().toLowerCase()
+
+/**
+ * Compares a prediction with the expectations of a test. Slots match when either their extracted value or
+ * the text they were extracted from is the expected value
+ */
+export const evaluateTestCase = (test: NluTestCase, nlu: Partial<sdk.IO.EventUnderstanding>): NluTestResult => {
+  const intent = nlu.intent?.name || NONE_INTENT
+  const failures: NluTestFailure[] = []
+
+  if (intent !== test.expectedIntent) {
+    failures.push({ expected: test.expectedIntent, received: intent })
+  }
+
+  for (const [slot, expected] of Object.entries(test.expectedSlots)) {
+    const extracted = nlu.slots?.[slot]
+    if (!extracted || !(isSameValue(expected, extracted.value) || isSameValue(expected, extracted.source))) {
+      failures.push({ slot, expected, received: extracted && String(extracted.source ?? extracted.value) })
+    }
+  }
+
+  return {
+    testId: test.id,
+    success: !failures.length,
+    intent,
+    confidence: nlu.intent?.confidence ?? 0,
+    failures
+  }
+}
+
+export const buildConfusionMatrix = (tests: NluTestCase[], results: NluTestResult[]): NluConfusionMatrix => {
+  const expectedById = _.mapValues(
+    _.keyBy(tests, (x) => x.id),
+    (x) => x.expectedIntent
+  )
+  const evaluated = results.filter((x) => !x.error && expectedById[x.testId])
+  const labels = _.uniq([...evaluated.map((x) => expectedById[x.testId]), ...evaluated.map((x) => x.intent)]).sort()
+  const counts = labels.map(() => labels.map(() => 0))
+
+  for (const result of evaluated) {
+    counts[labels.indexOf(expectedById[result.testId])][labels.indexOf(result.intent)]++
+  }
+
+  return { labels, counts }
+}
+
+/**
+ * Tests whose prediction failed count as failed, but aren't part of the confusion matrix
+ */
+export const buildTestReport = (tests: NluTestCase[], results: NluTestResult[]): NluTestReport => {
+  const passed = results.filter((x) => x.success).length
+
+  return {
+    runOn: new Date(),
+    passed,
+    failed: results.length - passed,
+    results,
+    confusionMatrix: buildConfusionMatrix(tests, results)
+  }
+}
@@ -0,0 +1,59 @@
+import 'bluebird-global'
+import _ from 'lodash'
+
+import { NluTestService } from './test-service'
+
+/** Files of the bot, indexed by their path relative to the folder of the bot */
+const createGhostService = (files: _.Dictionary<string>): any => {
+  const toPath = (folder: string, file: string) => `${folder.replace(/^\.\//, '')}/${file}`
+
+  const ghost = {
+    fileExists: async (folder: string, file: string) => files[toPath(folder, file)] !== undefined,
+    readFileAsObject: async (folder: string, file: string) => JSON.parse(files[toPath(folder, file)]),
+    upsertFile: async (folder: string, file: string, content: string) => {
+      files[toPath(folder, file)] = content
+    },
+    deleteFile: async (folder: string, file: string) => {
+      delete files[toPath(folder, file)]
+    }
+  }
+  return { forBot: () => ghost }
+}
+
+const testCase = {
+  utterance: 'Hello',
+  language: 'en',
+  contexts: ['global'],
+  expectedIntent: 'greet',
+  expectedSlots: {}
+}
+
+describe('NluTestService', () => {
+  test('tests are saved, updated and deleted by id', async () => {
+    const files = {}
+    const service = new NluTestService(createGhostService(files))
+
+    const { id } = await service.createTest('bot', testCase)
+    expect(id).toMatch(/^[0-9a-z]{10}$/)
+
+    await service.updateTest('bot', id, { ...testCase, utterance: 'Hi' })
+    expect(await service.getTest('bot', id)).toEqual({ ...testCase, utterance: 'Hi', id })
+
+    await service.deleteTest('bot', id)
+    expect(files).toEqual({})
+  })
+
+  test('ids which could point outside of the folder of the tests are rejected', async () => {
+    const config = JSON.stringify({ id: 'bot' })
+    const files = { 'nlu-tests/../bot.config.json': config, 'bot.config.json': config }
+    const service = new NluTestService(createGhostService(files))
+
+    for (const id of ['../bot.config', '../../../global/botpress.config', '/bot.config', 'ABCDEFGHIJ']) {
+      await expect(service.getTest('bot', id)).rejects.toThrow('Invalid test id')
+      await expect(service.updateTest('bot', id, testCase)).rejects.toThrow('Invalid test id')
+      await expect(service.deleteTest('bot', id)).rejects.toThrow('Invalid test id')
+    }
+
+    expect(files).toEqual({ 'nlu-tests/../bot.config.json': config, 'bot.config.json': config })
+  })
+})
@@ -0,0 +1,78 @@
+import { NluTestCase, NluTestReport, NluTestResult } from 'common/typings'
+import { GhostService } from 'core/bpfs'
+import { BadRequestError, NotFoundError } from 'core/routers/errors'
+import { customAlphabet } from 'nanoid'
+
+import { Predict } from './runtime-client'
+import { buildTestReport, evaluateTestCase } from './test-report'
+
+const TESTS_DIR = './nlu-tests'
+const MAX_CONCURRENT_PREDICTIONS = 5
+
+const makeTestId = customAlphabet('1234567890abcdefghijklmnopqrstuvwxyz', 10)
+/** Ids are used as file names, so anything else could point outside of the folder of the tests */
+const TEST_ID_REGEX = /^[0-9a-z]{10}$/
+
+/**
+ * Test cases are stored in the files of the bot, so they are versioned with it
+ */
+export class NluTestService {
+  constructor(private ghostService: GhostService) {}
+
+  public async listTests(botId: string): Promise<NluTestCase[]> {
+    const files = await this.ghostService.forBot(botId).directoryListing(TESTS_DIR, '*.json')
+    return Promise.map(files, (file) => this.ghostService.forBot(botId).readFileAsObject<NluTestCase>(TESTS_DIR, file))
+  }
+
+  public async getTest(botId: string, id: string): Promise<NluTestCase> {
+    if (!TEST_ID_REGEX.test(id)) {
+      throw new BadRequestError(`Invalid test id "${id}"`)
+    }
+    if (!(await this.ghostService.forBot(botId).fileExists(TESTS_DIR, `${id}.json`))) {
+      throw new NotFoundError(`Test "${id}" not found`)
+    }
+    return this.ghostService.forBot(botId).readFileAsObject<NluTestCase>(TESTS_DIR, `${id}.json`)
+  }
+
+  public async createTest(botId: string, test: Omit<NluTestCase, 'id'>): Promise<NluTestCase> {
+    return this._saveTest(botId, { ...test, id: makeTestId() })
+  }
+
+  public async updateTest(botId: string, id: string, test: Omit<NluTestCase, 'id'>): Promise<NluTestCase> {
+    await this.getTest(botId, id)
+    return this._saveTest(botId, { ...test, id })
+  }
+
+  public async deleteTest(botId: string, id: string): Promise<void> {
+    await this.getTest(botId, id)
+    await this.ghostService.forBot(botId).deleteFile(TESTS_DIR, `${id}.json`)
+  }
+
+  /**
+   * Runs the tests with the given ids, or all of them. A test whose prediction fails is reported as failed
+   */
+  public async runTests(botId: string, predict: Predict, ids?: string[]): Promise<NluTestReport> {
+    const tests = (await this.listTests(botId)).filter((x) => !ids || ids.includes(x.id))
+
+    const results = await Promise.map(
+      tests,
+      async (test): Promise<NluTestResult> => {
+        try {
+          const nlu = await predict({ text: test.utterance, language: test.language, contexts: test.contexts })
+          return evaluateTestCase(test, nlu)
+        } catch (err) {
+          const error = err.response?.data?.message || err.message
+          return { testId: test.id, success: false, intent: '', confidence: 0, failures: [], error }
+        }
+      },
+      { concurrency: MAX_CONCURRENT_PREDICTIONS }
+    )
+
+    return buildTestReport(tests, results)
+  }
+
+  private async _saveTest(botId: string, test: NluTestCase): Promise<NluTestCase> {
+    await this.ghostService.forBot(botId).upsertFile(TESTS_DIR, `${test.id}.json`, JSON.stringify(test, undefined, 2))
+    return test
+  }
+}
@@ -0,0 +1,67 @@
+import * as sdk from 'botpress/sdk'
+
+import { analyzeUtteranceImport, readUtteranceFile, utterancesToFile } from './utterance-transfer'
+
+const intent: sdk.NLU.IntentDefinition = {
+  name: 'book_flight',
+  contexts: ['global'],
+  slots: [{ name: 'city', entities: ['cities'], color: 1 } as any],
+  utterances: {
+    en: ['book a flight to [Paris](city)', 'I want to fly'],
+    fr: ['réserver un vol pour [Paris](city)']
+  }
+}
+
+const otherIntents: sdk.NLU.IntentDefinition[] = [
+  { name: 'greetings', contexts: ['global'], slots: [], utterances: { en: ['hello', 'Hi there'] } }
+]
+
+describe('Utterance transfer', () => {
+  test('reads CSV and text files', () => {
+    const csv = 'Language,Utterance\nen,"book a flight to [London](city), please"\n,\nde,Flug buchen\nfr,  bonjour  '
+    expect(readUtteranceFile(csv, 'csv', ['en', 'fr'])).toEqual({
+      utterances: [
+        { line: 2, language: 'en', utterance: 'book a flight to [London](city), please' },
+        { line: 4, language: 'fr', utterance: 'bonjour' }
+      ],
+      errors: [{ line: 3, message: '"de" isn\'t a language of the chatbot' }]
+    })
+
+    const text = '# Flights\nfly me to [Rome](city)\n\nbook a ticket\r\n'
+    expect(readUtteranceFile(text, 'txt', ['en'], 'en').utterances).toEqual([
+      { line: 2, language: 'en', utterance: 'fly me to [Rome](city)' },
+      { line: 4, language: 'en', utterance: 'book a ticket' }
+    ])
+    expect(readUtteranceFile(text, 'txt', ['en']).errors).toHaveLength(1)
+    expect(readUtteranceFile('utterance\nhello', 'csv', ['en']).errors).toHaveLength(1)
+  })
+
+  test('reports duplicates, conflicts and unknown slots', () => {
+    const report = analyzeUtteranceImport(intent, otherIntents, [
+      { line: 1, language: 'en', utterance: 'Book a flight to [Rome](city)' },
+      { line: 2, language: 'en', utterance: 'i want to fly' },
+      { line: 3, language: 'en', utterance: 'hi there' },
+      { line: 4, language: 'en', utterance: 'fly on [monday](date)' },
+      { line: 5, language: 'en', utterance: 'fly to [Oslo](city)' },
+      { line: 6, language: 'en', utterance: 'Fly to Oslo' },
+      { line: 7, language: 'fr', utterance: 'hi there' }
+    ])
+
+    expect(report).toEqual({
+      added: { en: ['Book a flight to [Rome](city)', 'fly to [Oslo](city)'], fr: ['hi there'] },
+      duplicates: [
+        { line: 2, language: 'en', utterance: 'i want to fly' },
+        { line: 6, language: 'en', utterance: 'Fly to Oslo' }
+      ],
+      conflicts: [{ language: 'en', utterance: 'hi there', intents: ['greetings'] }],
+      errors: [{ line: 4, message: 'Slots "date" aren\'t defined on intent "book_flight"' }]
+    })
+  })
+
+  test('exports utterances with their slots', () => {
+    expect(utterancesToFile(intent, 'csv', ['en', 'fr'])).toEqual(
+      'language,utterance\r\nen,book a flight to [Paris](city)\r\nen,I want to fly\r\nfr,réserver un vol pour [Paris](city)'
+    )
+    expect(utterancesToFile(intent, 'txt', ['fr'])).toEqual('réserver un vol pour [Paris](city)')
+  })
+})
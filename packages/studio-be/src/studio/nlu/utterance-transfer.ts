@@ -0,0 +1,157 @@
+import * as sdk from 'botpress/sdk'
+import { ImportedUtterance, UtteranceFileFormat, UtteranceImportError, UtteranceImportReport } from 'common/typings'
+import { parseUtterance } from 'common/utterance-parser'
+import { parseCsv, toCsv } from 'core/misc/csv'
+import _ from 'lodash'
+
+export const UTTERANCE_FORMATS: UtteranceFileFormat[] = ['csv', 'txt']
+
+export type UtteranceAnalysis = Omit<UtteranceImportReport, 'imported'>
+
+const CSV_HEADER = ['language', 'utterance']
+/** Lines of text files starting with this are ignored */
+const COMMENT_PREFIX = '#'
+
+interface FileLines {
+  lines: ImportedUtterance[]
+  errors: UtteranceImportError[]
+}
+
+/** Utterances are compared without their slot annotations, case and surrounding spaces */
+const toComparable = (utterance: string) => parseUtterance(utterance).utterance.trim().toLowerCase()
+
+const readCsv = (content: string, defaultLanguage: string | undefined): FileLines => {
+  const [header = [], ...rows] = parseCsv(content)
+  const columns = header.map((x) => x.trim().toLowerCase())
+  const languageIndex = columns.indexOf('language')
+  const utteranceIndex = columns.indexOf('utterance')
+
+  if (utteranceIndex === -1) {
+    return { lines: [], errors: [{ line: 1, message: 'The header must have an "utterance" column' }] }
+  }
+  if (languageIndex === -1 && !defaultLanguage) {
+    return {
+      lines: [],
+      errors: [{ line: 1, message: 'The header must have a "language" column or a language must be chosen' }]
+    }
+  }
+
+  const lines = rows.map((row, index) => ({
+    line: index + 2,
+    language: (languageIndex !== -1 && row[languageIndex]?.trim()) || defaultLanguage || '',
+    utterance: row[utteranceIndex] || ''
+  }))
+
+  return { lines, errors: [] }
+}
+
+const readText = (content: string, language: string | undefined): FileLines => {
+  if (!language) {
+    return { lines: [], errors: [{ line: 0, message: 'A language must be chosen to import a list of utterances' }] }
+  }
+
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((utterance, index) => ({ line: index + 1, language, utterance }))
+    .filter((x) => !x.utterance.trim().startsWith(COMMENT_PREFIX))
+
+  return { lines, errors: [] }
+}
+
+/**
+ * Reads the utterances of a CSV file with "language" and "utterance" columns, or of a text file with one
+ * utterance per line. Empty lines are skipped and lines of unsupported languages are reported as errors
+ */
+export const readUtteranceFile = (
+  content: string,
+  format: UtteranceFileFormat,
+  languages: string[],
+  language?: string
+): { utterances: ImportedUtterance[]; errors: UtteranceImportError[] } => {
+  if (language && !languages.includes(language)) {
+    return { utterances: [], errors: [{ line: 0, message: `"${language}" isn't a language of the chatbot` }] }
+  }
+
+  const { lines, errors } = format === 'csv' ? readCsv(content, language) : readText(content, language)
+  const utterances: ImportedUtterance[] = []
+
+  for (const line of lines.filter((x) => x.utterance.trim())) {
+    if (!languages.includes(line.language)) {
+      errors.push({ line: line.line, message: `"${line.language}" isn't a language of the chatbot` })
+    } else {
+      utterances.push({ ...line, utterance: line.utterance.trim() })
+    }
+  }
+
+  return { utterances, errors }
+}
+
+/**
+ * Compares imported utterances with those of the intent and of the other intents. Utterances must only
+ * reference slots of the intent
+ */
+export const analyzeUtteranceImport = (
+  intent: sdk.NLU.IntentDefinition,
+  otherIntents: sdk.NLU.IntentDefinition[],
+  utterances: ImportedUtterance[]
+): UtteranceAnalysis => {
+  const slotNames = intent.slots.map((x) => x.name)
+  const existing = _.mapValues(intent.utterances, (x) => new Set(x.map(toComparable)))
+  const otherUtterances: { [lang: string]: { [utterance: string]: string[] } } = {}
+  for (const other of otherIntents) {
+    for (const [lang, texts] of Object.entries(other.utterances)) {
+      otherUtterances[lang] = otherUtterances[lang] || {}
+      for (const text of texts.map(toComparable)) {
+        otherUtterances[lang][text] = _.union(otherUtterances[lang][text] || [], [other.name])
+      }
+    }
+  }
+
+  const report: UtteranceAnalysis = { added: {}, duplicates: [], conflicts: [], errors: [] }
+
+  for (const item of utterances) {
+    const { language, utterance, line } = item
+    const unknownSlots = _.uniq(parseUtterance(utterance).parsedSlots.map((x) => x.name)).filter(
+      (name) => !slotNames.includes(name)
+    )
+    if (unknownSlots.length) {
+      report.errors.push({
+        line,
+        message: `Slots ${unknownSlots.map((x) => `"${x}"`).join(', ')} aren't defined on intent "${intent.name}"`
+      })
+      continue
+    }
+
+    const comparable = toComparable(utterance)
+    existing[language] = existing[language] || new Set()
+    const intents = otherUtterances[language]?.[comparable]
+
+    if (existing[language].has(comparable)) {
+      report.duplicates.push(item)
+    } else if (intents) {
+      report.conflicts.push({ language, utterance, intents })
+    } else {
+      existing[language].add(comparable)
+      report.added[language] = [...(report.added[language] || []), utterance]
+    }
+  }
+
+  return report
+}
+
+/**
+ * Serializes the utterances of the intent in the given languages, slot annotations are kept. Text files
+ * are meant for a single language since they only contain utterances
+ */
+export const utterancesToFile = (
+  intent: sdk.NLU.IntentDefinition,
+  format: UtteranceFileFormat,
+  languages: string[]
+): string => {
+  const utterances = _.flatMap(languages, (language) =>
+    (intent.utterances[language] || []).map((utterance) => [language, utterance])
+  )
+
+  return format === 'csv' ? toCsv([CSV_HEADER, ...utterances]) : utterances.map(([, utterance]) => utterance).join('\n')
+}
@@ -0,0 +1,71 @@
+import { toQnaAnswers } from 'common/qna-answers'
+import { QnaEntry } from 'common/typings'
+
+import { DuplicateSource, findDuplicateQuestions, mergeQnaEntries } from './duplicates'
+
+const sources: DuplicateSource[] = [
+  { id: 'hours', source: 'qna', questions: { en: ['What are your opening hours?', 'When do you open'] } },
+  { id: 'schedule', source: 'qna', questions: { en: ['what are your OPENING hours', 'Where are you?'] } },
+  { id: 'open', source: 'qna', questions: { en: ['When do you open'], fr: ['Quand ouvrez-vous ?'] } },
+  { id: 'typo', source: 'qna', questions: { en: ['Where are yuo?'] } },
+  { id: 'unrelated', source: 'qna', questions: { en: ['How much is shipping?'] } },
+  { id: 'location', source: 'intent', questions: { en: ['where are you', 'where are you located'] } },
+  { id: 'address', source: 'intent', questions: { en: ['where are you located'] } }
+]
+
+describe('QnA duplicates', () => {
+  test('clusters exact, normalized and fuzzy duplicates of different entries', () => {
+    const clusters = findDuplicateQuestions(sources)
+
+    expect(clusters.map((x) => x.questions.map((q) => `${q.source}:${q.id}`))).toEqual([
+      ['qna:schedule', 'qna:typo', 'intent:location'],
+      ['qna:hours', 'qna:schedule'],
+      ['qna:hours', 'qna:open']
+    ])
+
+    expect(clusters[1].matches).toEqual([{ questions: [0, 1], kind: 'normalized', score: 1 }])
+    expect(clusters[2].matches).toEqual([{ questions: [0, 1], kind: 'exact', score: 1 }])
+    expect(clusters[0].matches).toEqual(
+      expect.arrayContaining([
+        { questions: [0, 2], kind: 'normalized', score: 1 },
+        { questions: [1, 2], kind: 'fuzzy', score: expect.any(Number) }
+      ])
+    )
+  })
+
+  test('a stricter threshold only keeps the closest questions', () => {
+    const clusters = findDuplicateQuestions(sources, 1)
+    expect(clusters.every((x) => x.matches.every((m) => m.kind !== 'fuzzy'))).toBe(true)
+  })
+
+  test('merges questions, answers and contexts', () => {
+    const target: QnaEntry = {
+      action: 'text',
+      contexts: ['global'],
+      enabled: true,
+      questions: { en: ['What are your hours?'] },
+      answers: toQnaAnswers({ en: ['9 to 5'] }),
+      redirectFlow: '',
+      redirectNode: ''
+    }
+    const source: QnaEntry = {
+      action: 'text_redirect',
+      contexts: ['store'],
+      enabled: false,
+      questions: { en: ['what are your hours', 'Are you open?'], fr: ['Vos heures ?'] },
+      answers: { en: { ...toQnaAnswers({ en: ['9 to 5', 'Every day'] }).en, selection: 'first' } },
+      redirectFlow: 'hours.flow.json',
+      redirectNode: 'entry'
+    }
+
+    expect(mergeQnaEntries(target, source)).toEqual({
+      action: 'text_redirect',
+      contexts: ['global', 'store'],
+      enabled: true,
+      questions: { en: ['What are your hours?', 'Are you open?'], fr: ['Vos heures ?'] },
+      answers: toQnaAnswers({ en: ['9 to 5', 'Every day'] }),
+      redirectFlow: 'hours.flow.json',
+      redirectNode: 'entry'
+    })
+  })
+})
@@ -0,0 +1,213 @@
+import { createAnswer, hasVariations } from 'common/qna-answers'
+import {
+  QnaDuplicateCluster,
+  QnaDuplicateKind,
+  QnaDuplicateMatch,
+  QnaDuplicateQuestion,
+  QnaEntry
+} from 'common/typings'
+import { tokenize } from 'core/cms/search-index'
+import _ from 'lodash'
+
+import { getQnaAction } from './spreadsheet'
+
+export interface DuplicateSource {
+  id: string
+  source: QnaDuplicateQuestion['source']
+  questions: { [lang: string]: string[] }
+}
+
+interface IndexedQuestion extends QnaDuplicateQuestion {
+  normalized: string
+  tokens: Set<string>
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8
+/** Words shorter than this don't suggest two questions are similar on their own */
+const MIN_CANDIDATE_TOKEN_LENGTH = 3
+
+/**
+ * Lowercases the question and removes its accents and punctuation
+ */
+export const normalizeQuestion = (text: string) => tokenize(text).join(' ')
+
+/**
+ * Levenshtein distance, computation stops as soon as it exceeds the maximum distance
+ */
+const getEditDistance = (a: string, b: string, maxDistance: number) => {
+  let previous = Array.from({ length: b.length + 1 }, (_v, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    if (Math.min(...current) > maxDistance) {
+      return maxDistance + 1
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+const getEditSimilarity = (a: string, b: string, threshold: number) => {
+  const length = Math.max(a.length, b.length)
+  return length ? 1 - getEditDistance(a, b, Math.floor((1 - threshold) * length)) / length : 1
+}
+
+const getTokenSimilarity = (a: Set<string>, b: Set<string>) => {
+  const common = [...a].filter((token) => b.has(token)).length
+  const total = a.size + b.size - common
+  return total ? common / total : 0
+}
+
+const compareQuestions = (
+  a: IndexedQuestion,
+  b: IndexedQuestion,
+  threshold: number
+): Omit<QnaDuplicateMatch, 'questions'> | undefined => {
+  if (a.text.trim() === b.text.trim()) {
+    return { kind: 'exact', score: 1 }
+  } else if (a.normalized === b.normalized) {
+    return { kind: 'normalized', score: 1 }
+  }
+
+  const maxLength = Math.max(a.normalized.length, b.normalized.length)
+  const lengthSimilarity = 1 - Math.abs(a.normalized.length - b.normalized.length) / maxLength
+  const tokenSimilarity = getTokenSimilarity(a.tokens, b.tokens)
+  const editSimilarity =
+    lengthSimilarity >= threshold && tokenSimilarity < threshold
+      ? getEditSimilarity(a.normalized, b.normalized, threshold)
+      : 0
+
+  const score = _.round(Math.max(tokenSimilarity, editSimilarity), 2)
+  return score >= threshold ? { kind: 'fuzzy', score } : undefined
+}
+
+/** Questions of an intent are compared to those of QnAs but not between themselves */
+const canBeDuplicates = (a: QnaDuplicateQuestion, b: QnaDuplicateQuestion) =>
+  (a.source === 'qna' || b.source === 'qna') && (a.id !== b.id || a.source !== b.source)
+
+/**
+ * Only questions sharing a word or the beginning of a word are compared, which catches most typos
+ * without comparing every question to every other one. Questions without any long word are still
+ * compared to identical ones
+ */
+const getIndexKeys = ({ normalized, tokens }: IndexedQuestion) =>
+  _.uniq([
+    ...(normalized ? [`=${normalized}`] : []),
+    ...[...tokens]
+      .filter((x) => x.length >= MIN_CANDIDATE_TOKEN_LENGTH)
+      .map((x) => x.substr(0, MIN_CANDIDATE_TOKEN_LENGTH))
+  ])
+
+const getCandidateIndex = (questions: IndexedQuestion[]) => {
+  const index: _.Dictionary<number[]> = {}
+  questions.forEach((question, i) => getIndexKeys(question).forEach((key) => (index[key] = index[key] || []).push(i)))
+  return index
+}
+
+const findRoot = (parents: number[], i: number): number =>
+  parents[i] === i ? i : (parents[i] = findRoot(parents, parents[i]))
+
+const findLanguageClusters = (
+  language: string,
+  questions: IndexedQuestion[],
+  threshold: number
+): QnaDuplicateCluster[] => {
+  const parents = questions.map((_q, i) => i)
+  const matches: QnaDuplicateMatch[] = []
+
+  const index = getCandidateIndex(questions)
+
+  questions.forEach((question, a) => {
+    const candidates = new Set(_.flatMap(getIndexKeys(question), (key) => index[key] || []).filter((b) => b > a))
+
+    for (const b of candidates) {
+      const match = canBeDuplicates(question, questions[b]) && compareQuestions(question, questions[b], threshold)
+      if (match) {
+        matches.push({ questions: [a, b], ...match })
+        parents[findRoot(parents, a)] = findRoot(parents, b)
+      }
+    }
+  })
+
+  const groups = _.groupBy(matches, ({ questions: [a] }) => findRoot(parents, a))
+
+  return Object.values(groups).map((groupMatches) => {
+    const indexes = _.uniq(_.flatMap(groupMatches, (x) => x.questions)).sort((a, b) => a - b)
+    const positions = _.invert(indexes)
+
+    return {
+      language,
+      questions: indexes.map((i) => _.pick(questions[i], ['id', 'source', 'text'])),
+      matches: groupMatches.map(({ questions: [a, b], kind, score }) => ({
+        questions: [Number(positions[a]), Number(positions[b])] as [number, number],
+        kind,
+        score
+      })),
+      score: _.max(groupMatches.map((x) => x.score))!
+    }
+  })
+}
+
+/**
+ * Groups duplicate questions of different entries in clusters, the most similar first
+ */
+export const findDuplicateQuestions = (
+  sources: DuplicateSource[],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): QnaDuplicateCluster[] => {
+  const languages = _.uniq(_.flatMap(sources, (x) => Object.keys(x.questions)))
+
+  const clusters = _.flatMap(languages, (language) => {
+    const questions = _.flatMap(sources, ({ id, source, questions }) =>
+      _.uniq(questions[language] || [])
+        .filter((text) => text.trim())
+        .map((text): IndexedQuestion => {
+          const normalized = normalizeQuestion(text)
+          return { id, source, text, normalized, tokens: new Set(normalized.split(' ').filter(Boolean)) }
+        })
+    )
+
+    return findLanguageClusters(language, questions, threshold)
+  })
+
+  return _.orderBy(clusters, ['score', (x) => x.questions.length], ['desc', 'desc'])
+}
+
+/**
+ * Adds the questions, answer variations and contexts of a QnA to another one. Questions which only differ by case
+ * or punctuation aren't repeated. The redirection and answer selections of the target are kept, if it has them
+ */
+export const mergeQnaEntries = (target: QnaEntry, source: QnaEntry): QnaEntry => {
+  const languages = _.union(Object.keys(target.questions), Object.keys(source.questions))
+  const questions = _.fromPairs(
+    languages.map((lang) => [
+      lang,
+      _.uniqBy([...(target.questions[lang] || []), ...(source.questions[lang] || [])], normalizeQuestion)
+    ])
+  )
+
+  const answerLanguages = _.union(Object.keys(target.answers), Object.keys(source.answers))
+  const answers = _.fromPairs(
+    answerLanguages.map((lang) => {
+      const answer = target.answers[lang] || source.answers[lang]
+      const variations = _.unionWith(target.answers[lang]?.variations, source.answers[lang]?.variations, _.isEqual)
+      return [lang, createAnswer(variations, answer.selection)]
+    })
+  )
+
+  const redirect = target.redirectFlow ? target : source
+
+  return {
+    ...target,
+    action: getQnaAction(_.some(answers, hasVariations), !!redirect.redirectFlow),
+    contexts: _.union(target.contexts || [], source.contexts || []),
+    questions,
+    answers,
+    redirectFlow: redirect.redirectFlow || '',
+    redirectNode: redirect.redirectNode || ''
+  }
+}
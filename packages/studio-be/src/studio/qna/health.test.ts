@@ -0,0 +1,62 @@
+import { toQnaAnswers } from 'common/qna-answers'
+import { QnaEntry, QnaItem } from 'common/typings'
+
+import { getQnaHealth, HealthContext } from './health'
+
+const makeItem = (id: string, data: Partial<QnaEntry> = {}): QnaItem => ({
+  id,
+  data: {
+    action: 'text',
+    contexts: ['global'],
+    enabled: true,
+    questions: { en: [`Question of ${id}`], fr: [`Question de ${id}`] },
+    answers: toQnaAnswers({ en: [`Answer of ${id}`], fr: [`Réponse de ${id}`] }),
+    redirectFlow: '',
+    redirectNode: '',
+    ...data
+  }
+})
+
+const context: HealthContext = {
+  flows: [{ name: 'main.flow.json', nodes: [{ name: 'entry' }] }],
+  intents: [
+    { name: 'greetings', utterances: { en: ['hello', 'Question of greeting'] } },
+    { name: 'welcome', utterances: { en: ['Question of greeting'], fr: ['Question de greeting'] } }
+  ],
+  languages: ['en', 'fr'],
+  defaultLanguage: 'en'
+}
+
+describe('QnA health', () => {
+  test('reports the problems of each entry', () => {
+    const report = getQnaHealth(
+      [
+        makeItem('healthy', { action: 'text_redirect', redirectFlow: 'main.flow.json', redirectNode: 'entry' }),
+        makeItem('deleted_flow', { action: 'text_redirect', redirectFlow: 'old.flow.json', redirectNode: 'entry' }),
+        makeItem('deleted_node', { action: 'text_redirect', redirectFlow: 'main.flow.json', redirectNode: 'old' }),
+        makeItem('english_only', { questions: { en: ['Only in english'] }, answers: toQnaAnswers({ en: ['Yes'] }) }),
+        makeItem('no_answer', { answers: toQnaAnswers({ fr: ['Réponse'] }) }),
+        makeItem('redirection', { action: 'redirect', answers: {}, redirectFlow: 'main.flow.json' }),
+        makeItem('disabled', { enabled: false }),
+        makeItem('greeting')
+      ],
+      context
+    )
+
+    expect(report.missingFlow).toEqual([
+      { id: 'deleted_flow', question: 'Question of deleted_flow', details: ['old.flow.json'] }
+    ])
+    expect(report.missingNode).toEqual([{ id: 'deleted_node', question: 'Question of deleted_node', details: ['old'] }])
+    expect(report.missingTranslation).toEqual([{ id: 'english_only', question: 'Only in english', details: ['fr'] }])
+    expect(report.missingDefaultAnswer.map((x) => x.id)).toEqual(['no_answer'])
+    expect(report.disabled.map((x) => x.id)).toEqual(['disabled'])
+    expect(report.matchesIntent).toEqual([
+      { id: 'greeting', question: 'Question of greeting', details: ['greetings', 'welcome'] }
+    ])
+  })
+
+  test('only identical questions match utterances', () => {
+    const report = getQnaHealth([makeItem('hello', { questions: { en: ['Hello!', ' hello '] } })], context)
+    expect(report.matchesIntent).toEqual([{ id: 'hello', question: 'Hello!', details: ['greetings'] }])
+  })
+})
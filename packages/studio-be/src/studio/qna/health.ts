@@ -0,0 +1,93 @@
+import { hasVariations } from 'common/qna-answers'
+import { QnaHealthIssue, QnaHealthProblem, QnaHealthReport, QnaItem } from 'common/typings'
+import _ from 'lodash'
+
+import { isCompleteInLanguage } from './qna-index'
+
+export const HEALTH_ISSUES: QnaHealthIssue[] = [
+  'missingFlow',
+  'missingNode',
+  'missingTranslation',
+  'missingDefaultAnswer',
+  'disabled',
+  'matchesIntent'
+]
+
+export interface HealthContext {
+  flows: { name: string; nodes: { name: string }[] }[]
+  /** Utterances of the intents by language, slots replaced by their example value */
+  intents: { name: string; utterances: { [lang: string]: string[] } }[]
+  languages: string[]
+  defaultLanguage: string
+}
+
+/** Utterances of each language, with the intents they belong to */
+const indexUtterances = (intents: HealthContext['intents']) => {
+  const index: { [lang: string]: Map<string, Set<string>> } = {}
+
+  for (const { name, utterances } of intents) {
+    for (const [lang, texts] of Object.entries(utterances)) {
+      index[lang] = index[lang] || new Map()
+      for (const text of texts) {
+        const utterance = text.trim()
+        index[lang].set(utterance, (index[lang].get(utterance) || new Set()).add(name))
+      }
+    }
+  }
+
+  return index
+}
+
+/**
+ * Lists the problems of the QnAs of a bot. Questions must be identical to an utterance to match it, similar
+ * ones are reported as duplicates instead. Answers are only expected in the default language of items which
+ * don't redirect without answering
+ */
+export const getQnaHealth = (qnas: QnaItem[], context: HealthContext): QnaHealthReport => {
+  const { flows, intents, languages, defaultLanguage } = context
+  const flowsByName = _.keyBy(flows, (x) => x.name)
+  const utterances = indexUtterances(intents)
+  const report = _.fromPairs(HEALTH_ISSUES.map((issue) => [issue, [] as QnaHealthProblem[]])) as QnaHealthReport
+
+  for (const item of qnas) {
+    const { data } = item
+    const question = data.questions[defaultLanguage]?.[0] || _.flatten(Object.values(data.questions))[0] || ''
+    const add = (issue: QnaHealthIssue, details?: string[]) => {
+      const problem: QnaHealthProblem = { id: item.id, question }
+      report[issue].push(details ? { ...problem, details } : problem)
+    }
+
+    if (data.redirectFlow) {
+      const flow = flowsByName[data.redirectFlow]
+      if (!flow) {
+        add('missingFlow', [data.redirectFlow])
+      } else if (data.redirectNode && !flow.nodes.some((x) => x.name === data.redirectNode)) {
+        add('missingNode', [data.redirectNode])
+      }
+    }
+
+    const missingLanguages = languages.filter((lang) => lang !== defaultLanguage && !isCompleteInLanguage(item, lang))
+    if (missingLanguages.length) {
+      add('missingTranslation', missingLanguages)
+    }
+
+    if (data.action !== 'redirect' && !hasVariations(data.answers?.[defaultLanguage])) {
+      add('missingDefaultAnswer')
+    }
+
+    if (!data.enabled) {
+      add('disabled')
+    }
+
+    const matchingIntents = _.uniq(
+      _.flatMap(Object.entries(data.questions), ([lang, questions]) =>
+        _.flatMap(questions, (x) => [...(utterances[lang]?.get(x.trim()) || [])])
+      )
+    )
+    if (matchingIntents.length) {
+      add('matchesIntent', matchingIntents.sort())
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,153 @@
+import 'bluebird-global'
+import { QnaImportJob, QnaItem } from 'common/typings'
+import _ from 'lodash'
+import ms from 'ms'
+
+import { Debug } from '../../debug'
+global.DEBUG = Debug
+
+import { ImportJobs } from './import-jobs'
+
+const BOT_ID = 'bot'
+
+const makeItem = (id: string, question: string): QnaItem => ({
+  id,
+  data: { questions: { en: [question] }, answers: { en: ['Answer'] }, contexts: ['global'], enabled: true } as any
+})
+
+/** Values are serialized like the database does */
+const createKvs = (): any => {
+  const values: _.Dictionary<string> = {}
+  const botKvs = {
+    getStorageWithExpiry: async (key: string) => values[key] && JSON.parse(values[key]),
+    setStorageWithExpiry: async (key: string, value: any) => {
+      values[key] = JSON.stringify(value)
+    },
+    delete: async (key: string) => {
+      delete values[key]
+    }
+  }
+  return { forBot: () => botKvs }
+}
+
+const createStorage = (items: QnaItem[]) => {
+  const qnas: _.Dictionary<QnaItem> = _.keyBy(_.cloneDeep(items), 'id')
+  const storage = {
+    botId: BOT_ID,
+    qnas,
+    upserted: [] as string[],
+    fetchQNAs: async () => _.cloneDeep(Object.values(qnas)),
+    upsertItem: async (item: QnaItem | QnaItem[]) =>
+      _.castArray(item).map((x) => {
+        storage.upserted.push(x.id)
+        qnas[x.id] = _.cloneDeep(x)
+        return x.id
+      }),
+    delete: async (ids: string | string[]) => _.castArray(ids).forEach((id) => delete qnas[id])
+  }
+  return storage
+}
+
+const cmsService: any = { createOrUpdateContentElement: async () => {} }
+const logger: any = { forBot: () => logger, attachError: () => logger, error: () => {} }
+
+describe('ImportJobs', () => {
+  const existing = [makeItem('existing', 'Hello'), makeItem('other', 'Bye')]
+  const imported = [makeItem('existing', 'Hello there'), makeItem('new-1', 'Who are you'), makeItem('new-2', 'Why')]
+
+  let jobs: ImportJobs
+  let job: QnaImportJob
+
+  beforeEach(async () => {
+    jobs = new ImportJobs(createKvs(), logger)
+    job = await jobs.create(BOT_ID, { fileName: 'qna.json', action: 'insert' }, { questions: imported })
+  })
+
+  afterEach(() => jest.restoreAllMocks())
+
+  test('completed imports keep the questions', async () => {
+    const storage = createStorage(existing)
+    await jobs.run(BOT_ID, job, <any>storage, cmsService)
+
+    expect(await jobs.get(BOT_ID, job.id)).toMatchObject({ state: 'completed', processed: 3, total: 3 })
+    expect(Object.keys(storage.qnas).sort()).toEqual(['existing', 'new-1', 'new-2', 'other'])
+    expect(storage.qnas['existing']).toEqual(imported[0])
+  })
+
+  test('cancelled imports restore the questions', async () => {
+    const storage = createStorage(existing)
+    const upsertItem = storage.upsertItem
+    storage.upsertItem = async (item) => {
+      const ids = await upsertItem(item)
+      await jobs.cancel(BOT_ID, job)
+      return ids
+    }
+
+    await jobs.run(BOT_ID, job, <any>storage, cmsService)
+
+    expect(await jobs.get(BOT_ID, job.id)).toMatchObject({ state: 'cancelled' })
+    expect(storage.qnas).toEqual(_.keyBy(existing, 'id'))
+  })
+
+  test('questions saved before an interruption are restored when the resumed import is cancelled', async () => {
+    const storage = createStorage(existing)
+    const upsertItem = storage.upsertItem
+
+    // The first run stops while saving the second question, like a restart would
+    await new Promise<void>((resolve) => {
+      storage.upsertItem = async (item) => {
+        if (_.castArray(item)[0].id === 'new-1') {
+          resolve()
+          return new Promise(() => {})
+        }
+        return upsertItem(item)
+      }
+      void jobs.run(BOT_ID, job, <any>storage, cmsService)
+    })
+
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now + ms('5m'))
+    const interrupted = (await jobs.get(BOT_ID, job.id))!
+    expect(interrupted).toMatchObject({ state: 'interrupted', phase: 'questions', processed: 1 })
+
+    storage.upserted.length = 0
+    storage.upsertItem = async (item) => {
+      const ids = await upsertItem(item)
+      await jobs.cancel(BOT_ID, { ...interrupted, state: 'running' })
+      return ids
+    }
+    await jobs.run(BOT_ID, interrupted, <any>storage, cmsService)
+
+    // The resumed run started from the second question, then the rollback restored the first one
+    expect(storage.upserted).toEqual(['new-1', 'existing'])
+    expect(await jobs.get(BOT_ID, job.id)).toMatchObject({ state: 'cancelled' })
+    expect(storage.qnas).toEqual(_.keyBy(existing, 'id'))
+  })
+
+  test('content elements are created by the user who started the import', async () => {
+    const createdBy: (string | undefined)[] = []
+    const cms: any = {
+      createOrUpdateContentElement: async (...args: any[]) => {
+        createdBy.push(args[5])
+      }
+    }
+    const content = [{ id: 'builtin_text-abc', contentType: 'builtin_text', formData: { text$en: 'Hello' } }]
+    const userJob = await jobs.create(
+      BOT_ID,
+      { fileName: 'qna.json', action: 'insert', startedBy: 'user@botpress.com' },
+      { questions: [], content }
+    )
+
+    await jobs.run(BOT_ID, userJob, <any>createStorage(existing), cms)
+
+    expect(createdBy).toEqual(['user@botpress.com'])
+  })
+
+  test('jobs created at the same time are all listed', async () => {
+    await Promise.all(
+      ['a', 'b', 'c'].map((name) => jobs.create(BOT_ID, { fileName: `${name}.json`, action: 'insert' }, {}))
+    )
+
+    expect(_.map(await jobs.list(BOT_ID), 'fileName').sort()).toEqual(['a.json', 'b.json', 'c.json', 'qna.json'])
+  })
+})
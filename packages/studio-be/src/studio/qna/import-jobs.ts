@@ -0,0 +1,166 @@
+import { Logger } from 'botpress/sdk'
+import { QnaImportAction, QnaImportJob } from 'common/typings'
+import { CMSService } from 'core/cms'
+import { KeyValueStore } from 'core/kvs'
+import _ from 'lodash'
+import ms from 'ms'
+import { nanoid } from 'nanoid'
+
+import Storage from './storage'
+import { ImportCancelledError, ImportData, importQuestions, ImportSnapshot, takeImportSnapshot } from './transfer'
+
+const JOBS_KEY = 'qna/imports'
+const JOB_EXPIRY = '7d'
+const MAX_LISTED_JOBS = 20
+/** Running jobs save their progress after each item, so those which stopped for this long were interrupted */
+const INTERRUPTED_DELAY = ms('2m')
+
+const getJobKey = (id: string) => `${JOBS_KEY}/${id}`
+const getDataKey = (id: string) => `${JOBS_KEY}/${id}/data`
+const getCancelKey = (id: string) => `${JOBS_KEY}/${id}/cancel`
+const getSnapshotKey = (id: string) => `${JOBS_KEY}/${id}/snapshot`
+
+/**
+ * Import jobs are stored in the KVS so their progress is shared by every node and survives restarts.
+ * The data of a job is kept until it is over, so an interrupted job can be resumed
+ */
+export class ImportJobs {
+  /** Updates of the list of jobs of each bot, they are made one after the other so none is lost */
+  private listUpdates: _.Dictionary<Promise<void>> = {}
+
+  constructor(private kvs: KeyValueStore, private logger: Logger) {}
+
+  async create(
+    botId: string,
+    params: { fileName: string; action: QnaImportAction; startedBy?: string },
+    data: ImportData
+  ): Promise<QnaImportJob> {
+    const now = new Date()
+    const job: QnaImportJob = {
+      id: nanoid(),
+      ...params,
+      state: 'running',
+      phase: 'reading',
+      processed: 0,
+      total: 0,
+      rowErrors: data.rowErrors || [],
+      itemErrors: [],
+      startedOn: now,
+      updatedOn: now
+    }
+
+    await this.kvs.forBot(botId).setStorageWithExpiry(getDataKey(job.id), data, JOB_EXPIRY)
+    await this._save(botId, job)
+    await this._addToList(botId, job.id)
+
+    return job
+  }
+
+  async get(botId: string, id: string): Promise<QnaImportJob | undefined> {
+    const job: QnaImportJob | undefined = await this.kvs.forBot(botId).getStorageWithExpiry(getJobKey(id))
+    if (job?.state === 'running' && Date.now() - new Date(job.updatedOn).getTime() > INTERRUPTED_DELAY) {
+      return { ...job, state: 'interrupted' }
+    }
+    return job
+  }
+
+  /**
+   * Lists the most recent jobs first
+   */
+  async list(botId: string): Promise<QnaImportJob[]> {
+    const ids: string[] = (await this.kvs.forBot(botId).getStorageWithExpiry(JOBS_KEY)) || []
+    return _.compact(await Promise.map(ids, (id) => this.get(botId, id)))
+  }
+
+  /**
+   * Running jobs check for cancellation before each item, whichever node runs them. Interrupted jobs
+   * aren't running anywhere, so they are cancelled right away and the items they saved are kept
+   */
+  async cancel(botId: string, job: QnaImportJob) {
+    if (job.state === 'interrupted') {
+      await this.kvs.forBot(botId).delete(getDataKey(job.id))
+      await this.kvs.forBot(botId).delete(getSnapshotKey(job.id))
+      return this._save(botId, { ...job, state: 'cancelled', finishedOn: new Date() })
+    }
+
+    await this.kvs.forBot(botId).setStorageWithExpiry(getCancelKey(job.id), true, JOB_EXPIRY)
+  }
+
+  /**
+   * Saves the items of the job in the background. Its progress is available using its id
+   */
+  async run(botId: string, job: QnaImportJob, storage: Storage, cmsService: CMSService) {
+    const kvs = this.kvs.forBot(botId)
+    const data: ImportData | undefined = await kvs.getStorageWithExpiry(getDataKey(job.id))
+    if (!data) {
+      return this._save(botId, { ...job, state: 'error', message: 'The data of the import has expired' })
+    }
+
+    const resumeFrom = job.phase !== 'reading' ? _.pick(job, ['phase', 'processed', 'total', 'itemErrors']) : undefined
+    let current: QnaImportJob = { ...job, state: 'running' }
+    await this._save(botId, current)
+
+    try {
+      // The snapshot is taken before the first run saves anything, a resumed job rolls back to the same state
+      let snapshot: ImportSnapshot | undefined = await kvs.getStorageWithExpiry(getSnapshotKey(job.id))
+      if (!snapshot) {
+        snapshot = await takeImportSnapshot(data, storage, job.action)
+        await kvs.setStorageWithExpiry(getSnapshotKey(job.id), snapshot, JOB_EXPIRY)
+      }
+
+      const itemErrors = await importQuestions(data, storage, cmsService, {
+        action: job.action,
+        snapshot,
+        resumeFrom,
+        onProgress: (progress) => this._save(botId, (current = { ...current, ...progress })),
+        isCancelled: async () => !!(await kvs.getStorageWithExpiry(getCancelKey(job.id))),
+        userEmail: job.startedBy
+      })
+
+      current = { ...current, state: 'completed', phase: 'done', itemErrors }
+    } catch (err) {
+      if (err instanceof ImportCancelledError) {
+        current = { ...current, state: 'cancelled', message: err.message }
+      } else {
+        this.logger.forBot(botId).attachError(err).error('QnA Import Failure')
+        current = { ...current, state: 'error', message: err.message }
+      }
+    }
+
+    await kvs.delete(getDataKey(job.id))
+    await kvs.delete(getSnapshotKey(job.id))
+    await this._save(botId, { ...current, finishedOn: new Date() })
+  }
+
+  private async _save(botId: string, job: QnaImportJob) {
+    await this.kvs.forBot(botId).setStorageWithExpiry(getJobKey(job.id), { ...job, updatedOn: new Date() }, JOB_EXPIRY)
+  }
+
+  /** Lists the job first, the oldest jobs are deleted once there are too many */
+  private async _addToList(botId: string, id: string) {
+    const addToList = async () => {
+      const kvs = this.kvs.forBot(botId)
+      const ids: string[] = [id, ...((await kvs.getStorageWithExpiry(JOBS_KEY)) || [])]
+      const [listedIds, expiredIds] = [ids.slice(0, MAX_LISTED_JOBS), ids.slice(MAX_LISTED_JOBS)]
+
+      await kvs.setStorageWithExpiry(JOBS_KEY, listedIds, JOB_EXPIRY)
+      await Promise.map(expiredIds, (id) => this._delete(botId, id))
+    }
+
+    const update = (this.listUpdates[botId] || Promise.resolve()).then(addToList, addToList)
+    this.listUpdates[botId] = update
+
+    try {
+      await update
+    } finally {
+      if (this.listUpdates[botId] === update) {
+        delete this.listUpdates[botId]
+      }
+    }
+  }
+
+  private async _delete(botId: string, id: string) {
+    const kvs = this.kvs.forBot(botId)
+    await Promise.map([getJobKey(id), getDataKey(id), getCancelKey(id), getSnapshotKey(id)], (key) => kvs.delete(key))
+  }
+}
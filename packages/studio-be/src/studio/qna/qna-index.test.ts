@@ -0,0 +1,153 @@
+import 'bluebird-global'
+import { toQnaAnswers } from 'common/qna-answers'
+import { QnaEntry, QnaItem } from 'common/typings'
+import { EventEmitter } from 'events'
+import _ from 'lodash'
+
+import { QnaIndex } from './qna-index'
+
+const makeItem = (id: string, data: Partial<QnaEntry> = {}): QnaItem => ({
+  id,
+  data: {
+    action: 'text',
+    contexts: ['global'],
+    enabled: true,
+    questions: { en: [`Question of ${id}`] },
+    answers: toQnaAnswers({ en: [`Answer of ${id}`] }),
+    redirectFlow: '',
+    redirectNode: '',
+    ...data
+  }
+})
+
+/** Files are listed by modification date, like the ghost does. Changes invalidate the index like the cache does */
+const createGhost = (items: QnaItem[]) => {
+  const files = new Map(items.map((x) => [x.id, x]))
+  const cache = new EventEmitter()
+
+  const ghost: any = {
+    directoryListing: async () => [...files.keys()].map((id) => `${id}.json`),
+    fileExists: async (_folder: string, file: string) => files.has(file.replace('.json', ''))
+  }
+  const write = (item: QnaItem) => {
+    files.delete(item.id)
+    files.set(item.id, item)
+    cache.emit('invalidation', `object::data/bots/bot/qna/${item.id}.json`)
+  }
+  const remove = (id: string) => {
+    files.delete(id)
+    cache.emit('invalidation', `object::data/bots/bot/qna/${id}.json`)
+  }
+  /** Files renamed without being invalidated, like the ghost does */
+  const rename = (id: string, newId: string) => {
+    files.set(newId, { ...files.get(id)!, id: newId })
+    files.delete(id)
+  }
+
+  let reads = 0
+  const readItem = async (id: string) => {
+    reads++
+    return _.cloneDeep(files.get(id)!)
+  }
+
+  const createIndex = (botId = 'bot') => {
+    const index = new QnaIndex(botId, () => ghost, readItem)
+    cache.on('invalidation', (key: string) => index.invalidate(key))
+    return index
+  }
+
+  return { cache, createIndex, write, remove, rename, getReads: () => reads }
+}
+
+const items = [
+  makeItem('b_hours', {
+    questions: { en: ['What are your hours?'], fr: ['Vos heures ?'] },
+    answers: toQnaAnswers({ en: ['From 9 to 5'], fr: ['De 9h à 17h'] })
+  }),
+  makeItem('a_help', { action: 'redirect', answers: {}, redirectFlow: 'help.flow.json', redirectNode: 'entry' }),
+  makeItem('c_price', { enabled: false, contexts: ['store'], answers: toQnaAnswers({ en: ['It costs 10$'] }) })
+]
+
+describe('QnA index', () => {
+  test('filters items', async () => {
+    const { createIndex } = createGhost(items)
+    const index = createIndex()
+    const getIds = async (filters) => (await index.query(filters)).items.map((x) => x.id)
+
+    expect(await getIds({})).toEqual(['a_help', 'b_hours', 'c_price'])
+    expect(await getIds({ question: 'HOURS' })).toEqual(['b_hours'])
+    expect(await getIds({ question: 'help' })).toEqual(['a_help'])
+    expect(await getIds({ answer: 'costs' })).toEqual(['c_price'])
+    expect(await getIds({ contexts: ['store'] })).toEqual(['c_price'])
+    expect(await getIds({ enabled: false })).toEqual(['c_price'])
+    expect(await getIds({ actions: ['redirect', 'text_redirect'] })).toEqual(['a_help'])
+    expect(await getIds({ redirectFlow: 'help.flow.json' })).toEqual(['a_help'])
+    expect(await getIds({ language: 'fr', coverage: 'missing' })).toEqual(['a_help', 'c_price'])
+    expect(await getIds({ language: 'en', coverage: 'complete', enabled: true })).toEqual(['a_help', 'b_hours'])
+  })
+
+  test('sorts by last modification with stable pages', async () => {
+    const { createIndex, write } = createGhost(items)
+    const index = createIndex()
+    const sortOrder = { column: 'modifiedOn', desc: true } as const
+
+    const firstPage = await index.query({}, sortOrder, { offset: 0, limit: 2 })
+    const secondPage = await index.query({}, sortOrder, { offset: 2, limit: 2 })
+    expect(firstPage.count).toBe(3)
+    expect([...firstPage.items, ...secondPage.items].map((x) => x.id)).toEqual(['c_price', 'a_help', 'b_hours'])
+
+    write(makeItem('b_hours'))
+    const { items: sorted } = await index.query({}, sortOrder)
+    expect(sorted.map((x) => x.id)).toEqual(['b_hours', 'c_price', 'a_help'])
+  })
+
+  test('only reads changed files again', async () => {
+    const { createIndex, write, remove, getReads } = createGhost(items)
+    const index = createIndex()
+
+    expect(await index.count()).toBe(3)
+    expect(getReads()).toBe(3)
+
+    write(makeItem('d_new', { questions: { en: ['A new question'] } }))
+    remove('a_help')
+    expect((await index.query({ question: 'new' })).items.map((x) => x.id)).toEqual(['d_new'])
+    expect(await index.count()).toBe(3)
+    expect(getReads()).toBe(4)
+  })
+
+  test('returned items are copies', async () => {
+    const { createIndex } = createGhost(items)
+    const index = createIndex()
+
+    const { items: listed } = await index.query({ question: 'hours' })
+    listed[0].data.enabled = false
+
+    expect((await index.query({ enabled: false })).items.map((x) => x.id)).toEqual(['c_price'])
+  })
+
+  test('changes which were not invalidated are listed', async () => {
+    const { createIndex, rename } = createGhost(items)
+    const index = createIndex()
+
+    expect(await index.count()).toBe(3)
+    rename('a_help', 'a_renamed')
+
+    expect((await index.query({})).items.map((x) => x.id)).toEqual(['a_renamed', 'b_hours', 'c_price'])
+  })
+
+  test('only invalidations of the files of the bot are handled', async () => {
+    const { cache, createIndex, getReads } = createGhost(items)
+    const index = createIndex()
+
+    expect(await index.count()).toBe(3)
+    cache.emit('invalidation', 'object::data/bots/other-bot/qna/a_help.json')
+    cache.emit('invalidation', 'object::data/bots/bot/flows/main.flow.json')
+    expect(await index.count()).toBe(3)
+    expect(getReads()).toBe(3)
+
+    // The folder of the bot was invalidated, e.g. when the bot is imported again
+    cache.emit('invalidation', 'data/bots/bot')
+    expect(await index.count()).toBe(3)
+    expect(getReads()).toBe(6)
+  })
+})
@@ -0,0 +1,185 @@
+import { getAnswerTexts, hasVariations } from 'common/qna-answers'
+import { QnaFilters, QnaItem, QnaSortOrder } from 'common/typings'
+import { ScopedGhostService } from 'core/bpfs'
+import _ from 'lodash'
+
+/** Cache keys of files are prefixed by their type, e.g. `object::data/bots/<botId>/qna/<id>.json` */
+const CACHE_KEY_REGEX = /^(?:[a-z]+::)?(?:data\/)?([\s\S]*?)\/?$/i
+const QNA_FILE_REGEX = /^bots\/([^/]+)\/qna\/([^/]+)\.json$/i
+
+export const DEFAULT_SORT_ORDER: QnaSortOrder = { column: 'id' }
+
+export interface IndexedQna {
+  item: QnaItem
+  /** Order of the last modification of the item, the most recently modified one has the highest */
+  modifiedOn: number
+  /** Lowercased questions and answers of all languages, for searches */
+  questions: string
+  answers: string
+}
+
+const toSearchText = (texts: string[]) => texts.join('\n').toLowerCase()
+
+const hasTexts = (texts: string[] | undefined) => !!texts?.some((x) => x.trim())
+
+export const indexQna = (item: QnaItem, modifiedOn: number): IndexedQna => ({
+  item,
+  modifiedOn,
+  questions: toSearchText(_.flatten(Object.values(item.data.questions))),
+  answers: toSearchText(_.flatMap(Object.values(item.data.answers || {}), getAnswerTexts))
+})
+
+export const isCompleteInLanguage = ({ data }: QnaItem, language: string) =>
+  hasTexts(data.questions[language]) && (hasVariations(data.answers?.[language]) || !!data.redirectFlow)
+
+export const matchesFilters = ({ item, questions, answers }: IndexedQna, filters: QnaFilters) => {
+  const { data } = item
+  const { question, answer, contexts, enabled, actions, redirectFlow, language, coverage, ids } = filters
+
+  if (ids && !ids.includes(item.id)) {
+    return false
+  }
+  if (question && !questions.includes(question.toLowerCase()) && !item.id.includes(question)) {
+    return false
+  }
+  if (answer && !answers.includes(answer.toLowerCase())) {
+    return false
+  }
+  if (contexts?.length && !_.intersection(data.contexts, contexts).length) {
+    return false
+  }
+  if (enabled !== undefined && data.enabled !== enabled) {
+    return false
+  }
+  if (actions?.length && !actions.includes(data.action)) {
+    return false
+  }
+  if (redirectFlow && data.redirectFlow !== redirectFlow) {
+    return false
+  }
+  if (language && coverage && isCompleteInLanguage(item, language) !== (coverage === 'complete')) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Items with the same value are sorted by id, so pages neither overlap nor skip items
+ */
+export const sortQnas = (entries: IndexedQna[], { column, desc }: QnaSortOrder) => {
+  const order = desc ? 'desc' : 'asc'
+  return _.orderBy(
+    entries,
+    [column === 'modifiedOn' ? (x: IndexedQna) => x.modifiedOn : (x: IndexedQna) => x.item.id, (x) => x.item.id],
+    [order, order]
+  )
+}
+
+/**
+ * Keeps the QnAs of a bot in memory. Files are read once, then only those invalidated in the cache, or
+ * added and removed from the listing, are read again when the index is used
+ */
+export class QnaIndex {
+  private loading: Promise<Map<string, IndexedQna>> | undefined
+  private changedIds = new Set<string>()
+  private lastModifiedOn = 0
+
+  /** The ghost is requested each time since it is replaced when the ghost service is initialized again */
+  constructor(
+    private botId: string,
+    private getGhost: () => ScopedGhostService,
+    private readItem: (id: string) => Promise<QnaItem>
+  ) {}
+
+  /**
+   * Handles invalidations of the object cache, which are received from every node of the cluster.
+   * Changed files are read again, while their folders or those of the bot are loaded again completely
+   */
+  invalidate(cacheKey: string) {
+    const path = cacheKey.match(CACHE_KEY_REGEX)![1]
+    const match = path.match(QNA_FILE_REGEX)
+
+    if (match) {
+      if (match[1] === this.botId) {
+        this.changedIds.add(match[2])
+      }
+    } else if (`bots/${this.botId}/qna/`.startsWith(`${path}/`)) {
+      this.loading = undefined
+    }
+  }
+
+  async query(
+    filters: QnaFilters,
+    sortOrder: QnaSortOrder = DEFAULT_SORT_ORDER,
+    { offset = 0, limit = 0 }: { offset?: number; limit?: number } = {}
+  ): Promise<{ items: QnaItem[]; count: number }> {
+    const entries = await this._getEntries()
+    const matches = sortQnas(
+      entries.filter((x) => matchesFilters(x, filters)),
+      sortOrder
+    )
+    const page = limit ? matches.slice(offset, offset + limit) : matches.slice(offset)
+
+    // Copies are returned so callers can't modify the index
+    return { items: page.map((x) => _.cloneDeep(x.item)), count: matches.length }
+  }
+
+  async count(): Promise<number> {
+    return (await this._getEntries()).length
+  }
+
+  private async _getEntries(): Promise<IndexedQna[]> {
+    if (!this.loading) {
+      this.loading = this._load().catch((err) => {
+        this.loading = undefined
+        throw err
+      })
+    }
+
+    const entries = await this.loading
+
+    // Files can be renamed or deleted with their folder without being invalidated
+    const ids = await this._listIds()
+    const listedIds = new Set(ids)
+    const removedIds = [...entries.keys()].filter((id) => !listedIds.has(id))
+    const changedIds = _.union(
+      [...this.changedIds],
+      ids.filter((id) => !entries.has(id))
+    )
+    this.changedIds.clear()
+    removedIds.forEach((id) => entries.delete(id))
+    await Promise.map(changedIds, (id) => this._refresh(entries, id))
+
+    return [...entries.values()]
+  }
+
+  /** Files are listed from the least to the most recently modified, which gives their initial order */
+  private async _load() {
+    const ids = await this._listIds()
+    const items = await Promise.map(ids, (id) => this.readItem(id))
+
+    return new Map(ids.map((id, i) => [id, indexQna(items[i], ++this.lastModifiedOn)]))
+  }
+
+  private async _listIds(): Promise<string[]> {
+    const files = await this.getGhost().directoryListing('./qna', '*.json', undefined, undefined, {
+      sortOrder: { column: 'modifiedOn' }
+    })
+    return files.map((file) => file.replace(/\.json$/i, ''))
+  }
+
+  private async _refresh(entries: Map<string, IndexedQna>, id: string) {
+    try {
+      if (await this.getGhost().fileExists('./qna', `${id}.json`)) {
+        entries.set(id, indexQna(await this.readItem(id), ++this.lastModifiedOn))
+      } else {
+        entries.delete(id)
+      }
+    } catch (err) {
+      // The file will be read again next time
+      this.changedIds.add(id)
+      throw err
+    }
+  }
+}
@@ -1,18 +1,74 @@
-import { QnaEntry } from 'common/typings'
+import {
+  QnaAction,
+  QnaEntry,
+  QnaExportFormat,
+  QnaFilters,
+  QnaHealthIssue,
+  QnaHealthReport,
+  QnaImportAction,
+  QnaSortColumn,
+  QnaSortOrder
+} from 'common/typings'
+import { asBytes } from 'core/misc/utils'
+import { BadRequestError, NotFoundError } from 'core/routers/errors'
 import { validate } from 'joi'
 import _ from 'lodash'
 import moment from 'moment'
 import multer from 'multer'
-import { nanoid } from 'nanoid'
 import { StudioServices } from 'studio/studio-router'
 import { CustomStudioRouter } from 'studio/utils/custom-studio-router'
 
-import { importQuestions, prepareExport, prepareImport } from './transfer'
+import { HEALTH_ISSUES } from './health'
+import { EXPORT_FORMATS, prepareExport, prepareFileImport, prepareSpreadsheetExport } from './transfer'
 import { QnaDefSchema } from './validation'
 
-export class QNARouter extends CustomStudioRouter {
-  private jsonUploadStatuses = {}
+const CONTENT_TYPES: { [format in QnaExportFormat]: string } = {
+  json: 'application/json',
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+/** Size of the files which can be imported, spreadsheets are also limited in what they can expand to */
+const MAX_IMPORT_FILE_SIZE = asBytes('20mb')
+const QNA_ACTIONS: QnaAction[] = ['text', 'redirect', 'text_redirect']
+const SORT_COLUMNS: QnaSortColumn[] = ['id', 'modifiedOn']
+const COVERAGES: QnaFilters['coverage'][] = ['complete', 'missing']
+
+const toArray = (value: any): string[] => (value === undefined || value === '' ? [] : _.castArray(value))
+
+/**
+ * Reads the filters, paging and sort order of the listed questions from the query string
+ */
+const parseQuestionsQuery = (query: any) => {
+  const { question, answer, filteredContexts, enabled, redirectFlow, language, coverage, sortBy, sortDesc } = query
+
+  const actions = toArray(query.actions) as QnaAction[]
+  if (actions.some((x) => !QNA_ACTIONS.includes(x))) {
+    throw new BadRequestError(`Actions must be one of: ${QNA_ACTIONS.join(', ')}`)
+  }
+  if (coverage && !COVERAGES.includes(coverage)) {
+    throw new BadRequestError(`Coverage must be one of: ${COVERAGES.join(', ')}`)
+  }
+  if (sortBy && !SORT_COLUMNS.includes(sortBy)) {
+    throw new BadRequestError(`Questions can only be sorted by: ${SORT_COLUMNS.join(', ')}`)
+  }
+
+  const filters: QnaFilters = {
+    question,
+    answer,
+    contexts: toArray(filteredContexts),
+    enabled: enabled === 'true' ? true : enabled === 'false' ? false : undefined,
+    actions,
+    redirectFlow,
+    language,
+    coverage
+  }
+  const sortOrder: QnaSortOrder | undefined = sortBy ? { column: sortBy, desc: sortDesc === 'true' } : undefined
 
+  return { filters, paging: _.pick(query, ['limit', 'offset']), sortOrder }
+}
+
+export class QNARouter extends CustomStudioRouter {
   constructor(services: StudioServices) {
     super('QNA', services)
   }
@@ -20,19 +76,32 @@ export class QNARouter extends CustomStudioRouter {
   setupRoutes() {
     const router = this.router
 
+    const getHealthReport = async (botId: string): Promise<QnaHealthReport> => {
+      const { storage } = await this.qnaService.getBotStorage(botId)
+      const { languages, defaultLanguage } = await this.configProvider.getBotConfig(botId)
+      const flows = await this.flowService.forBot(botId).loadAll()
+
+      return storage.getHealth({ flows, languages, defaultLanguage })
+    }
+
     router.get(
       '/questions',
       this.needPermissions('read', 'module.qna'),
       this.asyncMiddleware(async (req, res) => {
+        const { filters, paging, sortOrder } = parseQuestionsQuery(req.query)
+
+        const health = req.query.health as QnaHealthIssue
+        if (health && !HEALTH_ISSUES.includes(health)) {
+          throw new BadRequestError(`Health issue must be one of: ${HEALTH_ISSUES.join(', ')}`)
+        }
+
         try {
-          const {
-            query: { question = '', filteredContexts = [], limit, offset }
-          } = req
+          if (health) {
+            filters.ids = (await getHealthReport(req.params.botId))[health].map((x) => x.id)
+          }
 
           const { storage } = await this.qnaService.getBotStorage(req.params.botId)
-
-          // @ts-ignore
-          const items = await storage.getQuestions({ question, filteredContexts }, { limit, offset })
+          const items = await storage.getQuestions(filters, paging, sortOrder)
           res.send({ ...items })
         } catch (e) {
           this.logger.attachError(e).error('Error listing questions')
@@ -74,17 +143,14 @@ export class QNARouter extends CustomStudioRouter {
       '/questions/:id',
       this.needPermissions('write', 'module.qna'),
       this.asyncMiddleware(async (req, res, next) => {
-        const {
-          query: { limit, offset, question, filteredContexts }
-        } = req
+        const { filters, paging, sortOrder } = parseQuestionsQuery(req.query)
 
         try {
           const qnaEntry = (await validate(req.body, QnaDefSchema)) as QnaEntry
           const { storage } = await this.qnaService.getBotStorage(req.params.botId)
           await storage.update(qnaEntry, req.params.id)
 
-          // @ts-ignore
-          const questions = await storage.getQuestions({ question, filteredContexts }, { limit, offset })
+          const questions = await storage.getQuestions(filters, paging, sortOrder)
           res.send(questions)
         } catch (e) {
           next?.(new Error(e.message))
@@ -96,15 +162,12 @@ export class QNARouter extends CustomStudioRouter {
       '/questions/:id/delete',
       this.needPermissions('write', 'module.qna'),
       this.asyncMiddleware(async (req, res) => {
-        const {
-          query: { limit, offset, question, filteredContexts }
-        } = req
+        const { filters, paging, sortOrder } = parseQuestionsQuery(req.query)
 
         try {
           const { storage } = await this.qnaService.getBotStorage(req.params.botId)
           await storage.delete(req.params.id)
-          // @ts-ignore
-          const questionsData = await storage.getQuestions({ question, filteredContexts }, { limit, offset })
+          const questionsData = await storage.getQuestions(filters, paging, sortOrder)
           res.send(questionsData)
         } catch (e) {
           this.logger.attachError(e).error(`Could not delete QnA #${req.params.id}`)
@@ -113,19 +176,30 @@ export class QNARouter extends CustomStudioRouter {
       })
     )
 
+    router.post(
+      '/questions/:id/merge',
+      this.needPermissions('write', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        const { sourceId } = req.body
+        if (!sourceId || sourceId === req.params.id) {
+          throw new BadRequestError('The id of another QnA must be provided to merge it')
+        }
+
+        const { storage } = await this.qnaService.getBotStorage(req.params.botId)
+        res.send(await storage.merge(req.params.id, sourceId))
+      })
+    )
+
     router.post(
       '/questions/:id/convert',
       this.needPermissions('write', 'module.qna'),
       this.asyncMiddleware(async (req, res, next) => {
-        const {
-          query: { limit, offset, question, filteredContexts }
-        } = req
+        const { filters, paging, sortOrder } = parseQuestionsQuery(req.query)
 
         try {
           const { storage } = await this.qnaService.getBotStorage(req.params.botId)
           await storage.convert(req.params.id)
-          // @ts-ignore
-          const questionsData = await storage.getQuestions({ question, filteredContexts }, { limit, offset })
+          const questionsData = await storage.getQuestions(filters, paging, sortOrder)
           res.send(questionsData)
         } catch (e) {
           this.logger.attachError(e).error(`Could not convert QnA #${req.params.id}`)
@@ -134,15 +208,46 @@ export class QNARouter extends CustomStudioRouter {
       })
     )
 
+    router.get(
+      '/duplicates',
+      this.needPermissions('read', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : undefined
+        if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+          throw new BadRequestError('The similarity threshold must be a number between 0 and 1')
+        }
+
+        const { storage } = await this.qnaService.getBotStorage(req.params.botId)
+        res.send(await storage.findDuplicates(threshold, req.query.includeIntents !== 'false'))
+      })
+    )
+
+    router.get(
+      '/health',
+      this.needPermissions('read', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await getHealthReport(req.params.botId))
+      })
+    )
+
     router.get(
       '/export',
       this.needPermissions('read', 'module.qna'),
       this.asyncMiddleware(async (req, res) => {
+        const format = <QnaExportFormat>req.query.format || 'json'
+        if (!EXPORT_FORMATS.includes(format)) {
+          throw new BadRequestError(`Unsupported export format "${format}"`)
+        }
+
         const { storage } = await this.qnaService.getBotStorage(req.params.botId)
-        const data: string = await prepareExport(storage, this.cmsService)
+        const { languages } = await this.configProvider.getBotConfig(req.params.botId)
+        const data =
+          format === 'json'
+            ? await prepareExport(storage, this.cmsService)
+            : await prepareSpreadsheetExport(storage, format, languages)
 
-        res.setHeader('Content-Type', 'application/json')
-        res.setHeader('Content-disposition', `attachment; filename=qna_${moment().format('DD-MM-YYYY')}.json`)
+        res.setHeader('Content-Type', CONTENT_TYPES[format])
+        res.setHeader('Content-disposition', `attachment; filename=qna_${moment().format('DD-MM-YYYY')}.${format}`)
         res.end(data)
       })
     )
@@ -157,22 +262,28 @@ export class QNARouter extends CustomStudioRouter {
       })
     )
 
-    const upload = multer()
+    const upload = multer({ limits: { fileSize: MAX_IMPORT_FILE_SIZE } })
     router.post(
       '/analyzeImport',
       this.needPermissions('write', 'module.qna'),
       upload.single('file'),
       this.asyncMiddleware(async (req, res) => {
+        const file = (req as any).file
+        if (!file) {
+          throw new BadRequestError('A file is required')
+        }
+
         const { storage } = await this.qnaService.getBotStorage(req.params.botId)
+        const { languages } = await this.configProvider.getBotConfig(req.params.botId)
         const cmsIds = await storage.getAllContentElementIds()
-        // @ts-ignore
-        const importData = await prepareImport(JSON.parse(req.file.buffer))
+        const importData = await prepareFileImport(file, languages)
 
         res.send({
           qnaCount: await storage.count(),
           cmsCount: (cmsIds && cmsIds.length) || 0,
           fileQnaCount: (importData.questions && importData.questions.length) || 0,
-          fileCmsCount: (importData.content && importData.content.length) || 0
+          fileCmsCount: (importData.content && importData.content.length) || 0,
+          rowErrors: importData.rowErrors || []
         })
       })
     )
@@ -182,43 +293,91 @@ export class QNARouter extends CustomStudioRouter {
       this.needPermissions('write', 'module.qna'),
       upload.single('file'),
       this.asyncMiddleware(async (req, res) => {
-        const uploadStatusId = nanoid()
-        res.send(uploadStatusId)
+        const { botId } = req.params
+        const file = (req as any).file
+        if (!file) {
+          throw new BadRequestError('A file is required')
+        }
 
-        const { storage } = await this.qnaService.getBotStorage(req.params.botId)
+        const { storage } = await this.qnaService.getBotStorage(botId)
+        const { languages } = await this.configProvider.getBotConfig(botId)
+
+        // The file is read first so existing questions are kept when it is invalid
+        const importData = await prepareFileImport(file, languages)
+        const action: QnaImportAction = req.body.action === 'clear_insert' ? 'clear_insert' : 'insert'
+        const job = await this.qnaService.importJobs.create(
+          botId,
+          { fileName: file.originalname, action, startedBy: req.tokenUser?.email },
+          importData
+        )
+        res.send(job.id)
+
+        await this.qnaService.importJobs.run(botId, job, storage, this.cmsService)
+      })
+    )
+
+    router.get(
+      '/imports',
+      this.needPermissions('read', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await this.qnaService.importJobs.list(req.params.botId))
+      })
+    )
+
+    const getImportJob = async (botId: string, id: string) => {
+      const job = await this.qnaService.importJobs.get(botId, id)
+      if (!job) {
+        throw new NotFoundError(`Import job "${id}" not found`)
+      }
+      return job
+    }
 
-        if (req.body.action === 'clear_insert') {
-          updateUploadStatus(uploadStatusId, 'Deleting existing questions')
-          const questions = await storage.fetchQNAs()
+    router.get(
+      '/imports/:id',
+      this.needPermissions('read', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        res.send(await getImportJob(req.params.botId, req.params.id))
+      })
+    )
 
-          await storage.delete(questions.map(({ id }) => id))
-          updateUploadStatus(uploadStatusId, 'Deleted existing questions')
+    router.post(
+      '/imports/:id/cancel',
+      this.needPermissions('write', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        const job = await getImportJob(req.params.botId, req.params.id)
+        if (job.state !== 'running' && job.state !== 'interrupted') {
+          throw new BadRequestError(`Only running imports can be cancelled, this one is ${job.state}`)
         }
 
-        try {
-          const importData = await prepareImport(JSON.parse((req as any).file.buffer))
+        await this.qnaService.importJobs.cancel(req.params.botId, job)
+        res.sendStatus(200)
+      })
+    )
 
-          await importQuestions(importData, storage, this.cmsService, updateUploadStatus, uploadStatusId)
-          updateUploadStatus(uploadStatusId, 'Completed')
-        } catch (e) {
-          this.logger.attachError(e).error('JSON Import Failure')
-          updateUploadStatus(uploadStatusId, `Error: ${e.message}`)
+    router.post(
+      '/imports/:id/resume',
+      this.needPermissions('write', 'module.qna'),
+      this.asyncMiddleware(async (req, res) => {
+        const { botId } = req.params
+        const job = await getImportJob(botId, req.params.id)
+        if (job.state !== 'interrupted') {
+          throw new BadRequestError(`Only interrupted imports can be resumed, this one is ${job.state}`)
         }
+
+        const { storage } = await this.qnaService.getBotStorage(botId)
+        res.sendStatus(200)
+
+        await this.qnaService.importJobs.run(botId, job, storage, this.cmsService)
       })
     )
 
+    // Kept for compatibility, it returns the import job
     router.get(
       '/json-upload-status/:uploadStatusId',
       this.needPermissions('read', 'module.qna'),
       this.asyncMiddleware(async (req, res) => {
-        res.end(this.jsonUploadStatuses[req.params.uploadStatusId])
+        res.send(await getImportJob(req.params.botId, req.params.uploadStatusId))
       })
     )
-
-    const updateUploadStatus = (uploadStatusId: string, status: string) => {
-      if (uploadStatusId) {
-        this.jsonUploadStatuses[uploadStatusId] = status
-      }
-    }
   }
 }
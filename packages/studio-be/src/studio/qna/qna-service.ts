@@ -1,10 +1,14 @@
 import { Flow, Logger } from 'botpress/sdk'
+import { ObjectCache } from 'common/object-cache'
 import { BotService } from 'core/bots'
 import { GhostService } from 'core/bpfs'
+import { KeyValueStore } from 'core/kvs'
 import { TYPES } from 'core/types'
 import { inject, injectable, tagged } from 'inversify'
+import _ from 'lodash'
 import { NLUService } from 'studio/nlu/nlu-service'
 
+import { ImportJobs } from './import-jobs'
 import NluStorage from './storage'
 
 interface ScopedBots {
@@ -19,6 +23,7 @@ interface BotParams {
 @injectable()
 export class QNAService {
   private bots: ScopedBots = {}
+  public importJobs: ImportJobs
 
   constructor(
     @inject(TYPES.Logger)
@@ -29,8 +34,19 @@ export class QNAService {
     @inject(TYPES.BotService)
     private botService: BotService,
     @inject(TYPES.NLUService)
-    private nluService: NLUService
-  ) {}
+    private nluService: NLUService,
+    @inject(TYPES.KeyValueStore)
+    kvs: KeyValueStore,
+    @inject(TYPES.ObjectCache)
+    cache: ObjectCache
+  ) {
+    this.importJobs = new ImportJobs(kvs, logger)
+
+    // Keeps the QnA indexes up to date with changes made by any node of the cluster
+    cache.events.on('invalidation', (key: string) => {
+      _.forEach(this.bots, ({ storage }) => storage.onCacheInvalidated(key))
+    })
+  }
 
   async getBotStorage(botId: string) {
     if (!this.bots[botId]) {
@@ -55,14 +71,12 @@ export class QNAService {
     nextFlowName: string
   }) => {
     const { storage } = await this.getBotStorage(botId)
-    const questions = await storage.getQuestions({}, { limit: 0, offset: 0 })
+    const questions = await storage.getQuestions({ redirectFlow: previousFlowName }, { limit: 0 })
 
-    const updatedItems = questions.items
-      .filter((q) => q.data.redirectFlow === previousFlowName)
-      .map((q) => {
-        q.data.redirectFlow = nextFlowName
-        return q
-      })
+    const updatedItems = questions.items.map((q) => {
+      q.data.redirectFlow = nextFlowName
+      return q
+    })
 
     for (const item of updatedItems) {
       await storage.update(item.data, item.id)
@@ -77,7 +91,7 @@ export class QNAService {
 
     const oldFlow = await this.bpfs.forBot(botId).readFileAsObject<Flow>('./flows', flow.location)
     const { storage } = await this.getBotStorage(botId)
-    const questions = await storage.getQuestions({ question: '', filteredContexts: [] }, { limit: 0, offset: 0 })
+    const questions = await storage.getQuestions({ redirectFlow: flow.name }, { limit: 0 })
 
     // Detect nodes that had their name changed
     for (const oldNode of oldFlow.nodes) {
@@ -85,7 +99,7 @@ export class QNAService {
         // Update all questions that refer to the old node name
         if (oldNode.id === newNode.id && oldNode.name !== newNode.name) {
           const updatedItems = questions.items
-            .filter((q) => q.data.redirectFlow === flow.name && q.data.redirectNode === oldNode.name)
+            .filter((q) => q.data.redirectNode === oldNode.name)
             .map((q) => {
               q.data.redirectNode = newNode.name
               return q
@@ -0,0 +1,119 @@
+import { QnaItem } from 'common/typings'
+
+import { qnasToRows, rowsToQnas } from './spreadsheet'
+
+const qnas: QnaItem[] = [
+  {
+    id: 'abc_hours',
+    data: {
+      action: 'text',
+      contexts: ['global', 'store'],
+      enabled: false,
+      questions: { en: ['What are your hours?', 'When are you open?'], fr: ['Quelles sont vos heures?'] },
+      answers: {
+        en: {
+          selection: 'roundRobin',
+          variations: [
+            { type: 'text', text: 'From 9 to 5' },
+            { type: 'text', text: 'Line one\nLine two' },
+            { type: 'content', contentId: 'builtin_image-hours' }
+          ]
+        },
+        fr: { selection: 'random', variations: [{ type: 'text', text: 'De 9h à 17h' }] }
+      },
+      redirectFlow: '',
+      redirectNode: ''
+    }
+  },
+  {
+    id: 'def_support',
+    data: {
+      action: 'text_redirect',
+      contexts: ['global'],
+      enabled: true,
+      questions: { en: ['I need help'] },
+      answers: {
+        en: {
+          selection: 'first',
+          variations: [
+            {
+              type: 'choice',
+              text: 'Sure, about what?',
+              choices: [
+                { title: 'Orders', value: 'orders' },
+                { title: 'Returns', value: 'returns' }
+              ]
+            }
+          ]
+        }
+      },
+      redirectFlow: 'support.flow.json',
+      redirectNode: 'entry'
+    }
+  }
+]
+
+describe('QnA spreadsheets', () => {
+  test('reads the rows it exports', () => {
+    const rows = qnasToRows(qnas, ['en', 'fr'])
+
+    expect(rows[0]).toEqual([
+      'id',
+      'questions_en',
+      'answers_en',
+      'selection_en',
+      'questions_fr',
+      'answers_fr',
+      'selection_fr',
+      'contexts',
+      'enabled',
+      'redirectFlow',
+      'redirectNode'
+    ])
+    expect(rows[1][2]).toBe('From 9 to 5\n---\nLine one\nLine two\n---\n#!builtin_image-hours')
+    expect(rowsToQnas(rows, ['en', 'fr'])).toEqual({ questions: qnas, rowErrors: [] })
+  })
+
+  test('reports invalid rows and unknown columns', () => {
+    const rows = [
+      ['id', 'questions_en', 'answers_en', 'selection_en', 'answers_de', 'enabled', 'redirectNode', 'notes'],
+      ['', 'Hello', 'Hi!', '', '', 'yes', '', ''],
+      ['a', '', 'Hi!', '', '', 'maybe', 'entry', ''],
+      ['b', 'Bye', '', '', '', '', '', ''],
+      ['c', 'Help', '{"type":"card"}', 'sometimes', '', '', '', '']
+    ]
+
+    const { questions, rowErrors } = rowsToQnas(rows, ['en'])
+
+    expect(questions).toEqual([
+      {
+        id: undefined,
+        data: expect.objectContaining({
+          action: 'text',
+          enabled: true,
+          questions: { en: ['Hello'] },
+          answers: { en: { selection: 'random', variations: [{ type: 'text', text: 'Hi!' }] } }
+        })
+      }
+    ])
+    expect(rowErrors).toEqual([
+      { row: 1, errors: [expect.stringContaining('answers_de'), 'Unknown column "notes"'] },
+      {
+        row: 3,
+        errors: [
+          '"maybe" isn\'t a valid value for "enabled", use true or false',
+          'There must be at least one question',
+          'A redirection to a node requires a flow'
+        ]
+      },
+      { row: 4, errors: ['There must be at least one answer or a redirection to a flow'] },
+      {
+        row: 5,
+        errors: [
+          'Answer 1 in "en" isn\'t a valid text, content reference or rich answer',
+          '"sometimes" isn\'t a valid selection for "en", use random, roundRobin, first'
+        ]
+      }
+    ])
+  })
+})
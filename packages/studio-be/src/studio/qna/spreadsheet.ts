@@ -0,0 +1,193 @@
+import {
+  ANSWER_SELECTIONS,
+  createAnswer,
+  DEFAULT_ANSWER_SELECTION,
+  editableVariationToString,
+  isEditableVariation,
+  toVariation
+} from 'common/qna-answers'
+import { QnaAnswerSelection, QnaAnswerVariation, QnaEntry, QnaImportRowError, QnaItem } from 'common/typings'
+import Joi from 'joi'
+import _ from 'lodash'
+
+import { AnswerVariationSchema } from './validation'
+
+/** Items without an id are inserted as new QnAs */
+export type ImportedQnaItem = Omit<QnaItem, 'id'> & { id?: string }
+
+const QUESTIONS_PREFIX = 'questions_'
+const ANSWERS_PREFIX = 'answers_'
+const SELECTION_PREFIX = 'selection_'
+const LANGUAGE_PREFIXES = [QUESTIONS_PREFIX, ANSWERS_PREFIX, SELECTION_PREFIX]
+const BASE_COLUMNS = ['id', 'contexts', 'enabled', 'redirectFlow', 'redirectNode']
+/** Answers can span several lines, so they are separated by a line containing only dashes */
+const ANSWER_SEPARATOR = '\n---\n'
+const ANSWER_SEPARATOR_REGEX = /\r?\n\s*-{3,}\s*(?:\r?\n|$)/
+const TRUE_VALUES = ['true', 'yes', '1']
+const FALSE_VALUES = ['false', 'no', '0']
+
+const splitLines = (value: string = '') =>
+  value
+    .split(/\r?\n/)
+    .map((x) => x.trim())
+    .filter(Boolean)
+
+const splitAnswers = (value: string = '') =>
+  value
+    .split(ANSWER_SEPARATOR_REGEX)
+    .map((x) => x.trim())
+    .filter(Boolean)
+
+/** Texts and content element references are written as is, other variations as JSON */
+const variationToCell = (variation: QnaAnswerVariation) =>
+  isEditableVariation(variation) ? editableVariationToString(variation) : JSON.stringify(variation)
+
+const cellToVariation = (value: string): QnaAnswerVariation | undefined => {
+  if (!value.startsWith('{')) {
+    return toVariation(value)
+  }
+
+  try {
+    const { error, value: variation } = Joi.validate(JSON.parse(value), AnswerVariationSchema)
+    return error ? undefined : variation
+  } catch (err) {
+    return undefined
+  }
+}
+
+export const getQnaAction = (hasAnswers: boolean, hasRedirect: boolean): QnaEntry['action'] =>
+  hasAnswers && hasRedirect ? 'text_redirect' : hasRedirect ? 'redirect' : 'text'
+
+/**
+ * Converts QnAs to rows with a questions, an answers and a selection column for each language, one question per line
+ */
+export const qnasToRows = (qnas: QnaItem[], languages: string[]): string[][] => {
+  const header = [
+    'id',
+    ..._.flatMap(languages, (lang) => LANGUAGE_PREFIXES.map((prefix) => `${prefix}${lang}`)),
+    ...BASE_COLUMNS.slice(1)
+  ]
+
+  const rows = qnas.map(({ id, data }) => [
+    id,
+    ..._.flatMap(languages, (lang) => [
+      (data.questions[lang] || []).join('\n'),
+      (data.answers[lang]?.variations || []).map(variationToCell).join(ANSWER_SEPARATOR),
+      data.answers[lang]?.selection || ''
+    ]),
+    (data.contexts || []).join(', '),
+    String(data.enabled),
+    data.redirectFlow || '',
+    data.redirectNode || ''
+  ])
+
+  return [header, ...rows]
+}
+
+/**
+ * Reads the QnAs of spreadsheet rows, the first one being the header. Unknown columns are reported on the
+ * header and ignored, invalid rows are reported and skipped
+ */
+export const rowsToQnas = (
+  rows: string[][],
+  languages: string[]
+): { questions: ImportedQnaItem[]; rowErrors: QnaImportRowError[] } => {
+  const [header = [], ...dataRows] = rows
+  const columns = header.map((x) => x.trim())
+  const rowErrors: QnaImportRowError[] = []
+
+  const getLanguage = (column: string) => {
+    const prefix = LANGUAGE_PREFIXES.find((x) => column.startsWith(x))
+    return prefix && column.substr(prefix.length)
+  }
+
+  const headerErrors = _.compact(
+    columns.map((column) => {
+      const language = getLanguage(column)
+      if (language === undefined && !BASE_COLUMNS.includes(column)) {
+        return `Unknown column "${column}"`
+      } else if (language !== undefined && !languages.includes(language)) {
+        return `Column "${column}" is for "${language}", which isn't a language of the bot`
+      }
+    })
+  )
+  if (!languages.some((lang) => columns.includes(`${QUESTIONS_PREFIX}${lang}`))) {
+    headerErrors.push(`There must be at least one "${QUESTIONS_PREFIX}<language>" column`)
+  }
+  if (headerErrors.length) {
+    rowErrors.push({ row: 1, errors: headerErrors })
+  }
+
+  const ids = new Set<string>()
+  const questions: ImportedQnaItem[] = []
+
+  dataRows.forEach((cells, index) => {
+    const values = _.zipObject(
+      columns,
+      cells.map((x) => x ?? '')
+    )
+    const errors: string[] = []
+    const data: QnaEntry = {
+      action: 'text',
+      contexts: (values.contexts || '')
+        .split(',')
+        .map((x) => x.trim())
+        .filter(Boolean),
+      enabled: true,
+      questions: {},
+      answers: {},
+      redirectFlow: (values.redirectFlow || '').trim(),
+      redirectNode: (values.redirectNode || '').trim()
+    }
+
+    for (const lang of languages) {
+      const langQuestions = splitLines(values[`${QUESTIONS_PREFIX}${lang}`])
+      const langAnswers = splitAnswers(values[`${ANSWERS_PREFIX}${lang}`])
+      const selection = (values[`${SELECTION_PREFIX}${lang}`] || '').trim() || DEFAULT_ANSWER_SELECTION
+      langQuestions.length && (data.questions[lang] = langQuestions)
+
+      const variations = langAnswers.map(cellToVariation)
+      variations.forEach((variation, i) => {
+        !variation && errors.push(`Answer ${i + 1} in "${lang}" isn't a valid text, content reference or rich answer`)
+      })
+      if (!ANSWER_SELECTIONS.includes(selection as QnaAnswerSelection)) {
+        errors.push(`"${selection}" isn't a valid selection for "${lang}", use ${ANSWER_SELECTIONS.join(', ')}`)
+      }
+      langAnswers.length && (data.answers[lang] = createAnswer(_.compact(variations), selection as QnaAnswerSelection))
+    }
+
+    const enabled = (values.enabled || '').trim().toLowerCase()
+    if (FALSE_VALUES.includes(enabled)) {
+      data.enabled = false
+    } else if (enabled && !TRUE_VALUES.includes(enabled)) {
+      errors.push(`"${values.enabled}" isn't a valid value for "enabled", use true or false`)
+    }
+
+    const hasAnswers = !_.isEmpty(data.answers)
+    data.action = getQnaAction(hasAnswers, !!data.redirectFlow)
+
+    if (_.isEmpty(data.questions)) {
+      errors.push('There must be at least one question')
+    }
+    if (!hasAnswers && !data.redirectFlow) {
+      errors.push('There must be at least one answer or a redirection to a flow')
+    }
+    if (data.redirectNode && !data.redirectFlow) {
+      errors.push('A redirection to a node requires a flow')
+    }
+
+    const id = (values.id || '').trim() || undefined
+    if (id && ids.has(id)) {
+      errors.push(`The id "${id}" is used by a previous row`)
+    }
+
+    if (errors.length) {
+      rowErrors.push({ row: index + 2, errors })
+    } else {
+      id && ids.add(id)
+      questions.push({ id, data })
+    }
+  })
+
+  return { questions, rowErrors }
+}
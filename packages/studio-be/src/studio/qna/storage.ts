@@ -1,11 +1,16 @@
 import * as sdk from 'botpress/sdk'
-import { QnaEntry, QnaItem } from 'common/typings'
+import { CONTENT_ANSWER_PREFIX, getAnswerContentIds, toQnaAnswers } from 'common/qna-answers'
+import { QnaDuplicateCluster, QnaEntry, QnaFilters, QnaHealthReport, QnaItem, QnaSortOrder } from 'common/typings'
 import { GhostService } from 'core/bpfs'
 
 import _ from 'lodash'
 import { customAlphabet } from 'nanoid'
 import { NLUService } from 'studio/nlu/nlu-service'
 
+import { DuplicateSource, findDuplicateQuestions, mergeQnaEntries } from './duplicates'
+import { getQnaHealth, HealthContext } from './health'
+import { QnaIndex } from './qna-index'
+
 export const NLU_PREFIX = '__qna__'
 
 const safeId = (length = 10) => customAlphabet('1234567890abcdefghijklmnopqrsuvwxyz', length)()
@@ -14,11 +19,17 @@ const slugify = (s) => (s || '').toLowerCase().replace(/[^a-z0-9]/g, '_')
 
 const getIntentId = (id) => `${NLU_PREFIX}${id}`
 
-const makeID = (qna: QnaEntry) => {
+/** Slots of utterances are replaced by their example value */
+const removeSlots = (utterance: string) => utterance.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+
+export const makeID = (qna: QnaEntry) => {
   const firstQuestion = qna.questions[Object.keys(qna.questions)[0]][0]
   return `${safeId()}_${slugify(firstQuestion).replace(/^_+/, '').substring(0, 50).replace(/_+$/, '')}`
 }
 
+/** Answers in the legacy format are still accepted, e.g. from older exports, API clients or files not migrated yet */
+const withQnaAnswers = (data: QnaEntry): QnaEntry => ({ ...data, answers: toQnaAnswers(data.answers) })
+
 const normalizeQuestions = (questions: string[]) =>
   questions
     .map((q) =>
@@ -33,6 +44,7 @@ export default class Storage {
   private nluService: NLUService
   private bpfs: GhostService
   private logger: sdk.Logger
+  private index: QnaIndex
   public botId: string
 
   constructor(nluService, bpfs, logger, botId) {
@@ -40,12 +52,21 @@ export default class Storage {
     this.bpfs = bpfs
     this.logger = logger
     this.botId = botId
+    this.index = new QnaIndex(
+      botId,
+      () => bpfs.forBot(botId),
+      (id) => this.getQnaItem(id)
+    )
   }
 
   async initialize() {
     await this.syncQnaToNlu()
   }
 
+  onCacheInvalidated(key: string) {
+    this.index.invalidate(key)
+  }
+
   /**
    * Creates QNA intents for each QNA item and cleanup unused qna intents.
    */
@@ -94,7 +115,8 @@ export default class Storage {
     await this.nluService.intents.saveIntent(this.botId, intent)
   }
 
-  async update(data: QnaEntry, id: string): Promise<string> {
+  async update(entry: QnaEntry, id: string): Promise<string> {
+    const data = withQnaAnswers(entry)
     await this.checkForDuplicatedQuestions(data, id)
     if (!id) {
       // Updates only no inserts
@@ -128,9 +150,9 @@ export default class Storage {
     items.forEach(async (item) => {
       if (item.id in qnaMap) {
         this.logger.warn(`Duplicate IDs found in input while batch importing: ${item.id}`)
-        qnaMap[makeID(item.data)] = item.data
+        qnaMap[makeID(item.data)] = withQnaAnswers(item.data)
       } else {
-        qnaMap[item.id] = item.data
+        qnaMap[item.id] = withQnaAnswers(item.data)
       }
     })
 
@@ -166,8 +188,64 @@ export default class Storage {
     if (dupes.length) {
       this.logger
         .forBot(this.botId)
-        .warn(`These questions already exist in another entry: ${dupes.join(', ')}. Please remove duplicates`)
+        .warn(
+          `These questions already exist in another entry: ${dupes
+            .map((x) => x.id)
+            .join(', ')}. Please remove duplicates`
+        )
+    }
+  }
+
+  /**
+   * Finds similar questions among QnAs and against the utterances of the intents of the bot.
+   * Intents generated for QnAs are ignored since they contain the same questions
+   */
+  async findDuplicates(threshold?: number, includeIntents: boolean = true): Promise<QnaDuplicateCluster[]> {
+    const qnas = await this.fetchQNAs()
+    const sources: DuplicateSource[] = qnas.map(({ id, data }) => ({ id, source: 'qna', questions: data.questions }))
+
+    if (includeIntents) {
+      const intents = await this.nluService.intents.getIntents(this.botId)
+      for (const intent of intents.filter((x) => !x.name.startsWith(NLU_PREFIX))) {
+        sources.push({
+          id: intent.name,
+          source: 'intent',
+          questions: _.mapValues(intent.utterances, (utterances) => utterances.map(removeSlots))
+        })
+      }
     }
+
+    return findDuplicateQuestions(sources, threshold)
+  }
+
+  /**
+   * Checks the QnAs against the flows and languages of the bot and the utterances of its intents
+   */
+  async getHealth(context: Omit<HealthContext, 'intents'>): Promise<QnaHealthReport> {
+    const qnas = await this.fetchQNAs()
+    const intents = await this.nluService.intents.getIntents(this.botId)
+
+    return getQnaHealth(qnas, {
+      ...context,
+      intents: intents
+        .filter((x) => !x.name.startsWith(NLU_PREFIX))
+        .map(({ name, utterances }) => ({ name, utterances: _.mapValues(utterances, (x) => x.map(removeSlots)) }))
+    })
+  }
+
+  /**
+   * Moves the questions and answers of a QnA to another one, then deletes it
+   */
+  async merge(targetId: string, sourceId: string): Promise<QnaItem> {
+    const target = await this.getQnaItem(targetId)
+    const source = await this.getQnaItem(sourceId)
+    const data = mergeQnaEntries(target.data, source.data)
+
+    // The source is deleted first so its questions aren't reported as duplicates of the target
+    await this.delete(sourceId)
+    await this.update(data, targetId)
+
+    return { id: targetId, data }
   }
 
   /**
@@ -184,75 +262,37 @@ export default class Storage {
   async getQnaItem(id: string): Promise<QnaItem> {
     const filename = `${id}.json`
 
-    const data = await this.bpfs.forBot(this.botId).readFileAsObject('./qna', filename)
+    const item = this.migrate_11_2_to_11_3(await this.bpfs.forBot(this.botId).readFileAsObject('./qna', filename))
 
-    return this.migrate_11_2_to_11_3(data)
+    return { ...item, data: withQnaAnswers(item.data) }
   }
 
-  async fetchQNAs(opts?: sdk.Paging) {
+  async fetchQNAs(opts?: sdk.Paging): Promise<QnaItem[]> {
     try {
-      let questions = await this.bpfs.forBot(this.botId).directoryListing('./qna', '*.json')
-      if (opts && opts.count) {
-        questions = questions.slice(opts.start, opts.start + opts.count)
-      }
-
-      return Promise.map(questions, (itemName) => this.getQnaItem(itemName.replace(/\.json$/i, '')))
+      const { items } = await this.index.query({}, undefined, { offset: opts?.start, limit: opts?.count })
+      return items
     } catch (err) {
       this.logger.warn(`Error while reading questions. ${err}`)
       return []
     }
   }
 
-  async filterByContextsAndQuestion(question: string, filteredContexts: string[]) {
-    const allQuestions = await this.fetchQNAs()
-    const filteredQuestions = allQuestions.filter((q) => {
-      const { questions, contexts } = q.data
-
-      const hasMatch =
-        Object.values(questions)
-          .reduce((a, b) => a.concat(b), [])
-          .join('\n')
-          .toLowerCase()
-          .indexOf(question.toLowerCase()) !== -1
-
-      if (!filteredContexts.length) {
-        return hasMatch || q.id.includes(question)
-      }
-
-      if (!question) {
-        return !!_.intersection(contexts, filteredContexts).length
-      }
-      return hasMatch && !!_.intersection(contexts, filteredContexts).length
-    })
-
-    return filteredQuestions.reverse()
-  }
-
+  /**
+   * Lists the items matching the filters. A limit of 0 returns all of them
+   */
   async getQuestions(
-    { question = '', filteredContexts = [] }: any,
-    { limit = 50, offset = 0 }
+    filters: QnaFilters,
+    { limit = 50, offset = 0 }: { limit?: number; offset?: number },
+    sortOrder?: QnaSortOrder
   ): Promise<{ items: QnaItem[]; count: number }> {
-    let items: QnaItem[] = []
-    let count = 0
-
-    if (!(question || filteredContexts.length)) {
-      items = await this.fetchQNAs({
-        start: +offset,
-        count: +limit
-      })
-      count = await this.count()
-    } else {
-      const tmpQuestions = await this.filterByContextsAndQuestion(question, filteredContexts)
-      items = tmpQuestions.slice(offset, offset + limit)
-      count = tmpQuestions.length
-    }
-    return { items, count }
+    return this.index.query(filters, sortOrder, { offset: +offset, limit: +limit })
   }
 
   async getAllContentElementIds(list?: QnaItem[]): Promise<string[]> {
     const qnas = list || (await this.fetchQNAs())
-    const allAnswers = _.flatMapDeep(qnas, (qna) => Object.values(qna.data.answers))
-    return _.uniq(_.filter(allAnswers as string[], (x) => _.isString(x) && x.startsWith('#!')))
+    return _.uniq(_.flatMap(qnas, (qna) => getAnswerContentIds(qna.data.answers))).map(
+      (id) => `${CONTENT_ANSWER_PREFIX}${id}`
+    )
   }
 
   async getContentElementUsage(): Promise<any> {
@@ -261,9 +301,8 @@ export default class Storage {
     return _.reduce(
       qnas,
       (result, qna) => {
-        const answers = _.flatMap(Object.values(qna.data.answers))
-
-        _.filter(answers, (x) => x.startsWith('#!')).forEach((answer) => {
+        getAnswerContentIds(qna.data.answers).forEach((contentId) => {
+          const answer = `${CONTENT_ANSWER_PREFIX}${contentId}`
           const values = result[answer]
           if (values) {
             values.count++
@@ -278,8 +317,7 @@ export default class Storage {
   }
 
   async count() {
-    const questions = await this.fetchQNAs()
-    return questions.length
+    return this.index.count()
   }
 
   // TODO remove batch deleter, it's done one by one anyway
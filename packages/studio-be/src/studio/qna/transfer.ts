@@ -1,19 +1,92 @@
 import * as sdk from 'botpress/sdk'
-import { QnaItem } from 'common/typings'
+import { toQnaAnswers } from 'common/qna-answers'
+import {
+  QnaEntry,
+  QnaExportFormat,
+  QnaImportAction,
+  QnaImportItemError,
+  QnaImportPhase,
+  QnaImportRowError,
+  QnaItem
+} from 'common/typings'
 import { CMSService } from 'core/cms'
+import { parseCsv, toCsv } from 'core/misc/csv'
+import { parseXlsx, toXlsx } from 'core/misc/xlsx'
+import { BadRequestError } from 'core/routers/errors'
 import { validate } from 'joi'
 import _ from 'lodash'
+import path from 'path'
 
-import Storage from './storage'
+import { qnasToRows, rowsToQnas } from './spreadsheet'
+import Storage, { makeID } from './storage'
 import { QnaItemArraySchema, QnaItemCmsArraySchema } from './validation'
 
 const debug = DEBUG('qna:import')
 
 type ContentData = Pick<sdk.ContentElement, 'id' | 'contentType' | 'formData'>
 
-interface ImportData {
+export interface ImportData {
   questions?: QnaItem[]
   content?: ContentData[]
+  rowErrors?: QnaImportRowError[]
+}
+
+export interface ImportProgress {
+  phase: QnaImportPhase
+  processed: number
+  total: number
+  itemErrors: QnaImportItemError[]
+}
+
+/** Questions as they were before an import, they are restored when it fails or is cancelled */
+export interface ImportSnapshot {
+  /** Questions which the import can overwrite or delete */
+  items: QnaItem[]
+  /** Questions of the import which didn't exist before */
+  createdIds: string[]
+}
+
+interface ImportOptions {
+  action: QnaImportAction
+  snapshot: ImportSnapshot
+  /** Progress of an interrupted import, the items it processed are skipped */
+  resumeFrom?: ImportProgress
+  onProgress: (progress: ImportProgress) => Promise<void>
+  isCancelled: () => Promise<boolean>
+  /** Recorded as the creator of the content elements */
+  userEmail?: string
+}
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('The import was cancelled')
+  }
+}
+
+interface UploadedFile {
+  originalname: string
+  buffer: Buffer
+}
+
+export const EXPORT_FORMATS: QnaExportFormat[] = ['json', 'csv', 'xlsx']
+const PHASES: QnaImportPhase[] = ['content', 'questions', 'clearing']
+
+/** Files are read as JSON unless they have the extension of a spreadsheet format */
+const getFileFormat = (fileName: string): QnaExportFormat => {
+  const extension = path
+    .extname(fileName || '')
+    .substr(1)
+    .toLowerCase()
+  return extension === 'csv' || extension === 'xlsx' ? extension : 'json'
+}
+
+/** Imported questions are enabled and their answers converted to variations when they use the legacy format */
+const prepareQuestions = (questions: QnaItem[]) => {
+  for (const qnaItem of questions) {
+    qnaItem.data.enabled = true
+    qnaItem.data.answers = toQnaAnswers(qnaItem.data.answers)
+  }
+  return questions
 }
 
 export const prepareImport = async (parsedJson: any): Promise<ImportData> => {
@@ -22,14 +95,14 @@ export const prepareImport = async (parsedJson: any): Promise<ImportData> => {
       contentElements: ContentData[]
       qnas: QnaItem[]
     }
-    return { questions: result.qnas, content: result.contentElements }
+    return { questions: prepareQuestions(result.qnas), content: result.contentElements }
   } catch (err) {
     debug("New format doesn't match provided file %o", { err })
   }
 
   try {
     const result = (await validate(parsedJson, QnaItemArraySchema)) as QnaItem[]
-    return { questions: result, content: undefined }
+    return { questions: prepareQuestions(result), content: undefined }
   } catch (err) {
     debug("Old format doesn't match provided file %o", { err })
   }
@@ -37,48 +110,151 @@ export const prepareImport = async (parsedJson: any): Promise<ImportData> => {
   return {}
 }
 
+/**
+ * Reads an uploaded JSON export or spreadsheet. Spreadsheets never contain content elements and
+ * their invalid rows are returned as errors instead of questions. Every question gets an id before
+ * the import starts, so it can be resumed without duplicating questions
+ */
+export const prepareFileImport = async (file: UploadedFile, languages: string[]): Promise<ImportData> => {
+  const format = getFileFormat(file.originalname)
+
+  let content: any
+  try {
+    content =
+      format === 'json'
+        ? JSON.parse(file.buffer.toString('utf8'))
+        : format === 'csv'
+        ? parseCsv(file.buffer.toString('utf8'))
+        : parseXlsx(file.buffer)
+  } catch (err) {
+    throw new BadRequestError(`The ${format.toUpperCase()} file could not be read: ${err.message}`)
+  }
+
+  const { questions, ...data } = format === 'json' ? await prepareImport(content) : rowsToQnas(content, languages)
+
+  return {
+    ...data,
+    questions: questions?.map((item) => ({ ...item, id: item.id || makeID(item.data) }))
+  }
+}
+
+/**
+ * Takes the snapshot of the questions before anything is saved. It is kept with the import, so the questions
+ * saved before an interruption are also rolled back after a resume
+ */
+export const takeImportSnapshot = async (
+  data: ImportData,
+  storage: Storage,
+  action: QnaImportAction
+): Promise<ImportSnapshot> => {
+  const previousItems = await storage.fetchQNAs()
+  const previousIds = new Set(previousItems.map((x) => x.id))
+  const importedIds = new Set((data.questions || []).map((x) => x.id))
+
+  return {
+    items: action === 'clear_insert' ? previousItems : previousItems.filter((x) => importedIds.has(x.id)),
+    createdIds: [...importedIds].filter((id) => !previousIds.has(id))
+  }
+}
+
+/**
+ * Restores the questions of the snapshot. Those which are already in their previous state are left untouched
+ */
+export const rollbackImport = async (snapshot: ImportSnapshot, storage: Storage) => {
+  const currentItems = _.keyBy(await storage.fetchQNAs(), (x) => x.id)
+
+  await storage.delete(snapshot.createdIds.filter((id) => currentItems[id]))
+
+  const changedItems = snapshot.items.filter((x) => !_.isEqual(currentItems[x.id], x))
+  if (changedItems.length) {
+    await storage.upsertItem(changedItems)
+  }
+}
+
+/**
+ * Saves content elements, then questions, then deletes the previous questions with clear_insert. Items which
+ * can't be saved are reported and skipped. When the import fails or is cancelled, questions are restored to
+ * their state before the import (content elements are kept)
+ */
 export const importQuestions = async (
   data: ImportData,
-  storage,
+  storage: Storage,
   cmsService: CMSService,
-  statusCallback,
-  uploadStatusId
-) => {
-  statusCallback(uploadStatusId, 'Calculating diff with existing questions')
-
-  const { questions, content } = data
-  if (!questions) {
-    return
-  }
+  options: ImportOptions
+): Promise<QnaImportItemError[]> => {
+  const { questions = [], content = [] } = data
+  const { resumeFrom, snapshot } = options
+  const itemErrors = [...(resumeFrom?.itemErrors || [])]
 
-  if (content) {
-    for (const element of content) {
-      await cmsService.createOrUpdateContentElement(storage.botId, element.contentType, element.formData, element.id)
+  const runPhase = async <T>(phase: QnaImportPhase, items: T[], processItem: (item: T) => Promise<void>) => {
+    if (resumeFrom && PHASES.indexOf(phase) < PHASES.indexOf(resumeFrom.phase)) {
+      return
     }
-  }
 
-  for (const qnaItem of questions) {
-    qnaItem.data.enabled = true
-  }
+    // Deleted questions aren't listed anymore, so deletions always start over
+    const start = resumeFrom?.phase === phase && phase !== 'clearing' ? resumeFrom.processed : 0
+    for (let i = start; i < items.length; i++) {
+      if (await options.isCancelled()) {
+        throw new ImportCancelledError()
+      }
 
-  let questionsSavedCount = 0
-  return Promise.each(questions, async (qnaItem: QnaItem & { data: { category?: string } }) => {
-    // Support for previous QnA
-    if (qnaItem.data.category) {
-      qnaItem.data.contexts = [qnaItem.data.category]
-      delete qnaItem.data.category
+      await processItem(items[i])
+      await options.onProgress({ phase, processed: i + 1, total: items.length, itemErrors })
     }
+  }
 
-    await (storage as Storage).upsertItem(qnaItem)
+  try {
+    await runPhase('content', content, async (element) => {
+      try {
+        await cmsService.createOrUpdateContentElement(
+          storage.botId,
+          element.contentType,
+          element.formData,
+          element.id,
+          undefined,
+          options.userEmail
+        )
+      } catch (err) {
+        itemErrors.push({ id: element.id, errors: [err.message] })
+      }
+    })
 
-    questionsSavedCount += 1
-    statusCallback(
-      uploadStatusId,
-      `Saved ${questionsSavedCount}/${questions.length} question${questions.length === 1 ? '' : 's'}`
-    )
-  })
+    await runPhase('questions', questions, async (qnaItem) => {
+      const data: QnaEntry & { category?: string } = qnaItem.data
+
+      // Support for previous QnA
+      if (data.category) {
+        data.contexts = [data.category]
+        delete data.category
+      }
+
+      try {
+        await storage.upsertItem(qnaItem)
+      } catch (err) {
+        itemErrors.push({ id: qnaItem.id, errors: [err.message] })
+      }
+    })
+
+    if (options.action === 'clear_insert') {
+      const importedIds = new Set(questions.map((x) => x.id))
+      const currentIds = new Set((await storage.fetchQNAs()).map((x) => x.id))
+      const removedItems = snapshot.items.filter((x) => !importedIds.has(x.id) && currentIds.has(x.id))
+
+      await runPhase('clearing', removedItems, async (item) => {
+        await storage.delete(item.id)
+      })
+    }
+  } catch (err) {
+    await rollbackImport(snapshot, storage)
+    throw err
+  }
+
+  return itemErrors
 }
 
+/**
+ * Exports questions with their answer variations, along with the content elements they reference
+ */
 export const prepareExport = async (storage: Storage, cmsService: CMSService) => {
   const qnas = await storage.fetchQNAs()
   const contentElementIds = await storage.getAllContentElementIds()
@@ -90,3 +266,15 @@ export const prepareExport = async (storage: Storage, cmsService: CMSService) =>
 
   return JSON.stringify({ qnas, contentElements }, undefined, 2)
 }
+
+/**
+ * Exports one row per QnA. Answers which are content elements are exported as their reference
+ */
+export const prepareSpreadsheetExport = async (
+  storage: Storage,
+  format: Exclude<QnaExportFormat, 'json'>,
+  languages: string[]
+): Promise<Buffer> => {
+  const rows = qnasToRows(await storage.fetchQNAs(), languages)
+  return format === 'csv' ? Buffer.from(toCsv(rows)) : toXlsx(rows, 'QnA')
+}
@@ -1,5 +1,56 @@
+import { ANSWER_SELECTIONS, DEFAULT_ANSWER_SELECTION } from 'common/qna-answers'
 import Joi from 'joi'
 
+const CardSchema = Joi.object().keys({
+  title: Joi.string().required(),
+  subtitle: Joi.string().allow('').optional(),
+  image: Joi.string().allow('').optional(),
+  actions: Joi.array()
+    .items(
+      Joi.object().keys({
+        title: Joi.string().required(),
+        action: Joi.string().valid('Say something', 'Open URL', 'Postback').required(),
+        text: Joi.string().allow('').optional(),
+        url: Joi.string().allow('').optional(),
+        payload: Joi.string().allow('').optional()
+      })
+    )
+    .default([])
+})
+
+export const AnswerVariationSchema = Joi.alternatives().try(
+  Joi.object().keys({
+    type: Joi.string().valid('text').required(),
+    text: Joi.string().allow('').required()
+  }),
+  Joi.object().keys({
+    type: Joi.string().valid('content').required(),
+    contentId: Joi.string().required()
+  }),
+  CardSchema.keys({
+    type: Joi.string().valid('card').required()
+  }),
+  Joi.object().keys({
+    type: Joi.string().valid('carousel').required(),
+    items: Joi.array().items(CardSchema).min(1).required()
+  }),
+  Joi.object().keys({
+    type: Joi.string().valid('choice').required(),
+    text: Joi.string().required(),
+    choices: Joi.array()
+      .items(Joi.object().keys({ title: Joi.string().required(), value: Joi.string().required() }))
+      .min(1)
+      .required()
+  })
+)
+
+const AnswerSchema = Joi.object().keys({
+  selection: Joi.string()
+    .valid(...ANSWER_SELECTIONS)
+    .default(DEFAULT_ANSWER_SELECTION),
+  variations: Joi.array().items(AnswerVariationSchema).default([])
+})
+
 export const QnaDefSchema = Joi.object().keys({
   action: Joi.string().required(),
   // Keeping optional category for import schema validation
@@ -9,7 +60,10 @@ export const QnaDefSchema = Joi.object().keys({
   redirectFlow: Joi.string().allow('').optional(),
   redirectNode: Joi.string().allow('').optional(),
   questions: Joi.object().pattern(/.*/, Joi.array().items(Joi.string())).default({}),
-  answers: Joi.object().pattern(/.*/, Joi.array().items(Joi.string())).default({})
+  // Answers can still be lists of strings, the format used before variations
+  answers: Joi.object()
+    .pattern(/.*/, Joi.alternatives().try(Joi.array().items(Joi.string()), AnswerSchema))
+    .default({})
 })
 
 const QnaItemSchema = Joi.object().keys({
@@ -0,0 +1,53 @@
+import axios from 'axios'
+
+import { FlowsAPI } from './api'
+
+const FLOW_NAME = 'main.flow.json'
+
+const makeNode = (id: string, x = 0) => ({ id, name: id, x, y: 0, onEnter: [], onReceive: null, next: [] })
+
+const makeState = (synced: any, nodes: any[]) => ({
+  syncedFlows: { [FLOW_NAME]: synced },
+  flowsByName: { [FLOW_NAME]: { ...synced, nodes } }
+})
+
+describe('FlowsAPI.updateFlow', () => {
+  const requests: any[] = []
+  const responses: ((value: any) => void)[] = []
+
+  beforeEach(() => {
+    requests.length = 0
+    responses.length = 0
+    jest.spyOn(axios, 'post').mockImplementation((_url, body: any) => {
+      requests.push(body.changes)
+      return new Promise((resolve) => responses.push(resolve))
+    })
+  })
+
+  afterEach(() => jest.restoreAllMocks())
+
+  test('quick edits of the same user are computed from the version being sent', async () => {
+    const synced = { name: FLOW_NAME, location: FLOW_NAME, nodes: [makeNode('entry')], links: [] }
+
+    const first = FlowsAPI.updateFlow(makeState(synced, [makeNode('entry', 100)]), FLOW_NAME)
+    // The first request didn't complete yet, so the synced version is still the same
+    const second = FlowsAPI.updateFlow(makeState(synced, [makeNode('entry', 100), makeNode('other')]), FLOW_NAME)
+
+    expect(requests).toEqual([[{ type: 'move_node', nodeId: 'entry', x: 100, y: 0 }]])
+
+    responses[0]({ data: { flow: synced, conflicts: [] } })
+    await first
+
+    expect(requests[1]).toEqual([{ type: 'create_node', node: makeNode('other') }])
+
+    responses[1]({ data: { flow: synced, conflicts: [] } })
+    expect(await second).toEqual({ flow: synced, conflicts: [] })
+  })
+
+  test('nothing is sent when the flow did not change', async () => {
+    const synced = { name: FLOW_NAME, location: FLOW_NAME, nodes: [makeNode('entry')], links: [] }
+
+    expect(await FlowsAPI.updateFlow(makeState(synced, synced.nodes), FLOW_NAME)).toBeUndefined()
+    expect(requests).toEqual([])
+  })
+})
@@ -1,19 +1,35 @@
 import axios from 'axios'
 import { Promise as BbPromise } from 'bluebird'
+import { computeFlowChanges } from 'common/flow-changes'
 import { encodeFolderPath } from 'common/http'
+import {
+  FlowBundle,
+  FlowChange,
+  FlowChangesResult,
+  FlowImportResolutions,
+  FlowImportResult,
+  FlowView
+} from 'common/typings'
 import _ from 'lodash'
 
-type DebounceUpdateFunc = ((flow: any, callback: any) => Promise<void>) & _.Cancelable
+type UpdateCallback = (err: any, result?: FlowChangesResult) => void
 
-const DELAY = 1000
+interface QueuedUpdate {
+  flow: FlowView
+  callbacks: UpdateCallback[]
+}
 
 export namespace FlowsAPI {
-  const currentUpdates: _.Dictionary<DebounceUpdateFunc> = {}
+  /** Versions of the flows being sent, the next modifications are computed from them until the server responds */
+  const sentFlows: _.Dictionary<FlowView> = {}
+  /** Modifications made while a flow is being sent, only the latest version of the flow is kept */
+  const queuedUpdates: _.Dictionary<QueuedUpdate> = {}
 
   export const cancelUpdate = (name: string) => {
-    const updater = currentUpdates[name]
-    if (updater) {
-      updater.cancel()
+    const queued = queuedUpdates[name]
+    if (queued) {
+      delete queuedUpdates[name]
+      queued.callbacks.forEach((cb) => cb(undefined))
     }
   }
 
@@ -39,20 +55,51 @@ export namespace FlowsAPI {
     return apiUpdateFlow(previousName, flowDto)
   }
 
-  export const updateFlow = async (flowState: any, name: string) => {
-    const flowsByName = flowState.flowsByName
-    const flow = flowsByName[name]
+  /**
+   * Sends the modifications made to a flow since the last version received from the server. Resolves with the
+   * merged flow, or with nothing when there was nothing to save. Only one request per flow is sent at a time,
+   * modifications made in the meantime are sent together once it completes
+   */
+  export const updateFlow = async (flowState: any, name: string): Promise<FlowChangesResult | undefined> => {
+    const flow: FlowView = toFlowDto(flowState.flowsByName[name], name)
+    const base = sentFlows[name] ?? flowState.syncedFlows[name]
+
+    const queued = queuedUpdates[name]
+    if (!queued && !computeFlowChanges(base, flow).length) {
+      return
+    }
 
-    const flowDto = toFlowDto(flow, name)
+    return BbPromise.fromCallback((cb) => {
+      if (queued) {
+        queued.flow = flow
+        queued.callbacks.push(cb)
+      } else if (sentFlows[name]) {
+        queuedUpdates[name] = { flow, callbacks: [cb] }
+      } else {
+        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+        sendUpdate(name, base, flow, [cb])
+      }
+    })
+  }
 
-    const debounced = currentUpdates[name]
-    if (debounced) {
-      return BbPromise.fromCallback((cb) => debounced(flowDto, cb))
-    }
+  export const fetchRevisions = async (flowName: string) => {
+    return axios.get(`${window.STUDIO_API_PATH}/flows/${encodeFolderPath(flowName)}/history`)
+  }
+
+  export const fetchRevision = async (flowName: string, revisionId: string) => {
+    return axios.get(`${window.STUDIO_API_PATH}/flows/${encodeFolderPath(flowName)}/history/${revisionId}`)
+  }
+
+  export const fetchRevisionDiff = async (flowName: string, revisionId: string) => {
+    return axios.get(`${window.STUDIO_API_PATH}/flows/${encodeFolderPath(flowName)}/history/${revisionId}/diff`)
+  }
+
+  export const restoreRevision = async (flowName: string, revisionId: string) => {
+    return axios.post(`${window.STUDIO_API_PATH}/flows/${encodeFolderPath(flowName)}/history/${revisionId}/restore`)
+  }
 
-    const newDebounce = _.debounce(buildUpdateDebounced(name), DELAY, { leading: true })
-    currentUpdates[name] = newDebounce
-    return BbPromise.fromCallback((cb) => newDebounce(flowDto, cb))
+  export const importBundle = async (bundle: FlowBundle, resolutions: FlowImportResolutions, dryRun: boolean) => {
+    return axios.post<FlowImportResult>(`${window.STUDIO_API_PATH}/flows/import`, { bundle, resolutions, dryRun })
   }
 
   const apiDeleteFlow = async (flowName: string) => {
@@ -69,16 +116,34 @@ export namespace FlowsAPI {
     return axios.post(`${window.STUDIO_API_PATH}/flows/${flowName}`, { flow })
   }
 
-  const buildUpdateDebounced = (flowName: string) => async (f, callback) => {
+  const apiApplyChanges = async (flowName: string, changes: FlowChange[]) => {
+    flowName = encodeFolderPath(flowName)
+    return axios.post(`${window.STUDIO_API_PATH}/flows/${flowName}/changes`, { changes })
+  }
+
+  const sendUpdate = async (name: string, base: FlowView, flow: FlowView, callbacks: UpdateCallback[]) => {
+    sentFlows[name] = flow
+
+    let result: FlowChangesResult | undefined
+    let error: any
     try {
-      await apiUpdateFlow(flowName, f)
-      callback()
-    } catch (err) {
-      const { response } = err
-      // 423 === Mutex locked we don't have anything to do...
-      if (response.status !== 423) {
-        callback(response)
+      const changes = computeFlowChanges(base, flow)
+      if (changes.length) {
+        result = (await apiApplyChanges(name, changes)).data
       }
+    } catch (err) {
+      error = err.response
+    }
+
+    callbacks.forEach((cb) => cb(error, result))
+
+    const queued = queuedUpdates[name]
+    delete queuedUpdates[name]
+    if (queued) {
+      // Modifications which could not be saved are sent again with the queued ones
+      await sendUpdate(name, error ? base : flow, queued.flow, queued.callbacks)
+    } else {
+      delete sentFlows[name]
     }
   }
 
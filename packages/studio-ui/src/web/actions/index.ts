@@ -1,12 +1,21 @@
 import axios from 'axios'
 import * as sdk from 'botpress/sdk'
-import { FlowPoint, FlowView, NodeProblem } from 'common/typings'
+import {
+  FlowChangeConflict,
+  FlowChangesResult,
+  FlowLintProblem,
+  FlowPoint,
+  FlowPresence,
+  FlowRevision,
+  FlowView,
+  NodeProblem
+} from 'common/typings'
 import _ from 'lodash'
 import { nanoid } from 'nanoid'
 import { createAction } from 'redux-actions'
 import { copyName } from '~/util/flows'
 
-import { getDeletedFlows, getDirtyFlows, getModifiedFlows, getNewFlows } from '../reducers/selectors'
+import { getDeletedFlows, getModifiedFlows, getNewFlows } from '../reducers/selectors'
 
 import { FlowsAPI } from './api'
 import BatchRunner from './BatchRunner'
@@ -21,40 +30,26 @@ export default function debounceAction(action: any, delay: number, options?: _.D
 // Flows
 export const receiveFlowsModification = createAction('FLOWS/MODIFICATIONS/RECEIVE')
 
-const MUTEX_UNLOCK_SECURITY_FACTOR = 1.25
-const mutexHandles: _.Dictionary<number> = {}
-
-export const handleReceiveFlowsModification = (modification) => (dispatch, getState) => {
-  const dirtyFlows = getDirtyFlows(getState())
-  const amIModifyingTheSameFlow = dirtyFlows.includes(modification.name)
-  if (amIModifyingTheSameFlow) {
-    FlowsAPI.cancelUpdate(modification.name)
+export const handleReceiveFlowsModification = (modification) => (dispatch) => {
+  if (modification.modification === 'presence') {
+    return dispatch(receiveFlowsPresence(modification.payload))
   }
 
   dispatch(receiveFlowsModification(modification))
   dispatch(refreshFlowsLinks())
-
-  if (_.has(modification, 'payload.currentMutex') && _.has(modification, 'payload.name')) {
-    dispatch(startMutexCountDown(modification.payload))
-  }
 }
 
-const startMutexCountDown = (flow: FlowView) => (dispatch) => {
-  const { name, currentMutex } = flow
-  if (!currentMutex || !currentMutex.remainingSeconds) {
-    return
-  }
-
-  const handle = mutexHandles[name]
-  if (handle) {
-    clearTimeout(handle)
-  }
-  mutexHandles[name] = window.setTimeout(() => {
-    dispatch(clearFlowMutex(name))
-  }, currentMutex.remainingSeconds * 1000 * MUTEX_UNLOCK_SECURITY_FACTOR)
+export const receiveFlowsPresence: (presences: FlowPresence[]) => void = createAction('FLOWS/PRESENCE/RECEIVE')
+export const updateFlowPresence = (flow: string, nodeId?: string) => (dispatch) => {
+  // eslint-disable-next-line @typescript-eslint/no-floating-promises
+  axios.post(`${window.STUDIO_API_PATH}/flows/presence`, { flow, nodeId }).then(({ data }) => {
+    dispatch(receiveFlowsPresence(data))
+  })
 }
 
-export const clearFlowMutex = createAction('FLOWS/MODIFICATIONS/CLEAR_MUTEX')
+export const receiveFlowChanges: (result: FlowChangesResult & { name: string }) => void =
+  createAction('FLOWS/CHANGES/RECEIVE')
+export const receiveSyncedFlow: (flow: FlowView) => void = createAction('FLOWS/SYNCED/RECEIVE')
 
 export const requestFlows = createAction('FLOWS/REQUEST')
 export const receiveFlows = createAction(
@@ -67,18 +62,10 @@ export const fetchFlows = () => (dispatch) => {
   dispatch(requestFlows())
 
   // eslint-disable-next-line @typescript-eslint/no-floating-promises
-  axios
-    .get(`${window.STUDIO_API_PATH}/flows`)
-    .then(({ data }) => {
-      const flows = _.keyBy(data, 'name')
-      dispatch(receiveFlows(flows))
-      return flows
-    })
-    .then((flows) => {
-      for (const flow of _.values(flows)) {
-        dispatch(startMutexCountDown(flow))
-      }
-    })
+  axios.get(`${window.STUDIO_API_PATH}/flows`).then(({ data }) => {
+    const flows = _.keyBy(data, 'name')
+    dispatch(receiveFlows(flows))
+  })
 }
 
 export const receiveSaveFlows = createAction(
@@ -118,17 +105,29 @@ const wrapAction =
       .catch((err) => dispatch(errorAction(err)))
   }
 
-const updateCurrentFlow = async (_payload, state) => {
+const saveFlow = async (flowState, name: string, dispatch) => {
+  const result = await FlowsAPI.updateFlow(flowState, name)
+  if (result) {
+    dispatch(receiveFlowChanges({ name, ...result }))
+  }
+}
+
+const insertFlow = async (flowState, name: string, dispatch) => {
+  await FlowsAPI.createFlow(flowState, name)
+  dispatch(receiveSyncedFlow(flowState.flowsByName[name]))
+}
+
+const updateCurrentFlow = async (_payload, state, dispatch) => {
   const flowState = state.flows
-  return FlowsAPI.updateFlow(flowState, flowState.currentFlow)
+  return saveFlow(flowState, flowState.currentFlow, dispatch)
 }
 
-const saveDirtyFlows = async (state) => {
+const saveDirtyFlows = async (state, dispatch) => {
   const dirtyFlows = getModifiedFlows(state).filter((name) => !!state.flows.flowsByName[name])
 
   const promises = []
   for (const flow of dirtyFlows) {
-    promises.push(FlowsAPI.updateFlow(state.flows, flow))
+    promises.push(saveFlow(state.flows, flow, dispatch))
   }
   return Promise.all(promises)
 }
@@ -137,30 +136,33 @@ export const updateFlow: (flow: Partial<FlowView>) => void = wrapAction(requestU
 
 export const renameFlow: (flow: { targetFlow: string; name: string }) => void = wrapAction(
   requestRenameFlow,
-  async (payload, state) => {
+  async (payload, state, dispatch) => {
     const { targetFlow, name } = payload
     await FlowsAPI.renameFlow(state.flows, targetFlow, name)
-    await saveDirtyFlows(state)
+    await saveDirtyFlows(state, dispatch)
   }
 )
 
-export const createFlow: (name: string) => void = wrapAction(requestCreateFlow, async (payload, state) => {
+export const createFlow: (name: string) => void = wrapAction(requestCreateFlow, async (payload, state, dispatch) => {
   const name = payload
   const flowState = state.flows
-  await FlowsAPI.createFlow(flowState, name)
+  await insertFlow(flowState, name, dispatch)
 })
 
-export const deleteFlow: (flowName: string) => void = wrapAction(requestDeleteFlow, async (payload, state) => {
-  await FlowsAPI.deleteFlow(state.flows, payload)
-  await saveDirtyFlows(state)
-})
+export const deleteFlow: (flowName: string) => void = wrapAction(
+  requestDeleteFlow,
+  async (payload, state, dispatch) => {
+    await FlowsAPI.deleteFlow(state.flows, payload)
+    await saveDirtyFlows(state, dispatch)
+  }
+)
 
 export const duplicateFlow: (flow: { flowNameToDuplicate: string; name: string }) => void = wrapAction(
   requestDuplicateFlow,
-  async (payload, state) => {
+  async (payload, state, dispatch) => {
     const { name } = payload
     const flowState = state.flows
-    await FlowsAPI.createFlow(flowState, name)
+    await insertFlow(flowState, name, dispatch)
   }
 )
 
@@ -171,15 +173,18 @@ export const updateFlowNode: (props: PartialNode | (PartialNode & Pick<Required<
 
 export const createFlowNode: (props: PartialNode) => void = wrapAction(requestCreateFlowNode, updateCurrentFlow)
 
-export const removeFlowNode: (element: any) => void = wrapAction(requestRemoveFlowNode, async (payload, state) => {
-  await updateCurrentFlow(payload, state)
+export const removeFlowNode: (element: any) => void = wrapAction(
+  requestRemoveFlowNode,
+  async (payload, state, dispatch) => {
+    await updateCurrentFlow(payload, state, dispatch)
 
-  // If node is a skill and there's no references to it, then the complete flow is deleted
-  const deletedFlows = getDeletedFlows(state)
-  if (deletedFlows.length) {
-    await FlowsAPI.deleteFlow(state.flows, deletedFlows[0])
+    // If node is a skill and there's no references to it, then the complete flow is deleted
+    const deletedFlows = getDeletedFlows(state)
+    if (deletedFlows.length) {
+      await FlowsAPI.deleteFlow(state.flows, deletedFlows[0])
+    }
   }
-})
+)
 
 export const pasteFlowNode = (payload: { x: number; y: number }) => async (dispatch, getState) => {
   const state = getState()
@@ -210,16 +215,25 @@ export const pasteFlowNode = (payload: { x: number; y: number }) => async (dispa
     const flows = getState().flows
     const flowsByName = flows.flowsByName
     const newFlowKey = Object.keys(flowsByName).find((key) => flowsByName[key].skillData?.randomId === randomId)
-    await FlowsAPI.createFlow(flows, newFlowKey)
+    await insertFlow(flows, newFlowKey, dispatch)
   }
 
   // Paste non-skills
   dispatch(requestPasteFlowNode({ ...payload, nodes: nonSkills }))
-  await updateCurrentFlow(payload, state)
+  await updateCurrentFlow(payload, getState(), dispatch)
   dispatch(refreshFlowsLinks())
 }
 export const pasteFlowNodeElement = wrapAction(requestPasteFlowNodeElement, updateCurrentFlow)
 
+export const requestResolveFlowConflict = createAction('FLOWS/CONFLICT/RESOLVE')
+export const resolveFlowConflict: (resolution: {
+  flow: string
+  conflict: FlowChangeConflict
+  keep: 'mine' | 'theirs'
+}) => void = wrapAction(requestResolveFlowConflict, async (payload, state, dispatch) => {
+  await saveFlow(state.flows, payload.flow, dispatch)
+})
+
 // actions that do not modify flow
 export const switchFlow: (flowName: string) => void = createAction('FLOWS/SWITCH')
 export const switchFlowNode: (nodeId: string) => void = createAction('FLOWS/FLOW/SWITCH_NODE')
@@ -230,6 +244,25 @@ export const handleRefreshFlowLinks = createAction('FLOWS/FLOW/UPDATE_LINKS')
 export const refreshFlowsLinks = debounceAction(handleRefreshFlowLinks, 500, { leading: true })
 export const updateFlowProblems: (problems: NodeProblem[]) => void = createAction('FLOWS/FLOW/UPDATE_PROBLEMS')
 
+export const receiveFlowsLint: (problems: FlowLintProblem[]) => void = createAction('FLOWS/LINT/RECEIVE')
+export const fetchFlowsLint = () => (dispatch) => {
+  // eslint-disable-next-line @typescript-eslint/no-floating-promises
+  axios.get(`${window.STUDIO_API_PATH}/flows/lint`).then(({ data }) => {
+    dispatch(receiveFlowsLint(data))
+  })
+}
+// Flows are saved with a delay, so we wait a bit longer than that before linting them
+export const refreshFlowsLint = debounceAction(fetchFlowsLint, 2000)
+
+export const previewFlowRevision: (revision: FlowRevision) => void = createAction('FLOWS/HISTORY/PREVIEW')
+export const closeFlowRevisionPreview: () => void = createAction('FLOWS/HISTORY/CLOSE_PREVIEW')
+export const restoreFlowRevision = (flowName: string, revisionId: string) => async (dispatch) => {
+  const { data: flow } = await FlowsAPI.restoreRevision(flowName, revisionId)
+
+  dispatch(closeFlowRevisionPreview())
+  dispatch(handleReceiveFlowsModification({ name: flowName, modification: 'update', payload: flow }))
+}
+
 export const copyFlowNodes: (nodeIds: string[]) => void = createAction('FLOWS/NODE/COPY')
 export const copyFlowNodeElement = createAction('FLOWS/NODE_ELEMENT/COPY')
 
@@ -238,14 +271,14 @@ export const handleFlowEditorRedo = createAction('FLOWS/EDITOR/REDO')
 
 export const flowEditorUndo = wrapAction(handleFlowEditorUndo, async (payload, state, dispatch) => {
   dispatch(refreshFlowsLinks())
-  await updateCurrentFlow(payload, state)
-  await createNewFlows(state)
+  await updateCurrentFlow(payload, state, dispatch)
+  await createNewFlows(state, dispatch)
 })
 
 export const flowEditorRedo = wrapAction(handleFlowEditorRedo, async (payload, state, dispatch) => {
   dispatch(refreshFlowsLinks())
-  await updateCurrentFlow(payload, state)
-  await createNewFlows(state)
+  await updateCurrentFlow(payload, state, dispatch)
+  await createNewFlows(state, dispatch)
 })
 
 export const setDiagramAction: (action: string) => void = createAction('FLOWS/FLOW/SET_ACTION')
@@ -317,7 +350,8 @@ export const upsertContentItem =
   () =>
     axios.post(`${window.STUDIO_API_PATH}/cms/${contentType}/element/${modifyId || ''}`, { formData })
 
-export const deleteContentItems = (data) => () => axios.post(`${window.STUDIO_API_PATH}/cms/elements/bulk_delete`, data)
+export const deleteContentItems = (ids: string[], force?: boolean) => () =>
+  axios.post(`${window.STUDIO_API_PATH}/cms/elements/bulk_delete`, ids, { params: { force } })
 export const deleteMedia = (data: sdk.FormData) => () => axios.post(`${window.STUDIO_API_PATH}/media/delete`, data)
 
 // UI
@@ -379,27 +413,24 @@ export const requestUpdateSkill = createAction('SKILLS/UPDATE')
 export const buildNewSkill: ({ location: any, id: string }) => void = createAction('SKILLS/BUILD')
 export const cancelNewSkill = createAction('SKILLS/BUILD/CANCEL')
 
-export const insertNewSkill = wrapAction(requestInsertNewSkill, async (payload, state) => {
-  await updateCurrentFlow(payload, state)
-  await createNewFlows(state)
+export const insertNewSkill = wrapAction(requestInsertNewSkill, async (payload, state, dispatch) => {
+  await updateCurrentFlow(payload, state, dispatch)
+  await createNewFlows(state, dispatch)
 })
 
-const createNewFlows = async (state) => {
+const createNewFlows = async (state, dispatch) => {
   const newFlows: string[] = getNewFlows(state)
   for (const newFlow of newFlows) {
-    await FlowsAPI.createFlow(state.flows, newFlow)
+    await insertFlow(state.flows, newFlow, dispatch)
   }
 }
 
 export const insertNewSkillNode = wrapAction(requestInsertNewSkillNode, updateCurrentFlow)
 
-export const updateSkill = wrapAction(requestUpdateSkill, async (payload, state) => {
+export const updateSkill = wrapAction(requestUpdateSkill, async (payload, state, dispatch) => {
   const { editFlowName } = payload
   const { flows: flowState } = state
-  await Promise.all([
-    FlowsAPI.updateFlow(flowState, editFlowName),
-    FlowsAPI.updateFlow(flowState, flowState.currentFlow)
-  ])
+  await Promise.all([saveFlow(flowState, editFlowName, dispatch), saveFlow(flowState, flowState.currentFlow, dispatch)])
 })
 
 export const editSkill = createAction('SKILLS/EDIT')
@@ -454,14 +485,6 @@ export const refreshIntents = () => (dispatch) => {
   })
 }
 
-export const receiveQNAContentElement = createAction('QNA/CONTENT_ELEMENT')
-export const getQNAContentElementUsage = () => (dispatch) => {
-  // eslint-disable-next-line @typescript-eslint/no-floating-promises
-  axios.get(`${window.STUDIO_API_PATH}/qna/contentElementUsage`).then(({ data }) => {
-    dispatch(receiveQNAContentElement(data))
-  })
-}
-
 export const receiveQNACountByTopic = createAction('QNA/COUNT_BY_TOPIC')
 export const getQnaCountByTopic = () => (dispatch) => {
   // eslint-disable-next-line @typescript-eslint/no-floating-promises
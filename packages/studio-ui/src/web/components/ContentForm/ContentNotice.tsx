@@ -1,19 +1,30 @@
 import { Callout, Intent } from '@blueprintjs/core'
+import axios from 'axios'
 import { lang } from 'botpress/shared'
-import React, { useContext } from 'react'
-import { connect } from 'react-redux'
-import { RootReducer } from '~/reducers'
-import { FlowReducer } from '~/reducers/flows'
+import { ContentUsage } from 'common/typings'
+import React, { useContext, useEffect, useState } from 'react'
 import { WidgetContext } from '../Content/Select/WidgetContext'
-import { getContentItemUsage } from '../Shared/Utils'
 import withLanguage from '../Util/withLanguage'
 
 import style from './style.scss'
 
 /** Displays a warning to user if cms content used in multiple places */
-export function ContentNotice({ flows, qnaUsage }: { flows: FlowReducer; qnaUsage: any }) {
+export function ContentNotice() {
   const { itemId } = useContext(WidgetContext)
-  const usage = itemId ? getContentItemUsage(itemId, flows, qnaUsage) : []
+  const [usage, setUsage] = useState<ContentUsage[]>([])
+
+  useEffect(() => {
+    setUsage([])
+    if (!itemId) {
+      return
+    }
+
+    axios
+      .get(`${window.STUDIO_API_PATH}/cms/elements/${itemId}/usage`)
+      .then(({ data }) => setUsage(data))
+      .catch(() => setUsage([]))
+  }, [itemId])
+
   if (usage.length <= 1) {
     return null
   }
@@ -29,8 +40,4 @@ export function ContentNotice({ flows, qnaUsage }: { flows: FlowReducer; qnaUsag
   )
 }
 
-const mapStateToProps = (state: RootReducer) => ({
-  flows: state.flows,
-  qnaUsage: state.content.qnaUsage
-})
-export default connect(mapStateToProps)(withLanguage(ContentNotice))
+export default withLanguage(ContentNotice)
@@ -45,6 +45,13 @@ const BASIC_MENU_ITEMS = [
     rule: { res: 'module.qna', op: 'write' },
     icon: 'chat'
   },
+  {
+    id: 'code',
+    name: lang.tr('studio.sideBar.code'),
+    path: '/code',
+    rule: { res: 'module.code-editor.bot.actions', op: 'read' },
+    icon: 'code'
+  },
   // {
   //   id: 'libraries',
   //   name: lang.tr('libraries.fullName'),
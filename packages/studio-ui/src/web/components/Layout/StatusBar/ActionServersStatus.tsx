@@ -0,0 +1,73 @@
+import { Colors, Icon } from '@blueprintjs/core'
+import axios from 'axios'
+import { lang, ToolTip } from 'botpress/shared'
+import { ActionServerStatus } from 'common/typings'
+import React, { useEffect, useState } from 'react'
+
+import style from './style.scss'
+
+/** The server polls action servers every 30 seconds, so there's no need to ask more often */
+const REFRESH_INTERVAL = 30000
+
+const getColor = (statuses: ActionServerStatus[]) => {
+  if (statuses.some((x) => x.available === false)) {
+    return Colors.RED5
+  }
+  return statuses.every((x) => x.available) ? Colors.GREEN5 : undefined
+}
+
+const renderStatus = (status: ActionServerStatus) => {
+  if (status.available === undefined) {
+    return lang.tr('statusBar.actionServers.unknown')
+  } else if (!status.available) {
+    return lang.tr('statusBar.actionServers.unavailable', { error: status.lastError })
+  }
+
+  return status.lastError
+    ? lang.tr('statusBar.actionServers.availableWithError', { latency: status.latency, error: status.lastError })
+    : lang.tr('statusBar.actionServers.available', { latency: status.latency })
+}
+
+const ActionServersStatus = () => {
+  const [statuses, setStatuses] = useState<ActionServerStatus[]>([])
+
+  useEffect(() => {
+    const fetchStatuses = async () => {
+      try {
+        const { data } = await axios.get(`${window.STUDIO_API_PATH}/actions/actionServers/status`)
+        setStatuses(data)
+      } catch (err) {} // silent intended, the indicator is only hidden
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchStatuses()
+    const interval = setInterval(fetchStatuses, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!statuses.length) {
+    return null
+  }
+
+  const content = (
+    <div>
+      <strong>{lang.tr('statusBar.actionServers.title')}</strong>
+      {statuses.map((status) => (
+        <div key={status.id}>
+          {status.id}: {renderStatus(status)}
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <ToolTip content={content} position="top">
+      <span className={style.actionServers}>
+        <Icon icon="globe-network" iconSize={12} style={{ color: getColor(statuses) }} />
+        {statuses.filter((x) => x.available).length}/{statuses.length}
+      </span>
+    </ToolTip>
+  )
+}
+
+export default ActionServersStatus
@@ -2,6 +2,7 @@ import _ from 'lodash'
 import React, { FC } from 'react'
 import { connect } from 'react-redux'
 
+import ActionServersStatus from './ActionServersStatus'
 import ConfigStatus from './ConfigStatus'
 import LangSwitcher from './LangSwitcher'
 import style from './style.scss'
@@ -25,6 +26,7 @@ const StatusBar: FC<Props> = (props) => {
       </div>
       <div className={style.item}>
         {props.user && props.user.isSuperAdmin && <ConfigStatus />}
+        <ActionServersStatus />
         <TrainingStatusComponent currentLanguage={props.contentLang} />
       </div>
     </footer>
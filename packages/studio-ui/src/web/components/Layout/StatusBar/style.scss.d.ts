@@ -1,6 +1,7 @@
 // This file is automatically generated.
 // Please do not change this file!
 interface CssExports {
+  'actionServers': string;
   'botName': string;
   'flag': string;
   'flagWrapper': string;
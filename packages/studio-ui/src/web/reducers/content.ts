@@ -7,8 +7,7 @@ import {
   receiveContentItem,
   receiveContentItemsBatched,
   receiveContentItems,
-  receiveContentItemsCount,
-  receiveQNAContentElement
+  receiveContentItemsCount
 } from '~/actions'
 
 export interface ContentReducer {
@@ -16,7 +15,6 @@ export interface ContentReducer {
   currentItems: ContentElement[]
   itemsById: Dictionary<ContentElement>
   itemsCount: number
-  qnaUsage: any
 }
 
 const defaultState: ContentReducer = {
@@ -57,11 +55,6 @@ export default handleActions(
     [receiveContentItemsCount]: (state, { payload }) => ({
       ...state,
       itemsCount: payload.data.count
-    }),
-
-    [receiveQNAContentElement]: (state, { payload }) => ({
-      ...state,
-      qnaUsage: payload
     })
   },
   defaultState
@@ -1,12 +1,22 @@
 import { FlowNode, IO } from 'botpress/sdk'
-import { FlowView } from 'common/typings'
+import { applyFlowChanges, computeFlowChanges } from 'common/flow-changes'
+import {
+  FlowChange,
+  FlowChangeConflict,
+  FlowLintProblem,
+  FlowPresence,
+  FlowProperties,
+  FlowRevision,
+  FlowView,
+  NodeView
+} from 'common/typings'
 import _ from 'lodash'
 import reduceReducers from 'reduce-reducers'
 import { handleActions } from 'redux-actions'
 import {
   clearErrorSaveFlows,
-  clearFlowMutex,
   closeFlowNodeProps,
+  closeFlowRevisionPreview,
   copyFlowNodes,
   copyFlowNodeElement,
   errorSaveFlows,
@@ -14,9 +24,14 @@ import {
   handleFlowEditorUndo,
   handleRefreshFlowLinks,
   openFlowNodeProps,
+  previewFlowRevision,
+  receiveFlowChanges,
   receiveFlows,
+  receiveFlowsLint,
   receiveFlowsModification,
+  receiveFlowsPresence,
   receiveSaveFlows,
+  receiveSyncedFlow,
   requestCreateFlow,
   requestCreateFlowNode,
   requestDeleteFlow,
@@ -28,6 +43,7 @@ import {
   requestPasteFlowNodeElement,
   requestRemoveFlowNode,
   requestRenameFlow,
+  requestResolveFlowConflict,
   requestUpdateFlow,
   requestUpdateFlowNode,
   requestUpdateSkill,
@@ -49,6 +65,13 @@ export interface FlowReducer {
   currentDiagramAction: string
   buffer: { nodes?: FlowNode[] }
   debuggerEvent?: IO.IncomingEvent
+  lintProblems: FlowLintProblem[]
+  /** An older version of the current flow, displayed read-only in the diagram */
+  revisionPreview?: FlowRevision
+  /** The last version of each flow received from the server, local modifications are computed from it */
+  syncedFlows: _.Dictionary<FlowView>
+  presences: FlowPresence[]
+  flowConflicts: _.Dictionary<FlowChangeConflict[]>
 }
 
 const MAX_UNDO_STACK_SIZE = 25
@@ -68,6 +91,11 @@ const defaultState = {
   redoStack: [],
   buffer: { action: null, transition: null, nodes: null },
   flowProblems: [],
+  lintProblems: [],
+  revisionPreview: undefined,
+  syncedFlows: {},
+  presences: [],
+  flowConflicts: {},
   errorSavingFlows: undefined
 }
 
@@ -237,14 +265,55 @@ const doCreateNewFlow = (name) => {
   }
 }
 
-function isActualCreate(state, modification): boolean {
-  return !_.keys(state.flowsByName).includes(modification.name)
+/**
+ * Applies the local modifications which were not saved yet on top of a newer version of the flow. Modifications
+ * in conflict with the newer version are dropped, the server reports them when they are saved.
+ */
+const rebaseFlow = (base: FlowView | undefined, local: FlowView | undefined, remote: FlowView): FlowView => {
+  if (!local) {
+    return remote
+  }
+  return applyFlowChanges(remote, computeFlowChanges(base, local)).flow
+}
+
+const receiveSyncedVersion = (state, name: string, remote: FlowView) => {
+  const flow = rebaseFlow(state.syncedFlows[name], state.flowsByName[name], remote)
+
+  return {
+    ...state,
+    flowsByName: { ...state.flowsByName, [name]: flow },
+    syncedFlows: { ...state.syncedFlows, [name]: remote },
+    currentHashes: { ...state.currentHashes, [name]: computeHashForFlow(flow) },
+    initialHashes: { ...state.initialHashes, [name]: computeHashForFlow(remote) }
+  }
 }
 
-function isActualUpdate(state, modification): boolean {
-  const flowHash = computeHashForFlow(modification.payload)
-  const currentFlowHash = computeHashForFlow(state.flowsByName[modification.name])
-  return currentFlowHash !== flowHash
+/**
+ * Changes the base of a conflicting modification to the current local version, so it overwrites it when applied
+ */
+const forceFlowChange = (flow: FlowView, change: FlowChange): FlowChange => {
+  const findNode = (id: string | undefined) => (flow.nodes as NodeView[]).find((x) => x.id === id)
+
+  if (change.type === 'create_node' || change.type === 'update_node') {
+    const current = findNode(change.node.id)
+    return current
+      ? { type: 'update_node', node: change.node, base: current }
+      : { type: 'create_node', node: change.node }
+  }
+
+  if (change.type === 'delete_node') {
+    return { ...change, base: findNode(change.base.id) || change.base }
+  }
+
+  if (change.type === 'update_flow') {
+    return { ...change, base: <FlowProperties>_.pick(flow, Object.keys(change.properties)) }
+  }
+
+  return change
+}
+
+function isActualCreate(state, modification): boolean {
+  return !_.keys(state.flowsByName).includes(modification.name)
 }
 
 function isActualDelete(state, modification): boolean {
@@ -264,34 +333,15 @@ let reducer = handleActions(
     [receiveFlowsModification]: (state, { payload: modification }) => {
       const modificationType = modification.modification || ''
 
-      const isUpsertFlow =
-        (modificationType === 'create' && isActualCreate(state, modification)) ||
-        (modificationType === 'update' && isActualUpdate(state, modification))
-
-      if (isUpsertFlow) {
-        const newHash = computeHashForFlow(modification.payload)
-
-        return {
-          ...state,
-          flowsByName: {
-            ...state.flowsByName,
-            [modification.name]: modification.payload
-          },
-          currentHashes: {
-            ...state.currentHashes,
-            [modification.name]: newHash
-          },
-          initialHashes: {
-            ...state.initialHashes,
-            [modification.name]: newHash
-          }
-        }
+      if ((modificationType === 'create' && isActualCreate(state, modification)) || modificationType === 'update') {
+        return receiveSyncedVersion(state, modification.name, modification.payload)
       }
 
       if (modificationType === 'delete' && isActualDelete(state, modification)) {
         return {
           ...state,
-          flowsByName: _.omit(state.flowsByName, modification.name)
+          flowsByName: _.omit(state.flowsByName, modification.name),
+          syncedFlows: _.omit(state.syncedFlows, modification.name)
         }
       }
 
@@ -300,9 +350,13 @@ let reducer = handleActions(
         const flowsByName = _.omit(state.flowsByName, modification.name)
         flowsByName[modification.newName] = renamedFlow
 
+        const syncedFlows = _.omit(state.syncedFlows, modification.name)
+        syncedFlows[modification.newName] = state.syncedFlows[modification.name]
+
         return {
           ...state,
-          flowsByName
+          flowsByName,
+          syncedFlows
         }
       }
 
@@ -311,12 +365,29 @@ let reducer = handleActions(
       }
     },
 
-    [clearFlowMutex]: (state, { payload: name }) => ({
-      ...state,
-      flowsByName: {
-        ...state.flowsByName,
-        [name]: _.omit(state.flowsByName[name], 'currentMutex')
+    [receiveFlowChanges as any]: (state, { payload: { name, flow, conflicts } }) => {
+      const newState = receiveSyncedVersion(state, name, flow)
+      if (!conflicts.length) {
+        return newState
       }
+
+      return {
+        ...newState,
+        flowConflicts: {
+          ...state.flowConflicts,
+          [name]: [...(state.flowConflicts[name] || []), ...conflicts]
+        }
+      }
+    },
+
+    [receiveSyncedFlow as any]: (state, { payload: flow }) => ({
+      ...state,
+      syncedFlows: { ...state.syncedFlows, [flow.name]: flow }
+    }),
+
+    [receiveFlowsPresence as any]: (state, { payload }) => ({
+      ...state,
+      presences: payload
     }),
 
     [updateFlowProblems as any]: (state, { payload }) => ({
@@ -324,6 +395,11 @@ let reducer = handleActions(
       flowProblems: payload
     }),
 
+    [receiveFlowsLint as any]: (state, { payload }) => ({
+      ...state,
+      lintProblems: payload
+    }),
+
     [requestFlows]: (state) => ({
       ...state,
       fetchingFlows: true
@@ -338,6 +414,7 @@ let reducer = handleActions(
         ...state,
         fetchingFlows: false,
         flowsByName: payload,
+        syncedFlows: payload,
         currentFlow: state.currentFlow || defaultFlow
       }
       return {
@@ -384,10 +461,23 @@ let reducer = handleActions(
       return {
         ...state,
         currentFlowNode: null,
-        currentFlow: payload
+        currentFlow: payload,
+        revisionPreview: undefined
       }
     },
 
+    [previewFlowRevision as any]: (state, { payload }) => ({
+      ...state,
+      currentFlowNode: null,
+      showFlowNodeProps: false,
+      revisionPreview: payload
+    }),
+
+    [closeFlowRevisionPreview as any]: (state) => ({
+      ...state,
+      revisionPreview: undefined
+    }),
+
     [setDiagramAction as any]: (state, { payload }) => ({
       ...state,
       currentDiagramAction: payload
@@ -418,9 +508,36 @@ reducer = reduceReducers(
           newName: name,
           flows: _.values(state.flowsByName)
         }),
+        syncedFlows: state.syncedFlows[targetFlow]
+          ? {
+              ..._.omit(state.syncedFlows, targetFlow),
+              [name]: { ...state.syncedFlows[targetFlow], name, location: name }
+            }
+          : state.syncedFlows,
         currentFlow: name
       }),
 
+      [requestResolveFlowConflict]: (state, { payload: { flow: name, conflict, keep } }) => {
+        const flowConflicts = {
+          ...state.flowConflicts,
+          [name]: (state.flowConflicts[name] || []).filter((x) => x !== conflict)
+        }
+
+        const flow = state.flowsByName[name]
+        if (keep === 'theirs' || !flow) {
+          return { ...state, flowConflicts }
+        }
+
+        return {
+          ...state,
+          flowConflicts,
+          flowsByName: {
+            ...state.flowsByName,
+            [name]: applyFlowChanges(flow, [forceFlowChange(flow, conflict.change)]).flow
+          }
+        }
+      },
+
       [requestUpdateFlow]: (state, { payload }) => {
         const currentFlow = state.flowsByName[state.currentFlow]
         const nodes = !payload.links
@@ -848,6 +965,7 @@ reducer = reduceReducers(
 
       [requestUpdateFlow]: updateCurrentHash,
       [requestRenameFlow]: updateCurrentHash,
+      [requestResolveFlowConflict]: updateCurrentHash,
       [requestUpdateFlowNode]: updateCurrentHash,
 
       [requestCreateFlowNode]: updateCurrentHash,
@@ -1,11 +1,12 @@
 import { FlowNode } from 'botpress/sdk'
-import { FlowView } from 'common/typings'
+import { FlowRevision, FlowView } from 'common/typings'
 import _ from 'lodash'
 import { createSelector } from 'reselect'
 
 const _getFlowsByName = (state) => state.flows?.flowsByName
 const _getCurrentFlow = (state) => state.flows?.currentFlow
 const _getCurrentFlowNode = (state) => state.flows?.currentFlowNode
+const _getRevisionPreview = (state) => state.flows?.revisionPreview
 const _getCurrentHashes = (state) => state.flows.currentHashes
 const _getInitialHashes = (state) => state.flows.initialHashes
 
@@ -35,9 +36,15 @@ export const getFlowNamesList = createSelector([getAllFlows], (flows) => {
   })
 })
 
-export const getCurrentFlow = createSelector([_getFlowsByName, _getCurrentFlow], (flowsByName, currFlow): FlowView => {
-  return flowsByName[currFlow]
-})
+export const getCurrentFlow = createSelector(
+  [_getFlowsByName, _getCurrentFlow, _getRevisionPreview],
+  (flowsByName, currFlow, preview: FlowRevision | undefined): FlowView => {
+    if (preview && preview.flow === currFlow) {
+      return { ...preview.snapshot, name: currFlow, location: currFlow }
+    }
+    return flowsByName[currFlow]
+  }
+)
 
 export const getCurrentFlowNode = createSelector(
   [getCurrentFlow, _getCurrentFlowNode],
@@ -0,0 +1,98 @@
+import MonacoEditor, { loader, Monaco } from '@monaco-editor/react'
+import React, { FC, useEffect, useRef } from 'react'
+
+import { VariableHint } from './client'
+import { getCompletions, getParamNames } from './completion'
+
+// Monaco is served with the studio instead of from a CDN, so the editor also loads when the studio is offline
+loader.config({ paths: { vs: 'assets/studio/ui/public/monaco/vs' } })
+
+interface Props {
+  code: string
+  hints: VariableHint[]
+  onChange: (code: string) => void
+  onSave: () => void
+}
+
+/**
+ * Actions are run inside an async function with these variables, so they are declared for the type checker
+ */
+const ACTION_GLOBALS = `
+declare const event: any
+declare const user: any
+declare const temp: any
+declare const session: any
+declare const args: any
+declare const bp: any
+`
+
+export const ActionEditor: FC<Props> = (props) => {
+  // The provider is registered once, so it reads the latest props from here
+  const propsRef = useRef(props)
+  propsRef.current = props
+  const disposables = useRef<{ dispose: () => void }[]>([])
+
+  useEffect(() => () => disposables.current.forEach((x) => x.dispose()), [])
+
+  const handleBeforeMount = (monaco: Monaco) => {
+    monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions({
+      noSemanticValidation: true,
+      // Actions can use await and return at the top level
+      diagnosticCodesToIgnore: [1108, 1375, 1378]
+    })
+
+    disposables.current.push(
+      monaco.languages.typescript.javascriptDefaults.addExtraLib(ACTION_GLOBALS, 'action-globals.d.ts'),
+      monaco.languages.registerCompletionItemProvider('javascript', {
+        triggerCharacters: ['.'],
+        provideCompletionItems: (model, position) => {
+          const textBeforeCursor = model.getValueInRange({
+            startLineNumber: position.lineNumber,
+            startColumn: 1,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column
+          })
+          const word = model.getWordUntilPosition(position)
+          const range = {
+            startLineNumber: position.lineNumber,
+            endLineNumber: position.lineNumber,
+            startColumn: word.startColumn,
+            endColumn: word.endColumn
+          }
+
+          const { hints } = propsRef.current
+          const completions = getCompletions(textBeforeCursor, hints, getParamNames(model.getValue()))
+
+          return {
+            suggestions: completions.map(({ label, detail, isObject }) => ({
+              label,
+              detail,
+              kind: isObject
+                ? monaco.languages.CompletionItemKind.Module
+                : monaco.languages.CompletionItemKind.Variable,
+              insertText: label,
+              range
+            }))
+          }
+        }
+      })
+    )
+  }
+
+  const handleMount = (editor, monaco: Monaco) => {
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => propsRef.current.onSave())
+    editor.focus()
+  }
+
+  return (
+    <MonacoEditor
+      language="javascript"
+      theme="vs-light"
+      value={props.code}
+      options={{ minimap: { enabled: false }, fontSize: 13, tabSize: 2, scrollBeyondLastLine: false }}
+      beforeMount={handleBeforeMount}
+      onMount={handleMount}
+      onChange={(value) => props.onChange(value || '')}
+    />
+  )
+}
@@ -0,0 +1,178 @@
+import {
+  Button,
+  Checkbox,
+  Classes,
+  Dialog,
+  FormGroup,
+  HTMLSelect,
+  InputGroup,
+  Intent,
+  Radio,
+  RadioGroup
+} from '@blueprintjs/core'
+import { lang } from 'botpress/shared'
+import { ActionScope } from 'common/typings'
+import React, { FC, useEffect, useState } from 'react'
+import { AccessControl } from '~/components/Shared/Utils'
+
+import { NewAction } from './client'
+import style from './style.scss'
+
+interface Props {
+  isOpen: boolean
+  onSubmit: (scope: ActionScope, action: NewAction) => Promise<void>
+  onClose: () => void
+}
+
+type Param = NewAction['metadata']['params'][number]
+
+const PARAM_TYPES = ['string', 'number', 'boolean', 'any']
+
+const ACTION_NAME_REGEX = /^[\w-]+(\/[\w-]+)*$/
+const PARAM_NAME_REGEX = /^[a-zA-Z_$][\w$]*$/
+
+const createParam = (): Param => ({ name: '', type: 'string', required: true, description: '' })
+
+export const NewActionModal: FC<Props> = (props) => {
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState<ActionScope>('bot')
+  const [legacy, setLegacy] = useState(true)
+  const [title, setTitle] = useState('')
+  const [category, setCategory] = useState('')
+  const [description, setDescription] = useState('')
+  const [params, setParams] = useState<Param[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (props.isOpen) {
+      setName('')
+      setScope('bot')
+      setLegacy(true)
+      setTitle('')
+      setCategory('')
+      setDescription('')
+      setParams([])
+    }
+  }, [props.isOpen])
+
+  const updateParam = (index: number, changes: Partial<Param>) =>
+    setParams(params.map((param, i) => (i === index ? { ...param, ...changes } : param)))
+
+  const submit = async (e) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      await props.onSubmit(scope, {
+        name,
+        legacy: scope === 'global' || legacy,
+        metadata: { title, category, description, params: params.filter((x) => x.name) }
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isValid = ACTION_NAME_REGEX.test(name) && params.every((x) => !x.name || PARAM_NAME_REGEX.test(x.name))
+
+  return (
+    <Dialog
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      transitionDuration={0}
+      icon="add"
+      title={lang.tr('actionEditor.new.title')}
+      style={{ width: 600 }}
+    >
+      <form onSubmit={submit}>
+        <div className={Classes.DIALOG_BODY}>
+          <FormGroup label={lang.tr('name')} helperText={lang.tr('actionEditor.new.nameHelp')}>
+            <InputGroup
+              required
+              autoFocus
+              value={name}
+              placeholder="my-action"
+              intent={name && !ACTION_NAME_REGEX.test(name) ? Intent.DANGER : Intent.NONE}
+              onChange={(e) => setName(e.currentTarget.value)}
+            />
+          </FormGroup>
+          <AccessControl resource="module.code-editor.global.actions" operation="write">
+            <RadioGroup
+              inline
+              label={lang.tr('actionEditor.new.scope')}
+              selectedValue={scope}
+              onChange={(e) => setScope(e.currentTarget.value as ActionScope)}
+            >
+              <Radio value="bot" label={lang.tr('actionEditor.scopes.bot')} />
+              <Radio value="global" label={lang.tr('actionEditor.scopes.global')} />
+            </RadioGroup>
+          </AccessControl>
+          {scope === 'bot' && (
+            <Checkbox
+              checked={!legacy}
+              label={lang.tr('actionEditor.new.http')}
+              onChange={(e) => setLegacy(!e.currentTarget.checked)}
+            />
+          )}
+          <FormGroup label={lang.tr('actionEditor.new.actionTitle')}>
+            <InputGroup value={title} onChange={(e) => setTitle(e.currentTarget.value)} />
+          </FormGroup>
+          <FormGroup label={lang.tr('actionEditor.new.category')}>
+            <InputGroup value={category} placeholder="Custom" onChange={(e) => setCategory(e.currentTarget.value)} />
+          </FormGroup>
+          <FormGroup label={lang.tr('description')}>
+            <InputGroup value={description} onChange={(e) => setDescription(e.currentTarget.value)} />
+          </FormGroup>
+
+          <FormGroup label={lang.tr('actionEditor.new.params')}>
+            {params.map((param, index) => (
+              <div key={index} className={style.paramRow}>
+                <InputGroup
+                  placeholder={lang.tr('name')}
+                  value={param.name}
+                  intent={param.name && !PARAM_NAME_REGEX.test(param.name) ? Intent.DANGER : Intent.NONE}
+                  onChange={(e) => updateParam(index, { name: e.currentTarget.value })}
+                />
+                <HTMLSelect
+                  value={param.type}
+                  options={PARAM_TYPES}
+                  onChange={(e) => updateParam(index, { type: e.currentTarget.value })}
+                />
+                <InputGroup
+                  placeholder={lang.tr('description')}
+                  value={param.description}
+                  onChange={(e) => updateParam(index, { description: e.currentTarget.value })}
+                />
+                <Checkbox
+                  checked={param.required}
+                  label={lang.tr('actionEditor.new.required')}
+                  onChange={(e) => updateParam(index, { required: e.currentTarget.checked })}
+                />
+                <Button minimal icon="trash" onClick={() => setParams(params.filter((_param, i) => i !== index))} />
+              </div>
+            ))}
+            <Button
+              minimal
+              small
+              icon="add"
+              text={lang.tr('actionEditor.new.addParam')}
+              onClick={() => setParams([...params, createParam()])}
+            />
+          </FormGroup>
+        </div>
+
+        <div className={Classes.DIALOG_FOOTER}>
+          <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+            <Button text={lang.tr('cancel')} onClick={props.onClose} />
+            <Button
+              type="submit"
+              text={lang.tr('create')}
+              intent={Intent.PRIMARY}
+              loading={isSaving}
+              disabled={!isValid}
+            />
+          </div>
+        </div>
+      </form>
+    </Dialog>
+  )
+}
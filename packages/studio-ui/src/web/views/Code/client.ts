@@ -0,0 +1,40 @@
+import axios from 'axios'
+import { encodeFolderPath } from 'common/http'
+import { ActionCode, ActionParameterDefinition, ActionScope, LocalActionDefinition } from 'common/typings'
+
+export type CodeClient = ReturnType<typeof makeCodeClient>
+
+export interface ActionFile extends ActionCode {
+  metadata: Pick<LocalActionDefinition, 'title' | 'category' | 'description' | 'author' | 'params'>
+}
+
+export interface NewAction {
+  name: string
+  legacy: boolean
+  metadata: Partial<Pick<LocalActionDefinition, 'title' | 'category' | 'description'>> & {
+    params: Omit<ActionParameterDefinition, 'default'>[]
+  }
+}
+
+export interface VariableHint {
+  name: string
+  description?: string
+  source: string
+}
+
+export const makeCodeClient = () => {
+  const client = axios.create({ baseURL: window.STUDIO_API_PATH })
+  const fileUrl = (scope: ActionScope, name: string) => `/actions/files/${scope}/${encodeFolderPath(name)}`
+
+  return {
+    fetchActions: (): Promise<LocalActionDefinition[]> => client.get('/actions').then((res) => res.data),
+    fetchAction: (scope: ActionScope, name: string): Promise<ActionFile> =>
+      client.get(fileUrl(scope, name)).then((res) => res.data),
+    createAction: (scope: ActionScope, action: NewAction): Promise<ActionFile> =>
+      client.post(`/actions/files/${scope}`, action).then((res) => res.data),
+    updateAction: (scope: ActionScope, name: string, code: string): Promise<ActionFile> =>
+      client.post(fileUrl(scope, name), { code }).then((res) => res.data),
+    deleteAction: (scope: ActionScope, name: string): Promise<void> => client.post(`${fileUrl(scope, name)}/delete`),
+    fetchHints: (): Promise<VariableHint[]> => client.get('/hints').then((res) => res.data.inputs)
+  }
+}
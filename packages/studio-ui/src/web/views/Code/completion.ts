@@ -0,0 +1,99 @@
+import _ from 'lodash'
+
+import { VariableHint } from './client'
+
+export interface Completion {
+  label: string
+  detail?: string
+  /** Whether more properties can be accessed on the completed one */
+  isObject: boolean
+}
+
+/** Variables available to the code of actions */
+const ROOT_VARIABLES: { [name: string]: string } = {
+  event: 'The event which triggered the action',
+  user: 'Variables stored on the user',
+  temp: 'Variables of the current flow',
+  session: 'Variables of the current session',
+  args: 'Parameters of the action',
+  bp: 'The Botpress SDK'
+}
+
+const EVENT_PROPERTIES: { [path: string]: string } = {
+  id: 'Unique id of the event',
+  type: 'Type of the event, e.g. "text"',
+  channel: 'Channel the event was sent on',
+  direction: '"incoming" or "outgoing"',
+  botId: 'Id of the bot',
+  target: 'Id of the user',
+  threadId: 'Id of the conversation',
+  preview: 'Text preview of the payload',
+  payload: 'Content of the event',
+  'payload.text': 'Text sent by the user',
+  nlu: 'Understanding of the text by the NLU',
+  'nlu.intent': 'Intent with the highest confidence',
+  'nlu.intent.name': 'Name of the intent',
+  'nlu.intent.confidence': 'Confidence of the intent',
+  'nlu.entities': 'Entities extracted from the text',
+  'nlu.slots': 'Slots extracted from the text',
+  'nlu.language': 'Language of the text',
+  state: 'State of the conversation',
+  'state.user': 'Same as user',
+  'state.temp': 'Same as temp',
+  'state.session': 'Same as session'
+}
+
+/** Names of the parameters declared with @param in the JSDoc of the action */
+export const getParamNames = (code: string) => {
+  const regex = /@param\s+(?:\{[^}]*\}\s+)?\[?([a-zA-Z_$][\w$]*)/g
+  const names: string[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(code))) {
+    names.push(match[1])
+  }
+  return _.uniq(names)
+}
+
+const getChildren = (paths: { [path: string]: string | undefined }, parent: string): Completion[] => {
+  const prefix = parent ? `${parent}.` : ''
+  const children = _.groupBy(
+    Object.keys(paths).filter((path) => path.startsWith(prefix) && path.length > prefix.length),
+    (path) => path.substr(prefix.length).split('.')[0]
+  )
+
+  return Object.entries(children).map(([label, descendants]) => ({
+    label,
+    detail: paths[`${prefix}${label}`],
+    isObject: descendants.some((x) => x !== `${prefix}${label}`)
+  }))
+}
+
+/**
+ * Suggests the variables, or the properties of the variable, written before the cursor.
+ * Properties of user, temp and session are those the hints found in the flows and actions of the bot
+ */
+export const getCompletions = (textBeforeCursor: string, hints: VariableHint[], params: string[]): Completion[] => {
+  const match = textBeforeCursor.match(/([a-zA-Z_$][\w$]*(?:\.[\w$]+)*)\.[\w$]*$/)
+  if (!match) {
+    return _.map(ROOT_VARIABLES, (detail, label) => ({ label, detail, isObject: true }))
+  }
+
+  const [root, ...path] = match[1].split('.')
+  const parent = path.join('.')
+
+  if (root === 'event') {
+    return getChildren(EVENT_PROPERTIES, parent)
+  } else if (root === 'args' && !parent) {
+    return params.map((label) => ({ label, detail: 'Parameter of the action', isObject: false }))
+  } else if (['user', 'temp', 'session'].includes(root)) {
+    const paths = _.fromPairs(
+      hints
+        .filter((x) => x.name.startsWith(`${root}.`))
+        .map((x) => [x.name.substr(root.length + 1), x.description || `From ${x.source}`])
+    )
+    return getChildren(paths, parent)
+  }
+
+  return []
+}
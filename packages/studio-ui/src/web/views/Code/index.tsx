@@ -0,0 +1,195 @@
+import { Button, Intent } from '@blueprintjs/core'
+import { confirmDialog, EmptyState, lang, toast } from 'botpress/shared'
+import { ActionScope, LocalActionDefinition } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, useEffect, useRef, useState } from 'react'
+import { Container, ItemList, SidePanel, SidePanelSection } from '~/components/Shared/Interface'
+import { Item } from '~/components/Shared/Interface/typings'
+
+import { ActionEditor } from './ActionEditor'
+import { ActionFile, makeCodeClient, NewAction, VariableHint } from './client'
+import { NewActionModal } from './NewActionModal'
+import style from './style.scss'
+
+const SCOPES: ActionScope[] = ['bot', 'global']
+
+const getFileName = ({ name, legacy }: Pick<ActionFile, 'name' | 'legacy'>) => `${name}${legacy ? '.js' : '.http.js'}`
+
+const CodeEditor: FC = () => {
+  const api = useRef(makeCodeClient())
+  const [actions, setActions] = useState<LocalActionDefinition[]>([])
+  const [hints, setHints] = useState<VariableHint[]>([])
+  const [currentFile, setCurrentFile] = useState<ActionFile>()
+  const [code, setCode] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+
+  const isDirty = !!currentFile && currentFile.code !== code
+
+  useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchActions()
+    // Hints are only used for autocomplete, the editor works without them
+    api.current.fetchHints().then(setHints, () => {})
+  }, [])
+
+  const handleError = (err) => toast.failure(_.get(err, 'response.data.message', err.message))
+
+  const fetchActions = async () => {
+    try {
+      setActions(_.sortBy(await api.current.fetchActions(), (x) => x.name))
+    } catch (err) {
+      handleError(err)
+    }
+  }
+
+  const confirmDiscard = async () =>
+    !isDirty ||
+    confirmDialog(lang.tr('actionEditor.confirmDiscard', { name: currentFile.name }), {
+      acceptLabel: lang.tr('actionEditor.discard')
+    })
+
+  const openFile = (file: ActionFile) => {
+    setCurrentFile(file)
+    setCode(file.code)
+  }
+
+  const openAction = async ({ name, scope }: Pick<LocalActionDefinition, 'name' | 'scope'>) => {
+    if (currentFile?.name === name && currentFile.scope === scope) {
+      return
+    }
+    if (!(await confirmDiscard())) {
+      return
+    }
+
+    try {
+      openFile(await api.current.fetchAction(scope, name))
+    } catch (err) {
+      handleError(err)
+    }
+  }
+
+  const saveAction = async () => {
+    if (!isDirty || isSaving) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await api.current.updateAction(currentFile.scope, currentFile.name, code)
+      setCurrentFile(saved)
+      toast.success(lang.tr('actionEditor.saved', { name: getFileName(saved) }))
+      await fetchActions()
+    } catch (err) {
+      handleError(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const createAction = async (scope: ActionScope, action: NewAction) => {
+    if (!(await confirmDiscard())) {
+      return
+    }
+
+    try {
+      openFile(await api.current.createAction(scope, action))
+      setIsModalOpen(false)
+      await fetchActions()
+    } catch (err) {
+      handleError(err)
+    }
+  }
+
+  const deleteAction = async ({ name, scope }: Pick<LocalActionDefinition, 'name' | 'scope'>) => {
+    if (!(await confirmDialog(lang.tr('actionEditor.confirmDelete', { name }), { acceptLabel: lang.tr('delete') }))) {
+      return
+    }
+
+    try {
+      await api.current.deleteAction(scope, name)
+      if (currentFile?.name === name && currentFile.scope === scope) {
+        setCurrentFile(undefined)
+      }
+      await fetchActions()
+    } catch (err) {
+      handleError(err)
+    }
+  }
+
+  const getItems = (scope: ActionScope): Item[] =>
+    actions
+      .filter((x) => x.scope === scope)
+      .map((action) => ({
+        key: `${scope}/${action.name}`,
+        label: getFileName(action),
+        value: action,
+        icon: action.legacy ? 'code' : 'globe-network',
+        selected: currentFile?.name === action.name && currentFile.scope === scope,
+        contextMenu: [{ label: lang.tr('delete'), icon: 'delete', onClick: () => deleteAction(action) }]
+      }))
+
+  return (
+    <Container>
+      <SidePanel>
+        {SCOPES.map((scope) => (
+          <SidePanelSection
+            key={scope}
+            label={lang.tr(`actionEditor.scopes.${scope}`)}
+            actions={
+              scope === 'bot'
+                ? [
+                    {
+                      id: 'btn-add-action',
+                      icon: 'add',
+                      tooltip: lang.tr('actionEditor.new.title'),
+                      onClick: () => setIsModalOpen(true)
+                    }
+                  ]
+                : []
+            }
+          >
+            <ItemList items={getItems(scope)} onElementClicked={({ value }) => openAction(value)} />
+          </SidePanelSection>
+        ))}
+      </SidePanel>
+
+      <div className={style.container}>
+        {currentFile ? (
+          <React.Fragment>
+            <div className={style.toolbar}>
+              <span className={style.fileName}>
+                {lang.tr(`actionEditor.scopes.${currentFile.scope}`)} / {getFileName(currentFile)}
+                {isDirty && ' *'}
+              </span>
+              <Button
+                small
+                icon="floppy-disk"
+                intent={Intent.PRIMARY}
+                text={lang.tr('save')}
+                disabled={!isDirty}
+                loading={isSaving}
+                onClick={saveAction}
+              />
+            </div>
+            <div className={style.editor}>
+              <ActionEditor
+                key={`${currentFile.scope}/${currentFile.name}`}
+                code={code}
+                hints={hints}
+                onChange={setCode}
+                onSave={saveAction}
+              />
+            </div>
+          </React.Fragment>
+        ) : (
+          <EmptyState icon="code" text={lang.tr('actionEditor.description')} />
+        )}
+      </div>
+
+      <NewActionModal isOpen={isModalOpen} onSubmit={createAction} onClose={() => setIsModalOpen(false)} />
+    </Container>
+  )
+}
+
+export default CodeEditor
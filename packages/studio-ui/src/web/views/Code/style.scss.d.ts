@@ -0,0 +1,11 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'container': string;
+  'editor': string;
+  'fileName': string;
+  'paramRow': string;
+  'toolbar': string;
+}
+declare var cssExports: CssExports;
+export = cssExports;
@@ -0,0 +1,283 @@
+import {
+  Button,
+  Callout,
+  Checkbox,
+  Classes,
+  Dialog,
+  FormGroup,
+  HTMLSelect,
+  InputGroup,
+  Intent,
+  TextArea
+} from '@blueprintjs/core'
+import axios from 'axios'
+import { lang } from 'botpress/shared'
+import { ContentBulkOperation, ContentBulkUpdateChange, ContentBulkUpdateResult } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, Fragment, useState } from 'react'
+import { AccessControl, toastFailure, toastSuccess } from '~/components/Shared/Utils'
+
+import style from './style.scss'
+
+interface Props {
+  /** Only the selected elements are updated, otherwise every element of the content type */
+  selectedIds: string[]
+  contentType?: string
+  /** Fields of the selected content type */
+  fields: string[]
+  languages: string[]
+  contentLang: string
+  onUpdateCompleted: () => void
+}
+
+type OperationType = ContentBulkOperation['type']
+
+const OPERATIONS: OperationType[] = ['replace', 'setField', 'copyLanguage']
+const MAX_DISPLAYED_VALUE = 80
+
+const formatValue = (value: any) => _.truncate(JSON.stringify(value) ?? '', { length: MAX_DISPLAYED_VALUE })
+
+export const BulkEditModal: FC<Props> = (props) => {
+  const [isDialogOpen, setDialogOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [type, setType] = useState<OperationType>('replace')
+  const [values, setValues] = useState<any>({})
+  const [preview, setPreview] = useState<ContentBulkUpdateResult>()
+
+  const update = (changes: object) => setValues({ ...values, ...changes })
+  const closeDialog = () => {
+    setPreview(undefined)
+    setDialogOpen(false)
+  }
+
+  const getOperation = (): ContentBulkOperation => {
+    const language = values.language || props.contentLang
+
+    if (type === 'replace') {
+      return { type, language, find: values.find, replace: values.replace || '', matchCase: !!values.matchCase }
+    } else if (type === 'setField') {
+      const value = values.parseJson ? JSON.parse(values.value) : values.value || ''
+      return { type, language, field: values.field || props.fields[0], value }
+    }
+    return { type, from: values.from || props.contentLang, to: values.to, overwrite: !!values.overwrite }
+  }
+
+  const sendUpdate = async (isPreview: boolean) => {
+    setIsLoading(true)
+    try {
+      const { data } = await axios.post<ContentBulkUpdateResult>(`${window.STUDIO_API_PATH}/cms/elements/bulk_update`, {
+        ids: props.selectedIds.length ? props.selectedIds : undefined,
+        contentType: props.contentType,
+        operation: getOperation(),
+        preview: isPreview
+      })
+
+      if (isPreview) {
+        setPreview(data)
+      } else {
+        toastSuccess(lang.tr('studio.content.bulkEdit.success', { count: data.changes.length }))
+        closeDialog()
+        props.onUpdateCompleted()
+      }
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const isValid =
+    (type === 'replace' && !!values.find) ||
+    (type === 'setField' && (!!values.field || !!props.fields.length)) ||
+    (type === 'copyLanguage' && !!values.to && values.to !== (values.from || props.contentLang))
+
+  const renderLanguageSelect = (key: string, label: string, defaultValue?: string) => (
+    <FormGroup label={label}>
+      <HTMLSelect
+        value={values[key] ?? defaultValue ?? ''}
+        onChange={(e) => update({ [key]: e.currentTarget.value })}
+        options={[
+          ...(defaultValue ? [] : [{ value: '', label: '-' }]),
+          ...props.languages.map((x) => ({ value: x, label: x.toUpperCase() }))
+        ]}
+      />
+    </FormGroup>
+  )
+
+  const renderOperation = () => {
+    if (type === 'replace') {
+      return (
+        <Fragment>
+          <FormGroup label={lang.tr('studio.content.bulkEdit.find')}>
+            <InputGroup
+              id="input-find"
+              value={values.find || ''}
+              onChange={(e) => update({ find: e.currentTarget.value })}
+            />
+          </FormGroup>
+          <FormGroup label={lang.tr('studio.content.bulkEdit.replaceWith')}>
+            <InputGroup
+              id="input-replace"
+              value={values.replace || ''}
+              onChange={(e) => update({ replace: e.currentTarget.value })}
+            />
+          </FormGroup>
+          {renderLanguageSelect('language', lang.tr('studio.content.bulkEdit.language'), props.contentLang)}
+          <Checkbox
+            checked={!!values.matchCase}
+            label={lang.tr('studio.content.bulkEdit.matchCase')}
+            onChange={(e) => update({ matchCase: e.currentTarget.checked })}
+          />
+        </Fragment>
+      )
+    }
+
+    if (type === 'setField') {
+      return (
+        <Fragment>
+          <FormGroup label={lang.tr('studio.content.bulkEdit.field')}>
+            {props.fields.length ? (
+              <HTMLSelect
+                value={values.field || props.fields[0]}
+                onChange={(e) => update({ field: e.currentTarget.value })}
+                options={props.fields}
+              />
+            ) : (
+              <InputGroup value={values.field || ''} onChange={(e) => update({ field: e.currentTarget.value })} />
+            )}
+          </FormGroup>
+          {renderLanguageSelect('language', lang.tr('studio.content.bulkEdit.language'), props.contentLang)}
+          <FormGroup label={lang.tr('studio.content.bulkEdit.value')}>
+            <TextArea fill value={values.value || ''} onChange={(e) => update({ value: e.currentTarget.value })} />
+          </FormGroup>
+          <Checkbox
+            checked={!!values.parseJson}
+            label={lang.tr('studio.content.bulkEdit.parseJson')}
+            onChange={(e) => update({ parseJson: e.currentTarget.checked })}
+          />
+        </Fragment>
+      )
+    }
+
+    return (
+      <Fragment>
+        {renderLanguageSelect('from', lang.tr('studio.content.bulkEdit.from'), props.contentLang)}
+        {renderLanguageSelect('to', lang.tr('studio.content.bulkEdit.to'))}
+        <Checkbox
+          checked={!!values.overwrite}
+          label={lang.tr('studio.content.bulkEdit.overwrite')}
+          onChange={(e) => update({ overwrite: e.currentTarget.checked })}
+        />
+      </Fragment>
+    )
+  }
+
+  const renderChange = ({ id, before, after }: ContentBulkUpdateChange) => {
+    const keys = _.union(Object.keys(before), Object.keys(after)).filter((key) => !_.isEqual(before[key], after[key]))
+
+    return (
+      <div key={id} className={style.bulkEditChange}>
+        <strong>{id}</strong>
+        {keys.map((key) => (
+          <div key={key}>
+            <code>{key}</code> <del>{formatValue(before[key])}</del> → <ins>{formatValue(after[key])}</ins>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const renderPreview = () => (
+    <Fragment>
+      <Callout intent={preview!.changes.length ? Intent.PRIMARY : Intent.WARNING}>
+        {lang.tr('studio.content.bulkEdit.previewSummary', { count: preview!.changes.length })}
+      </Callout>
+      <div className={style.bulkEditChanges}>
+        {preview!.changes.map(renderChange)}
+        {preview!.invalidElements.map(({ id, errors }) => (
+          <div key={id} className={style.bulkEditChange}>
+            <strong>{id}</strong>{' '}
+            <span className={Classes.TEXT_MUTED}>{lang.tr('studio.content.bulkEdit.skipped')}</span>
+            <div>{errors.join(', ')}</div>
+          </div>
+        ))}
+      </div>
+    </Fragment>
+  )
+
+  const scope = props.selectedIds.length
+    ? lang.tr('studio.content.bulkEdit.selectedElements', { count: props.selectedIds.length })
+    : props.contentType
+    ? lang.tr('studio.content.bulkEdit.allElementsOfType', { contentType: props.contentType })
+    : lang.tr('studio.content.bulkEdit.allElements')
+
+  return (
+    <Fragment>
+      <AccessControl resource="bot.content" operation="write">
+        <Button
+          icon="edit"
+          id="btn-bulk-edit"
+          text={lang.tr('studio.content.bulkEdit.title')}
+          onClick={() => setDialogOpen(true)}
+          style={{ marginLeft: 5 }}
+        />
+      </AccessControl>
+
+      <Dialog
+        title={lang.tr('studio.content.bulkEdit.title')}
+        icon="edit"
+        isOpen={isDialogOpen}
+        onClose={closeDialog}
+        transitionDuration={0}
+        canOutsideClickClose={false}
+      >
+        <div className={Classes.DIALOG_BODY}>
+          <p>{scope}</p>
+          {preview ? (
+            renderPreview()
+          ) : (
+            <Fragment>
+              <FormGroup label={lang.tr('studio.content.bulkEdit.operation')}>
+                <HTMLSelect
+                  value={type}
+                  onChange={(e) => setType(e.currentTarget.value as OperationType)}
+                  options={OPERATIONS.map((value) => ({ value, label: lang.tr(`studio.content.bulkEdit.${value}`) }))}
+                />
+              </FormGroup>
+              {renderOperation()}
+            </Fragment>
+          )}
+        </div>
+        <div className={Classes.DIALOG_FOOTER}>
+          <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+            {preview ? (
+              <Fragment>
+                <Button
+                  id="btn-back"
+                  text={lang.tr('back')}
+                  disabled={isLoading}
+                  onClick={() => setPreview(undefined)}
+                />
+                <Button
+                  id="btn-apply"
+                  text={isLoading ? lang.tr('pleaseWait') : lang.tr('studio.content.bulkEdit.apply')}
+                  disabled={isLoading || !preview.changes.length}
+                  onClick={() => sendUpdate(false)}
+                  intent={Intent.PRIMARY}
+                />
+              </Fragment>
+            ) : (
+              <Button
+                id="btn-preview"
+                text={isLoading ? lang.tr('pleaseWait') : lang.tr('studio.content.bulkEdit.preview')}
+                disabled={isLoading || !isValid}
+                onClick={() => sendUpdate(true)}
+                intent={Intent.PRIMARY}
+              />
+            )}
+          </div>
+        </div>
+      </Dialog>
+    </Fragment>
+  )
+}
@@ -0,0 +1,188 @@
+import { Button, Callout, Checkbox, Classes, Dialog, Intent, Spinner } from '@blueprintjs/core'
+import axios from 'axios'
+import { confirmDialog, lang } from 'botpress/shared'
+import { ContentCleanupReport, ContentCleanupResult } from 'common/typings'
+import { bytesToString } from 'common/utils'
+import _ from 'lodash'
+import React, { FC, Fragment, useState } from 'react'
+import { AccessControl, toastFailure, toastSuccess } from '~/components/Shared/Utils'
+
+import style from './style.scss'
+
+interface Props {
+  onCleanupCompleted: () => void
+}
+
+interface CleanupItem {
+  name: string
+  detail?: string
+  size: number
+}
+
+export const CleanupModal: FC<Props> = (props) => {
+  const [isDialogOpen, setDialogOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [report, setReport] = useState<ContentCleanupReport>()
+  const [selectedElements, setSelectedElements] = useState<string[]>([])
+  const [selectedMedia, setSelectedMedia] = useState<string[]>([])
+
+  const openDialog = async () => {
+    setDialogOpen(true)
+    setIsLoading(true)
+    try {
+      const { data } = await axios.get<ContentCleanupReport>(`${window.STUDIO_API_PATH}/cms/cleanup`)
+      setReport(data)
+      setSelectedElements(_.map(data.contentElements, 'id'))
+      setSelectedMedia(_.map(data.media, 'fileName'))
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const closeDialog = () => {
+    setReport(undefined)
+    setDialogOpen(false)
+  }
+
+  const selectedSize =
+    _.sumBy(
+      report?.contentElements.filter(({ id }) => selectedElements.includes(id)),
+      'size'
+    ) +
+    _.sumBy(
+      report?.media.filter(({ fileName }) => selectedMedia.includes(fileName)),
+      'size'
+    )
+
+  const applyCleanup = async () => {
+    const count = selectedElements.length + selectedMedia.length
+    if (
+      !(await confirmDialog(lang.tr('studio.content.cleanup.confirm', { count }), { acceptLabel: lang.tr('delete') }))
+    ) {
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const { data } = await axios.post<ContentCleanupResult>(`${window.STUDIO_API_PATH}/cms/cleanup`, {
+        contentElementIds: selectedElements,
+        mediaFiles: selectedMedia
+      })
+
+      toastSuccess(lang.tr('studio.content.cleanup.success', { size: bytesToString(data.freedSize) }))
+      closeDialog()
+      props.onCleanupCompleted()
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const renderList = (title: string, items: CleanupItem[], selected: string[], onChange: (x: string[]) => void) => {
+    if (!items.length) {
+      return null
+    }
+
+    const names = _.map(items, 'name')
+    const toggle = (name: string) => onChange(_.xor(selected, [name]))
+
+    return (
+      <Fragment>
+        <Checkbox
+          checked={selected.length === items.length}
+          indeterminate={!!selected.length && selected.length < items.length}
+          onChange={() => onChange(selected.length === items.length ? [] : names)}
+        >
+          <strong>{title}</strong>
+        </Checkbox>
+        <div className={style.cleanupList}>
+          {items.map(({ name, detail, size }) => (
+            <Checkbox key={name} checked={selected.includes(name)} onChange={() => toggle(name)}>
+              <span className={style.cleanupItemName}>
+                {name} {detail && <small className={Classes.TEXT_MUTED}>{detail}</small>}
+              </span>
+              <small>{bytesToString(size)}</small>
+            </Checkbox>
+          ))}
+        </div>
+      </Fragment>
+    )
+  }
+
+  const renderReport = () => {
+    if (!report) {
+      return null
+    }
+
+    const { contentElements, media, totalSize } = report
+    if (!contentElements.length && !media.length) {
+      return <Callout intent={Intent.SUCCESS}>{lang.tr('studio.content.cleanup.nothingToClean')}</Callout>
+    }
+
+    return (
+      <Fragment>
+        <p>
+          {lang.tr('studio.content.cleanup.summary', {
+            elements: contentElements.length,
+            media: media.length,
+            size: bytesToString(totalSize)
+          })}
+        </p>
+        {renderList(
+          lang.tr('studio.content.cleanup.contentElements'),
+          contentElements.map(({ id, contentType, size }) => ({ name: id, detail: contentType, size })),
+          selectedElements,
+          setSelectedElements
+        )}
+        {renderList(
+          lang.tr('studio.content.cleanup.media'),
+          media.map(({ fileName, size }) => ({ name: fileName, size })),
+          selectedMedia,
+          setSelectedMedia
+        )}
+      </Fragment>
+    )
+  }
+
+  const hasSelection = !!selectedElements.length || !!selectedMedia.length
+
+  return (
+    <Fragment>
+      <AccessControl resource="bot.content" operation="write">
+        <Button
+          icon="clean"
+          id="btn-cleanup"
+          text={lang.tr('studio.content.cleanup.title')}
+          onClick={openDialog}
+          style={{ marginLeft: 5 }}
+        />
+      </AccessControl>
+
+      <Dialog
+        title={lang.tr('studio.content.cleanup.title')}
+        icon="clean"
+        isOpen={isDialogOpen}
+        onClose={closeDialog}
+        transitionDuration={0}
+        canOutsideClickClose={false}
+      >
+        <div className={Classes.DIALOG_BODY}>{isLoading && !report ? <Spinner /> : renderReport()}</div>
+        <div className={Classes.DIALOG_FOOTER}>
+          <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+            <Button id="btn-cancel" text={lang.tr('cancel')} disabled={isLoading} onClick={closeDialog} />
+            <Button
+              id="btn-submit"
+              text={lang.tr('studio.content.cleanup.deleteSelected', { size: bytesToString(selectedSize) })}
+              disabled={isLoading || !hasSelection}
+              onClick={applyCleanup}
+              intent={Intent.DANGER}
+            />
+          </div>
+        </div>
+      </Dialog>
+    </Fragment>
+  )
+}
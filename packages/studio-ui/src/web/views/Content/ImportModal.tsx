@@ -2,31 +2,40 @@ import { Button, Callout, Classes, Dialog, FileInput, FormGroup, Intent, Radio,
 import axios from 'axios'
 import 'bluebird-global'
 import { lang } from 'botpress/shared'
+import { ContentImportAnalysis, ContentImportStrategy } from 'common/typings'
 import _ from 'lodash'
-import React, { FC, Fragment, useState } from 'react'
-import { AccessControl, toastFailure } from '~/components/Shared/Utils'
+import React, { FC, Fragment, useEffect, useState } from 'react'
+import { AccessControl, toastFailure, toastSuccess } from '~/components/Shared/Utils'
 
 const axiosConfig = { headers: { 'Content-Type': 'multipart/form-data' } }
+const JSON_STATUS_POLL_INTERVAL = 1000
+/** Only the first invalid elements are listed, the others are counted */
+const MAX_INVALID_DISPLAYED = 5
 
 interface Props {
   onImportCompleted: () => void
 }
 
-interface Analysis {
-  cmsCount: number
-  fileCmsCount: number
-}
-
 export const ImportModal: FC<Props> = (props) => {
   const [file, setFile] = useState<any>()
   const [filePath, setFilePath] = useState<string>()
   const [isLoading, setIsLoading] = useState(false)
   const [isDialogOpen, setDialogOpen] = useState(false)
-  const [importAction, setImportAction] = useState('insert')
-  const [analysis, setAnalysis] = useState<Analysis>()
+  const [importAction, setImportAction] = useState<ContentImportStrategy>('merge')
+  const [analysis, setAnalysis] = useState<ContentImportAnalysis>()
+  const [statusId, setStatusId] = useState<string>()
   const [uploadStatus, setUploadStatus] = useState<string>()
   const [hasError, setHasError] = useState(false)
 
+  useEffect(() => {
+    if (statusId) {
+      const interval = setInterval(async () => {
+        await updateUploadStatus()
+      }, JSON_STATUS_POLL_INTERVAL)
+      return () => clearInterval(interval)
+    }
+  }, [statusId])
+
   const analyzeImport = async () => {
     setIsLoading(true)
     try {
@@ -63,15 +72,27 @@ export const ImportModal: FC<Props> = (props) => {
       form.append('file', file)
       form.append('action', importAction)
 
-      await axios.post(`${window.STUDIO_API_PATH}/cms/import`, form, axiosConfig)
+      const { data } = await axios.post(`${window.STUDIO_API_PATH}/cms/import`, form, axiosConfig)
+      setStatusId(data)
+    } catch (err) {
+      clearStatus()
+      setHasError(true)
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const updateUploadStatus = async () => {
+    const { data: status } = await axios.get(`${window.STUDIO_API_PATH}/cms/json-upload-status/${statusId}`)
+    setUploadStatus(status)
+
+    if (status === 'Completed') {
+      clearStatus()
       closeDialog()
+      toastSuccess(lang.tr('studio.content.import.uploadSuccessful'))
       props.onImportCompleted()
-    } catch (err) {
+    } else if (status.startsWith('Error')) {
       clearStatus()
       setHasError(true)
-      toastFailure(err.message)
-    } finally {
-      setIsLoading(false)
     }
   }
 
@@ -83,6 +104,7 @@ export const ImportModal: FC<Props> = (props) => {
   }
 
   const clearStatus = () => {
+    setStatusId(undefined)
     setIsLoading(false)
   }
 
@@ -95,7 +117,7 @@ export const ImportModal: FC<Props> = (props) => {
     setFilePath(undefined)
     setFile(undefined)
     setUploadStatus(undefined)
-
+    setStatusId(undefined)
     setAnalysis(undefined)
     setHasError(false)
   }
@@ -139,7 +161,7 @@ export const ImportModal: FC<Props> = (props) => {
   }
 
   const renderAnalysis = () => {
-    const { cmsCount, fileCmsCount } = analysis
+    const { cmsCount, fileCmsCount, newCount, updatedCount, unchangedCount, invalidElements } = analysis!
 
     return (
       <Fragment>
@@ -151,19 +173,33 @@ export const ImportModal: FC<Props> = (props) => {
                 cmsCount: <strong>{cmsCount}</strong>
               })}
             </p>
+            <p>{lang.tr('studio.content.import.summary', { newCount, updatedCount, unchangedCount })}</p>
+
+            {!!invalidElements.length && (
+              <Callout
+                intent={Intent.WARNING}
+                title={lang.tr('studio.content.import.invalidElements', { count: invalidElements.length })}
+              >
+                <ul>
+                  {invalidElements.slice(0, MAX_INVALID_DISPLAYED).map(({ id, errors }) => (
+                    <li key={id}>
+                      <strong>{id}</strong>: {errors.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+                {invalidElements.length > MAX_INVALID_DISPLAYED &&
+                  lang.tr('studio.content.import.andMore', { count: invalidElements.length - MAX_INVALID_DISPLAYED })}
+              </Callout>
+            )}
 
             <div style={{ marginTop: 30 }}>
               <RadioGroup
                 label={lang.tr('studio.content.import.whatLikeDo')}
-                onChange={(e) => setImportAction(e.target['value'])}
+                onChange={(e) => setImportAction(e.currentTarget.value as ContentImportStrategy)}
                 selectedValue={importAction}
               >
-                <Radio id="radio-insert" label={lang.tr('studio.content.import.updateMissing')} value="insert" />
-                <Radio
-                  id="radio-clearInsert"
-                  label={lang.tr('studio.content.import.clearExisting')}
-                  value="clear_insert"
-                />
+                <Radio id="radio-merge" label={lang.tr('studio.content.import.updateMissing')} value="merge" />
+                <Radio id="radio-replace" label={lang.tr('studio.content.import.clearExisting')} value="replace" />
               </RadioGroup>
             </div>
           </div>
@@ -1,25 +1,46 @@
-import { AnchorButton, Button, Divider, InputGroup, Position, Tooltip } from '@blueprintjs/core'
+import {
+  AnchorButton,
+  Button,
+  Divider,
+  InputGroup,
+  Menu,
+  MenuItem,
+  Popover,
+  Position,
+  Tag,
+  Tooltip
+} from '@blueprintjs/core'
+import axios from 'axios'
 import { confirmDialog, lang } from 'botpress/shared'
 import cx from 'classnames'
+import { ContentSearchSnippet, ContentTranslationStatus } from 'common/typings'
 import _ from 'lodash'
 import moment from 'moment'
 import React, { Component } from 'react'
 import Markdown from 'react-markdown'
 import ReactTable from 'react-table'
 import 'react-table/react-table.css'
-import { LeftToolbarButtons, Toolbar } from '~/components/Shared/Interface'
-import { Downloader } from '~/components/Shared/Utils'
+import { LeftToolbarButtons, RightToolbarButtons, Toolbar } from '~/components/Shared/Interface'
+import { Downloader, toastFailure } from '~/components/Shared/Utils'
 import withLanguage from '~/components/Util/withLanguage'
 
 import { ContentUsage } from '.'
+import { BulkEditModal } from './BulkEditModal'
+import { CleanupModal } from './CleanupModal'
+import { ImportModal } from './ImportModal'
+import { ContentSearchFilters, getSearchParams, SearchFilters } from './SearchFilters'
 import style from './style.scss'
+import { TranslationsMenu } from './TranslationsMenu'
 import { UsageModal } from './UsageModal'
 
+const DEFAULT_SORT = [{ id: 'modifiedOn', desc: true }]
+
 class ListView extends Component<Props, State> {
   private debouncedHandleSearch
 
   state = {
     searchTerm: '',
+    searchFilters: {} as ContentSearchFilters,
     checkedIds: [],
     allChecked: false,
     pageSize: 20,
@@ -31,7 +52,9 @@ class ListView extends Component<Props, State> {
     tableHeight: 0,
     downloadUrl: undefined,
     showUsageModal: false,
-    contentUsage: []
+    contentUsage: [],
+    translationStatus: undefined as ContentTranslationStatus | undefined,
+    missingTranslationsLang: undefined as string | undefined
   }
 
   componentDidMount() {
@@ -48,6 +71,13 @@ class ListView extends Component<Props, State> {
     if (this.props.count !== prevProps.count) {
       this.setState({ page: 0 })
     }
+
+    if (
+      (this.props.contentType !== prevProps.contentType && this.state.missingTranslationsLang) ||
+      (this.props.contentLang !== prevProps.contentLang && this.state.searchFilters.currentLanguageOnly)
+    ) {
+      this.launchSearch()
+    }
   }
 
   updateTableHeight = () => {
@@ -85,12 +115,19 @@ class ListView extends Component<Props, State> {
   }
 
   handleDeleteSelected = async () => {
-    if (
-      await confirmDialog(lang.tr('studio.content.confirmDeleteItem', { count: this.state.checkedIds.length }), {
-        acceptLabel: lang.tr('delete')
-      })
-    ) {
-      this.props.handleDeleteSelected(this.state.checkedIds)
+    const { checkedIds } = this.state
+    const usedCount = this.props.contentItems.filter(
+      (x) => checkedIds.includes(x.id) && this.getCountUsage(x.usage)
+    ).length
+
+    const message = [
+      lang.tr('studio.content.confirmDeleteItem', { count: checkedIds.length }),
+      usedCount ? lang.tr('studio.content.confirmDeleteUsed', { count: usedCount }) : ''
+    ].join(' ')
+
+    if (await confirmDialog(message, { acceptLabel: lang.tr('delete') })) {
+      // Elements still in use are only deleted once the user confirmed it
+      this.props.handleDeleteSelected(checkedIds, usedCount > 0)
       this.setState({ checkedIds: [], allChecked: false })
     }
   }
@@ -105,18 +142,70 @@ class ListView extends Component<Props, State> {
     this.debouncedHandleSearch?.()
   }
 
+  handleSearchFiltersChanged = (searchFilters: ContentSearchFilters) => {
+    this.setState({ searchFilters, page: 0 })
+    this.debouncedHandleSearch?.()
+  }
+
   onImportCompleted = () => {
     this.props.refreshCategories()
     this.launchSearch()
   }
 
+  onTranslationsImported = async () => {
+    await this.fetchTranslationStatus()
+    this.launchSearch()
+  }
+
+  fetchTranslationStatus = async () => {
+    try {
+      const { data } = await axios.get<ContentTranslationStatus>(`${window.STUDIO_API_PATH}/cms/translations/status`)
+      this.setState({ translationStatus: data })
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  filterMissingTranslations = async (language?: string) => {
+    if (language) {
+      await this.fetchTranslationStatus()
+      // Previews are displayed in the filtered language so missing translations are highlighted
+      this.props.changeContentLanguage(language)
+    }
+
+    this.setState({ missingTranslationsLang: language, page: 0 }, this.launchSearch)
+  }
+
+  /** Elements of the selected content type with at least one string missing in the filtered language */
+  getMissingTranslationIds(): string[] | undefined {
+    const { translationStatus, missingTranslationsLang } = this.state
+    if (!translationStatus || !missingTranslationsLang) {
+      return undefined
+    }
+
+    return translationStatus.elements
+      .filter(
+        (x) =>
+          x.missing[missingTranslationsLang] && (!this.props.contentType || x.contentType === this.props.contentType)
+      )
+      .map((x) => x.id)
+  }
+
   launchSearch = () => {
+    const isDefaultSort = _.isEqual(
+      this.state.sortOrder,
+      DEFAULT_SORT.map(({ id, desc }) => ({ column: id, desc }))
+    )
+
     const searchQuery: SearchQuery = {
       from: this.state.page * this.state.pageSize,
       count: this.state.pageSize,
-      sortOrder: this.state.sortOrder,
+      // Search results are ranked by relevance unless the user sorts them
+      sortOrder: this.state.searchTerm && isDefaultSort ? [] : this.state.sortOrder,
       filters: this.state.filters,
-      searchTerm: this.state.searchTerm
+      searchTerm: this.state.searchTerm,
+      ids: this.getMissingTranslationIds(),
+      ...getSearchParams(this.state.searchFilters, this.props.contentLang)
     }
 
     this.props.handleSearch(searchQuery)
@@ -254,6 +343,7 @@ class ListView extends Component<Props, State> {
                   }}
                 />
               </span>
+              {x.original.snippet && this.renderSnippet(x.original.snippet)}
             </React.Fragment>
           )
         }
@@ -279,11 +369,12 @@ class ListView extends Component<Props, State> {
         id: 'usage',
         Cell: (x) => {
           const count = this.getCountUsage(x.original.usage)
-          return count ? <a>{count}</a> : count
+          const label = lang.tr('studio.content.usedInPlaces', { count })
+          return count ? <a>{label}</a> : label
         },
         filterable: false,
         className: style.centered,
-        width: 100
+        width: 140
       },
       {
         Cell: (_x) => (!this.props.readOnly ? <Button small icon="edit" className="icon-edit" /> : ''),
@@ -293,12 +384,26 @@ class ListView extends Component<Props, State> {
     ]
   }
 
+  renderSnippet({ text, highlights }: ContentSearchSnippet) {
+    let last = 0
+    const parts: React.ReactNode[] = []
+
+    highlights.forEach(([start, end]) => {
+      parts.push(text.slice(last, start), <mark key={start}>{text.slice(start, end)}</mark>)
+      last = end
+    })
+    parts.push(text.slice(last))
+
+    return <div className={style.searchSnippet}>{parts}</div>
+  }
+
   getCountUsage(usage: ContentUsage[]) {
     return usage.reduce((acc: number, v: ContentUsage) => (acc += v.count), 0)
   }
 
   renderTable() {
-    const pageCount = Math.ceil(this.props.count / this.state.pageSize)
+    const count = this.getMissingTranslationIds()?.length ?? this.props.count
+    const pageCount = Math.ceil(count / this.state.pageSize)
     const noDataMessage = this.props.readOnly
       ? lang.tr('studio.content.noContent')
       : lang.tr('studio.content.noContentYet')
@@ -321,7 +426,7 @@ class ListView extends Component<Props, State> {
         onPageChange={(page) => this.setState({ page })}
         getTdProps={this.onRowClick}
         defaultPageSize={this.state.pageSize}
-        defaultSorted={[{ id: 'modifiedOn', desc: true }]}
+        defaultSorted={DEFAULT_SORT}
         noDataText={noDataMessage}
         className="-striped -highlight"
         style={{ height: this.state.tableHeight }}
@@ -337,8 +442,14 @@ class ListView extends Component<Props, State> {
     )
   }
 
-  downloadJson = () => {
-    this.setState({ downloadUrl: `${window.STUDIO_API_PATH}/cms/export?${Date.now()}` })
+  downloadTranslations = (language: string, format: 'xliff' | 'csv') => {
+    const query = `language=${language}&format=${format}&${Date.now()}`
+    this.setState({ downloadUrl: `${window.STUDIO_API_PATH}/cms/translations/export?${query}` })
+  }
+
+  downloadExport = (format: 'json' | 'csv') => {
+    const contentType = this.props.contentType ? `&contentType=${this.props.contentType}` : ''
+    this.setState({ downloadUrl: `${window.STUDIO_API_PATH}/cms/export?format=${format}${contentType}&${Date.now()}` })
   }
 
   render() {
@@ -382,19 +493,63 @@ class ListView extends Component<Props, State> {
               value={this.state.searchTerm}
               onChange={this.handleSearchChanged}
             />
+            <SearchFilters
+              filters={this.state.searchFilters}
+              contentLang={this.props.contentLang}
+              onChange={this.handleSearchFiltersChanged}
+            />
+            {this.state.missingTranslationsLang && (
+              <Tag
+                id="tag-missing-translations"
+                minimal
+                onRemove={() => this.filterMissingTranslations(undefined)}
+                style={{ marginLeft: 5 }}
+              >
+                {lang.tr('studio.content.translations.missingIn', {
+                  language: this.state.missingTranslationsLang.toUpperCase()
+                })}
+              </Tag>
+            )}
           </LeftToolbarButtons>
-          {/*
-          Disabled for now, it still needs a little bit more testing with additional scenarios.
           <RightToolbarButtons>
             <ImportModal onImportCompleted={this.onImportCompleted} />
-            <Button
-              id="btn-export"
-              icon="upload"
-              text="Export to JSON"
-              onClick={this.downloadJson}
-              style={{ marginLeft: 5 }}
+            <CleanupModal onCleanupCompleted={this.onImportCompleted} />
+            <BulkEditModal
+              selectedIds={this.state.checkedIds}
+              contentType={this.props.contentType}
+              fields={this.props.contentTypeFields}
+              languages={this.props.languages}
+              contentLang={this.props.contentLang}
+              onUpdateCompleted={this.launchSearch}
+            />
+            <TranslationsMenu
+              status={this.state.translationStatus}
+              contentType={this.props.contentType}
+              onOpening={this.fetchTranslationStatus}
+              onFilterMissing={this.filterMissingTranslations}
+              onExport={this.downloadTranslations}
+              onImportCompleted={this.onTranslationsImported}
             />
-          </RightToolbarButtons> */}
+            <Popover
+              position={Position.BOTTOM_RIGHT}
+              content={
+                <Menu>
+                  <MenuItem id="btn-exportJson" text="JSON" onClick={() => this.downloadExport('json')} />
+                  <MenuItem id="btn-exportCsv" text="CSV" onClick={() => this.downloadExport('csv')} />
+                </Menu>
+              }
+            >
+              <Button
+                id="btn-export"
+                icon="upload"
+                rightIcon="caret-down"
+                text={
+                  this.props.contentType ? lang.tr('studio.content.exportType') : lang.tr('studio.content.exportAll')
+                }
+                style={{ marginLeft: 5 }}
+              />
+            </Popover>
+          </RightToolbarButtons>
         </Toolbar>
         <div className={cx(style.tableWrapper, this.props.className)}>{this.renderTable()}</div>
         <UsageModal
@@ -414,12 +569,17 @@ interface Props {
   contentItems: any
   readOnly: boolean
   contentLang: string
+  /** Selected content type, exports are limited to it */
+  contentType?: string
+  contentTypeFields: string[]
+  languages: string[]
   handleSearch: (query: SearchQuery) => void
-  handleDeleteSelected: (ids: string[]) => void
+  handleDeleteSelected: (ids: string[], force?: boolean) => void
   handleClone: (ids: string[]) => void
   handleRefresh: () => void
   handleEdit: (id: string, contentType: any) => void
   refreshCategories: () => void
+  changeContentLanguage: (language: string) => void
 }
 
 interface State {
@@ -428,12 +588,16 @@ interface State {
   allChecked: boolean
   checkedIds: string[]
   searchTerm: string
+  searchFilters: ContentSearchFilters
   sortOrder: any
   filters: any
   tableHeight: number
   downloadUrl: string | undefined
   showUsageModal: boolean
   contentUsage: ContentUsage[]
+  translationStatus: ContentTranslationStatus | undefined
+  /** Only elements with missing translations in this language are listed */
+  missingTranslationsLang: string | undefined
 }
 
 interface SearchQuery {
@@ -442,4 +606,9 @@ interface SearchQuery {
   sortOrder: any
   filters: any
   searchTerm: string
+  ids?: string[]
+  searchLanguage?: string
+  createdBy?: string
+  modifiedAfter?: string
+  modifiedBefore?: string
 }
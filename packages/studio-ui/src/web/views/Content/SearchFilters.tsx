@@ -0,0 +1,91 @@
+import { Button, Checkbox, Classes, FormGroup, InputGroup, Intent, Popover, Position } from '@blueprintjs/core'
+import { lang } from 'botpress/shared'
+import _ from 'lodash'
+import React, { FC } from 'react'
+
+import style from './style.scss'
+
+export interface ContentSearchFilters {
+  currentLanguageOnly?: boolean
+  createdBy?: string
+  /** Dates formatted as YYYY-MM-DD */
+  modifiedAfter?: string
+  modifiedBefore?: string
+}
+
+interface Props {
+  filters: ContentSearchFilters
+  contentLang: string
+  onChange: (filters: ContentSearchFilters) => void
+}
+
+/**
+ * Converts the filters to the search params of the elements list. Dates are inclusive, in the local time zone
+ */
+export const getSearchParams = (filters: ContentSearchFilters, contentLang: string) => ({
+  searchLanguage: filters.currentLanguageOnly ? contentLang : undefined,
+  createdBy: filters.createdBy || undefined,
+  modifiedAfter: filters.modifiedAfter ? new Date(`${filters.modifiedAfter}T00:00:00`).toISOString() : undefined,
+  modifiedBefore: filters.modifiedBefore ? new Date(`${filters.modifiedBefore}T23:59:59.999`).toISOString() : undefined
+})
+
+export const SearchFilters: FC<Props> = ({ filters, contentLang, onChange }) => {
+  const activeCount = _.compact(Object.values(filters)).length
+  const update = (changes: ContentSearchFilters) => onChange({ ...filters, ...changes })
+
+  return (
+    <Popover
+      position={Position.BOTTOM_LEFT}
+      content={
+        <div className={style.searchFilters}>
+          <Checkbox
+            checked={!!filters.currentLanguageOnly}
+            label={lang.tr('studio.content.search.currentLanguageOnly', { language: contentLang.toUpperCase() })}
+            onChange={(e) => update({ currentLanguageOnly: e.currentTarget.checked })}
+          />
+          <FormGroup label={lang.tr('studio.content.search.createdBy')} labelFor="input-createdBy">
+            <InputGroup
+              id="input-createdBy"
+              small
+              value={filters.createdBy || ''}
+              onChange={(e) => update({ createdBy: e.currentTarget.value })}
+            />
+          </FormGroup>
+          <FormGroup label={lang.tr('studio.content.search.modifiedAfter')} labelFor="input-modifiedAfter">
+            <input
+              id="input-modifiedAfter"
+              type="date"
+              className={Classes.INPUT}
+              value={filters.modifiedAfter || ''}
+              onChange={(e) => update({ modifiedAfter: e.currentTarget.value })}
+            />
+          </FormGroup>
+          <FormGroup label={lang.tr('studio.content.search.modifiedBefore')} labelFor="input-modifiedBefore">
+            <input
+              id="input-modifiedBefore"
+              type="date"
+              className={Classes.INPUT}
+              value={filters.modifiedBefore || ''}
+              onChange={(e) => update({ modifiedBefore: e.currentTarget.value })}
+            />
+          </FormGroup>
+          <Button
+            small
+            text={lang.tr('studio.content.search.clearFilters')}
+            disabled={!activeCount}
+            onClick={() => onChange({})}
+          />
+        </div>
+      }
+    >
+      <Button
+        id="btn-search-filters"
+        small
+        icon="filter-list"
+        intent={activeCount ? Intent.PRIMARY : Intent.NONE}
+        text={activeCount ? lang.tr('studio.content.search.activeFilters', { count: activeCount }) : undefined}
+        style={{ marginLeft: 5, marginTop: 3 }}
+      />
+    </Popover>
+  )
+}
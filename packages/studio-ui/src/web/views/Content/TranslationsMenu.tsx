@@ -0,0 +1,143 @@
+import { Button, Menu, MenuDivider, MenuItem, Popover, Position } from '@blueprintjs/core'
+import axios from 'axios'
+import { lang } from 'botpress/shared'
+import { ContentTranslationImportResult, ContentTranslationStatus, TranslationCoverage } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, Fragment, useRef } from 'react'
+import { isOperationAllowed, toastFailure, toastSuccess } from '~/components/Shared/Utils'
+
+const axiosConfig = { headers: { 'Content-Type': 'multipart/form-data' } }
+
+interface Props {
+  status?: ContentTranslationStatus
+  /** Coverage is computed for this content type only when it is set */
+  contentType?: string
+  onOpening: () => void
+  onFilterMissing: (language: string) => void
+  onExport: (language: string, format: 'xliff' | 'csv') => void
+  onImportCompleted: () => void
+}
+
+const getPercent = (coverage?: TranslationCoverage) =>
+  coverage?.total ? Math.floor((coverage.translated / coverage.total) * 100) : 100
+
+export const TranslationsMenu: FC<Props> = (props) => {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const canEdit = isOperationAllowed({ operation: 'write', resource: 'bot.content' })
+
+  const importFile = async (files: FileList | null) => {
+    if (!files?.length) {
+      return
+    }
+
+    try {
+      const form = new FormData()
+      form.append('file', files[0])
+
+      const { data } = await axios.post<ContentTranslationImportResult>(
+        `${window.STUDIO_API_PATH}/cms/translations/import`,
+        form,
+        axiosConfig
+      )
+
+      toastSuccess(
+        lang.tr('studio.content.translations.importSuccess', {
+          count: data.updatedElements,
+          language: data.language.toUpperCase()
+        })
+      )
+      if (data.errors.length) {
+        toastFailure(
+          lang.tr('studio.content.translations.importErrors', {
+            count: data.errors.length,
+            details: data.errors.slice(0, 5).join(', ')
+          })
+        )
+      }
+      props.onImportCompleted()
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      fileInput.current!.value = ''
+    }
+  }
+
+  const renderLanguage = (language: string) => {
+    const { languages, contentTypes } = props.status!
+    const coverage = props.contentType ? contentTypes[props.contentType]?.[language] : languages[language]
+
+    return (
+      <MenuItem
+        key={language}
+        id={`btn-translations-${language}`}
+        text={language.toUpperCase()}
+        label={`${getPercent(coverage)}%`}
+        title={lang.tr('studio.content.translations.coverage', {
+          translated: coverage?.translated || 0,
+          total: coverage?.total || 0
+        })}
+      >
+        <MenuItem
+          icon="filter"
+          text={lang.tr('studio.content.translations.showMissing')}
+          onClick={() => props.onFilterMissing(language)}
+        />
+        <MenuDivider />
+        <MenuItem
+          icon="export"
+          text={lang.tr('studio.content.translations.exportMissing', { format: 'XLIFF' })}
+          onClick={() => props.onExport(language, 'xliff')}
+        />
+        <MenuItem
+          icon="export"
+          text={lang.tr('studio.content.translations.exportMissing', { format: 'CSV' })}
+          onClick={() => props.onExport(language, 'csv')}
+        />
+      </MenuItem>
+    )
+  }
+
+  const languages = Object.keys(props.status?.languages || {})
+
+  return (
+    <Fragment>
+      <input
+        type="file"
+        ref={fileInput}
+        accept=".xlf,.xliff,.csv"
+        style={{ display: 'none' }}
+        onChange={(e) => importFile(e.target.files)}
+      />
+      <Popover
+        position={Position.BOTTOM_RIGHT}
+        onOpening={props.onOpening}
+        content={
+          <Menu>
+            <MenuDivider title={lang.tr('studio.content.translations.coverageTitle')} />
+            {!languages.length && <MenuItem disabled text={lang.tr('studio.content.translations.noLanguage')} />}
+            {languages.map(renderLanguage)}
+            {canEdit && !!languages.length && (
+              <Fragment>
+                <MenuDivider />
+                <MenuItem
+                  id="btn-translations-import"
+                  icon="import"
+                  text={lang.tr('studio.content.translations.import')}
+                  onClick={() => fileInput.current!.click()}
+                />
+              </Fragment>
+            )}
+          </Menu>
+        }
+      >
+        <Button
+          id="btn-translations"
+          icon="translate"
+          rightIcon="caret-down"
+          text={lang.tr('studio.content.translations.title')}
+          style={{ marginLeft: 5 }}
+        />
+      </Popover>
+    </Fragment>
+  )
+}
@@ -31,7 +31,7 @@ export const UsageModal: FC<Props> = (props) => {
       Cell: (x) => {
         const href = getHref(x)
         const name = x.original.name
-        return <a href={href}>{x.original.type === 'Flow' ? getFlowLabel(name) : name}</a>
+        return href ? <a href={href}>{x.original.type === 'Flow' ? getFlowLabel(name) : name}</a> : name
       }
     },
     {
@@ -56,7 +56,7 @@ export const UsageModal: FC<Props> = (props) => {
     if (x.original.type === 'Flow') {
       const flowName = x.original.name.replace(/\.flow\.json$/i, '')
       return `/studio/${window.BOT_ID}/flows/${flowName}/#search:${x.original.node}`
-    } else {
+    } else if (x.original.type === 'Q&A') {
       return `/studio/${window.BOT_ID}/modules/qna?id=${x.original.id}`
     }
   }
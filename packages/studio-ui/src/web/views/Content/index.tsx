@@ -13,16 +13,14 @@ import {
   fetchContentCategories,
   fetchContentItems,
   fetchFlows,
-  getQNAContentElementUsage,
   upsertContentItem
 } from '~/actions'
 import CreateOrEditModal from '~/components/Content/CreateOrEditModal'
 import { Container } from '~/components/Shared/Interface'
-import { getContentItemUsage } from '~/components/Shared/Utils'
+import { toastFailure } from '~/components/Shared/Utils'
 import { isOperationAllowed } from '~/components/Shared/Utils/AccessControl'
 import DocumentationProvider from '~/components/Util/DocumentationProvider'
 import { RootReducer } from '~/reducers'
-import { FlowReducer } from '~/reducers/flows'
 import { UserReducer } from '~/reducers/user'
 import { CONTENT_TYPES_MEDIA } from '~/util/ContentDeletion'
 
@@ -39,8 +37,7 @@ class ContentView extends Component<Props, State> {
     showModal: false,
     modifyId: null,
     selectedId: 'all',
-    contentToEdit: null,
-    qnaUsage: {}
+    contentToEdit: null
   }
 
   initialized = false
@@ -57,7 +54,6 @@ class ContentView extends Component<Props, State> {
       this.props.fetchContentCategories()
       this.props.fetchFlows()
       this.fetchCategoryItems(this.state.selectedId)
-      this.props.getQNAContentElementUsage()
     }
   }
 
@@ -80,10 +76,6 @@ class ContentView extends Component<Props, State> {
   }
 
   currentContentType() {
-    this.props.contentItems.forEach((element: ContentElementUsage) => {
-      element.usage = getContentItemUsage(element.id, this.props.flows, this.props.qnaUsage)
-    })
-
     return this.state.modifyId
       ? _.get(_.find(this.props.contentItems, { id: this.state.modifyId }), 'contentType')
       : this.state.selectedId
@@ -135,11 +127,12 @@ class ContentView extends Component<Props, State> {
     this.setState({ selectedId: id })
   }
 
-  handleDeleteSelected = (ids) => {
+  handleDeleteSelected = (ids: string[], force?: boolean) => {
     this.props
-      .deleteContentItems(ids)
+      .deleteContentItems(ids, force)
       .then(() => this.props.fetchContentCategories())
       .then(() => this.fetchCategoryItems(this.state.selectedId))
+      .catch((err) => toastFailure(_.get(err, 'response.data.message', err.message)))
   }
 
   handleModalShowForEdit = (id: string) => {
@@ -201,6 +194,10 @@ class ContentView extends Component<Props, State> {
                 : _.find(categoriesRegistered, { id: this.state.selectedId }).count
             }
             className={style.contentListWrapper}
+            contentType={this.state.selectedId === 'all' ? undefined : this.state.selectedId}
+            contentTypeFields={Object.keys(
+              _.get(_.find(categoriesRegistered, { id: this.state.selectedId }), 'schema.json.properties', {})
+            )}
             contentItems={categoriesRegistered.length ? this.props.contentItems ?? [] : []}
             handleRefresh={this.handleRefresh}
             handleEdit={this.handleModalShowForEdit}
@@ -231,9 +228,7 @@ class ContentView extends Component<Props, State> {
 const mapStateToProps = (state: RootReducer) => ({
   categories: state.content.categories,
   contentItems: state.content.currentItems,
-  flows: state.flows,
-  user: state.user,
-  qnaUsage: state.content.qnaUsage
+  user: state.user
 })
 
 const mapDispatchToProps = {
@@ -242,7 +237,6 @@ const mapDispatchToProps = {
   fetchContentCategories,
   fetchContentItems,
   fetchFlows,
-  getQNAContentElementUsage,
   upsertContentItem
 }
 
@@ -252,15 +246,12 @@ type Props = {
   fetchContentCategories: Function
   fetchContentItems: Function
   fetchFlows: Function
-  getQNAContentElementUsage: Function
   upsertContentItem: Function
   deleteContentItems: Function
   deleteMedia: Function
   categories: Categories
   contentItems: ContentElementUsage[]
-  flows: FlowReducer
   user: UserReducer
-  qnaUsage: ContentElementUsage[]
 } & RouteComponentProps
 
 interface State {
@@ -269,7 +260,6 @@ interface State {
   contentToEdit: object
   modifyId: string
   selectedId: string
-  qnaUsage: any
 }
 
 export type ContentElementUsage = {
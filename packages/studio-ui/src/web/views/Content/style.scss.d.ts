@@ -1,8 +1,15 @@
 // This file is automatically generated.
 // Please do not change this file!
 interface CssExports {
+  'ReactTable': string;
+  'bp3-checkbox': string;
+  'btn-info': string;
+  'bulkEditChange': string;
+  'bulkEditChanges': string;
   'cancel': string;
   'centered': string;
+  'cleanupItemName': string;
+  'cleanupList': string;
   'content': string;
   'contentListWrapper': string;
   'contentMain': string;
@@ -10,6 +17,10 @@ interface CssExports {
   'imagePreview': string;
   'missingTranslation': string;
   'modal': string;
+  'rt-tbody': string;
+  'searchFilters': string;
+  'searchSnippet': string;
+  'sidePanel_section': string;
   'tableWrapper': string;
 }
 declare var cssExports: CssExports;
@@ -0,0 +1,55 @@
+import { Button, Intent } from '@blueprintjs/core'
+import { Dialog, lang } from 'botpress/shared'
+import { FlowChangeConflict } from 'common/typings'
+import React, { FC } from 'react'
+import { connect } from 'react-redux'
+import { resolveFlowConflict } from '~/actions'
+import { RootReducer } from '~/reducers'
+
+import style from './style.scss'
+
+type StateProps = ReturnType<typeof mapStateToProps>
+type DispatchProps = typeof mapDispatchToProps
+
+const FlowConflicts: FC<StateProps & DispatchProps> = ({ currentFlow, flowConflicts, ...props }) => {
+  const conflicts: FlowChangeConflict[] = (currentFlow && flowConflicts[currentFlow]) || []
+  const [conflict] = conflicts
+
+  if (!conflict) {
+    return null
+  }
+
+  const resolve = (keep: 'mine' | 'theirs') => props.resolveFlowConflict({ flow: currentFlow!, conflict, keep })
+  const element = conflict.node ?? lang.tr('studio.flow.conflicts.flowProperties')
+  const isDeletion = conflict.change.type === 'delete_node'
+  const isDeleted = !conflict.current && conflict.change.type === 'update_node'
+
+  return (
+    <Dialog.Wrapper
+      title={lang.tr('studio.flow.conflicts.title', { count: conflicts.length })}
+      isOpen
+      onClose={() => resolve('theirs')}
+    >
+      <Dialog.Body>
+        <p>{lang.tr('studio.flow.conflicts.description', { element })}</p>
+        {isDeletion && <p className={style.conflictDetails}>{lang.tr('studio.flow.conflicts.youDeleted')}</p>}
+        {isDeleted && <p className={style.conflictDetails}>{lang.tr('studio.flow.conflicts.theyDeleted')}</p>}
+      </Dialog.Body>
+      <Dialog.Footer>
+        <Button onClick={() => resolve('theirs')}>{lang.tr('studio.flow.conflicts.keepTheirs')}</Button>
+        <Button intent={Intent.PRIMARY} onClick={() => resolve('mine')}>
+          {lang.tr('studio.flow.conflicts.keepMine')}
+        </Button>
+      </Dialog.Footer>
+    </Dialog.Wrapper>
+  )
+}
+
+const mapStateToProps = (state: RootReducer) => ({
+  currentFlow: state.flows.currentFlow,
+  flowConflicts: state.flows.flowConflicts
+})
+
+const mapDispatchToProps = { resolveFlowConflict }
+
+export default connect<StateProps, DispatchProps>(mapStateToProps, mapDispatchToProps)(FlowConflicts)
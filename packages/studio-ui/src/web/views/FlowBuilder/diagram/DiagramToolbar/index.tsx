@@ -1,6 +1,6 @@
 import { Button, Icon, Intent, Popover, Position, Tag, Tooltip } from '@blueprintjs/core'
 import { lang } from 'botpress/shared'
-import { FlowMutex } from 'common/typings'
+import { FlowLintProblem, FlowLintSeverity, FlowPresence } from 'common/typings'
 import _ from 'lodash'
 import React, { FC, Fragment } from 'react'
 import { connect } from 'react-redux'
@@ -8,28 +8,68 @@ import { getCurrentFlow } from '~/reducers'
 
 import style from './style.scss'
 
-interface MutexInfo {
-  currentMutex?: FlowMutex
-  someoneElseIsEditingOtherFlow?: boolean
-}
-
 interface OwnProps {
   currentFlow: any
   handleFlowWideClicked: () => void
-  mutexInfo: string
   highlightNode: (node: any) => void
 }
 
 type StateProps = ReturnType<typeof mapStateToProps>
 type Props = StateProps & OwnProps
 
+const LINT_SEVERITIES: FlowLintSeverity[] = ['error', 'warning']
+
+const getCurrentFlowLintProblems = (props): FlowLintProblem[] =>
+  props.lintProblems.filter((problem: FlowLintProblem) => problem.flow === props.currentFlow?.name)
+
+const FlowLintProblems = (props) => {
+  const lintProblems = getCurrentFlowLintProblems(props)
+
+  return (
+    <Fragment>
+      {LINT_SEVERITIES.map((severity) => {
+        const problems = lintProblems.filter((problem) => problem.severity === severity)
+        if (!problems.length) {
+          return null
+        }
+
+        return (
+          <div key={severity} className={style.lintGroup}>
+            <h6>{lang.tr(`studio.flow.toolbar.lint.${severity}`, { nb: problems.length })}</h6>
+            {problems.map((problem, idx) => (
+              <div key={idx}>
+                <Icon
+                  icon={severity === 'error' ? 'error' : 'warning-sign'}
+                  intent={severity === 'error' ? Intent.DANGER : Intent.WARNING}
+                  className={style.lintIcon}
+                />
+                {problem.node ? (
+                  <a onClick={() => props.highlightNode({ flow: problem.flow, node: problem.node })}>
+                    <strong>{problem.node}</strong>
+                  </a>
+                ) : (
+                  <strong>{lang.tr('studio.flow.toolbar.lint.flowWide')}</strong>
+                )}
+                : {problem.message}
+              </div>
+            ))}
+          </div>
+        )
+      })}
+    </Fragment>
+  )
+}
+
 const FlowProblems = (props) => {
-  const hasProblems = !!props.flowProblems.length
+  const lintProblems = getCurrentFlowLintProblems(props)
+  const nbProblems = props.flowProblems.length + lintProblems.length
 
-  if (!hasProblems) {
+  if (!nbProblems) {
     return null
   }
 
+  const hasErrors = !!props.flowProblems.length || lintProblems.some((problem) => problem.severity === 'error')
+
   return (
     <Popover>
       <Tooltip
@@ -43,8 +83,8 @@ const FlowProblems = (props) => {
         position={Position.BOTTOM}
       >
         <div>
-          <Icon icon="error" className={style.flowProblems} />
-          {props.flowProblems.length}
+          <Icon icon={hasErrors ? 'error' : 'warning-sign'} className={style.flowProblems} />
+          {nbProblems}
         </div>
       </Tooltip>
       <div style={{ padding: 10 }}>
@@ -56,32 +96,51 @@ const FlowProblems = (props) => {
             : {lang.tr('studio.flow.toolbar.missingDetails', { nb: <strong>{node.missingPorts}</strong> })}
           </div>
         ))}
+        <FlowLintProblems {...props} />
       </div>
     </Popover>
   )
 }
 
-const FlowMutexInfo = (props: { mutexInfo: MutexInfo }) => {
-  if (!props.mutexInfo) {
+const getOtherPresences = (props): FlowPresence[] =>
+  props.presences.filter((presence: FlowPresence) => presence.userEmail !== props.user.email)
+
+const FlowPresenceInfo = (props) => {
+  const presences = getOtherPresences(props)
+  if (!presences.length) {
     return null
   }
 
-  const isLock = !!props.mutexInfo.currentMutex
-  const { lastModifiedBy } = (props.mutexInfo.currentMutex || {}) as FlowMutex
-
-  const tooltipContent = isLock ? (
-    <span>{lang.tr('studio.flow.toolbar.currentlyEditing', { name: lastModifiedBy })}</span>
-  ) : (
-    <span>
-      {lang.tr('studio.flow.toolbar.somebodyIsEditing')}
-      <br />
-      {lang.tr('studio.flow.toolbar.renamingAndDeletingDisabled')}
-    </span>
-  )
+  const [onCurrentFlow, onOtherFlows] = _.partition(presences, (x) => x.flow === props.currentFlow?.name)
+  const getNodeName = (nodeId?: string) => _.find(props.currentFlow?.nodes, { id: nodeId })?.name
 
   return (
-    <Tooltip content={<span>{tooltipContent}</span>} position={Position.BOTTOM}>
-      <Icon icon={isLock ? 'lock' : 'user'} />
+    <Tooltip
+      content={
+        <div>
+          {onCurrentFlow.map(({ userEmail, nodeId }) => (
+            <div key={userEmail}>
+              {getNodeName(nodeId)
+                ? lang.tr('studio.flow.toolbar.presence.editingNode', { name: userEmail, node: getNodeName(nodeId) })
+                : lang.tr('studio.flow.toolbar.presence.onThisFlow', { name: userEmail })}
+            </div>
+          ))}
+          {onOtherFlows.map(({ userEmail, flow }) => (
+            <div key={userEmail}>
+              {lang.tr('studio.flow.toolbar.presence.onOtherFlow', {
+                name: userEmail,
+                flow: flow.replace(/\.flow\.json$/i, '')
+              })}
+            </div>
+          ))}
+        </div>
+      }
+      position={Position.BOTTOM}
+    >
+      <div className={style.presence}>
+        <Icon icon={onCurrentFlow.length ? 'people' : 'person'} />
+        {!!onCurrentFlow.length && onCurrentFlow.length}
+      </div>
     </Tooltip>
   )
 }
@@ -109,13 +168,13 @@ const CatchAll = (props) => {
 }
 
 const FlowBar = (props) => {
-  if (!props.mutexInfo && !props.flowProblems.length) {
+  if (!getOtherPresences(props).length && !props.flowProblems.length && !getCurrentFlowLintProblems(props).length) {
     return null
   }
 
   return (
     <div>
-      <FlowMutexInfo {...props} />
+      <FlowPresenceInfo {...props} />
       <FlowProblems {...props} />
     </div>
   )
@@ -132,6 +191,9 @@ const DiagramToolbar: FC<Props> = (props) => {
 
 const mapStateToProps = (state) => ({
   flowProblems: state.flows.flowProblems,
+  lintProblems: state.flows.lintProblems,
+  presences: state.flows.presences,
+  user: state.user,
   currentFlow: getCurrentFlow(state)
 })
 
@@ -2,6 +2,9 @@
 // Please do not change this file!
 interface CssExports {
   'flowProblems': string;
+  'lintGroup': string;
+  'lintIcon': string;
+  'presence': string;
   'toolbar': string;
 }
 declare var cssExports: CssExports;
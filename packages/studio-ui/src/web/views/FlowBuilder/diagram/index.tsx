@@ -25,6 +25,7 @@ import {
   openFlowNodeProps,
   pasteFlowNode,
   refreshFlowsLinks,
+  refreshFlowsLint,
   removeFlowNode,
   setDiagramAction,
   switchFlow,
@@ -60,7 +61,6 @@ interface OwnProps {
   setCurrentLang: (lang: string) => void
   languages: string[]
   defaultLang: string
-  mutexInfo: string
   handleFilterChanged: (event: any) => void
 }
 
@@ -449,6 +449,7 @@ class Diagram extends Component<Props> {
 
   checkForProblems = _.debounce(() => {
     this.props.updateFlowProblems(this.manager.getNodeProblems())
+    this.props.refreshFlowsLint()
   }, 500)
 
   createFlow(name: string) {
@@ -653,7 +654,6 @@ class Diagram extends Component<Props> {
             <DiagramToolbar
               currentFlow={this.props.currentFlow}
               handleFlowWideClicked={this.handleFlowWideClicked}
-              mutexInfo={this.props.mutexInfo}
               highlightNode={(node) => {
                 this.manager.setHighlightedNodes([node])
                 this.forceUpdate()
@@ -710,6 +710,7 @@ const mapDispatchToProps = {
   refreshFlowsLinks,
   insertNewSkillNode,
   updateFlowProblems,
+  refreshFlowsLint,
   zoomToLevel,
   buildSkill: buildNewSkill
 }
@@ -1,6 +1,4 @@
 import { lang, MainContainer, utils } from 'botpress/shared'
-import { FlowView } from 'common/typings'
-import _ from 'lodash'
 import React, { useEffect, useRef, useState } from 'react'
 import { connect } from 'react-redux'
 import { RouteComponentProps, withRouter } from 'react-router-dom'
@@ -12,27 +10,26 @@ import {
   refreshActions,
   refreshIntents,
   setDiagramAction,
-  switchFlow
+  switchFlow,
+  updateFlowPresence
 } from '~/actions'
 import { Timeout, toastFailure, toastInfo } from '~/components/Shared/Utils'
 import { isOperationAllowed } from '~/components/Shared/Utils/AccessControl'
 import { RootReducer } from '~/reducers'
 
 import Diagram from './diagram'
+import FlowConflicts from './FlowConflicts'
 import SidePanel, { PanelPermissions, SidePanelInspector } from './sidePanelFlows'
 import SkillsBuilder from './skills'
 import style from './style.scss'
 
-interface OwnProps {
-  currentMutex: any
-}
-
 type StateProps = ReturnType<typeof mapStateToProps>
 type DispatchProps = typeof mapDispatchToProps
-type Props = DispatchProps & StateProps & OwnProps & RouteComponentProps
+type Props = DispatchProps & StateProps & RouteComponentProps
 
 const allActions: PanelPermissions[] = ['create', 'rename', 'delete']
 const searchTag = '#search:'
+const PRESENCE_INTERVAL = 10000
 
 const FlowBuilder = (props: Props) => {
   const { flow } = props.match.params as any
@@ -40,7 +37,6 @@ const FlowBuilder = (props: Props) => {
   const diagram: any = useRef(null)
   const [showSearch, setShowSearch] = useState(false)
   const [readOnly, setReadOnly] = useState(false)
-  const [mutex, setMutex] = useState<any>()
   const [actions, setActions] = useState(allActions)
   const [highlightFilter, setHighlightFilter] = useState<string>()
 
@@ -78,34 +74,17 @@ const FlowBuilder = (props: Props) => {
   }, [props.errorSavingFlows])
 
   useEffect(() => {
-    const me = props.user.email
-
-    const currentFlow = props.flowsByName[props.currentFlow]
-    const { currentMutex } = (currentFlow || {}) as FlowView
-
-    if (currentMutex?.remainingSeconds && currentMutex.lastModifiedBy !== me) {
-      setReadOnly(true)
-      setActions(['create'])
-      setMutex({ currentMutex })
+    if (!props.currentFlow) {
       return
     }
 
-    const someoneElseIsEditingOtherFlow = _.values(props.flowsByName).some(
-      (f) => f.currentMutex?.remainingSeconds && f.currentMutex.lastModifiedBy !== me
-    )
+    const nodeId = props.currentFlowNode
+    props.updateFlowPresence(props.currentFlow, nodeId)
 
-    if (isOperationAllowed({ operation: 'write', resource: 'bot.flows' })) {
-      setReadOnly(false)
-      setMutex(undefined)
-    }
-
-    if (someoneElseIsEditingOtherFlow) {
-      setActions(['create'])
-      setMutex({ someoneElseIsEditingOtherFlow: true })
-    } else {
-      setActions(allActions)
-    }
-  }, [props.flowsByName, props.currentFlow])
+    // Other users only see us while we keep telling the server we're still there
+    const interval = setInterval(() => props.updateFlowPresence(props.currentFlow, nodeId), PRESENCE_INTERVAL)
+    return () => clearInterval(interval)
+  }, [props.currentFlow, props.currentFlowNode])
 
   const pushFlowState = (flow) => props.history.push(`/flows/${flow.replace(/\.flow\.json/i, '')}`)
 
@@ -160,19 +139,17 @@ const FlowBuilder = (props: Props) => {
         <SidePanel
         onDeleteSelectedElements={() => diagram?.deleteSelectedElements()}
         readOnly={readOnly}
-        mutexInfo={mutex}
         permissions={actions}
         onCreateFlow={createFlow}
       />
       <div className={style.container}>
         <div className={style.diagram}>
           <Diagram
-            readOnly={readOnly}
+            readOnly={readOnly || !!props.revisionPreview}
             showSearch={showSearch}
             hideSearch={() => setShowSearch(false)}
             handleFilterChanged={handleFilterChanged}
             highlightFilter={highlightFilter}
-            mutexInfo={mutex}
             ref={(el) => {
               if (!!el) {
                 // @ts-ignore
@@ -187,6 +164,7 @@ const FlowBuilder = (props: Props) => {
       </div>
 
       <SkillsBuilder />
+      <FlowConflicts />
     </MainContainer>
     </div>
   )
@@ -194,9 +172,10 @@ const FlowBuilder = (props: Props) => {
 
 const mapStateToProps = (state: RootReducer) => ({
   currentFlow: state.flows.currentFlow,
+  revisionPreview: state.flows.revisionPreview,
+  currentFlowNode: state.flows.currentFlowNode,
   flowsByName: state.flows.flowsByName,
   showFlowNodeProps: state.flows.showFlowNodeProps,
-  user: state.user,
   errorSavingFlows: state.flows.errorSavingFlows,
   defaultLanguage: state.bot.defaultLanguage,
   currentLanguage: state.language.contentLang
@@ -210,10 +189,11 @@ const mapDispatchToProps = {
   clearErrorSaveFlows,
   closeFlowNodeProps,
   refreshActions,
-  refreshIntents
+  refreshIntents,
+  updateFlowPresence
 }
 
-export default connect<StateProps, DispatchProps, OwnProps>(
+export default connect<StateProps, DispatchProps>(
   mapStateToProps,
   mapDispatchToProps
 )(withRouter(FlowBuilder))
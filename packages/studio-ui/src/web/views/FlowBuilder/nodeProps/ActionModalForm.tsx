@@ -13,6 +13,7 @@ import { RootReducer } from '~/reducers'
 import ParametersTable, { Parameter } from './ParametersTable'
 import SelectActionDropdown from './SelectActionDropdown'
 import style from './style.scss'
+import TryActionDialog from './TryActionDialog'
 
 export type ActionType = 'code' | 'message'
 export type Item<T extends ActionType> = T extends 'code' ? CodeItem : T extends 'message' ? MessageItem : never
@@ -50,6 +51,7 @@ interface State {
   isEdit: boolean
   messageValue: string
   functionParams: Parameter
+  isTryingAction: boolean
 }
 
 const DEFAULT_STATE: State = {
@@ -57,7 +59,8 @@ const DEFAULT_STATE: State = {
   selectedActionOption: undefined,
   isEdit: false,
   messageValue: '',
-  functionParams: {}
+  functionParams: {},
+  isTryingAction: false
 }
 
 class ActionModalForm extends Component<Props, State> {
@@ -162,6 +165,14 @@ class ActionModalForm extends Component<Props, State> {
           <>
             <h5>
               {lang.tr('studio.flow.node.actionParameters')} {paramsHelp}
+              <Button
+                minimal
+                small
+                icon="play"
+                className={style.tryActionButton}
+                text={lang.tr('studio.flow.node.tryAction.tryIt')}
+                onClick={() => this.setState({ isTryingAction: true })}
+              />
             </h5>
             <div className={style.section}>
               <ParametersTable
@@ -227,7 +238,8 @@ class ActionModalForm extends Component<Props, State> {
   }
 
   handleAltEnter = (event: React.KeyboardEvent) => {
-    if (event.altKey && event.key === 'Enter' && this.isValid()) {
+    // The dialog trying the action is rendered inside this one
+    if (event.altKey && event.key === 'Enter' && this.isValid() && !this.state.isTryingAction) {
       this.onSubmit()
     }
   }
@@ -273,6 +285,14 @@ class ActionModalForm extends Component<Props, State> {
             />
           </Dialog.Footer>
         </Dialog.Wrapper>
+        {this.state.selectedActionOption && (
+          <TryActionDialog
+            isOpen={this.state.isTryingAction}
+            action={this.state.selectedActionOption.metadata}
+            parameters={this.state.functionParams}
+            onClose={() => this.setState({ isTryingAction: false })}
+          />
+        )}
       </div>
     )
   }
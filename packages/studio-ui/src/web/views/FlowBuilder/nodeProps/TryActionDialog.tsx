@@ -0,0 +1,159 @@
+import { Button, Callout, FormGroup, Intent, TextArea } from '@blueprintjs/core'
+import axios from 'axios'
+import { Dialog, lang, toast } from 'botpress/shared'
+import { encodeFolderPath } from 'common/http'
+import { ActionRunResult, LocalActionDefinition } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, useEffect, useState } from 'react'
+
+import style from './style.scss'
+
+interface Props {
+  isOpen: boolean
+  action: LocalActionDefinition
+  /** Parameters of the node, used as the arguments of the action */
+  parameters: { [name: string]: any }
+  onClose: () => void
+}
+
+type Field = 'args' | 'event' | 'user' | 'temp' | 'session'
+
+const FIELDS: Field[] = ['args', 'event', 'user', 'temp', 'session']
+
+const DEFAULT_EVENT = {
+  type: 'text',
+  channel: 'web',
+  direction: 'incoming',
+  target: 'dry-run-user',
+  preview: 'Hello',
+  payload: { type: 'text', text: 'Hello' }
+}
+
+const toJson = (value: any) => JSON.stringify(value, undefined, 2)
+
+const getDefaultValues = (parameters: Props['parameters']): { [field in Field]: string } => ({
+  args: toJson(parameters || {}),
+  event: toJson(DEFAULT_EVENT),
+  user: '{}',
+  temp: '{}',
+  session: '{}'
+})
+
+const TryActionDialog: FC<Props> = (props) => {
+  const [values, setValues] = useState(getDefaultValues(props.parameters))
+  const [result, setResult] = useState<ActionRunResult>()
+  const [isRunning, setIsRunning] = useState(false)
+
+  useEffect(() => {
+    if (props.isOpen) {
+      setValues(getDefaultValues(props.parameters))
+      setResult(undefined)
+    }
+  }, [props.isOpen])
+
+  const parseField = (field: Field) => {
+    try {
+      return JSON.parse(values[field] || '{}')
+    } catch (err) {
+      throw new Error(
+        lang.tr('studio.flow.node.tryAction.invalidJson', { field: lang.tr(`studio.flow.node.tryAction.${field}`) })
+      )
+    }
+  }
+
+  const run = async () => {
+    setIsRunning(true)
+    try {
+      const input = _.fromPairs(FIELDS.map((field) => [field, parseField(field)]))
+      const { data } = await axios.post(
+        `${window.STUDIO_API_PATH}/actions/${encodeFolderPath(props.action.name)}/run`,
+        { scope: props.action.scope, ...input }
+      )
+      setResult(data)
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  return (
+    <Dialog.Wrapper
+      id="try-action-form"
+      size="lg"
+      icon="play"
+      title={lang.tr('studio.flow.node.tryAction.title', { name: props.action.name })}
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      onSubmit={run}
+    >
+      <Dialog.Body>
+        <div className={style.tryAction}>
+          <div className={style.tryActionInputs}>
+            {FIELDS.map((field) => (
+              <FormGroup key={field} label={lang.tr(`studio.flow.node.tryAction.${field}`)}>
+                <TextArea
+                  fill
+                  className={style.jsonInput}
+                  rows={field === 'args' || field === 'event' ? 6 : 2}
+                  value={values[field]}
+                  onChange={(e) => setValues({ ...values, [field]: e.currentTarget.value })}
+                />
+              </FormGroup>
+            ))}
+          </div>
+
+          <div className={style.tryActionResult}>
+            {!result && <Callout>{lang.tr('studio.flow.node.tryAction.description')}</Callout>}
+            {result && (
+              <>
+                <Callout intent={result.error ? Intent.DANGER : Intent.SUCCESS}>
+                  {result.error
+                    ? lang.tr('studio.flow.node.tryAction.failed', { duration: result.duration })
+                    : lang.tr('studio.flow.node.tryAction.succeeded', { duration: result.duration })}
+                </Callout>
+                {result.error && <pre className={style.runError}>{result.error.stack || result.error.message}</pre>}
+
+                <h5>{lang.tr('studio.flow.node.tryAction.logs')}</h5>
+                {result.logs.length ? (
+                  <pre>
+                    {result.logs.map((log, i) => (
+                      <div key={i} className={log.level === 'error' ? style.runError : undefined}>
+                        [{log.level}] {log.message}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p>{lang.tr('studio.flow.node.tryAction.noLogs')}</p>
+                )}
+
+                {result.returnValue !== undefined && (
+                  <>
+                    <h5>{lang.tr('studio.flow.node.tryAction.returnValue')}</h5>
+                    <pre>{toJson(result.returnValue)}</pre>
+                  </>
+                )}
+
+                <h5>{lang.tr('studio.flow.node.tryAction.state')}</h5>
+                <pre>{toJson(result.state)}</pre>
+              </>
+            )}
+          </div>
+        </div>
+      </Dialog.Body>
+      <Dialog.Footer>
+        <Button text={lang.tr('close')} onClick={props.onClose} />
+        <Button
+          type="submit"
+          form="try-action-form"
+          icon="play"
+          intent={Intent.PRIMARY}
+          loading={isRunning}
+          text={lang.tr('studio.flow.node.tryAction.run')}
+        />
+      </Dialog.Footer>
+    </Dialog.Wrapper>
+  )
+}
+
+export default TryActionDialog
@@ -14,16 +14,22 @@ interface CssExports {
   'formHeader': string;
   'inspectorTabs': string;
   'item': string;
+  'jsonInput': string;
   'name': string;
   'node': string;
   'nodeBloc': string;
   'returnBloc': string;
   'returnToNodeSection': string;
+  'runError': string;
   'section': string;
   'subflowBloc': string;
   'textFields': string;
   'tip': string;
   'toSubflowSection': string;
+  'tryAction': string;
+  'tryActionButton': string;
+  'tryActionInputs': string;
+  'tryActionResult': string;
 }
 declare var cssExports: CssExports;
 export = cssExports;
@@ -0,0 +1,171 @@
+import { Button, Icon, Intent, Tag } from '@blueprintjs/core'
+import { confirmDialog, lang } from 'botpress/shared'
+import cx from 'classnames'
+import { FlowDiff, FlowRevisionSummary } from 'common/typings'
+import moment from 'moment'
+import React, { FC, useEffect, useState } from 'react'
+import { connect } from 'react-redux'
+import { closeFlowRevisionPreview, previewFlowRevision, restoreFlowRevision } from '~/actions'
+import { FlowsAPI } from '~/actions/api'
+import { SidePanelSection } from '~/components/Shared/Interface'
+import { toastFailure } from '~/components/Shared/Utils'
+import { RootReducer } from '~/reducers'
+
+import style from './style.scss'
+
+const CHANGE_INTENTS = { added: Intent.SUCCESS, removed: Intent.DANGER, changed: Intent.WARNING }
+
+type StateProps = ReturnType<typeof mapStateToProps>
+type DispatchProps = typeof mapDispatchToProps
+
+interface OwnProps {
+  readOnly: boolean
+}
+
+type Props = StateProps & DispatchProps & OwnProps
+
+const FlowHistory: FC<Props> = (props) => {
+  const [revisions, setRevisions] = useState<FlowRevisionSummary[]>([])
+  const [diff, setDiff] = useState<FlowDiff>()
+
+  const { currentFlow, revisionPreview } = props
+
+  const fetchRevisions = async () => {
+    if (!currentFlow) {
+      return
+    }
+
+    try {
+      const { data } = await FlowsAPI.fetchRevisions(currentFlow)
+      setRevisions(data)
+    } catch (err) {
+      toastFailure(lang.tr('studio.flow.history.fetchError'))
+    }
+  }
+
+  useEffect(() => {
+    setDiff(undefined)
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchRevisions()
+  }, [currentFlow])
+
+  const preview = async (revisionId: string) => {
+    if (revisionPreview?.id === revisionId) {
+      return closePreview()
+    }
+
+    try {
+      const [{ data: revision }, { data: diff }] = await Promise.all([
+        FlowsAPI.fetchRevision(currentFlow!, revisionId),
+        FlowsAPI.fetchRevisionDiff(currentFlow!, revisionId)
+      ])
+
+      setDiff(diff)
+      props.previewFlowRevision(revision)
+    } catch (err) {
+      toastFailure(lang.tr('studio.flow.history.fetchError'))
+    }
+  }
+
+  const closePreview = () => {
+    setDiff(undefined)
+    props.closeFlowRevisionPreview()
+  }
+
+  const restore = async () => {
+    if (
+      !(await confirmDialog(lang.tr('studio.flow.history.confirmRestore'), {
+        acceptLabel: lang.tr('studio.flow.history.restore')
+      }))
+    ) {
+      return
+    }
+
+    try {
+      await props.restoreFlowRevision(currentFlow!, revisionPreview!.id)
+      setDiff(undefined)
+      await fetchRevisions()
+    } catch (err) {
+      toastFailure(lang.tr('studio.flow.history.restoreError'))
+    }
+  }
+
+  const refreshAction = {
+    id: 'btn-refresh-history',
+    icon: <Icon icon="refresh" />,
+    key: 'refresh',
+    tooltip: lang.tr('studio.flow.history.refresh'),
+    onClick: fetchRevisions
+  }
+
+  return (
+    <SidePanelSection label={lang.tr('studio.flow.history.title')} collapsed actions={[refreshAction]}>
+      {!revisions.length && <div className={style.historyEmpty}>{lang.tr('studio.flow.history.empty')}</div>}
+
+      {revisions.map((revision) => {
+        const isPreviewed = revisionPreview?.id === revision.id
+
+        return (
+          <div key={revision.id} className={cx(style.revision, { [style.revisionActive]: isPreviewed })}>
+            <div className={style.revisionHeader} onClick={() => preview(revision.id)}>
+              <strong>{moment(revision.createdOn).fromNow()}</strong>
+              <span>{revision.author}</span>
+              <small>{lang.tr('studio.flow.history.changedNodes', { count: revision.changedNodes.length })}</small>
+            </div>
+
+            {isPreviewed && (
+              <div className={style.revisionDetails}>
+                {diff && !diff.nodes.length && !diff.properties.length && (
+                  <div>{lang.tr('studio.flow.history.sameAsCurrent')}</div>
+                )}
+                {diff?.nodes.map((node) => (
+                  <div key={node.id} className={style.revisionChange}>
+                    <Tag minimal intent={CHANGE_INTENTS[node.type]}>
+                      {lang.tr(`studio.flow.history.${node.type}`)}
+                    </Tag>
+                    <span>{node.name}</span>
+                    {!!node.properties.length && <small>{node.properties.join(', ')}</small>}
+                  </div>
+                ))}
+                {!!diff?.properties.length && (
+                  <div className={style.revisionChange}>
+                    <Tag minimal intent={Intent.WARNING}>
+                      {lang.tr('studio.flow.history.changed')}
+                    </Tag>
+                    <span>{lang.tr('studio.flow.history.flowProperties')}</span>
+                    <small>{diff.properties.join(', ')}</small>
+                  </div>
+                )}
+
+                <div className={style.revisionActions}>
+                  <Button small text={lang.tr('studio.flow.history.closePreview')} onClick={closePreview} />
+                  {!props.readOnly && (
+                    <Button
+                      small
+                      intent={Intent.PRIMARY}
+                      text={lang.tr('studio.flow.history.restore')}
+                      onClick={restore}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </SidePanelSection>
+  )
+}
+
+const mapStateToProps = (state: RootReducer) => ({
+  currentFlow: state.flows.currentFlow,
+  revisionPreview: state.flows.revisionPreview
+})
+
+const mapDispatchToProps = {
+  previewFlowRevision,
+  closeFlowRevisionPreview,
+  restoreFlowRevision
+}
+
+export default connect<StateProps, DispatchProps, OwnProps>(mapStateToProps, mapDispatchToProps)(FlowHistory)
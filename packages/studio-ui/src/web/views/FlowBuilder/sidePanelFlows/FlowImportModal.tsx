@@ -0,0 +1,200 @@
+import {
+  Button,
+  Callout,
+  Classes,
+  Dialog,
+  FileInput,
+  FormGroup,
+  HTMLSelect,
+  InputGroup,
+  Intent
+} from '@blueprintjs/core'
+import { lang } from 'botpress/shared'
+import { FlowBundle, FlowImportConflict, FlowImportResolutions, FlowImportResult } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, Fragment, useState } from 'react'
+import { FlowsAPI } from '~/actions/api'
+import { toastFailure } from '~/components/Shared/Utils'
+
+import style from './style.scss'
+
+interface Props {
+  isOpen: boolean
+  toggle: () => void
+  onImportCompleted: (result: FlowImportResult) => void
+}
+
+export const FlowImportModal: FC<Props> = (props) => {
+  const [bundle, setBundle] = useState<FlowBundle>()
+  const [filePath, setFilePath] = useState<string>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [preview, setPreview] = useState<FlowImportResult>()
+  const [resolutions, setResolutions] = useState<FlowImportResolutions>({})
+
+  const readFile = async (files: FileList | null) => {
+    if (!files?.length) {
+      return
+    }
+
+    setFilePath(files[0].name)
+    try {
+      setBundle(JSON.parse(await files[0].text()))
+    } catch (err) {
+      setBundle(undefined)
+      toastFailure(lang.tr('studio.flow.import.invalidFile'))
+    }
+  }
+
+  const analyzeImport = async () => {
+    setIsLoading(true)
+    try {
+      const { data } = await FlowsAPI.importBundle(bundle!, {}, true)
+
+      setPreview(data)
+      setResolutions(
+        data.conflicts.reduce(
+          (acc, { type, name, suggestedName }) => _.set(acc, [type, name], { action: 'rename', name: suggestedName }),
+          {}
+        )
+      )
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const submitImport = async () => {
+    setIsLoading(true)
+    try {
+      const { data } = await FlowsAPI.importBundle(bundle!, resolutions, false)
+      closeDialog()
+      props.onImportCompleted(data)
+    } catch (err) {
+      toastFailure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateResolution = ({ type, name }: FlowImportConflict, changes: object) => {
+    setResolutions(_.merge({}, resolutions, { [type]: { [name]: changes } }))
+  }
+
+  const closeDialog = () => {
+    setBundle(undefined)
+    setFilePath(undefined)
+    setPreview(undefined)
+    setResolutions({})
+    props.toggle()
+  }
+
+  const renderUpload = () => (
+    <Fragment>
+      <div className={Classes.DIALOG_BODY}>
+        <FormGroup
+          label={lang.tr('studio.flow.import.selectFile')}
+          labelFor="input-bundle"
+          helperText={lang.tr('studio.flow.import.selectFileMore')}
+        >
+          <FileInput
+            text={filePath || lang.tr('chooseFile')}
+            onChange={(e) => readFile((e.target as HTMLInputElement).files)}
+            inputProps={{ accept: '.json', id: 'input-bundle' }}
+            fill
+          />
+        </FormGroup>
+      </div>
+      <div className={Classes.DIALOG_FOOTER}>
+        <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+          <Button
+            id="btn-next"
+            text={isLoading ? lang.tr('pleaseWait') : lang.tr('next')}
+            disabled={!bundle || isLoading}
+            onClick={analyzeImport}
+            intent={Intent.PRIMARY}
+          />
+        </div>
+      </div>
+    </Fragment>
+  )
+
+  const renderConflict = (conflict: FlowImportConflict) => {
+    const resolution = resolutions[conflict.type]?.[conflict.name]
+    // Content elements are imported with a new id, it can't be chosen
+    const canChooseName = resolution?.action === 'rename' && conflict.type !== 'content'
+
+    return (
+      <div key={`${conflict.type}-${conflict.name}`} className={style.importConflict}>
+        <div className={style.importConflictName}>
+          <small>{lang.tr(`studio.flow.import.types.${conflict.type}`)}</small>
+          <span>{conflict.name}</span>
+        </div>
+        <HTMLSelect
+          value={resolution?.action}
+          onChange={(e) => updateResolution(conflict, { action: e.currentTarget.value })}
+          options={[
+            { value: 'rename', label: lang.tr('studio.flow.import.importAsNew') },
+            { value: 'skip', label: lang.tr('studio.flow.import.keepExisting') }
+          ]}
+        />
+        {canChooseName && (
+          <InputGroup
+            value={resolution?.name || ''}
+            onChange={(e) => updateResolution(conflict, { name: e.currentTarget.value })}
+          />
+        )}
+      </div>
+    )
+  }
+
+  const renderPreview = () => (
+    <Fragment>
+      <div className={Classes.DIALOG_BODY}>
+        <p>
+          {lang.tr('studio.flow.import.summary', {
+            flows: _.size(bundle!.flows),
+            contentElements: _.size(bundle!.contentElements),
+            actions: _.size(bundle!.actions),
+            intents: _.size(bundle!.intents),
+            entities: _.size(bundle!.entities)
+          })}
+        </p>
+        {!preview!.conflicts.length && (
+          <Callout intent={Intent.SUCCESS}>{lang.tr('studio.flow.import.noConflict')}</Callout>
+        )}
+        {!!preview!.conflicts.length && (
+          <Fragment>
+            <Callout intent={Intent.WARNING}>{lang.tr('studio.flow.import.conflicts')}</Callout>
+            {preview!.conflicts.map(renderConflict)}
+          </Fragment>
+        )}
+      </div>
+      <div className={Classes.DIALOG_FOOTER}>
+        <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+          <Button id="btn-back" text={lang.tr('back')} disabled={isLoading} onClick={() => setPreview(undefined)} />
+          <Button
+            id="btn-submit"
+            text={isLoading ? lang.tr('pleaseWait') : lang.tr('import')}
+            disabled={isLoading}
+            onClick={submitImport}
+            intent={Intent.PRIMARY}
+          />
+        </div>
+      </div>
+    </Fragment>
+  )
+
+  return (
+    <Dialog
+      title={lang.tr('studio.flow.import.title')}
+      icon="import"
+      isOpen={props.isOpen}
+      onClose={closeDialog}
+      transitionDuration={0}
+      canOutsideClickClose={false}
+    >
+      {preview ? renderPreview() : renderUpload()}
+    </Dialog>
+  )
+}
@@ -100,6 +100,12 @@ export default class FlowsList extends Component<Props, State> {
           text={lang.tr('duplicate')}
           onClick={() => this.props.duplicateFlow(node.nodeData.name)}
         />
+        <MenuItem
+          id="btn-export"
+          icon="export"
+          text={lang.tr('export')}
+          onClick={() => this.props.exportFlow(node.nodeData.name)}
+        />
         <MenuItem
           id="btn-delete"
           disabled={lockedFlows.includes(node.nodeData.name) || !this.props.canDelete || this.props.readOnly}
@@ -162,6 +168,7 @@ interface Props {
   goToFlow: Function
   flows: any
   duplicateFlow: Function
+  exportFlow: Function
   deleteFlow: Function
   renameFlow: Function
 }
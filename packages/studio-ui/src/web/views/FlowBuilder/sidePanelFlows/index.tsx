@@ -1,16 +1,29 @@
 import { Icon } from '@blueprintjs/core'
 import { lang } from 'botpress/shared'
+import { encodeFolderPath } from 'common/http'
+import { FlowImportResult } from 'common/typings'
 import _ from 'lodash'
 import reject from 'lodash/reject'
 import React, { FC, useState } from 'react'
 import { connect } from 'react-redux'
-import { deleteFlow, duplicateFlow, renameFlow } from '~/actions'
+import {
+  deleteFlow,
+  duplicateFlow,
+  fetchContentCategories,
+  fetchFlows,
+  refreshActions,
+  refreshIntents,
+  renameFlow
+} from '~/actions'
 import { history } from '~/components/Routes'
 import { SearchBar, SidePanel, SidePanelSection } from '~/components/Shared/Interface'
+import { Downloader, toastSuccess } from '~/components/Shared/Utils'
 import { getAllFlows, getCurrentFlow, getDirtyFlows, getFlowNamesList } from '~/reducers'
 
 import Inspector from '../inspector'
 
+import FlowHistory from './FlowHistory'
+import { FlowImportModal } from './FlowImportModal'
 import FlowNameModal from './FlowNameModal'
 import FlowsList from './FlowsList'
 import style from './style.scss'
@@ -26,8 +39,11 @@ interface Props {
   permissions: PanelPermissions[]
   dirtyFlows: any
   duplicateFlow: any
+  fetchFlows: () => void
+  fetchContentCategories: () => void
+  refreshActions: () => void
+  refreshIntents: () => void
   currentFlow: any
-  mutexInfo: string
   readOnly: boolean
   showFlowNodeProps: boolean
 }
@@ -37,6 +53,8 @@ const SidePanelContent: FC<Props> = (props) => {
   const [flowName, setFlowName] = useState<string>()
   const [flowAction, setFlowAction] = useState<any>('create')
   const [filter, setFilter] = useState<any>()
+  const [importOpen, setImportOpen] = useState(false)
+  const [downloadUrl, setDownloadUrl] = useState<string>()
 
   const goToFlow = (flow) => history.push(`/flows/${flow.replace(/\.flow\.json$/i, '')}`)
 
@@ -56,6 +74,27 @@ const SidePanelContent: FC<Props> = (props) => {
     }
   }
 
+  const importFlowAction = {
+    id: 'btn-import-flow',
+    icon: <Icon icon="import" />,
+    key: 'import',
+    tooltip: lang.tr('studio.flow.import.title'),
+    onClick: () => setImportOpen(true)
+  }
+
+  const exportFlow = (flowName: string) => {
+    setDownloadUrl(`${window.STUDIO_API_PATH}/flows/${encodeFolderPath(flowName)}/export?${Date.now()}`)
+  }
+
+  const onImportCompleted = (result: FlowImportResult) => {
+    props.fetchFlows()
+    props.fetchContentCategories()
+    props.refreshActions()
+    props.refreshIntents()
+    toastSuccess(lang.tr('studio.flow.import.success'))
+    goToFlow(result.flow)
+  }
+
   const renameFlow = (flowName: string) => {
     setFlowName(flowName)
     setFlowAction('rename')
@@ -72,7 +111,7 @@ const SidePanelContent: FC<Props> = (props) => {
     <SidePanel style={{ backgroundColor: '#E2F2FF' }}>
       <SidePanelSection
         label={lang.tr('flows')}
-        actions={!props.readOnly && props.permissions.includes('create') && [createFlowAction]}
+        actions={!props.readOnly && props.permissions.includes('create') && [importFlowAction, createFlowAction]}
       >
         <SearchBar icon="filter" placeholder={lang.tr('studio.flow.sidePanel.filterFlows')} onChange={setFilter} />
         <FlowsList
@@ -84,11 +123,19 @@ const SidePanelContent: FC<Props> = (props) => {
           goToFlow={goToFlow}
           deleteFlow={props.deleteFlow}
           duplicateFlow={duplicateFlow}
+          exportFlow={exportFlow}
           renameFlow={renameFlow}
           currentFlow={props.currentFlow}
           filter={filter}
         />
       </SidePanelSection>
+      <FlowHistory readOnly={props.readOnly} />
+      <Downloader url={downloadUrl} />
+      <FlowImportModal
+        isOpen={importOpen}
+        toggle={() => setImportOpen(!importOpen)}
+        onImportCompleted={onImportCompleted}
+      />
       <FlowNameModal
         action={flowAction}
         originalName={flowName}
@@ -126,7 +173,11 @@ const mapStateToProps = (state) => ({
 const mapDispatchToProps = {
   deleteFlow,
   duplicateFlow,
-  renameFlow
+  renameFlow,
+  fetchFlows,
+  fetchContentCategories,
+  refreshActions,
+  refreshIntents
 }
 
 const SidePanelInspector = connect(mapStateToProps, mapDispatchToProps)(SidePanelInspectorContent)
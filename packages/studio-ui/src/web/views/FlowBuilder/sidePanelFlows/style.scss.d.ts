@@ -2,12 +2,35 @@
 // Please do not change this file!
 interface CssExports {
   'addWorkflowNode': string;
+  'bp3-editable-text': string;
+  'bp3-editable-text-editing': string;
+  'bp3-editable-text-input': string;
+  'bp3-elevation-0': string;
+  'bp3-icon': string;
+  'bp3-tab': string;
+  'bp3-tree': string;
+  'bp3-tree-node': string;
+  'bp3-tree-node-caret-none': string;
+  'bp3-tree-node-content': string;
+  'bp3-tree-node-icon': string;
+  'bp3-tree-node-list': string;
+  'bp3-tree-node-selected': string;
+  'bp3-tree-root': string;
   'emptyState': string;
   'grabbable': string;
+  'historyEmpty': string;
+  'importConflict': string;
+  'importConflictName': string;
   'mainoverlay': string;
   'modalHeader': string;
   'overhidden': string;
   'referencedWorkflows': string;
+  'revision': string;
+  'revisionActions': string;
+  'revisionActive': string;
+  'revisionChange': string;
+  'revisionDetails': string;
+  'revisionHeader': string;
   'rightPanel': string;
   'rightPanelActive': string;
   'section': string;
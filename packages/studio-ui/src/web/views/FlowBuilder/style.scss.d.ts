@@ -1,9 +1,12 @@
 // This file is automatically generated.
 // Please do not change this file!
 interface CssExports {
+  'conflictDetails': string;
   'container': string;
   'diagram': string;
   'flowWrapper': string;
+  'srd-diagram': string;
+  'toolbar': string;
   'wrapper': string;
 }
 declare var cssExports: CssExports;
@@ -0,0 +1,120 @@
+import { Button, Callout, Collapse, Intent } from '@blueprintjs/core'
+import { NLU } from 'botpress/sdk'
+import { lang, toast } from 'botpress/shared'
+import { NluAnalysis, NluWarning, NluWarningType } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, Fragment, useEffect, useState } from 'react'
+
+import { NluItem } from '.'
+import { NluClient } from './client'
+import style from './style.scss'
+
+const WARNING_TYPES: NluWarningType[] = [
+  'duplicateUtterance',
+  'intentOverlap',
+  'undeclaredSlot',
+  'unusedSlot',
+  'tooFewUtterances',
+  'duplicateSynonym'
+]
+
+interface Props {
+  api: NluClient
+  onSelectItem: (item: NluItem) => void
+  /** The analysis is fetched again when intents or entities are reloaded */
+  intents: NLU.IntentDefinition[]
+  entities: NLU.EntityDefinition[]
+}
+
+export const AnalysisPanel: FC<Props> = ({ api, onSelectItem, intents, entities }) => {
+  const [analysis, setAnalysis] = useState<NluAnalysis>()
+  const [expanded, setExpanded] = useState(false)
+
+  useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchAnalysis()
+  }, [intents, entities])
+
+  const fetchAnalysis = async () => {
+    try {
+      setAnalysis(await api.fetchAnalysis())
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  if (!analysis?.warnings.length) {
+    return null
+  }
+
+  const link = (name: string, type: NluItem['type'] = 'intent') => (
+    <a key={name} onClick={() => onSelectItem({ name, type })}>
+      {name}
+    </a>
+  )
+
+  const links = (names: string[], type?: NluItem['type']) =>
+    names.map((name, index) => (
+      <Fragment key={name}>
+        {index > 0 && ', '}
+        {link(name, type)}
+      </Fragment>
+    ))
+
+  const renderWarning = (warning: NluWarning) => {
+    const key = `nlu.analysis.${warning.type}.message`
+
+    switch (warning.type) {
+      case 'tooFewUtterances':
+        return lang.tr(key, { ...warning, intent: link(warning.intent), language: warning.language.toUpperCase() })
+      case 'duplicateUtterance':
+        return lang.tr(key, { ...warning, intents: links(warning.intents), language: warning.language.toUpperCase() })
+      case 'intentOverlap':
+        return lang.tr(key, {
+          first: link(warning.intents[0]),
+          second: link(warning.intents[1]),
+          score: Math.round(warning.score * 100),
+          language: warning.language.toUpperCase()
+        })
+      case 'unusedSlot':
+        return lang.tr(key, { ...warning, intent: link(warning.intent) })
+      case 'undeclaredSlot':
+        return lang.tr(key, { ...warning, intent: link(warning.intent), language: warning.language.toUpperCase() })
+      case 'duplicateSynonym':
+        return lang.tr(key, {
+          ...warning,
+          entity: link(warning.entity, 'entity'),
+          occurrences: warning.occurrences.join(', ')
+        })
+    }
+  }
+
+  const warningsByType = _.groupBy(analysis.warnings, (x) => x.type)
+
+  return (
+    <Callout intent={Intent.WARNING} className={style.analysisPanel}>
+      <div className={style.analysisHeader}>
+        <Button
+          minimal
+          small
+          icon={expanded ? 'chevron-down' : 'chevron-right'}
+          text={lang.tr('nlu.analysis.title', { count: analysis.warnings.length })}
+          onClick={() => setExpanded(!expanded)}
+        />
+        <Button minimal small icon="refresh" title={lang.tr('nlu.analysis.refresh')} onClick={fetchAnalysis} />
+      </div>
+      <Collapse isOpen={expanded}>
+        {WARNING_TYPES.filter((type) => warningsByType[type]).map((type) => (
+          <div key={type} className={style.analysisGroup}>
+            <h5>{lang.tr(`nlu.analysis.${type}.title`, { count: warningsByType[type].length })}</h5>
+            <ul>
+              {warningsByType[type].map((warning, index) => (
+                <li key={index}>{renderWarning(warning)}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </Collapse>
+    </Callout>
+  )
+}
@@ -1,5 +1,13 @@
 import axios from 'axios'
 import { NLU } from 'botpress/sdk'
+import {
+  NluAnalysis,
+  NluTestCase,
+  NluTestReport,
+  PatternValidation,
+  UtteranceFileFormat,
+  UtteranceImportReport
+} from 'common/typings'
 
 export type NluClient = ReturnType<typeof makeNLUClient>
 
@@ -18,12 +26,48 @@ export const makeNLUClient = () => {
     updateIntent: (targetIntent: string, intent: Partial<NLU.IntentDefinition>): Promise<void> =>
       client.post(`/intents/${targetIntent}`, intent),
     deleteIntent: (name: string): Promise<void> => client.post(`/intents/${name}/delete`),
+    importUtterances: (
+      intentName: string,
+      file: File,
+      language: string,
+      preview: boolean
+    ): Promise<UtteranceImportReport> => {
+      const form = new FormData()
+      form.append('file', file)
+      form.append('language', language)
+      form.append('preview', String(preview))
+
+      return client
+        .post(`/intents/${intentName}/utterances/import`, form, {
+          headers: { 'Content-Type': 'multipart/form-data' }
+        })
+        .then((res) => res.data)
+    },
+    getUtterancesExportUrl: (intentName: string, format: UtteranceFileFormat, language?: string): string =>
+      `${window.STUDIO_API_PATH}/nlu/intents/${intentName}/utterances/export?format=${format}${
+        language ? `&language=${language}` : ''
+      }`,
     fetchEntities: (): Promise<NLU.EntityDefinition[]> => client.get('/entities').then((res) => res.data),
     fetchEntity: (entityName: string): Promise<NLU.EntityDefinition> =>
       client.get(`/entities/${entityName}`).then((res) => res.data),
     createEntity: (entity: NLU.EntityDefinition): Promise<void> => client.post('/entities/', entity),
     updateEntity: (targetEntityId: string, entity: NLU.EntityDefinition): Promise<void> =>
       client.post(`/entities/${targetEntityId}`, entity),
-    deleteEntity: (entityId: string): Promise<void> => client.post(`/entities/${entityId}/delete`)
+    deleteEntity: (entityId: string): Promise<void> => client.post(`/entities/${entityId}/delete`),
+    validatePattern: (test: {
+      pattern: string
+      matchCase?: boolean
+      examples?: string[]
+      negativeExamples?: string[]
+      samples?: string[]
+    }): Promise<PatternValidation> => client.post('/patterns/validate', test).then((res) => res.data),
+    fetchAnalysis: (): Promise<NluAnalysis> => client.get('/analysis').then((res) => res.data),
+    fetchTests: (): Promise<NluTestCase[]> => client.get('/tests').then((res) => res.data),
+    createTest: (test: Omit<NluTestCase, 'id'>): Promise<NluTestCase> =>
+      client.post('/tests', test).then((res) => res.data),
+    updateTest: (id: string, test: Omit<NluTestCase, 'id'>): Promise<NluTestCase> =>
+      client.post(`/tests/${id}`, test).then((res) => res.data),
+    deleteTest: (id: string): Promise<void> => client.post(`/tests/${id}/delete`),
+    runTests: (ids?: string[]): Promise<NluTestReport> => client.post('/tests/run', { ids }).then((res) => res.data)
   }
 }
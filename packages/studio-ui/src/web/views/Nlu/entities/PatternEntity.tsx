@@ -13,8 +13,11 @@ import {
 import { NLU } from 'botpress/sdk'
 import { lang } from 'botpress/shared'
 import { getEntityId } from 'common/entity-id'
+import { PatternValidation } from 'common/typings'
 import _ from 'lodash'
-import React, { useEffect, useState } from 'react'
+import React, { FC, Fragment, useEffect, useRef, useState } from 'react'
+
+import { makeNLUClient } from '../client'
 
 import style from './style.scss'
 
@@ -35,13 +38,30 @@ const PROTECTED_ENTITIES = [
   'custom.percentage'
 ]
 
+const splitLines = (text: string) => text.split('\n').filter((x) => x.trim())
+
+/** Highlights the matches of the pattern in a sample sentence */
+const HighlightedSample: FC<PatternValidation['samples'][number]> = ({ text, matches }) => (
+  <div className={style.sample}>
+    {matches.map((match, i) => (
+      <Fragment key={i}>
+        {text.substring(i ? matches[i - 1].end : 0, match.start)}
+        <mark>{text.substring(match.start, match.end)}</mark>
+      </Fragment>
+    ))}
+    {text.substring(_.last(matches)?.end ?? 0)}
+  </div>
+)
+
 export const PatternEntityEditor: React.FC<Props> = (props) => {
+  const api = useRef(makeNLUClient())
   const [matchCase, setMatchCase] = useState<boolean>(props.entity.matchCase)
   const [sensitive, setSensitive] = useState<boolean>(props.entity.sensitive)
   const [pattern, setPattern] = useState<string>(props.entity.pattern)
-  const [patternValid, setPatternValid] = useState<boolean>(true)
   const [examplesStr, setExampleStr] = useState((props.entity.examples || []).join('\n'))
-  const [allExamplesMatch, setExamplesMatch] = useState<boolean>(true)
+  const [negativeExamplesStr, setNegativeExamplesStr] = useState((props.entity.negativeExamples || []).join('\n'))
+  const [samplesStr, setSamplesStr] = useState('')
+  const [validation, setValidation] = useState<PatternValidation>()
 
   const isProtected = PROTECTED_ENTITIES.includes(props.entity.name)
 
@@ -50,49 +70,51 @@ export const PatternEntityEditor: React.FC<Props> = (props) => {
     setSensitive(props.entity.sensitive)
     setPattern(props.entity.pattern)
     setExampleStr((props.entity.examples || []).join('\n'))
+    setNegativeExamplesStr((props.entity.negativeExamples || []).join('\n'))
   }, [props.entity])
 
-  const validateExamples = _.debounce(() => {
-    let p = pattern
-    if (!p.startsWith('^')) {
-      p = `^${p}`
-    }
-    if (!p.endsWith('$')) {
-      p = `${p}$`
-    }
-    const rx = new RegExp(p, matchCase ? '' : 'i')
-    const allMatching = examplesStr
-      .split('\n')
-      .filter((ex) => ex !== '')
-      .map((ex) => rx.test(ex))
-      .every(Boolean)
+  // Patterns are run by the server, which interrupts those that backtrack catastrophically
+  const validateAndUpdate = useRef(
+    _.debounce(async (newEntity: NLU.EntityDefinition, samples: string[], onValid?: Props['updateEntity']) => {
+      try {
+        const result = await api.current.validatePattern({ ...newEntity, samples })
+        setValidation(result)
 
-    setExamplesMatch(allMatching)
-  }, 750)
+        if (onValid && !result.issues.some((x) => x.severity === 'error')) {
+          onValid(getEntityId(newEntity.name), newEntity)
+        }
+      } catch (err) {
+        setValidation(undefined)
+      }
+    }, 500)
+  )
 
-  const updateEntity = _.debounce((newEntity) => {
-    if (!_.isEqual(props.entity, newEntity)) {
-      props.updateEntity(getEntityId(newEntity.name), newEntity)
-    }
-  }, 100)
+  // Pending changes are saved when another view is opened
+  useEffect(() => () => validateAndUpdate.current.flush(), [])
 
   useEffect(() => {
-    try {
-      new RegExp(pattern)
-      setPatternValid(true)
-      const newEntity: NLU.EntityDefinition = {
-        ...props.entity,
-        pattern,
-        sensitive,
-        matchCase,
-        examples: examplesStr.trim().split('\n')
-      }
-      validateExamples()
-      updateEntity(newEntity)
-    } catch (e) {
-      setPatternValid(false)
+    const newEntity: NLU.EntityDefinition = {
+      ...props.entity,
+      pattern,
+      sensitive,
+      matchCase,
+      examples: examplesStr.trim().split('\n'),
+      negativeExamples: splitLines(negativeExamplesStr)
     }
-  }, [pattern, matchCase, sensitive, examplesStr]) // TODO useReducer and watch state instead or explicitly call update entity while
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    validateAndUpdate.current(
+      newEntity,
+      splitLines(samplesStr),
+      _.isEqual({ negativeExamples: [], ...props.entity }, newEntity) ? undefined : props.updateEntity
+    )
+  }, [pattern, matchCase, sensitive, examplesStr, negativeExamplesStr, samplesStr]) // TODO useReducer and watch state instead or explicitly call update entity while
+
+  const issues = validation?.issues || []
+  const patternError = issues.find((x) => x.severity === 'error')
+  const patternValid = !patternError
+  const unmatchedExamples = issues.filter((x) => x.type === 'unmatchedExample').map((x) => x.example)
+  const matchedNegativeExamples = issues.filter((x) => x.type === 'matchedNegativeExample').map((x) => x.example)
+  const allExamplesMatch = !unmatchedExamples.length
 
   return (
     <div key={getEntityId(props.entity?.name)} className={style.entityEditorBody}>
@@ -102,9 +124,13 @@ export const PatternEntityEditor: React.FC<Props> = (props) => {
           labelFor="pattern"
           labelInfo={
             patternValid ? null : (
-              <Tag intent="danger" minimal className={style.validationTag}>
-                {lang.tr('nlu.entities.patternInvalid')}
-              </Tag>
+              <Tooltip content={patternError.message} position={Position.TOP} className={style.validationTag}>
+                <Tag intent="danger" minimal>
+                  {lang.tr(
+                    patternError.type === 'slowPattern' ? 'nlu.entities.patternSlow' : 'nlu.entities.patternInvalid'
+                  )}
+                </Tag>
+              </Tooltip>
             )
           }
         >
@@ -145,6 +171,65 @@ export const PatternEntityEditor: React.FC<Props> = (props) => {
             disabled={isProtected}
             readOnly={isProtected}
           />
+          {patternValid && !allExamplesMatch && (
+            <div className={style.failedExamples}>
+              {lang.tr('nlu.entities.unmatchedExamples', { examples: unmatchedExamples.join(', ') })}
+            </div>
+          )}
+        </FormGroup>
+        <FormGroup
+          label={lang.tr('nlu.entities.negativeExamplesLabel')}
+          labelFor="negativeExamples"
+          labelInfo={
+            negativeExamplesStr.trim() &&
+            patternValid && (
+              <Tag
+                intent={matchedNegativeExamples.length ? 'danger' : 'success'}
+                minimal
+                className={style.validationTag}
+              >
+                {matchedNegativeExamples.length
+                  ? lang.tr('nlu.entities.negativeMatchingError')
+                  : lang.tr('nlu.entities.negativeMatchingSuccess')}
+              </Tag>
+            )
+          }
+        >
+          <TextArea
+            id="negativeExamples"
+            fill
+            rows={3}
+            growVertically={true}
+            placeholder={lang.tr('nlu.entities.negativeExamplesPlaceholder')}
+            value={negativeExamplesStr}
+            intent={matchedNegativeExamples.length ? 'danger' : 'none'}
+            onChange={(e) => setNegativeExamplesStr(e.target.value)}
+            disabled={isProtected}
+            readOnly={isProtected}
+          />
+          {patternValid && !!matchedNegativeExamples.length && (
+            <div className={style.failedExamples}>
+              {lang.tr('nlu.entities.matchedNegativeExamples', { examples: matchedNegativeExamples.join(', ') })}
+            </div>
+          )}
+        </FormGroup>
+        <FormGroup label={lang.tr('nlu.entities.testerLabel')} labelFor="samples">
+          <TextArea
+            id="samples"
+            fill
+            rows={3}
+            growVertically={true}
+            placeholder={lang.tr('nlu.entities.testerPlaceholder')}
+            value={samplesStr}
+            onChange={(e) => setSamplesStr(e.target.value)}
+          />
+          {patternValid && !!validation?.samples.length && (
+            <div className={style.samples}>
+              {validation.samples.map((sample, i) => (
+                <HighlightedSample key={i} {...sample} />
+              ))}
+            </div>
+          )}
         </FormGroup>
       </div>
       <div className={style.configPane}>
@@ -5,10 +5,13 @@ interface CssExports {
   'configPopover': string;
   'dataPane': string;
   'entityEditorBody': string;
+  'failedExamples': string;
   'occurrence': string;
   'occurrenceName': string;
   'occurrencesList': string;
   'regexInputDash': string;
+  'sample': string;
+  'samples': string;
   'validationTag': string;
 }
 declare var cssExports: CssExports;
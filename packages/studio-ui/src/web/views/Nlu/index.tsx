@@ -1,4 +1,4 @@
-import { Icon } from '@blueprintjs/core'
+import { Button, Icon } from '@blueprintjs/core'
 import { NLU } from 'botpress/sdk'
 import { EmptyState, lang } from 'botpress/shared'
 import _ from 'lodash'
@@ -6,12 +6,14 @@ import React, { FC, useEffect, useState } from 'react'
 import { Container } from '~/components/Shared/Interface'
 import withLanguage from '~/components/Util/withLanguage'
 
+import { AnalysisPanel } from './AnalysisPanel'
 import { makeNLUClient } from './client'
 
 import { EntityEditor } from './entities/EntityEditor'
 import { IntentEditor } from './intents/FullEditor'
 import { NLUSidePanel } from './SidePanel'
 import style from './style.scss'
+import { TestSuite } from './tests/TestSuite'
 
 type NLUItemType = 'intent' | 'entity'
 export interface NluItem {
@@ -21,6 +23,7 @@ export interface NluItem {
 
 interface Props {
   contentLang: string
+  languages: string[]
 }
 
 const ITEM_TYPE_PARAM = 'type'
@@ -31,6 +34,7 @@ const NLU: FC<Props> = (props) => {
   const [currentItem, setCurrentItem] = useState<NluItem | undefined>()
   const [intents, setIntents] = useState([])
   const [entities, setEntities] = useState([])
+  const [showTests, setShowTests] = useState(false)
 
   const loadIntents = () =>
     api
@@ -48,6 +52,7 @@ const NLU: FC<Props> = (props) => {
 
   const handleSelectItem = (item: NluItem | undefined) => {
     setCurrentItem(item)
+    setShowTests(false)
 
     const url = new URL(window.location.href)
     if (item) {
@@ -108,16 +113,30 @@ const NLU: FC<Props> = (props) => {
         setCurrentItem={handleSelectItem}
       />
       <div className={style.container}>
-        {!currentItemExists() && (
+        <div className={style.toolbar}>
+          <Button
+            minimal
+            small
+            icon="lab-test"
+            active={showTests}
+            text={lang.tr('nlu.tests.title')}
+            onClick={() => setShowTests(!showTests)}
+          />
+        </div>
+        <AnalysisPanel api={api} onSelectItem={handleSelectItem} intents={intents} entities={entities} />
+        {showTests && (
+          <TestSuite api={api} intents={intents} languages={props.languages} contentLang={props.contentLang} />
+        )}
+        {!showTests && !currentItemExists() && (
           <EmptyState
             icon={<Icon icon="translate" iconSize={70} className={style.emtpyStateIcon} />}
             text={lang.tr('nlu.description')}
           />
         )}
-        {!!intents.length && currentItem && currentItem.type === 'intent' && (
+        {!showTests && !!intents.length && currentItem && currentItem.type === 'intent' && (
           <IntentEditor intent={currentItem.name} api={api} contentLang={props.contentLang} showSlotPanel />
         )}
-        {currentItem && currentItem.type === 'entity' && (
+        {!showTests && currentItem && currentItem.type === 'entity' && (
           <EntityEditor
             entities={entities}
             entity={entities.find((ent) => ent.name === currentItem.name)}
@@ -12,6 +12,7 @@ import Slots from './slots/Slots'
 import style from './style.scss'
 import { removeSlotFromUtterances, renameSlotInUtterances } from './utterances-state-utils'
 import { UtterancesEditor } from './UtterancesEditor'
+import { UtterancesTransfer } from './UtterancesTransfer'
 
 interface Props {
   intent: string
@@ -28,13 +29,16 @@ export const IntentEditor: FC<Props> = (props) => {
     _.debounce((newIntent: NLU.IntentDefinition) => props.api.createIntent(newIntent), 2500)
   )
 
-  useEffect(() => {
-    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+  const fetchIntent = () =>
     props.api.fetchIntent(props.intent).then((intent) => {
       setIntent(intent)
       utils.inspect(intent)
     })
 
+  useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchIntent()
+
     return () => debouncedApiSaveIntent.current.flush()
   }, [props.intent])
 
@@ -81,6 +85,17 @@ export const IntentEditor: FC<Props> = (props) => {
             />
           )}
           <IntentHint intent={intent} liteEditor={props.liteEditor} contentLang={props.contentLang} />
+          {!props.liteEditor && (
+            <UtterancesTransfer
+              intentName={intent.name}
+              contentLang={props.contentLang}
+              api={props.api}
+              beforeImport={async () => {
+                await debouncedApiSaveIntent.current.flush()
+              }}
+              onImported={fetchIntent}
+            />
+          )}
         </div>
         <UtterancesEditor
           intentName={intent.name}
@@ -0,0 +1,192 @@
+import {
+  Button,
+  Callout,
+  Classes,
+  Dialog,
+  FileInput,
+  FormGroup,
+  Intent,
+  Menu,
+  MenuItem,
+  Popover,
+  Position
+} from '@blueprintjs/core'
+import { lang, toast } from 'botpress/shared'
+import { UtteranceFileFormat, UtteranceImportReport } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, Fragment, useState } from 'react'
+import { Downloader } from '~/components/Shared/Utils'
+
+import { NluClient } from '../client'
+
+import style from './style.scss'
+
+interface Props {
+  intentName: string
+  contentLang: string
+  api: NluClient
+  /** Called before importing, so pending changes of the intent are saved first */
+  beforeImport: () => Promise<void>
+  onImported: () => void
+}
+
+const ReportList: FC<{ title: string; intent: Intent; items: string[] }> = ({ title, intent, items }) =>
+  items.length ? (
+    <Callout intent={intent} title={title} className={style.importReport}>
+      <ul>
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </Callout>
+  ) : null
+
+export const UtterancesTransfer: FC<Props> = (props) => {
+  const { intentName, contentLang, api } = props
+  const [isOpen, setIsOpen] = useState(false)
+  const [file, setFile] = useState<File>()
+  const [report, setReport] = useState<UtteranceImportReport>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [downloadUrl, setDownloadUrl] = useState<string>()
+
+  const importUtterances = async (preview: boolean) => {
+    setIsLoading(true)
+    try {
+      if (!preview) {
+        await props.beforeImport()
+      }
+
+      const result = await api.importUtterances(intentName, file, contentLang, preview)
+      if (preview) {
+        setReport(result)
+      } else {
+        toast.success(lang.tr('nlu.intents.import.success', { count: _.flatten(Object.values(result.added)).length }))
+        closeDialog()
+        props.onImported()
+      }
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const closeDialog = () => {
+    setIsOpen(false)
+    setFile(undefined)
+    setReport(undefined)
+  }
+
+  const exportUtterances = (format: UtteranceFileFormat, language?: string) =>
+    setDownloadUrl(api.getUtterancesExportUrl(intentName, format, language))
+
+  const renderReport = () => {
+    const addedCount = _.flatten(Object.values(report.added)).length
+
+    return (
+      <Fragment>
+        <p>
+          {lang.tr('nlu.intents.import.willAdd', {
+            count: addedCount,
+            languages: Object.keys(report.added).join(', ').toUpperCase()
+          })}
+        </p>
+        <ReportList
+          title={lang.tr('nlu.intents.import.errors', { count: report.errors.length })}
+          intent={Intent.DANGER}
+          items={report.errors.map(({ line, message }) =>
+            line ? lang.tr('nlu.intents.import.lineError', { line, message }) : message
+          )}
+        />
+        <ReportList
+          title={lang.tr('nlu.intents.import.conflicts', { count: report.conflicts.length })}
+          intent={Intent.WARNING}
+          items={report.conflicts.map(
+            ({ language, utterance, intents }) => `[${language}] ${utterance} → ${intents.join(', ')}`
+          )}
+        />
+        <ReportList
+          title={lang.tr('nlu.intents.import.duplicates', { count: report.duplicates.length })}
+          intent={Intent.NONE}
+          items={report.duplicates.map(({ language, utterance }) => `[${language}] ${utterance}`)}
+        />
+      </Fragment>
+    )
+  }
+
+  return (
+    <div className={style.utterancesTransfer}>
+      <Button small minimal icon="import" text={lang.tr('import')} onClick={() => setIsOpen(true)} />
+      <Popover
+        position={Position.BOTTOM_RIGHT}
+        content={
+          <Menu>
+            <MenuItem text={lang.tr('nlu.intents.export.csvAll')} onClick={() => exportUtterances('csv')} />
+            <MenuItem
+              text={lang.tr('nlu.intents.export.csv', { lang: contentLang.toUpperCase() })}
+              onClick={() => exportUtterances('csv', contentLang)}
+            />
+            <MenuItem
+              text={lang.tr('nlu.intents.export.txt', { lang: contentLang.toUpperCase() })}
+              onClick={() => exportUtterances('txt', contentLang)}
+            />
+          </Menu>
+        }
+      >
+        <Button small minimal icon="export" rightIcon="caret-down" text={lang.tr('export')} />
+      </Popover>
+      <Downloader url={downloadUrl} onDownloadCompleted={() => setDownloadUrl(undefined)} />
+
+      <Dialog
+        title={lang.tr('nlu.intents.import.title', { intentName })}
+        icon="import"
+        isOpen={isOpen}
+        onClose={closeDialog}
+        transitionDuration={0}
+        canOutsideClickClose={false}
+      >
+        <div className={Classes.DIALOG_BODY}>
+          {report ? (
+            renderReport()
+          ) : (
+            <FormGroup
+              label={lang.tr('nlu.intents.import.selectFile')}
+              helperText={lang.tr('nlu.intents.import.selectFileHelp', { lang: contentLang.toUpperCase() })}
+            >
+              <FileInput
+                text={file?.name || lang.tr('chooseFile')}
+                onInputChange={(e) => setFile((e.target as HTMLInputElement).files?.[0])}
+                inputProps={{ accept: '.csv,.txt' }}
+                fill
+              />
+            </FormGroup>
+          )}
+        </div>
+        <div className={Classes.DIALOG_FOOTER}>
+          <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+            {report ? (
+              <Fragment>
+                <Button text={lang.tr('back')} disabled={isLoading} onClick={() => setReport(undefined)} />
+                <Button
+                  text={lang.tr('import')}
+                  intent={Intent.PRIMARY}
+                  loading={isLoading}
+                  disabled={_.isEmpty(report.added)}
+                  onClick={() => importUtterances(false)}
+                />
+              </Fragment>
+            ) : (
+              <Button
+                text={lang.tr('next')}
+                intent={Intent.PRIMARY}
+                loading={isLoading}
+                disabled={!file}
+                onClick={() => importUtterances(true)}
+              />
+            )}
+          </div>
+        </div>
+      </Dialog>
+    </div>
+  )
+}
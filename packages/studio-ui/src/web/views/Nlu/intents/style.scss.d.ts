@@ -15,6 +15,7 @@ interface CssExports {
   'entitySelectPopover': string;
   'header': string;
   'hint': string;
+  'importReport': string;
   'index': string;
   'intentEditor': string;
   'label-colors-0': string;
@@ -39,6 +40,7 @@ interface CssExports {
   'title': string;
   'utterance': string;
   'utterances': string;
+  'utterancesTransfer': string;
   'wrong': string;
 }
 declare var cssExports: CssExports;
@@ -1,12 +1,16 @@
 // This file is automatically generated.
 // Please do not change this file!
 interface CssExports {
+  'analysisGroup': string;
+  'analysisHeader': string;
+  'analysisPanel': string;
   'chooseContainer': string;
   'container': string;
   'deleteEntity': string;
   'emtpyStateIcon': string;
   'headerToolbar': string;
   'synonym': string;
+  'toolbar': string;
 }
 declare var cssExports: CssExports;
 export = cssExports;
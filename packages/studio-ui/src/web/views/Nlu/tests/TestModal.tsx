@@ -0,0 +1,138 @@
+import { Button, Classes, Dialog, FormGroup, HTMLSelect, InputGroup, Intent, TextArea } from '@blueprintjs/core'
+import { NLU } from 'botpress/sdk'
+import { lang } from 'botpress/shared'
+import { NluTestCase } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, useEffect, useState } from 'react'
+
+export const NONE_INTENT = 'none'
+
+interface Props {
+  isOpen: boolean
+  /** The test to edit, a new one is created when undefined */
+  test?: NluTestCase
+  intents: NLU.IntentDefinition[]
+  languages: string[]
+  contentLang: string
+  onSubmit: (test: Omit<NluTestCase, 'id'>) => Promise<void>
+  onClose: () => void
+}
+
+/** Slots are written one per line, as "slot=value" */
+const parseSlots = (text: string) =>
+  _.fromPairs(
+    text
+      .split('\n')
+      .map((line) => line.split('='))
+      .filter(([slot, ...value]) => slot.trim() && value.join('=').trim())
+      .map(([slot, ...value]) => [slot.trim(), value.join('=').trim()])
+  )
+
+const formatSlots = (slots: NluTestCase['expectedSlots'] = {}) =>
+  Object.entries(slots)
+    .map(([slot, value]) => `${slot}=${value}`)
+    .join('\n')
+
+const parseContexts = (text: string) =>
+  _.uniq(
+    text
+      .split(',')
+      .map((x) => x.trim())
+      .filter(Boolean)
+  )
+
+export const TestModal: FC<Props> = (props) => {
+  const [utterance, setUtterance] = useState('')
+  const [language, setLanguage] = useState(props.contentLang)
+  const [expectedIntent, setExpectedIntent] = useState(NONE_INTENT)
+  const [contexts, setContexts] = useState('')
+  const [slots, setSlots] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const { test } = props
+    setUtterance(test?.utterance ?? '')
+    setLanguage(test?.language ?? props.contentLang)
+    setExpectedIntent(test?.expectedIntent ?? NONE_INTENT)
+    setContexts((test?.contexts ?? ['global']).join(', '))
+    setSlots(formatSlots(test?.expectedSlots))
+  }, [props.isOpen])
+
+  const submit = async (e) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      await props.onSubmit({
+        utterance,
+        language,
+        expectedIntent,
+        contexts: parseContexts(contexts),
+        expectedSlots: parseSlots(slots)
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const intentOptions = [
+    { value: NONE_INTENT, label: lang.tr('nlu.tests.noIntent') },
+    ..._.sortBy(props.intents, (x) => x.name).map((x) => ({ value: x.name, label: x.name }))
+  ]
+
+  return (
+    <Dialog
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      transitionDuration={0}
+      icon={props.test ? 'edit' : 'add'}
+      title={lang.tr(props.test ? 'nlu.tests.edit' : 'nlu.tests.new')}
+    >
+      <form onSubmit={submit}>
+        <div className={Classes.DIALOG_BODY}>
+          <FormGroup label={lang.tr('nlu.tests.utterance')}>
+            <InputGroup
+              required
+              autoFocus
+              value={utterance}
+              placeholder={lang.tr('nlu.tests.utterancePlaceholder')}
+              onChange={(e) => setUtterance(e.currentTarget.value)}
+            />
+          </FormGroup>
+          <FormGroup label={lang.tr('language')}>
+            <HTMLSelect
+              value={language}
+              options={props.languages.map((x) => ({ value: x, label: x.toUpperCase() }))}
+              onChange={(e) => setLanguage(e.currentTarget.value)}
+            />
+          </FormGroup>
+          <FormGroup label={lang.tr('nlu.tests.expectedIntent')}>
+            <HTMLSelect
+              value={expectedIntent}
+              options={intentOptions}
+              onChange={(e) => setExpectedIntent(e.currentTarget.value)}
+            />
+          </FormGroup>
+          <FormGroup label={lang.tr('nlu.tests.contexts')} helperText={lang.tr('nlu.tests.contextsHelp')}>
+            <InputGroup value={contexts} onChange={(e) => setContexts(e.currentTarget.value)} />
+          </FormGroup>
+          <FormGroup label={lang.tr('nlu.tests.expectedSlots')} helperText={lang.tr('nlu.tests.expectedSlotsHelp')}>
+            <TextArea fill rows={3} value={slots} onChange={(e) => setSlots(e.currentTarget.value)} />
+          </FormGroup>
+        </div>
+
+        <div className={Classes.DIALOG_FOOTER}>
+          <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+            <Button text={lang.tr('cancel')} onClick={props.onClose} />
+            <Button
+              type="submit"
+              text={lang.tr('save')}
+              intent={Intent.PRIMARY}
+              loading={isSaving}
+              disabled={!utterance.trim()}
+            />
+          </div>
+        </div>
+      </form>
+    </Dialog>
+  )
+}
@@ -0,0 +1,243 @@
+import { Button, ButtonGroup, Callout, HTMLTable, Intent, Tag } from '@blueprintjs/core'
+import { NLU } from 'botpress/sdk'
+import { confirmDialog, EmptyState, lang, toast } from 'botpress/shared'
+import cx from 'classnames'
+import { NluConfusionMatrix, NluTestCase, NluTestReport, NluTestResult } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, useEffect, useState } from 'react'
+
+import { NluClient } from '../client'
+
+import style from './style.scss'
+import { NONE_INTENT, TestModal } from './TestModal'
+
+interface Props {
+  api: NluClient
+  intents: NLU.IntentDefinition[]
+  languages: string[]
+  contentLang: string
+}
+
+const ConfusionMatrix: FC<{ matrix: NluConfusionMatrix }> = ({ matrix: { labels, counts } }) => (
+  <HTMLTable condensed bordered className={style.confusionMatrix}>
+    <thead>
+      <tr>
+        <th>{lang.tr('nlu.tests.expectedPredicted')}</th>
+        {labels.map((label) => (
+          <th key={label}>{label}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {labels.map((label, row) => (
+        <tr key={label}>
+          <th>{label}</th>
+          {counts[row].map((count, col) => (
+            <td
+              key={col}
+              className={cx({ [style.correct]: count && row === col, [style.confused]: count && row !== col })}
+            >
+              {count || ''}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </HTMLTable>
+)
+
+export const TestSuite: FC<Props> = (props) => {
+  const { api } = props
+  const [tests, setTests] = useState<NluTestCase[]>([])
+  const [report, setReport] = useState<NluTestReport>()
+  const [isRunning, setIsRunning] = useState(false)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editedTest, setEditedTest] = useState<NluTestCase>()
+
+  useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchTests()
+  }, [])
+
+  const fetchTests = async () => {
+    try {
+      setTests(_.sortBy(await api.fetchTests(), (x) => x.utterance.toLowerCase()))
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const runTests = async (ids?: string[]) => {
+    setIsRunning(true)
+    try {
+      const result = await api.runTests(ids)
+      // Results of a partial run replace those of the same tests in the previous report
+      setReport(ids && report ? mergeReports(report, result) : result)
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const mergeReports = (previous: NluTestReport, next: NluTestReport): NluTestReport => {
+    const results = _.uniqBy([...next.results, ...previous.results], (x) => x.testId)
+    const passed = results.filter((x) => x.success).length
+    return { ...next, results, passed, failed: results.length - passed }
+  }
+
+  const saveTest = async (test: Omit<NluTestCase, 'id'>) => {
+    try {
+      editedTest ? await api.updateTest(editedTest.id, test) : await api.createTest(test)
+      closeModal()
+      await fetchTests()
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const deleteTest = async (test: NluTestCase) => {
+    if (
+      !(await confirmDialog(lang.tr('nlu.tests.confirmDelete', { utterance: test.utterance }), {
+        acceptLabel: lang.tr('delete')
+      }))
+    ) {
+      return
+    }
+
+    try {
+      await api.deleteTest(test.id)
+      await fetchTests()
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const openModal = (test?: NluTestCase) => {
+    setEditedTest(test)
+    setIsModalOpen(true)
+  }
+
+  const closeModal = () => {
+    setIsModalOpen(false)
+    setEditedTest(undefined)
+  }
+
+  const renderResult = (result?: NluTestResult) => {
+    if (!result) {
+      return null
+    }
+    if (result.error) {
+      return <Tag intent={Intent.WARNING}>{result.error}</Tag>
+    }
+
+    return (
+      <div className={style.result}>
+        <Tag intent={result.success ? Intent.SUCCESS : Intent.DANGER}>
+          {lang.tr(result.success ? 'nlu.tests.passed' : 'nlu.tests.failed')}
+        </Tag>
+        <span>
+          {result.intent} ({Math.round(result.confidence * 100)}%)
+        </span>
+        {result.failures
+          .filter((x) => x.slot)
+          .map(({ slot, expected, received }) => (
+            <div key={slot} className={style.failure}>
+              {lang.tr('nlu.tests.slotFailure', { slot, expected, received: received ?? '-' })}
+            </div>
+          ))}
+      </div>
+    )
+  }
+
+  const resultsById = _.keyBy(report?.results, (x) => x.testId)
+  const formatIntent = (intent: string) => (intent === NONE_INTENT ? lang.tr('nlu.tests.noIntent') : intent)
+
+  return (
+    <div className={style.testSuite}>
+      <div className={style.header}>
+        <h3>{lang.tr('nlu.tests.title')}</h3>
+        <ButtonGroup>
+          <Button icon="add" text={lang.tr('nlu.tests.new')} onClick={() => openModal()} />
+          <Button
+            icon="play"
+            intent={Intent.PRIMARY}
+            text={lang.tr('nlu.tests.runAll')}
+            loading={isRunning}
+            disabled={!tests.length}
+            onClick={() => runTests()}
+          />
+        </ButtonGroup>
+      </div>
+
+      {report && (
+        <Callout intent={report.failed ? Intent.DANGER : Intent.SUCCESS} className={style.summary}>
+          {lang.tr('nlu.tests.summary', { passed: report.passed, total: report.passed + report.failed })}
+        </Callout>
+      )}
+
+      {!tests.length && <EmptyState icon="lab-test" text={lang.tr('nlu.tests.empty')} />}
+
+      {!!tests.length && (
+        <HTMLTable condensed striped className={style.tests}>
+          <thead>
+            <tr>
+              <th>{lang.tr('nlu.tests.utterance')}</th>
+              <th>{lang.tr('language')}</th>
+              <th>{lang.tr('nlu.tests.expectedIntent')}</th>
+              <th>{lang.tr('nlu.tests.expectedSlots')}</th>
+              <th>{lang.tr('nlu.tests.result')}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {tests.map((test) => (
+              <tr key={test.id}>
+                <td>{test.utterance}</td>
+                <td>{test.language.toUpperCase()}</td>
+                <td>{formatIntent(test.expectedIntent)}</td>
+                <td>
+                  {Object.entries(test.expectedSlots).map(([slot, value]) => (
+                    <div key={slot}>
+                      {slot}: {value}
+                    </div>
+                  ))}
+                </td>
+                <td>{renderResult(resultsById[test.id])}</td>
+                <td className={style.actions}>
+                  <Button
+                    minimal
+                    small
+                    icon="play"
+                    title={lang.tr('nlu.tests.run')}
+                    disabled={isRunning}
+                    onClick={() => runTests([test.id])}
+                  />
+                  <Button minimal small icon="edit" title={lang.tr('edit')} onClick={() => openModal(test)} />
+                  <Button minimal small icon="trash" title={lang.tr('delete')} onClick={() => deleteTest(test)} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </HTMLTable>
+      )}
+
+      {!!report?.confusionMatrix.labels.length && (
+        <div className={style.matrix}>
+          <h4>{lang.tr('nlu.tests.confusionMatrix')}</h4>
+          <ConfusionMatrix matrix={report.confusionMatrix} />
+        </div>
+      )}
+
+      <TestModal
+        isOpen={isModalOpen}
+        test={editedTest}
+        intents={props.intents}
+        languages={props.languages}
+        contentLang={props.contentLang}
+        onSubmit={saveTest}
+        onClose={closeModal}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  actions: string
+  confused: string
+  confusionMatrix: string
+  correct: string
+  failure: string
+  header: string
+  matrix: string
+  result: string
+  summary: string
+  testSuite: string
+  tests: string
+}
+declare var cssExports: CssExports
+export = cssExports
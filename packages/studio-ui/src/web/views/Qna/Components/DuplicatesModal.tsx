@@ -0,0 +1,122 @@
+import { Button, Callout, Classes, Dialog, Intent, NonIdealState, Spinner, Tag } from '@blueprintjs/core'
+import axios from 'axios'
+import { lang, toast } from 'botpress/shared'
+import cx from 'classnames'
+import { QnaDuplicateCluster, QnaDuplicateMatch } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, Fragment, useEffect, useState } from 'react'
+
+import style from '../style.scss'
+
+interface Props {
+  isOpen: boolean
+  toggle: () => void
+  /** Called after two QnAs were merged */
+  onMerged: () => void
+}
+
+export const DuplicatesModal: FC<Props> = (props) => {
+  const [clusters, setClusters] = useState<QnaDuplicateCluster[]>()
+  const [merging, setMerging] = useState<string>()
+
+  useEffect(() => {
+    if (props.isOpen) {
+      // eslint-disable-next-line @typescript-eslint/no-floating-promises
+      fetchDuplicates()
+    } else {
+      setClusters(undefined)
+    }
+  }, [props.isOpen])
+
+  const fetchDuplicates = async () => {
+    try {
+      const { data } = await axios.get<QnaDuplicateCluster[]>(`${window.STUDIO_API_PATH}/qna/duplicates`)
+      setClusters(data)
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+      setClusters([])
+    }
+  }
+
+  const merge = async (targetId: string, sourceId: string) => {
+    setMerging(sourceId)
+    try {
+      await axios.post(`${window.STUDIO_API_PATH}/qna/questions/${targetId}/merge`, { sourceId })
+      toast.success(lang.tr('qna.duplicates.mergeSuccess', { sourceId, targetId }))
+      props.onMerged()
+      await fetchDuplicates()
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    } finally {
+      setMerging(undefined)
+    }
+  }
+
+  const renderMatch = (cluster: QnaDuplicateCluster, match: QnaDuplicateMatch, index: number) => {
+    const [first, second] = match.questions.map((i) => cluster.questions[i])
+    const canMerge = first.source === 'qna' && second.source === 'qna' && first.id !== second.id
+
+    return (
+      <li key={index} className={style.duplicateMatch}>
+        <div>
+          {[first, second].map((question, i) => (
+            <div key={i}>
+              <Tag minimal intent={question.source === 'qna' ? Intent.PRIMARY : Intent.NONE}>
+                {lang.tr(`qna.duplicates.${question.source}`, { id: question.id })}
+              </Tag>{' '}
+              {question.text}
+            </div>
+          ))}
+          <span className={Classes.TEXT_MUTED}>
+            {lang.tr(`qna.duplicates.${match.kind}`)} ({Math.round(match.score * 100)}%)
+          </span>
+        </div>
+        {canMerge && (
+          <Button
+            small
+            icon="git-merge"
+            text={lang.tr('qna.duplicates.merge', { sourceId: second.id, targetId: first.id })}
+            loading={merging === second.id}
+            disabled={!!merging}
+            onClick={() => merge(first.id, second.id)}
+          />
+        )}
+      </li>
+    )
+  }
+
+  const renderClusters = () => {
+    if (!clusters) {
+      return <Spinner />
+    }
+
+    if (!clusters.length) {
+      return <NonIdealState icon="tick" title={lang.tr('qna.duplicates.noDuplicates')} />
+    }
+
+    return (
+      <Fragment>
+        <Callout>{lang.tr('qna.duplicates.summary', { count: clusters.length })}</Callout>
+        {clusters.map((cluster, index) => (
+          <div key={index} className={style.duplicateCluster}>
+            <Tag minimal>{cluster.language.toUpperCase()}</Tag>
+            <ul>{cluster.matches.map((match, i) => renderMatch(cluster, match, i))}</ul>
+          </div>
+        ))}
+      </Fragment>
+    )
+  }
+
+  return (
+    <Dialog
+      title={lang.tr('qna.duplicates.title')}
+      icon="duplicate"
+      isOpen={props.isOpen}
+      onClose={props.toggle}
+      transitionDuration={0}
+      style={{ width: 700 }}
+    >
+      <div className={cx(Classes.DIALOG_BODY, style.duplicates)}>{renderClusters()}</div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,74 @@
+import { Button, HTMLSelect, InputGroup } from '@blueprintjs/core'
+import { lang } from 'botpress/shared'
+import { QnaAction, QnaFilters } from 'common/typings'
+import _ from 'lodash'
+import React, { FC } from 'react'
+
+import style from '../style.scss'
+
+export type QnaListFilters = Pick<QnaFilters, 'answer' | 'enabled' | 'actions' | 'redirectFlow' | 'coverage'>
+
+const ACTIONS: QnaAction[] = ['text', 'redirect', 'text_redirect']
+
+interface Props {
+  filters: QnaListFilters
+  onChange: (filters: QnaListFilters) => void
+  flows: { name: string }[]
+  contentLang: string
+}
+
+export const FilterBar: FC<Props> = ({ filters, onChange, flows, contentLang }) => {
+  const update = (values: Partial<QnaListFilters>) => onChange(_.omitBy({ ...filters, ...values }, _.isUndefined))
+
+  return (
+    <div className={style.filterBar}>
+      <InputGroup
+        leftIcon="search"
+        value={filters.answer || ''}
+        placeholder={lang.tr('qna.filters.searchAnswers')}
+        onChange={(e) => update({ answer: e.currentTarget.value || undefined })}
+      />
+      <HTMLSelect
+        value={filters.enabled === undefined ? '' : String(filters.enabled)}
+        onChange={(e) => update({ enabled: e.currentTarget.value ? e.currentTarget.value === 'true' : undefined })}
+        options={[
+          { value: '', label: lang.tr('qna.filters.anyStatus') },
+          { value: 'true', label: lang.tr('qna.filters.enabled') },
+          { value: 'false', label: lang.tr('qna.filters.disabled') }
+        ]}
+      />
+      <HTMLSelect
+        value={filters.actions?.[0] || ''}
+        onChange={(e) => update({ actions: e.currentTarget.value ? [e.currentTarget.value as QnaAction] : undefined })}
+        options={[
+          { value: '', label: lang.tr('qna.filters.anyAction') },
+          ...ACTIONS.map((action) => ({ value: action, label: lang.tr(`qna.filters.action.${action}`) }))
+        ]}
+      />
+      <HTMLSelect
+        value={filters.redirectFlow || ''}
+        onChange={(e) => update({ redirectFlow: e.currentTarget.value || undefined })}
+        options={[
+          { value: '', label: lang.tr('qna.filters.anyRedirectFlow') },
+          ...flows.map(({ name }) => ({ value: name, label: name.replace(/\.flow\.json$/, '') }))
+        ]}
+      />
+      <HTMLSelect
+        value={filters.coverage || ''}
+        onChange={(e) => update({ coverage: (e.currentTarget.value || undefined) as QnaListFilters['coverage'] })}
+        options={[
+          { value: '', label: lang.tr('qna.filters.anyTranslation') },
+          { value: 'complete', label: lang.tr('qna.filters.complete', { lang: contentLang.toUpperCase() }) },
+          { value: 'missing', label: lang.tr('qna.filters.missing', { lang: contentLang.toUpperCase() }) }
+        ]}
+      />
+      <Button
+        minimal
+        icon="cross"
+        text={lang.tr('qna.filters.clear')}
+        disabled={_.isEmpty(filters)}
+        onClick={() => onChange({})}
+      />
+    </div>
+  )
+}
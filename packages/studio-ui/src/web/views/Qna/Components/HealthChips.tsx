@@ -0,0 +1,66 @@
+import { Intent, Tag, Tooltip } from '@blueprintjs/core'
+import axios from 'axios'
+import { lang, toast } from 'botpress/shared'
+import { QnaHealthIssue, QnaHealthReport } from 'common/typings'
+import _ from 'lodash'
+import React, { FC, useEffect, useState } from 'react'
+
+import style from '../style.scss'
+
+const ISSUE_INTENTS: { [issue in QnaHealthIssue]: Intent } = {
+  missingFlow: Intent.DANGER,
+  missingNode: Intent.DANGER,
+  missingDefaultAnswer: Intent.DANGER,
+  missingTranslation: Intent.WARNING,
+  matchesIntent: Intent.WARNING,
+  disabled: Intent.NONE
+}
+
+interface Props {
+  selected?: QnaHealthIssue
+  onChange: (issue?: QnaHealthIssue) => void
+  /** The report is fetched again when this value changes */
+  refreshKey: any
+}
+
+export const HealthChips: FC<Props> = ({ selected, onChange, refreshKey }) => {
+  const [report, setReport] = useState<QnaHealthReport>()
+
+  useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchHealth()
+  }, [refreshKey])
+
+  const fetchHealth = async () => {
+    try {
+      const { data } = await axios.get<QnaHealthReport>(`${window.STUDIO_API_PATH}/qna/health`)
+      setReport(data)
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const issues = Object.keys(ISSUE_INTENTS).filter((issue) => report?.[issue].length || issue === selected)
+  if (!issues.length) {
+    return null
+  }
+
+  return (
+    <div className={style.healthChips}>
+      {issues.map((issue: QnaHealthIssue) => (
+        <Tooltip key={issue} content={lang.tr(`qna.health.${issue}.description`)}>
+          <Tag
+            interactive
+            round
+            minimal={selected !== issue}
+            intent={ISSUE_INTENTS[issue]}
+            rightIcon={selected === issue ? 'cross' : undefined}
+            onClick={() => onChange(selected === issue ? undefined : issue)}
+          >
+            {lang.tr(`qna.health.${issue}.label`, { count: report?.[issue].length || 0 })}
+          </Tag>
+        </Tooltip>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { Button, Classes, Intent, ProgressBar, Tag } from '@blueprintjs/core'
+import axios from 'axios'
+import { lang, toast } from 'botpress/shared'
+import { QnaImportJob, QnaImportState } from 'common/typings'
+import _ from 'lodash'
+import moment from 'moment'
+import React, { FC, Fragment, useEffect, useState } from 'react'
+
+import style from '../style.scss'
+
+const STATE_INTENTS: { [state in QnaImportState]: Intent } = {
+  running: Intent.PRIMARY,
+  completed: Intent.SUCCESS,
+  error: Intent.DANGER,
+  cancelled: Intent.NONE,
+  interrupted: Intent.WARNING
+}
+
+export const cancelImportJob = async (job: QnaImportJob) => {
+  try {
+    await axios.post(`${window.STUDIO_API_PATH}/qna/imports/${job.id}/cancel`)
+  } catch (err) {
+    toast.failure(_.get(err, 'response.data.message', err.message))
+  }
+}
+
+export const ImportJobProgress: FC<{ job: QnaImportJob }> = ({ job }) => {
+  const errors = [
+    ...job.rowErrors.map(({ row, errors }) => ({
+      key: `row-${row}`,
+      label: lang.tr('qna.import.row', { row }),
+      errors
+    })),
+    ...job.itemErrors.map(({ id, errors }) => ({ key: `item-${id}`, label: `${id}:`, errors }))
+  ]
+
+  return (
+    <Fragment>
+      {job.state === 'running' && (
+        <Fragment>
+          <p>
+            {lang.tr(`qna.import.phase.${job.phase}`)} {!!job.total && `${job.processed}/${job.total}`}
+          </p>
+          <ProgressBar value={job.total ? job.processed / job.total : undefined} intent={Intent.PRIMARY} />
+        </Fragment>
+      )}
+      {job.message && <p>{job.message}</p>}
+      {!!errors.length && (
+        <ul className={style.importRowErrors}>
+          {errors.map(({ key, label, errors }) => (
+            <li key={key}>
+              <strong>{label}</strong> {errors.join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Fragment>
+  )
+}
+
+interface Props {
+  /** Called when an interrupted job is resumed, to follow its progress */
+  onResume: (job: QnaImportJob) => void
+}
+
+export const RecentImports: FC<Props> = ({ onResume }) => {
+  const [jobs, setJobs] = useState<QnaImportJob[]>([])
+
+  useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    fetchJobs()
+  }, [])
+
+  const fetchJobs = async () => {
+    try {
+      const { data } = await axios.get<QnaImportJob[]>(`${window.STUDIO_API_PATH}/qna/imports`)
+      setJobs(data)
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const resume = async (job: QnaImportJob) => {
+    try {
+      await axios.post(`${window.STUDIO_API_PATH}/qna/imports/${job.id}/resume`)
+      onResume(job)
+    } catch (err) {
+      toast.failure(_.get(err, 'response.data.message', err.message))
+    }
+  }
+
+  const cancel = async (job: QnaImportJob) => {
+    await cancelImportJob(job)
+    await fetchJobs()
+  }
+
+  if (!jobs.length) {
+    return null
+  }
+
+  return (
+    <div className={style.recentImports}>
+      <h5 className={Classes.HEADING}>{lang.tr('qna.import.recentImports')}</h5>
+      {jobs.map((job) => (
+        <div key={job.id} className={style.recentImport}>
+          <div>
+            <strong>{job.fileName}</strong>{' '}
+            <span className={Classes.TEXT_MUTED}>
+              {moment(job.startedOn).fromNow()}
+              {job.startedBy && ` - ${job.startedBy}`}
+            </span>
+          </div>
+          <Tag minimal intent={STATE_INTENTS[job.state]}>
+            {lang.tr(`qna.import.state.${job.state}`)}
+          </Tag>
+          {job.state === 'interrupted' && (
+            <Button small minimal icon="play" text={lang.tr('qna.import.resume')} onClick={() => resume(job)} />
+          )}
+          {(job.state === 'running' || job.state === 'interrupted') && (
+            <Button small minimal icon="stop" text={lang.tr('cancel')} onClick={() => cancel(job)} />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -2,9 +2,14 @@ import { Button, Callout, Classes, Dialog, FileInput, FormGroup, Intent, Radio,
 import 'bluebird-global'
 import axios from 'axios'
 import { lang, toast } from 'botpress/shared'
+import { QnaImportJob, QnaImportRowError } from 'common/typings'
 import _ from 'lodash'
 import React, { FC, Fragment, useEffect, useState } from 'react'
 
+import style from '../style.scss'
+
+import { cancelImportJob, ImportJobProgress, RecentImports } from './ImportJobs'
+
 const JSON_STATUS_POLL_INTERVAL = 1000
 const axiosConfig = { headers: { 'Content-Type': 'multipart/form-data' } }
 
@@ -19,26 +24,40 @@ interface Analysis {
   cmsCount: number
   fileQnaCount: number
   fileCmsCount: number
+  /** Rows of spreadsheets which are skipped */
+  rowErrors: QnaImportRowError[]
 }
 
+const RowErrors: FC<{ rowErrors: QnaImportRowError[] }> = ({ rowErrors }) => (
+  <ul className={style.importRowErrors}>
+    {rowErrors.map(({ row, errors }) => (
+      <li key={row}>
+        <strong>{lang.tr('qna.import.row', { row })}</strong> {errors.join(', ')}
+      </li>
+    ))}
+  </ul>
+)
+
 export const ImportModal: FC<Props> = (props) => {
   const [file, setFile] = useState<any>()
   const [filePath, setFilePath] = useState<string>()
   const [isLoading, setIsLoading] = useState(false)
   const [importAction, setImportAction] = useState('insert')
   const [analysis, setAnalysis] = useState<Analysis>()
-  const [statusId, setStatusId] = useState<string>()
+  const [jobId, setJobId] = useState<string>()
+  const [job, setJob] = useState<QnaImportJob>()
   const [uploadStatus, setUploadStatus] = useState<string>()
+  const [rowErrors, setRowErrors] = useState<QnaImportRowError[]>([])
   const [hasError, setHasError] = useState(false)
 
   useEffect(() => {
-    if (statusId) {
+    if (jobId) {
       const interval = setInterval(async () => {
-        await updateUploadStatus()
+        await updateJob()
       }, JSON_STATUS_POLL_INTERVAL)
       return () => clearInterval(interval)
     }
-  }, [statusId])
+  }, [jobId])
 
   const analyzeImport = async () => {
     setIsLoading(true)
@@ -50,12 +69,13 @@ export const ImportModal: FC<Props> = (props) => {
 
       if (!data.fileQnaCount && !data.fileCmsCount) {
         setUploadStatus(lang.tr('qna.import.notAbleToExtract'))
+        setRowErrors(data.rowErrors)
         setHasError(true)
       }
 
       setAnalysis(data)
     } catch (err) {
-      toast.failure(err.message)
+      toast.failure(_.get(err, 'response.data.message', err.message))
     } finally {
       setIsLoading(false)
     }
@@ -70,29 +90,41 @@ export const ImportModal: FC<Props> = (props) => {
       form.append('action', importAction)
 
       const { data } = await axios.post(`${window.STUDIO_API_PATH}/qna/import`, form, axiosConfig)
-      setStatusId(data)
+      setJobId(data)
     } catch (err) {
       clearStatus()
       setHasError(true)
-      toast.failure(err.message)
+      toast.failure(_.get(err, 'response.data.message', err.message))
     }
   }
 
-  const updateUploadStatus = async () => {
-    const { data: status } = await axios.get(`${window.STUDIO_API_PATH}/qna/json-upload-status/${statusId}`)
-    setUploadStatus(status)
+  const updateJob = async () => {
+    const { data } = await axios.get<QnaImportJob>(`${window.STUDIO_API_PATH}/qna/imports/${jobId}`)
+    setJob(data)
 
-    if (status === 'Completed') {
+    if (data.state === 'completed') {
       clearStatus()
       closeDialog()
-      toast.success(lang.tr('qna.import.uploadSuccessful'))
+      const errorCount = data.rowErrors.length + data.itemErrors.length
+      if (errorCount) {
+        toast.warning(lang.tr('qna.import.uploadSuccessfulWithErrors', { count: errorCount }))
+      } else {
+        toast.success(lang.tr('qna.import.uploadSuccessful'))
+      }
       props.onImportCompleted()
-    } else if (status.startsWith('Error')) {
+    } else if (data.state !== 'running') {
       clearStatus()
       setHasError(true)
+      props.onImportCompleted()
     }
   }
 
+  const followJob = (job: QnaImportJob) => {
+    setIsLoading(true)
+    setJob(job)
+    setJobId(job.id)
+  }
+
   const readFile = (files: FileList | null) => {
     if (files) {
       setFile(files[0])
@@ -101,7 +133,7 @@ export const ImportModal: FC<Props> = (props) => {
   }
 
   const clearStatus = () => {
-    setStatusId(undefined)
+    setJobId(undefined)
     setIsLoading(false)
   }
 
@@ -114,7 +146,9 @@ export const ImportModal: FC<Props> = (props) => {
     setFilePath(undefined)
     setFile(undefined)
     setUploadStatus(undefined)
-    setStatusId(undefined)
+    setRowErrors([])
+    setJobId(undefined)
+    setJob(undefined)
     setAnalysis(undefined)
     setHasError(false)
   }
@@ -130,17 +164,18 @@ export const ImportModal: FC<Props> = (props) => {
       >
         <div className={Classes.DIALOG_BODY}>
           <FormGroup
-            label={<span>{lang.tr('qna.import.selectJson')}</span>}
+            label={<span>{lang.tr('qna.import.selectFile')}</span>}
             labelFor="input-archive"
-            helperText={<span>{lang.tr('qna.import.selectJsonHelp')}</span>}
+            helperText={<span>{lang.tr('qna.import.selectFileHelp')}</span>}
           >
             <FileInput
               text={filePath || lang.tr('chooseFile')}
               onChange={(e) => readFile((e.target as HTMLInputElement).files)}
-              inputProps={{ accept: '.json' }}
+              inputProps={{ accept: '.json,.csv,.xlsx' }}
               fill
             />
           </FormGroup>
+          {props.isOpen && <RecentImports onResume={followJob} />}
         </div>
         <div className={Classes.DIALOG_FOOTER}>
           <div className={Classes.DIALOG_FOOTER_ACTIONS}>
@@ -158,7 +193,7 @@ export const ImportModal: FC<Props> = (props) => {
   }
 
   const renderAnalysis = () => {
-    const { qnaCount, cmsCount, fileQnaCount, fileCmsCount } = analysis
+    const { qnaCount, cmsCount, fileQnaCount, fileCmsCount, rowErrors } = analysis
 
     return (
       <Fragment>
@@ -177,6 +212,12 @@ export const ImportModal: FC<Props> = (props) => {
               })}
             </p>
 
+            {!!rowErrors.length && (
+              <Callout intent={Intent.WARNING} title={lang.tr('qna.import.invalidRows', { count: rowErrors.length })}>
+                <RowErrors rowErrors={rowErrors} />
+              </Callout>
+            )}
+
             <p style={{ marginTop: 30 }}>
               <RadioGroup
                 label={lang.tr('qna.import.whatLikeDo')}
@@ -210,19 +251,27 @@ export const ImportModal: FC<Props> = (props) => {
     )
   }
 
+  const getStatusTitle = () => {
+    if (job && job.state !== 'running') {
+      return lang.tr(`qna.import.state.${job.state}`)
+    }
+    return hasError ? lang.tr('error') : lang.tr('qna.import.uploadStatus')
+  }
+
   const renderStatus = () => {
     return (
       <Fragment>
         <div className={Classes.DIALOG_BODY}>
-          <Callout
-            title={hasError ? lang.tr('error') : lang.tr('qna.import.uploadStatus')}
-            intent={hasError ? Intent.DANGER : Intent.PRIMARY}
-          >
-            {uploadStatus}
+          <Callout title={getStatusTitle()} intent={hasError ? Intent.DANGER : Intent.PRIMARY}>
+            {job ? <ImportJobProgress job={job} /> : uploadStatus}
+            {!job && !!rowErrors.length && <RowErrors rowErrors={rowErrors} />}
           </Callout>
         </div>
         <div className={Classes.DIALOG_FOOTER}>
           <div className={Classes.DIALOG_FOOTER_ACTIONS}>
+            {job?.state === 'running' && (
+              <Button id="btn-cancel" text={lang.tr('cancel')} onClick={() => cancelImportJob(job)} />
+            )}
             {hasError && <Button id="btn-back" text={lang.tr('back')} disabled={isLoading} onClick={clearState} />}
           </div>
         </div>
@@ -230,7 +279,7 @@ export const ImportModal: FC<Props> = (props) => {
     )
   }
 
-  const showStatus = uploadStatus || hasError
+  const showStatus = uploadStatus || hasError || job
 
   return (
     <Fragment>
@@ -1,8 +1,15 @@
-import { Button, Icon, Position, Tooltip } from '@blueprintjs/core'
+import { Button, HTMLSelect, Icon, Position, Tooltip } from '@blueprintjs/core'
 import { Flow, FlowNode } from 'botpress/sdk'
 import { confirmDialog, lang, MoreOptions, MoreOptionsItems, toast, utils } from 'botpress/shared'
 import cx from 'classnames'
-import { QnaItem } from 'common/typings'
+import {
+  ANSWER_SELECTIONS,
+  DEFAULT_ANSWER_SELECTION,
+  getEditableVariations,
+  isEditableVariation,
+  setEditableVariations
+} from 'common/qna-answers'
+import { QnaAnswerSelection, QnaAnswerVariation, QnaItem } from 'common/typings'
 import _uniqueId from 'lodash/uniqueId'
 import React, { FC, Fragment, useMemo, useState } from 'react'
 import { CopyToClipboard } from 'react-copy-to-clipboard'
@@ -20,6 +27,25 @@ interface RedirectItem {
   value: string
 }
 
+const PLACEHOLDER_KEYS: { [selection in QnaAnswerSelection]: string } = {
+  random: 'qna.form.chatbotWillRandomlyChoose',
+  roundRobin: 'qna.form.chatbotWillAlternate',
+  first: 'qna.form.chatbotWillUseFirst'
+}
+
+const getVariationSummary = (variation: QnaAnswerVariation): string => {
+  switch (variation.type) {
+    case 'card':
+      return variation.title
+    case 'carousel':
+      return lang.tr('qna.form.carouselSummary', { count: variation.items.length })
+    case 'choice':
+      return variation.text
+    default:
+      return ''
+  }
+}
+
 interface Props {
   isLite: boolean
   expanded: boolean
@@ -52,9 +78,12 @@ const QnA: FC<Props> = (props) => {
 
   const [showRedirectToFlow, setShowRedirectToFlow] = useState(!!(data.redirectFlow || data.redirectNode))
   let questions = data.questions[contentLang]
-  let answers = data.answers[contentLang]
+  const answer = data.answers[contentLang]
+  let answers = getEditableVariations(answer)
+  const richVariations = answer?.variations.filter((x) => !isEditableVariation(x)) || []
+  const selection = answer?.selection || DEFAULT_ANSWER_SELECTION
   const refQuestions = contentLang !== defaultLanguage && data.questions[defaultLanguage]
-  const refAnswers = contentLang !== defaultLanguage && data.answers[defaultLanguage]
+  const refAnswers = contentLang !== defaultLanguage && getEditableVariations(data.answers[defaultLanguage])
   const contentDirection = useMemo(() => (isRTLLocale(contentLang) ? 'rtl' : 'ltr'), [contentLang])
 
   if (refQuestions?.length > questions?.length || (!questions?.length && refQuestions?.length)) {
@@ -134,7 +163,7 @@ const QnA: FC<Props> = (props) => {
       if (index === 0) {
         return lang.tr('qna.form.writeTheAnswer')
       } else {
-        return lang.tr('qna.form.chatbotWillRandomlyChoose')
+        return lang.tr(PLACEHOLDER_KEYS[selection])
       }
     }
   }
@@ -149,9 +178,18 @@ const QnA: FC<Props> = (props) => {
         : ''
     )
 
+  const updateAnswer = (variations: QnaAnswerVariation[], newSelection: QnaAnswerSelection = selection) =>
+    updateQnA({
+      id,
+      data: { ...data, answers: { ...data.answers, [contentLang]: { selection: newSelection, variations } } }
+    })
+
+  const removeRichVariation = (variation: QnaAnswerVariation) =>
+    updateAnswer(answer.variations.filter((x) => x !== variation))
+
+  const answerCount = answers.filter((a) => a.trim()).length + richVariations.length
   const showIncomplete =
-    questions?.filter((q) => !!q.trim()).length < 3 ||
-    (answers?.filter((q) => !!q.trim()).length < 1 && !data.redirectFlow && !data.redirectNode)
+    questions?.filter((q) => !!q.trim()).length < 3 || (answerCount < 1 && !data.redirectFlow && !data.redirectNode)
   const currentFlow = flows ? flows.find(({ name }) => name === data.redirectFlow) || { nodes: [] } : { nodes: [] }
   const nodeList = (currentFlow.nodes as FlowNode[])?.map(({ name }) => ({ label: name, value: name }))
   const flowsList = flows.map(({ name }) => ({ label: getFlowLabel(name), value: name }))
@@ -212,7 +250,7 @@ const QnA: FC<Props> = (props) => {
             )}
             <span className={style.tag}>
               {`${questions?.filter((q) => q.trim()).length || 0} ${lang.tr('qna.form.q')}
-               · ${answers?.filter((a) => a.trim()).length || 0}  ${lang.tr('qna.form.a')}`}
+               · ${answerCount}  ${lang.tr('qna.form.a')}`}
             </span>
           </div>
         </Button>
@@ -253,14 +291,18 @@ const QnA: FC<Props> = (props) => {
           />
           <TextAreaList
             key="answers"
-            items={answers || ['']}
+            items={answers.length ? answers : ['']}
             duplicateMsg={lang.tr('qna.form.duplicateAnswer')}
             itemListValidator={validateItemsList}
             contentDirection={contentDirection}
             updateItems={(items) =>
               updateQnA({
                 id,
-                data: { ...data, questions: data.questions, answers: { ...data.answers, [contentLang]: items } }
+                data: {
+                  ...data,
+                  questions: data.questions,
+                  answers: { ...data.answers, [contentLang]: setEditableVariations(answer, items) }
+                }
               })
             }
             refItems={refAnswers}
@@ -270,6 +312,26 @@ const QnA: FC<Props> = (props) => {
             canAddContent
             addItemLabel={lang.tr('qna.form.addAnswerAlternative')}
           />
+          <div className={style.answerVariations}>
+            {richVariations.map((variation, index) => (
+              <div key={index} className={style.richVariation}>
+                <span className={style.tag}>{lang.tr(`qna.form.variationType.${variation.type}`)}</span>
+                <span className={style.richVariationSummary}>{getVariationSummary(variation)}</span>
+                <Tooltip content={lang.tr('qna.form.removeVariation')} position={Position.LEFT}>
+                  <Button minimal small icon="trash" onClick={() => removeRichVariation(variation)} />
+                </Tooltip>
+              </div>
+            ))}
+            <label>
+              {lang.tr('qna.form.selection.label')}
+              <HTMLSelect
+                minimal
+                value={selection}
+                onChange={(e) => updateAnswer(answer?.variations || [], e.currentTarget.value as QnaAnswerSelection)}
+                options={ANSWER_SELECTIONS.map((value) => ({ value, label: lang.tr(`qna.form.selection.${value}`) }))}
+              />
+            </label>
+          </div>
           {showRedirectToFlow && (
             <Fragment>
               <h1 className={style.redirectTitle}>{lang.tr('qna.form.redirectQuestionTo')}</h1>
@@ -2,24 +2,40 @@ import { Spinner } from '@blueprintjs/core'
 import axios from 'axios'
 import { EmptyState, HeaderButtonProps, lang, MainLayout } from 'botpress/shared'
 import cx from 'classnames'
-import { debounce } from 'lodash'
+import { QnaExportFormat, QnaHealthIssue, QnaSortOrder } from 'common/typings'
+import _, { debounce } from 'lodash'
 import React, { FC, useCallback, useEffect, useReducer, useRef, useState } from 'react'
 import { reorderFlows } from '~/components/Shared/Utils'
 import withLanguage from '~/components/Util/withLanguage'
 
 import ContextSelector from './Components/ContextSelector'
 import { Downloader } from './Components/Downloader'
+import { DuplicatesModal } from './Components/DuplicatesModal'
+import { FilterBar, QnaListFilters } from './Components/FilterBar'
+import { HealthChips } from './Components/HealthChips'
 import { ImportModal } from './Components/ImportModal'
 import QnA from './Components/QnA'
 import EmptyStateIcon from './Icons/EmptyStateIcon'
 import style from './style.scss'
 import { dispatchMiddleware, fetchReducer, itemHasError, ITEMS_PER_PAGE, Props } from './utils/qnaList.utils'
 
+const EXPORT_FORMATS: QnaExportFormat[] = ['json', 'csv', 'xlsx']
+const SORT_ORDERS: { [label: string]: QnaSortOrder | undefined } = {
+  default: undefined,
+  recentlyModified: { column: 'modifiedOn', desc: true },
+  leastRecentlyModified: { column: 'modifiedOn' }
+}
+
 const QnAList: FC<Props> = (props) => {
   const [flows, setFlows] = useState([])
   const [filterContexts, setFilterContexts] = useState([])
   const [questionSearch, setQuestionSearch] = useState('')
+  const [filters, setFilters] = useState<QnaListFilters>({})
+  const [showFilters, setShowFilters] = useState(false)
+  const [sortOrder, setSortOrder] = useState<QnaSortOrder>()
+  const [healthIssue, setHealthIssue] = useState<QnaHealthIssue>()
   const [showImportModal, setShowImportModal] = useState(false)
+  const [showDuplicatesModal, setShowDuplicatesModal] = useState(false)
   const [currentTab, setCurrentTab] = useState('qna')
   const [currentLang, setCurrentLang] = useState(props.contentLang)
   const [url, setUrl] = useState('')
@@ -73,7 +89,15 @@ const QnAList: FC<Props> = (props) => {
         .then(() => {})
         .catch(() => {})
     }
-  }, [filterContexts])
+  }, [
+    filterContexts,
+    filters.enabled,
+    filters.actions?.[0],
+    filters.redirectFlow,
+    filters.coverage && currentLang,
+    sortOrder,
+    healthIssue
+  ])
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -85,7 +109,7 @@ const QnAList: FC<Props> = (props) => {
     }, 300)
 
     return () => clearTimeout(timer)
-  }, [questionSearch])
+  }, [questionSearch, filters.answer])
 
   useEffect(() => {
     if (!loading && fetchMore && items.length < count) {
@@ -101,8 +125,8 @@ const QnAList: FC<Props> = (props) => {
     })
   }
 
-  const startDownload = () => {
-    setUrl(`${window['STUDIO_API_PATH']}/qna/export`)
+  const startDownload = (format: QnaExportFormat) => {
+    setUrl(`${window['STUDIO_API_PATH']}/qna/export?format=${format}`)
   }
 
   const getQueryParams = () => {
@@ -152,18 +176,25 @@ const QnAList: FC<Props> = (props) => {
       disabled: !items.length || languages?.length <= 1,
       tooltip: noItemsTooltip || languesTooltip
     },
-    /*{
-      icon: 'filter',
-      disabled: true,
-      onClick: () => {},
-      tooltip: noItemsTooltip || lang.tr('filterBy')
-    },
-    {
-      icon: 'sort',
-      disabled: true,
-      onClick: () => {},
-      tooltip: noItemsTooltip || lang.tr('sortBy')
-    },*/
+    ...(isLite
+      ? []
+      : [
+          {
+            icon: 'filter' as const,
+            onClick: () => setShowFilters(!showFilters),
+            tooltip: lang.tr('filterBy')
+          },
+          {
+            icon: 'sort' as const,
+            disabled: !items.length,
+            optionsItems: Object.keys(SORT_ORDERS).map((label) => ({
+              label: lang.tr(`qna.sort.${label}`),
+              selected: _.isEqual(sortOrder, SORT_ORDERS[label]),
+              action: () => setSortOrder(SORT_ORDERS[label])
+            })),
+            tooltip: noItemsTooltip || lang.tr('sortBy')
+          }
+        ]),
     {
       icon: allExpanded ? 'collapse-all' : 'expand-all',
       disabled: !items.length,
@@ -174,16 +205,25 @@ const QnAList: FC<Props> = (props) => {
 
   if (!isLite) {
     buttons.push(
+      {
+        icon: 'duplicate',
+        disabled: !items.length,
+        onClick: () => setShowDuplicatesModal(true),
+        tooltip: noItemsTooltip || lang.tr('qna.duplicates.title')
+      },
       {
         icon: 'export',
         disabled: !items.length,
-        onClick: startDownload,
-        tooltip: noItemsTooltip || lang.tr('exportToJson')
+        optionsItems: EXPORT_FORMATS.map((format) => ({
+          label: lang.tr(`qna.export.${format}`),
+          action: () => startDownload(format)
+        })),
+        tooltip: noItemsTooltip || lang.tr('qna.export.tooltip')
       },
       {
         icon: 'import',
         onClick: () => setShowImportModal(true),
-        tooltip: lang.tr('importJson')
+        tooltip: lang.tr('qna.import.tooltip')
       }
     )
   }
@@ -199,7 +239,16 @@ const QnAList: FC<Props> = (props) => {
   const fetchData = async (page = 1) => {
     dispatch({ type: 'loading' })
     const params = !isLite
-      ? { limit: ITEMS_PER_PAGE, offset: (page - 1) * ITEMS_PER_PAGE, filteredContexts: filterContexts }
+      ? {
+          limit: ITEMS_PER_PAGE,
+          offset: (page - 1) * ITEMS_PER_PAGE,
+          filteredContexts: filterContexts,
+          ...filters,
+          language: currentLang,
+          sortBy: sortOrder?.column,
+          sortDesc: sortOrder?.desc,
+          health: healthIssue
+        }
       : getQueryParams()
 
     const { data } = await axios.get(`${window.STUDIO_API_PATH}/qna/questions`, {
@@ -215,7 +264,7 @@ const QnAList: FC<Props> = (props) => {
     dispatch({ type: 'highlightedSuccess', data })
   }
 
-  const hasFilteredResults = questionSearch.length || filterContexts.length
+  const hasFilteredResults = questionSearch.length || filterContexts.length || !_.isEmpty(filters) || healthIssue
 
   const toolBarRightContent = (
     <div className={style.searchWrapper}>
@@ -247,6 +296,10 @@ const QnAList: FC<Props> = (props) => {
         buttons={buttons}
         rightContent={toolBarRightContent}
       />
+      {showFilters && !isLite && (
+        <FilterBar filters={filters} onChange={setFilters} flows={flows} contentLang={currentLang} />
+      )}
+      {!isLite && <HealthChips selected={healthIssue} onChange={setHealthIssue} refreshKey={items} />}
       <div ref={wrapperRef} className={cx(style.content, { [style.empty]: !items.length && !highlighted })}>
         {highlighted && (
           <div className={style.highlightedQna}>
@@ -328,13 +381,19 @@ const QnAList: FC<Props> = (props) => {
         )}
       </div>
 
-      <Downloader url={url} />
+      <Downloader url={url} onDownloadCompleted={() => setUrl('')} />
 
       <ImportModal
         onImportCompleted={() => fetchData()}
         isOpen={showImportModal}
         toggle={() => setShowImportModal(!showImportModal)}
       />
+
+      <DuplicatesModal
+        onMerged={() => fetchData()}
+        isOpen={showDuplicatesModal}
+        toggle={() => setShowDuplicatesModal(!showDuplicatesModal)}
+      />
     </MainLayout.Wrapper>
   )
 }
@@ -2,18 +2,25 @@
 // Please do not change this file!
 interface CssExports {
   'addBtn': string;
+  'answerVariations': string;
   'collapsibleWrapper': string;
   'content': string;
   'contentAnswer': string;
   'contextInput': string;
   'contextSelector': string;
+  'duplicateCluster': string;
+  'duplicateMatch': string;
+  'duplicates': string;
   'empty': string;
   'errorIcon': string;
   'errorsList': string;
+  'filterBar': string;
   'hasError': string;
   'header': string;
   'headerWrapper': string;
+  'healthChips': string;
   'highlightedQna': string;
+  'importRowErrors': string;
   'initialLoading': string;
   'input': string;
   'items': string;
@@ -22,8 +29,12 @@ interface CssExports {
   'qnaId': string;
   'questionHeader': string;
   'questionWrapper': string;
+  'recentImport': string;
+  'recentImports': string;
   'redirectTitle': string;
   'refTitle': string;
+  'richVariation': string;
+  'richVariationSummary': string;
   'right': string;
   'searchWrapper': string;
   'tag': string;
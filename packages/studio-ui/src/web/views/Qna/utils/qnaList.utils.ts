@@ -1,5 +1,6 @@
 import axios from 'axios'
 import { lang } from 'botpress/shared'
+import { createAnswer, hasVariations, removeEmptyVariations } from 'common/qna-answers'
 import { QnaItem } from 'common/typings'
 import _ from 'lodash'
 import _uniqueId from 'lodash/uniqueId'
@@ -49,7 +50,7 @@ export const itemHasError = (qnaItem: QnaItem, currentLang: string): string[] =>
   if (!hasPopulatedLang(data.questions)) {
     errors.push(lang.tr('qna.form.missingQuestion'))
   }
-  if (!hasPopulatedLang(data.answers) && !data.redirectFlow && !data.redirectNode) {
+  if (!_.some(data.answers, hasVariations) && !data.redirectFlow && !data.redirectNode) {
     errors.push(lang.tr('qna.form.missingAnswer'))
   }
   if (hasDuplicateQuestions.length) {
@@ -69,7 +70,7 @@ export const dispatchMiddleware = async (dispatch, action) => {
 
       if (!itemHasError(qnaItem, currentLang).length) {
         const { answers, questions, redirectFlow, redirectNode } = qnaItem.data
-        const hasAnswers = hasPopulatedLang(answers)
+        const hasAnswers = _.some(answers, hasVariations)
         const hasRedirect = redirectFlow || redirectNode
         let action = 'text'
 
@@ -82,12 +83,7 @@ export const dispatchMiddleware = async (dispatch, action) => {
         const cleanData = {
           ...qnaItem.data,
           action,
-          answers: {
-            ...Object.keys(answers).reduce(
-              (acc, lang) => ({ ...acc, [lang]: [...answers[lang].filter((entry) => !!entry.trim().length)] }),
-              {}
-            )
-          },
+          answers: _.mapValues(answers, removeEmptyVariations),
           questions: {
             ...Object.keys(questions).reduce(
               (acc, lang) => ({ ...acc, [lang]: [...questions[lang].filter((entry) => !!entry.trim().length)] }),
@@ -207,7 +203,7 @@ export const fetchReducer = (state: State, action): State => {
         action: 'text',
         contexts,
         enabled: true,
-        answers: _.cloneDeep(languageArrays),
+        answers: languages.reduce((acc, lang) => ({ ...acc, [lang]: createAnswer() }), {}),
         questions: _.cloneDeep(languageArrays),
         redirectFlow: '',
         redirectNode: ''
@@ -99,6 +99,10 @@ const webConfig = {
               {
                 source: path.resolve(__dirname, './src/web/external'),
                 destination: path.resolve(__dirname, './public/external')
+              },
+              {
+                source: path.join(path.dirname(require.resolve('monaco-editor/package.json')), 'min/vs'),
+                destination: path.resolve(__dirname, './public/monaco/vs')
               }
             ]
           }